@@ -1,6 +1,11 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { Logger } from './logger';
+import { encryptionManager } from './encryption';
+import { getEnvironmentDir } from './acme-environment';
+import { splitPemCertificates } from './utils/pem';
+import { AcmeEnvironment } from './types';
 
 export interface LetsEncryptAccount {
   account: {
@@ -27,7 +32,7 @@ export interface LetsEncryptAccount {
 export interface CertificateAccount {
   connectionId: number;
   domain: string;
-  provider: 'letsencrypt' | 'zerossl';
+  provider: string;
   account_data: LetsEncryptAccount | any;
   created_at: Date;
   updated_at: Date;
@@ -51,13 +56,9 @@ export class AccountManager {
     }
   }
 
-  private getAccountPath(connectionId: number, provider: string): string {
+  private getAccountPath(connectionId: number, provider: string, environment: AcmeEnvironment): string {
     // Create connection ID directory structure with staging/prod subdirectories
-    const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-    const envDir = isStaging ? 'staging' : 'prod';
-    const connectionDir = path.join(this.accountsDir, `connection-${connectionId}`, envDir);
-    this.ensureDirectoryExists(connectionDir);
-    return path.join(connectionDir, `${provider}.json`);
+    return path.join(this.getConnectionEnvDir(connectionId, environment), `${provider}.json`);
   }
 
   private getConnectionDir(connectionId: number): string {
@@ -66,25 +67,29 @@ export class AccountManager {
     return connectionDir;
   }
 
-  private getConnectionEnvDir(connectionId: number): string {
-    // Get connection directory with environment subdirectory for certificates/CSRs
-    const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-    const envDir = isStaging ? 'staging' : 'prod';
-    const connectionEnvDir = path.join(this.accountsDir, `connection-${connectionId}`, envDir);
+  private getConnectionEnvDir(connectionId: number, environment: AcmeEnvironment, service?: string): string {
+    // Get connection directory with environment subdirectory for certificates/CSRs; additional VOS services get their own below it
+    const envDir = path.join(this.accountsDir, `connection-${connectionId}`, getEnvironmentDir(environment));
+    const connectionEnvDir = service ? path.join(envDir, 'services', service) : envDir;
     this.ensureDirectoryExists(connectionEnvDir);
     return connectionEnvDir;
   }
 
 
   // Helper method to get certificate file path for a specific connection
-  getCertificateFilePath(connectionId: number, filename: string): string {
-    const connectionEnvDir = this.getConnectionEnvDir(connectionId);
+  getCertificateFilePath(connectionId: number, filename: string, environment: AcmeEnvironment, service?: string): string {
+    const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment, service);
     return path.join(connectionEnvDir, filename);
   }
 
+  // Every issued certificate is also kept in its own directory, so earlier ones can be downloaded or redeployed
+  getCertificateVersionDir(connectionId: number, environment: AcmeEnvironment, serialNumber: string): string {
+    return path.join(this.getConnectionEnvDir(connectionId, environment), 'history', serialNumber);
+  }
+
   // Helper method to check if certificate files exist for a connection
-  async hasCertificateFiles(connectionId: number): Promise<boolean> {
-    const connectionEnvDir = this.getConnectionEnvDir(connectionId);
+  async hasCertificateFiles(connectionId: number, environment: AcmeEnvironment): Promise<boolean> {
+    const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment);
     const certPath = path.join(connectionEnvDir, 'certificate.pem');
     const keyPath = path.join(connectionEnvDir, 'private_key.pem');
     
@@ -92,7 +97,7 @@ export class AccountManager {
   }
 
 
-  async saveAccount(connectionId: number, domain: string, provider: 'letsencrypt' | 'zerossl', accountData: any): Promise<void> {
+  async saveAccount(connectionId: number, domain: string, provider: string, accountData: any, environment: AcmeEnvironment): Promise<void> {
     try {
       const account: CertificateAccount = {
         connectionId,
@@ -103,29 +108,30 @@ export class AccountManager {
         updated_at: new Date()
       };
 
-      const accountPath = this.getAccountPath(connectionId, provider);
-      await fs.promises.writeFile(accountPath, JSON.stringify(account, null, 2));
+      const accountPath = this.getAccountPath(connectionId, provider, environment);
+      // Account files hold the ACME account key, so they are encrypted at rest
+      await encryptionManager.writeFile(accountPath, JSON.stringify(account, null, 2));
       
-      Logger.info(`Saved ${provider} account for connection ${connectionId} (${domain})`);
+      Logger.info(`Saved ${provider} account for connection ${connectionId} (${domain}) (${environment})`);
     } catch (error) {
       Logger.error(`Failed to save account for connection ${connectionId} (${domain}):`, error);
       throw error;
     }
   }
 
-  async loadAccount(connectionId: number, domain: string, provider: 'letsencrypt' | 'zerossl'): Promise<CertificateAccount | null> {
+  async loadAccount(connectionId: number, domain: string, provider: string, environment: AcmeEnvironment): Promise<CertificateAccount | null> {
     try {
-      const accountPath = this.getAccountPath(connectionId, provider);
+      const accountPath = this.getAccountPath(connectionId, provider, environment);
       
       if (!fs.existsSync(accountPath)) {
-        Logger.debug(`No account file found for connection ${connectionId} (${domain}) with provider ${provider}`);
+        Logger.debug(`No ${environment} account file found for connection ${connectionId} (${domain}) with provider ${provider}`);
         return null;
       }
 
-      const accountData = await fs.promises.readFile(accountPath, 'utf8');
+      const accountData = await encryptionManager.readFile(accountPath);
       const account: CertificateAccount = JSON.parse(accountData);
       
-      Logger.info(`Loaded ${provider} account for connection ${connectionId} (${domain})`);
+      Logger.info(`Loaded ${provider} account for connection ${connectionId} (${domain}) (${environment})`);
       return account;
     } catch (error) {
       Logger.error(`Failed to load account for connection ${connectionId} (${domain}):`, error);
@@ -133,9 +139,9 @@ export class AccountManager {
     }
   }
 
-  async updateAccount(connectionId: number, domain: string, provider: 'letsencrypt' | 'zerossl', updates: Partial<any>): Promise<void> {
+  async updateAccount(connectionId: number, domain: string, provider: string, updates: Partial<any>, environment: AcmeEnvironment): Promise<void> {
     try {
-      const account = await this.loadAccount(connectionId, domain, provider);
+      const account = await this.loadAccount(connectionId, domain, provider, environment);
       if (!account) {
         throw new Error(`Account not found for connection ${connectionId} (${domain}) with provider ${provider}`);
       }
@@ -144,7 +150,7 @@ export class AccountManager {
       account.account_data = { ...account.account_data, ...updates };
       account.updated_at = new Date();
 
-      await this.saveAccount(connectionId, domain, provider, account.account_data);
+      await this.saveAccount(connectionId, domain, provider, account.account_data, environment);
       Logger.info(`Updated ${provider} account for connection ${connectionId} (${domain})`);
     } catch (error) {
       Logger.error(`Failed to update account for connection ${connectionId} (${domain}):`, error);
@@ -152,39 +158,32 @@ export class AccountManager {
     }
   }
 
-  async saveCertificate(connectionId: number, domain: string, certificate: string, privateKey: string): Promise<void> {
+  async saveCertificate(connectionId: number, domain: string, certificate: string, privateKey: string, environment: AcmeEnvironment): Promise<void> {
     try {
-      const connectionEnvDir = this.getConnectionEnvDir(connectionId);
+      const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment);
       const certPath = path.join(connectionEnvDir, 'certificate.pem');
       const keyPath = path.join(connectionEnvDir, 'private_key.pem');
 
       await fs.promises.writeFile(certPath, certificate);
-      await fs.promises.writeFile(keyPath, privateKey);
+      await encryptionManager.writeFile(keyPath, privateKey);
       
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envType = isStaging ? 'staging' : 'production';
-      Logger.info(`Saved certificate and private key for connection ${connectionId} (${domain}) (${envType})`);
+      Logger.info(`Saved certificate and private key for connection ${connectionId} (${domain}) (${environment})`);
     } catch (error) {
       Logger.error(`Failed to save certificate for connection ${connectionId} (${domain}):`, error);
       throw error;
     }
   }
 
-  async saveCertificateChain(connectionId: number, domain: string, fullChainData: string, privateKey: string): Promise<void> {
+  async saveCertificateChain(connectionId: number, domain: string, fullChainData: string, privateKey: string, environment: AcmeEnvironment, service?: string): Promise<void> {
     try {
-      const connectionEnvDir = this.getConnectionEnvDir(connectionId);
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envType = isStaging ? 'staging' : 'production';
+      const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment, service);
 
       // Save the complete chain
       const fullChainPath = path.join(connectionEnvDir, 'fullchain.pem');
       await fs.promises.writeFile(fullChainPath, fullChainData);
 
       // Parse and extract individual certificates
-      const certParts = fullChainData.split('-----END CERTIFICATE-----');
-      const certificates = certParts
-        .filter(part => part.includes('-----BEGIN CERTIFICATE-----'))
-        .map(part => part.trim() + '\n-----END CERTIFICATE-----');
+      const certificates = splitPemCertificates(fullChainData);
 
       if (certificates.length === 0) {
         throw new Error('No certificates found in chain data');
@@ -196,7 +195,7 @@ export class AccountManager {
       
       // Save individual certificate files
       await fs.promises.writeFile(path.join(connectionEnvDir, 'certificate.pem'), leafCert);
-      await fs.promises.writeFile(path.join(connectionEnvDir, 'private_key.pem'), privateKey);
+      await encryptionManager.writeFile(path.join(connectionEnvDir, 'private_key.pem'), privateKey);
 
       // Save chain certificates (intermediate + root)
       if (chainCerts.length > 0) {
@@ -232,11 +231,23 @@ export class AccountManager {
         await fs.promises.writeFile(path.join(connectionEnvDir, 'ca-bundle.crt'), chainData);
       }
 
-      // Create application-friendly formats
+      // Create application-friendly formats. The private key is only kept encrypted in private_key.pem, the
+      // private key download decrypts it; drop the encrypted copy earlier versions wrote next to it
       await fs.promises.writeFile(path.join(connectionEnvDir, `${domain}.crt`), leafCert);
-      await fs.promises.writeFile(path.join(connectionEnvDir, `${domain}.key`), privateKey);
+      await fs.promises.rm(path.join(connectionEnvDir, `${domain}.key`), { force: true });
+
+      const versionDir = this.getCertificateVersionDir(connectionId, environment, new crypto.X509Certificate(leafCert).serialNumber);
+      await fs.promises.mkdir(versionDir, { recursive: true });
+      await fs.promises.writeFile(path.join(versionDir, 'fullchain.pem'), fullChainData);
+      await fs.promises.writeFile(path.join(versionDir, 'certificate.pem'), leafCert);
+      if (chainCerts.length > 0) {
+        await fs.promises.writeFile(path.join(versionDir, 'chain.pem'), chainCerts.join('\n'));
+      }
+      if (privateKey.trim()) {
+        await encryptionManager.writeFile(path.join(versionDir, 'private_key.pem'), privateKey);
+      }
 
-      Logger.info(`Saved complete certificate chain for connection ${connectionId} (${domain}) (${envType})`);
+      Logger.info(`Saved complete certificate chain for connection ${connectionId} (${domain}) (${environment})`);
       Logger.info(`Certificate files: certificate.pem, ${domain}.crt, intermediate.crt, root.crt, ca-bundle.crt`);
 
     } catch (error) {
@@ -245,23 +256,21 @@ export class AccountManager {
     }
   }
 
-  async loadCertificate(connectionId: number, domain: string): Promise<{ certificate: string; privateKey: string } | null> {
+  async loadCertificate(connectionId: number, domain: string, environment: AcmeEnvironment, service?: string): Promise<{ certificate: string; privateKey: string } | null> {
     try {
-      const connectionEnvDir = this.getConnectionEnvDir(connectionId);
+      const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment, service);
       const certPath = path.join(connectionEnvDir, 'certificate.pem');
       const keyPath = path.join(connectionEnvDir, 'private_key.pem');
 
       if (!fs.existsSync(certPath) || !fs.existsSync(keyPath)) {
-        Logger.debug(`Certificate files not found for connection ${connectionId} (${domain}) in current environment`);
+        Logger.debug(`Certificate files not found for connection ${connectionId} (${domain}) in ${environment} environment`);
         return null;
       }
 
       const certificate = await fs.promises.readFile(certPath, 'utf8');
-      const privateKey = await fs.promises.readFile(keyPath, 'utf8');
+      const privateKey = await encryptionManager.readFile(keyPath);
       
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envType = isStaging ? 'staging' : 'production';
-      Logger.info(`Loaded certificate and private key for connection ${connectionId} (${domain}) (${envType})`);
+      Logger.info(`Loaded certificate and private key for connection ${connectionId} (${domain}) (${environment})`);
       return { certificate, privateKey };
     } catch (error) {
       Logger.error(`Failed to load certificate for connection ${connectionId} (${domain}):`, error);
@@ -269,37 +278,33 @@ export class AccountManager {
     }
   }
 
-  async saveCSR(connectionId: number, domain: string, csr: string): Promise<void> {
+  async saveCSR(connectionId: number, domain: string, csr: string, environment: AcmeEnvironment, service?: string): Promise<void> {
     try {
-      const connectionEnvDir = this.getConnectionEnvDir(connectionId);
+      const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment, service);
       const csrPath = path.join(connectionEnvDir, 'certificate.csr');
 
       await fs.promises.writeFile(csrPath, csr);
       
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envType = isStaging ? 'staging' : 'production';
-      Logger.info(`Saved CSR for connection ${connectionId} (${domain}) (${envType})`);
+      Logger.info(`Saved CSR for connection ${connectionId} (${domain}) (${environment})`);
     } catch (error) {
       Logger.error(`Failed to save CSR for connection ${connectionId} (${domain}):`, error);
       throw error;
     }
   }
 
-  async loadCSR(connectionId: number, domain: string): Promise<string | null> {
+  async loadCSR(connectionId: number, domain: string, environment: AcmeEnvironment, service?: string): Promise<string | null> {
     try {
-      const connectionEnvDir = this.getConnectionEnvDir(connectionId);
+      const connectionEnvDir = this.getConnectionEnvDir(connectionId, environment, service);
       const csrPath = path.join(connectionEnvDir, 'certificate.csr');
 
       if (!fs.existsSync(csrPath)) {
-        Logger.debug(`CSR file not found for connection ${connectionId} (${domain}) in current environment`);
+        Logger.debug(`CSR file not found for connection ${connectionId} (${domain}) in ${environment} environment`);
         return null;
       }
 
       const csr = await fs.promises.readFile(csrPath, 'utf8');
       
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envType = isStaging ? 'staging' : 'production';
-      Logger.info(`Loaded CSR for connection ${connectionId} (${domain}) (${envType})`);
+      Logger.info(`Loaded CSR for connection ${connectionId} (${domain}) (${environment})`);
       return csr;
     } catch (error) {
       Logger.error(`Failed to load CSR for connection ${connectionId} (${domain}):`, error);
@@ -307,6 +312,34 @@ export class AccountManager {
     }
   }
 
+  // Key of a CSR generated here (Expressway), until the certificate issued for it is saved with it
+  async saveCSRPrivateKey(connectionId: number, domain: string, privateKey: string, environment: AcmeEnvironment, service?: string): Promise<void> {
+    try {
+      const keyPath = path.join(this.getConnectionEnvDir(connectionId, environment, service), 'certificate.csr.key');
+      await encryptionManager.writeFile(keyPath, privateKey);
+
+      Logger.info(`Saved CSR private key for connection ${connectionId} (${domain}) (${environment})`);
+    } catch (error) {
+      Logger.error(`Failed to save CSR private key for connection ${connectionId} (${domain}):`, error);
+      throw error;
+    }
+  }
+
+  async loadCSRPrivateKey(connectionId: number, domain: string, environment: AcmeEnvironment, service?: string): Promise<string | null> {
+    try {
+      const keyPath = path.join(this.getConnectionEnvDir(connectionId, environment, service), 'certificate.csr.key');
+      if (!fs.existsSync(keyPath)) {
+        Logger.debug(`CSR private key not found for connection ${connectionId} (${domain}) in ${environment} environment`);
+        return null;
+      }
+
+      return await encryptionManager.readFile(keyPath);
+    } catch (error) {
+      Logger.error(`Failed to load CSR private key for connection ${connectionId} (${domain}):`, error);
+      return null;
+    }
+  }
+
   async saveRenewalLog(connectionId: number, domain: string, log: string): Promise<void> {
     try {
       const connectionDir = this.getConnectionDir(connectionId);
@@ -367,9 +400,9 @@ export class AccountManager {
     }
   }
 
-  async deleteAccount(connectionId: number, domain: string, provider: 'letsencrypt' | 'zerossl'): Promise<void> {
+  async deleteAccount(connectionId: number, domain: string, provider: string, environment: AcmeEnvironment): Promise<void> {
     try {
-      const accountPath = this.getAccountPath(connectionId, provider);
+      const accountPath = this.getAccountPath(connectionId, provider, environment);
       
       if (fs.existsSync(accountPath)) {
         await fs.promises.unlink(accountPath);
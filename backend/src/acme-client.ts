@@ -1,6 +1,12 @@
 import acme from 'acme-client';
+import axios from 'axios';
 import { Logger } from './logger';
 import { accountManager } from './account-manager';
+import { getAcmeEnvironment, getEnvironmentLabel } from './acme-environment';
+import { DatabaseManager } from './database';
+import { AcmeDirectory, getAcmeCaId, resolveAcmeDirectory } from './ssl-providers/registry';
+import { AcmeRenewalInfo, parseRetryAfter } from './renewal-info';
+import { AcmeChallengeType, AcmeEnvironment, ConnectionRecord } from './types';
 
 export interface ACMEAccount {
   accountKey: string;
@@ -18,46 +24,49 @@ export interface CertificateOrder {
 
 export class ACMEClient {
   private client: acme.Client;
-  private isStaging: boolean;
+  private environment: AcmeEnvironment;
+  private directory: AcmeDirectory;
 
-  constructor(isStaging: boolean = false) {
-    this.isStaging = isStaging;
-    const directoryUrl = isStaging
-      ? acme.directory.letsencrypt.staging
-      : acme.directory.letsencrypt.production;
+  constructor(environment: AcmeEnvironment, directory: AcmeDirectory) {
+    this.environment = environment;
+    this.directory = directory;
     
     // Client will be initialized when account is loaded/created
     this.client = null as any;
   }
 
+  getDirectory(): AcmeDirectory {
+    return this.directory;
+  }
 
-  async createAccount(email: string, domain: string, connectionId: number): Promise<ACMEAccount> {
+  async createAccount(domain: string, connectionId: number): Promise<ACMEAccount> {
+    const { caName, email } = this.directory;
     try {
-      Logger.info(`Creating Let's Encrypt account for ${email} (domain: ${domain})`);
+      Logger.info(`Creating ${caName} account for ${email || 'no contact'} (domain: ${domain})`);
       
       // Generate account key
       const accountKey = await acme.forge.createPrivateKey();
       
-      // Update client with account key
+      // Update client with account key; EAB binds the new account to one the CA already knows
       this.client = new acme.Client({
-        directoryUrl: this.isStaging
-          ? acme.directory.letsencrypt.staging
-          : acme.directory.letsencrypt.production,
-        accountKey
+        directoryUrl: this.directory.directoryUrl,
+        accountKey,
+        externalAccountBinding: this.directory.externalAccountBinding
       });
 
-      // Create account with Let's Encrypt (with timeout)
-      Logger.info(`Creating Let's Encrypt account for ${email}`);
+      // Create account with the CA (with timeout)
+      Logger.info(`Creating ${caName} account at ${this.directory.directoryUrl}`);
       const accountPromise = this.client.createAccount({
         termsOfServiceAgreed: true,
-        contact: [`mailto:${email}`]
+        contact: email ? [`mailto:${email}`] : undefined
       });
       
-      const accountTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Account creation timeout after 30 seconds')), 30000)
-      );
+      let timer: NodeJS.Timeout | undefined;
+      const accountTimeoutPromise = new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Account creation timeout after 30 seconds')), 30000);
+      });
       
-      const account = await Promise.race([accountPromise, accountTimeoutPromise]);
+      const account = await Promise.race([accountPromise, accountTimeoutPromise]).finally(() => clearTimeout(timer));
 
       Logger.info(`Account creation response:`, account);
       
@@ -82,28 +91,26 @@ export class ACMEClient {
       const acmeAccount: ACMEAccount = {
         accountKey: accountKey.toString(),
         accountUrl: accountUrl,
-        email,
-        directory: this.isStaging
-          ? acme.directory.letsencrypt.staging
-          : acme.directory.letsencrypt.production
+        email: email || '',
+        directory: this.directory.directoryUrl
       };
       
       Logger.info(`Account created with URL: ${acmeAccount.accountUrl}`);
 
       // Save account to file system
-      await accountManager.saveAccount(connectionId, domain, 'letsencrypt', acmeAccount);
+      await accountManager.saveAccount(connectionId, domain, this.directory.caId, acmeAccount, this.environment);
       
-      Logger.info(`Successfully created Let's Encrypt account for ${email}`);
+      Logger.info(`Successfully created ${caName} account for ${domain}`);
       return acmeAccount;
     } catch (error) {
-      Logger.error(`Failed to create Let's Encrypt account for ${email}:`, error);
+      Logger.error(`Failed to create ${caName} account for ${domain}:`, error);
       throw error;
     }
   }
 
   async loadAccount(domain: string, connectionId: number): Promise<ACMEAccount | null> {
     try {
-      const savedAccount = await accountManager.loadAccount(connectionId, domain, 'letsencrypt');
+      const savedAccount = await accountManager.loadAccount(connectionId, domain, this.directory.caId, this.environment);
       
       if (!savedAccount) {
         return null;
@@ -111,6 +118,12 @@ export class ACMEClient {
 
       const acmeAccount = savedAccount.account_data as ACMEAccount;
       
+      // Accounts belong to one directory; a changed URL needs a new account
+      if (acmeAccount.directory !== this.directory.directoryUrl) {
+        Logger.info(`Saved account for ${domain} is for ${acmeAccount.directory}, not ${this.directory.directoryUrl}`);
+        return null;
+      }
+      
       Logger.info(`Loading account for domain: ${domain}`);
       Logger.info(`Account URL: ${acmeAccount.accountUrl}`);
       Logger.info(`Account directory: ${acmeAccount.directory}`);
@@ -123,15 +136,15 @@ export class ACMEClient {
         accountUrl: acmeAccount.accountUrl || undefined
       });
 
-      Logger.info(`Loaded Let's Encrypt account for domain: ${domain}`);
+      Logger.info(`Loaded ${this.directory.caName} account for domain: ${domain}`);
       return acmeAccount;
     } catch (error) {
-      Logger.error(`Failed to load Let's Encrypt account for ${domain}:`, error);
+      Logger.error(`Failed to load ${this.directory.caName} account for ${domain}:`, error);
       return null;
     }
   }
 
-  async requestCertificate(csr: string, domains: string[]): Promise<CertificateOrder> {
+  async requestCertificate(csr: string, domains: string[], challengeType: AcmeChallengeType = 'dns-01', replaces?: string): Promise<CertificateOrder> {
     try {
       Logger.info(`Requesting certificate for domains: ${domains.join(', ')}`);
       
@@ -145,49 +158,29 @@ export class ACMEClient {
       
       // Create certificate order with timeout
       Logger.info(`Creating certificate order for domains: ${domains.join(', ')}`);
-      Logger.info(`Using ACME directory: ${this.isStaging ? 'STAGING' : 'PRODUCTION'}`);
+      Logger.info(`Using ACME directory: ${this.directory.directoryUrl} (${getEnvironmentLabel(this.environment)})`);
       
-      const orderPromise = this.client.createOrder({
-        identifiers: domains.map(domain => ({
-          type: 'dns',
-          value: domain
-        }))
-      });
+      const identifiers = domains.map(domain => ({
+        type: 'dns',
+        value: domain
+      }));
       
-      const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => {
-          Logger.error('Order creation timeout after 15 seconds');
-          reject(new Error('Order creation timeout after 15 seconds - Let\'s Encrypt API may be slow'));
-        }, 15000)
-      );
-      
-      Logger.info('Waiting for order creation response...');
-      const order = await Promise.race([orderPromise, timeoutPromise]) as any;
-      Logger.info(`Created certificate order: ${order.url}`);
-
-      // Get authorizations and challenges with timeout
-      Logger.info(`Getting authorizations for order: ${order.url}`);
-      const authPromise = this.client.getAuthorizations(order);
-      const authTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Authorization retrieval timeout after 30 seconds')), 30000)
-      );
-      
-      const authorizations = await Promise.race([authPromise, authTimeoutPromise]) as any;
-      const challenges: any[] = [];
-
-      for (const authorization of authorizations) {
-        // Look for DNS-01 challenge
-        const dnsChallenge = authorization.challenges.find(
-          (challenge: any) => challenge.type === 'dns-01'
-        );
-        
-        if (dnsChallenge) {
-          challenges.push(dnsChallenge);
-          Logger.info(`Found DNS-01 challenge for ${authorization.identifier.value}`);
-        } else {
-          throw new Error(`No DNS-01 challenge found for ${authorization.identifier.value}`);
+      let order: any;
+      if (replaces && await this.hasRenewalInfo()) {
+        // The CA refuses `replaces` for a certificate it didn't issue or that was already replaced
+        try {
+          Logger.info(`Order replaces certificate ${replaces}`);
+          order = await this.createOrder({ identifiers, replaces });
+        } catch (error) {
+          Logger.warn(`${this.directory.caName} rejected the order replacing ${replaces}, ordering without it:`, error);
         }
       }
+      if (!order) {
+        order = await this.createOrder({ identifiers });
+      }
+      Logger.info(`Created certificate order: ${order.url}`);
+
+      const challenges = await this.getPendingChallenges(order, challengeType);
 
       return {
         order,
@@ -202,6 +195,127 @@ export class ACMEClient {
     }
   }
 
+  private async createOrder(data: { identifiers: { type: string; value: string }[]; replaces?: string }): Promise<any> {
+    const orderPromise = this.client.createOrder(data as any);
+    
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise((_, reject) => {
+      timer = setTimeout(() => {
+        Logger.error('Order creation timeout after 15 seconds');
+        reject(new Error(`Order creation timeout after 15 seconds - ${this.directory.caName} API may be slow`));
+      }, 15000);
+    });
+    
+    Logger.info('Waiting for order creation response...');
+    return Promise.race([orderPromise, timeoutPromise]).finally(() => clearTimeout(timer));
+  }
+
+  // Whether the CA implements ARI, from the directory acme-client has already fetched
+  private async hasRenewalInfo(): Promise<boolean> {
+    const directory = await (this.client as any).api.http.getDirectory();
+    return !!directory?.renewalInfo;
+  }
+
+  /**
+   * Suggested renewal window for an issued certificate (RFC 9773). Returns
+   * null when the CA's directory has no `renewalInfo` endpoint; no account
+   * is needed.
+   */
+  async getRenewalInfo(certId: string): Promise<AcmeRenewalInfo | null> {
+    const directory = (await axios.get(this.directory.directoryUrl, { timeout: 15000 })).data;
+    if (!directory?.renewalInfo) {
+      return null;
+    }
+
+    const response = await axios.get(`${String(directory.renewalInfo).replace(/\/$/, '')}/${certId}`, { timeout: 15000 });
+    const suggestedWindow = response.data?.suggestedWindow;
+    const start = new Date(suggestedWindow?.start);
+    const end = new Date(suggestedWindow?.end);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new Error(`${this.directory.caName} returned an invalid renewal window for ${certId}`);
+    }
+
+    return {
+      certId,
+      window: { start, end },
+      explanationUrl: response.data.explanationURL,
+      retryAfter: parseRetryAfter(response.headers['retry-after'])
+    };
+  }
+
+  /**
+   * Pick up an order placed by an earlier, interrupted renewal. Returns null
+   * when the order can't be continued: it is invalid, expired, already
+   * finalized or for different domains.
+   */
+  async resumeOrder(orderUrl: string, csr: string, domains: string[], challengeType: AcmeChallengeType = 'dns-01'): Promise<CertificateOrder | null> {
+    if (!this.client) {
+      throw new Error('ACME client not initialized. Please load or create an account first.');
+    }
+
+    const order = await this.client.getOrder({ url: orderUrl } as any);
+    Logger.info(`Existing order ${orderUrl} has status: ${order.status}`);
+
+    if (!['pending', 'ready'].includes(order.status)) {
+      return null;
+    }
+    if (order.expires && new Date(order.expires).getTime() <= Date.now()) {
+      return null;
+    }
+
+    const orderDomains = order.identifiers.map((identifier: any) => identifier.value).sort();
+    if (orderDomains.join(',') !== [...domains].sort().join(',')) {
+      Logger.info(`Existing order ${orderUrl} is for ${orderDomains.join(', ')}, not ${domains.join(', ')}`);
+      return null;
+    }
+
+    const challenges = await this.getPendingChallenges(order, challengeType);
+    return {
+      order,
+      csr,
+      domains,
+      challenges
+    };
+  }
+
+  // Challenges for the order's authorizations that haven't been validated yet
+  private async getPendingChallenges(order: any, challengeType: AcmeChallengeType): Promise<any[]> {
+    // Get authorizations and challenges with timeout
+    Logger.info(`Getting authorizations for order: ${order.url}`);
+    const authPromise = this.client.getAuthorizations(order);
+    let timer: NodeJS.Timeout | undefined;
+    const authTimeoutPromise = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Authorization retrieval timeout after 30 seconds')), 30000);
+    });
+    
+    const authorizations = await Promise.race([authPromise, authTimeoutPromise]).finally(() => clearTimeout(timer)) as any;
+    const challenges: any[] = [];
+
+    for (const authorization of authorizations) {
+      // Authorizations the CA already validated (e.g. reused from a recent order) need no challenge
+      if (authorization.status === 'valid') {
+        Logger.info(`Authorization for ${authorization.identifier.value} is already valid`);
+        continue;
+      }
+      
+      // Pick the challenge type the connection is set up for
+      const matchingChallenge = authorization.challenges.find(
+        (challenge: any) => challenge.type === challengeType
+      );
+      
+      if (matchingChallenge) {
+        // Keep the identifier so the record or token is published under the right name
+        challenges.push({ ...matchingChallenge, domain: authorization.identifier.value });
+        Logger.info(`Found ${challengeType.toUpperCase()} challenge for ${authorization.identifier.value}`);
+      } else {
+        // Wildcard identifiers are only ever offered DNS-01
+        throw new Error(`No ${challengeType.toUpperCase()} challenge found for ${authorization.wildcard ? '*.' : ''}${authorization.identifier.value}`);
+      }
+    }
+
+    return challenges;
+  }
+
   async getChallengeKeyAuthorization(challenge: any): Promise<string> {
     try {
       const keyAuthorization = await this.client.getChallengeKeyAuthorization(challenge);
@@ -214,7 +328,7 @@ export class ACMEClient {
 
   async completeChallenge(challenge: any): Promise<void> {
     try {
-      Logger.info(`Completing DNS-01 challenge for ${challenge.url}`);
+      Logger.info(`Completing ${String(challenge.type || 'dns-01').toUpperCase()} challenge for ${challenge.url}`);
       
       // Complete challenge
       await this.client.completeChallenge(challenge);
@@ -299,11 +413,16 @@ export class ACMEClient {
     }
   }
 
-  async revokeCertificate(certificate: string, reason?: any): Promise<void> {
+  // Revocation signed with the account key; the account must be the one that issued the certificate
+  async revokeCertificate(certificate: string, reason?: number): Promise<void> {
     try {
-      Logger.info('Revoking certificate');
+      Logger.info(`Revoking certificate with ${this.directory.caName} account key`);
+      
+      if (!this.client) {
+        throw new Error('ACME client not initialized. Please load or create an account first.');
+      }
       
-      await this.client.revokeCertificate(certificate, reason);
+      await this.client.revokeCertificate(certificate, reason === undefined ? {} : { reason });
       
       Logger.info('Successfully revoked certificate');
     } catch (error) {
@@ -312,6 +431,30 @@ export class ACMEClient {
     }
   }
 
+  // Revocation signed with the certificate's own private key, no account needed (RFC 8555 section 7.6)
+  async revokeCertificateWithKey(certificate: string, privateKey: string, reason?: number): Promise<void> {
+    try {
+      Logger.info('Revoking certificate with its private key');
+      
+      const keyClient = new acme.Client({
+        directoryUrl: this.directory.directoryUrl,
+        accountKey: privateKey
+      });
+      const payload: { certificate: string; reason?: number } = { certificate: acme.crypto.getPemBodyAsB64u(certificate) };
+      if (reason !== undefined) {
+        payload.reason = reason;
+      }
+      
+      // acme-client only signs revocations with an account, so send the request with the key's JWK instead of a KID
+      await (keyClient as any).api.apiResourceRequest('revokeCert', payload, [200], { includeJwsKid: false });
+      
+      Logger.info('Successfully revoked certificate');
+    } catch (error) {
+      Logger.error('Failed to revoke certificate with its private key:', error);
+      throw error;
+    }
+  }
+
   // Helper method to get DNS TXT record value for challenge
   getDNSRecordValue(keyAuthorization: string): string {
     // According to ACME RFC 8555, the DNS TXT record value should be
@@ -322,7 +465,12 @@ export class ACMEClient {
   }
 }
 
-// Create client based on LETSENCRYPT_STAGING environment variable
-// Defaults to staging (true) for safety unless explicitly set to 'false'
-const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-export const acmeClient = new ACMEClient(isStaging);
\ No newline at end of file
+/**
+ * A new client for one connection. Clients hold the loaded account key, so
+ * every renewal and account check gets its own instead of sharing one.
+ */
+export async function createAcmeClient(database: DatabaseManager, connection: Partial<ConnectionRecord>): Promise<ACMEClient> {
+  const environment = getAcmeEnvironment(connection);
+  const directory = await resolveAcmeDirectory(database, getAcmeCaId(connection), environment);
+  return new ACMEClient(environment, directory);
+}
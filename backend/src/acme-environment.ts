@@ -0,0 +1,42 @@
+import { getAcmeCaDefinition, getAcmeCaId } from './ssl-providers/registry';
+import { AcmeEnvironment, ConnectionRecord } from './types';
+
+/**
+ * ACME environment per connection. Accounts, certificates and CSRs are kept
+ * apart under `accounts/connection-<id>/<staging|prod>/`, so lab connections
+ * can stay on staging while production connections use the production CA.
+ */
+export const ACME_ENVIRONMENTS: AcmeEnvironment[] = ['staging', 'production'];
+
+/**
+ * Environment for connections without their own setting: staging unless
+ * LETSENCRYPT_STAGING is explicitly 'false'
+ */
+export function getDefaultAcmeEnvironment(): AcmeEnvironment {
+  return process.env.LETSENCRYPT_STAGING !== 'false' ? 'staging' : 'production';
+}
+
+/**
+ * Environment a connection issues from. CAs without a staging directory
+ * always use production.
+ */
+export function getAcmeEnvironment(connection?: Partial<Pick<ConnectionRecord, 'acme_environment' | 'ssl_provider'>> | null): AcmeEnvironment {
+  const definition = connection ? getAcmeCaDefinition(getAcmeCaId(connection)) : undefined;
+  if (definition && !definition.stagingDirectoryUrl) {
+    return 'production';
+  }
+
+  const environment = connection?.acme_environment;
+  return environment === 'staging' || environment === 'production' ? environment : getDefaultAcmeEnvironment();
+}
+
+/**
+ * Subdirectory holding an environment's files
+ */
+export function getEnvironmentDir(environment: AcmeEnvironment): 'staging' | 'prod' {
+  return environment === 'production' ? 'prod' : 'staging';
+}
+
+export function getEnvironmentLabel(environment: AcmeEnvironment): 'STAGING' | 'PRODUCTION' {
+  return environment === 'production' ? 'PRODUCTION' : 'STAGING';
+}
@@ -0,0 +1,136 @@
+import { Request } from 'express';
+import { DatabaseManager, ENCRYPTED_CONNECTION_FIELDS } from './database';
+import { Logger } from './logger';
+import { AuditEventRecord } from './types';
+
+// Fields whose values never appear in the audit trail; only the fact that they changed
+const REDACTED_FIELDS = [...ENCRYPTED_CONNECTION_FIELDS, 'password_hash', 'key_value', 'token', 'token_hash'];
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at'];
+export const REDACTED_VALUE = '[REDACTED]';
+
+export interface AuditEventInput {
+  action: string;
+  targetType: string;
+  targetId?: string | number | null;
+  targetName?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  details?: string;
+}
+
+// SQLite hands back booleans as 0/1 and numbers as strings depending on the column
+const normalize = (value: any): string | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Field-level diff between two records, with secret values redacted
+ */
+export function diffRecords(
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null
+): Record<string, { before: any; after: any }> | null {
+  if (!before && !after) {
+    return null;
+  }
+
+  const changes: Record<string, { before: any; after: any }> = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) {
+      continue;
+    }
+
+    const oldValue = before ? before[field] : undefined;
+    const newValue = after ? after[field] : undefined;
+
+    // A partial update only lists the fields it touches
+    if (before && after && newValue === undefined) {
+      continue;
+    }
+
+    if (normalize(oldValue) === normalize(newValue)) {
+      continue;
+    }
+
+    if (REDACTED_FIELDS.includes(field)) {
+      changes[field] = {
+        before: normalize(oldValue) === null ? null : REDACTED_VALUE,
+        after: normalize(newValue) === null ? null : REDACTED_VALUE
+      };
+    } else {
+      changes[field] = { before: oldValue ?? null, after: newValue ?? null };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * The user or API token behind a request, as recorded in the audit trail
+ */
+export function getRequestActor(req: Request): Pick<AuditEventRecord, 'actor_type' | 'actor_id' | 'actor_name'> {
+  return req.apiToken
+    ? { actor_type: 'api_token', actor_id: req.apiToken.id, actor_name: req.apiToken.name }
+    : req.user
+      ? { actor_type: 'user', actor_id: req.user.id, actor_name: req.user.username }
+      : { actor_type: 'system', actor_id: null, actor_name: 'anonymous' };
+}
+
+export class AuditLogger {
+  private database: DatabaseManager;
+
+  constructor(database: DatabaseManager) {
+    this.database = database;
+  }
+
+  /**
+   * Record an action taken by the user or API token behind the request.
+   * Failures are logged and never fail the request itself.
+   */
+  async record(req: Request, event: AuditEventInput): Promise<void> {
+    await this.save({
+      ...getRequestActor(req),
+      action: event.action,
+      target_type: event.targetType,
+      target_id: event.targetId !== undefined && event.targetId !== null ? String(event.targetId) : null,
+      target_name: event.targetName ?? null,
+      changes: diffRecords(event.before, event.after),
+      details: event.details ?? null,
+      ip_address: req.ip ?? null
+    });
+  }
+
+  /**
+   * Record an action taken by the server itself, e.g. a scheduled renewal
+   */
+  async recordSystem(event: AuditEventInput): Promise<void> {
+    await this.save({
+      actor_type: 'system',
+      actor_id: null,
+      actor_name: 'system',
+      action: event.action,
+      target_type: event.targetType,
+      target_id: event.targetId !== undefined && event.targetId !== null ? String(event.targetId) : null,
+      target_name: event.targetName ?? null,
+      changes: diffRecords(event.before, event.after),
+      details: event.details ?? null,
+      ip_address: null
+    });
+  }
+
+  private async save(event: AuditEventRecord): Promise<void> {
+    try {
+      await this.database.saveAuditEvent(event);
+    } catch (error) {
+      Logger.error(`Failed to record audit event ${event.action} by ${event.actor_name}:`, error);
+    }
+  }
+}
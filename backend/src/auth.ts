@@ -0,0 +1,349 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { DatabaseManager } from './database';
+import { Logger } from './logger';
+import { ApiTokenPrincipal, ApiTokenScope, AuthenticatedUser, UserRole } from './types';
+
+// Attach the authenticated user to Express requests
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+      apiToken?: ApiTokenPrincipal;
+    }
+  }
+}
+
+export const SESSION_COOKIE_NAME = 'netssl_session';
+
+// API tokens look like nst_<id>_<secret>; the id lets us find the bcrypt hash to compare against
+export const API_TOKEN_PREFIX = 'nst_';
+const API_TOKEN_PATTERN = /^nst_(\d+)_([a-f0-9]{64})$/;
+
+// Each role includes the permissions of the roles below it
+const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3
+};
+
+export function hasRole(user: AuthenticatedUser | undefined, requiredRole: UserRole): boolean {
+  if (!user || !ROLE_LEVELS[user.role]) {
+    return false;
+  }
+  return ROLE_LEVELS[user.role] >= ROLE_LEVELS[requiredRole];
+}
+
+/**
+ * Parse a Cookie header into a name/value map
+ */
+export function parseCookies(cookieHeader?: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!cookieHeader) {
+    return cookies;
+  }
+
+  for (const part of cookieHeader.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Extract a session token from either a Bearer Authorization header or the session cookie
+ */
+export function getSessionToken(headers: { authorization?: string; cookie?: string }): string | null {
+  const authorization = headers.authorization;
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  return parseCookies(headers.cookie)[SESSION_COOKIE_NAME] || null;
+}
+
+/**
+ * Check whether an API token may act on a connection. Session users are not restricted.
+ */
+export function canAccessConnection(req: Request, connectionId: number): boolean {
+  if (!req.apiToken || !req.apiToken.connectionIds) {
+    return true;
+  }
+  return req.apiToken.connectionIds.includes(connectionId);
+}
+
+/**
+ * Check the request against a role (session users) or a scope (API tokens).
+ * Endpoints without a scope are not available to API tokens.
+ */
+export function isAuthorized(req: Request, role: UserRole, scope?: ApiTokenScope): boolean {
+  if (req.apiToken) {
+    return !!scope && req.apiToken.scopes.includes(scope);
+  }
+  return hasRole(req.user, role);
+}
+
+/**
+ * Middleware factory rejecting requests whose user does not hold the given role,
+ * or whose API token lacks the given scope. Routes with an `:id` param are
+ * connection routes, so token connection filters are enforced against it.
+ * Must run after AuthManager.authenticate.
+ */
+export function requireRole(role: UserRole, scope?: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user && !req.apiToken) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (req.apiToken) {
+      if (!isAuthorized(req, role, scope)) {
+        Logger.warn(`API token ${req.apiToken.name} denied ${req.method} ${req.originalUrl}: requires ${scope || 'a session'}`);
+        res.status(403).json({
+          error: 'Insufficient permissions',
+          details: scope ? `This action requires the ${scope} scope` : 'This action is not available to API tokens'
+        });
+        return;
+      }
+
+      const connectionId = req.params.id !== undefined ? parseInt(req.params.id as string) : NaN;
+      if (!isNaN(connectionId) && !canAccessConnection(req, connectionId)) {
+        Logger.warn(`API token ${req.apiToken.name} denied ${req.method} ${req.originalUrl}: connection ${connectionId} not allowed`);
+        res.status(403).json({
+          error: 'Insufficient permissions',
+          details: 'This API token is not allowed to access this connection'
+        });
+        return;
+      }
+
+      next();
+      return;
+    }
+
+    if (!hasRole(req.user, role)) {
+      Logger.warn(`User ${req.user!.username} (${req.user!.role}) denied ${req.method} ${req.originalUrl}: requires ${role}`);
+      res.status(403).json({
+        error: 'Insufficient permissions',
+        details: `This action requires the ${role} role`
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+export class AuthManager {
+  private database: DatabaseManager;
+  private bootstrapPromise: Promise<void> | null = null;
+  private sessionTtlMs: number;
+
+  constructor(database: DatabaseManager) {
+    this.database = database;
+    const ttlHours = parseInt(process.env.SESSION_TTL_HOURS || '12');
+    this.sessionTtlMs = (isNaN(ttlHours) || ttlHours <= 0 ? 12 : ttlHours) * 60 * 60 * 1000;
+  }
+
+  /**
+   * Create the initial admin account from ADMIN_USERNAME/ADMIN_PASSWORD when no users exist.
+   * Runs once; later calls wait on the same promise.
+   */
+  ensureBootstrapAdmin(): Promise<void> {
+    if (!this.bootstrapPromise) {
+      this.bootstrapPromise = this.bootstrapAdmin().catch(error => {
+        this.bootstrapPromise = null;
+        throw error;
+      });
+    }
+    return this.bootstrapPromise;
+  }
+
+  private async bootstrapAdmin(): Promise<void> {
+    const userCount = await this.database.countUsers();
+    if (userCount > 0) {
+      return;
+    }
+
+    const username = process.env.ADMIN_USERNAME || 'admin';
+    const password = process.env.ADMIN_PASSWORD;
+
+    if (!password) {
+      Logger.warn('No users exist and ADMIN_PASSWORD is not set. Create the first admin account from the login page.');
+      return;
+    }
+
+    await this.database.createUser(username, password, 'admin');
+    Logger.info(`Created initial admin account "${username}" from environment`);
+  }
+
+  async isSetupRequired(): Promise<boolean> {
+    await this.ensureBootstrapAdmin();
+    return (await this.database.countUsers()) === 0;
+  }
+
+  /**
+   * Verify credentials and open a new session
+   * @returns The session token and user, or null if the credentials are invalid
+   */
+  async login(
+    username: string,
+    password: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ token: string; expiresAt: Date; user: AuthenticatedUser } | null> {
+    await this.ensureBootstrapAdmin();
+
+    const user = await this.database.getUserByUsername(username);
+    if (!user || !user.id || !user.password_hash || !Number(user.is_enabled)) {
+      Logger.warn(`Failed login attempt for "${username}" from ${ipAddress}`);
+      return null;
+    }
+
+    const isValid = await this.database.verifyPassword(password, user.password_hash);
+    if (!isValid) {
+      Logger.warn(`Failed login attempt for "${username}" from ${ipAddress}`);
+      return null;
+    }
+
+    const authenticatedUser: AuthenticatedUser = { id: user.id, username: user.username, role: user.role };
+    const { token, expiresAt } = await this.createSession(authenticatedUser, ipAddress, userAgent);
+    await this.database.updateUserLastLogin(user.id);
+
+    Logger.info(`User ${user.username} logged in from ${ipAddress}`);
+    return { token, expiresAt, user: authenticatedUser };
+  }
+
+  async createSession(user: AuthenticatedUser, ipAddress?: string, userAgent?: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + this.sessionTtlMs);
+
+    await this.database.createSession(this.hashToken(token), user.id, expiresAt, ipAddress, userAgent);
+    this.database.cleanupExpiredSessions().catch(() => {
+      // Expired sessions are rejected on lookup anyway
+    });
+
+    return { token, expiresAt };
+  }
+
+  async validateSession(token: string): Promise<AuthenticatedUser | null> {
+    return this.database.getSessionUser(this.hashToken(token));
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.database.deleteSession(this.hashToken(token));
+  }
+
+  /**
+   * Create an API token. The plaintext token is only ever returned here.
+   */
+  async createApiToken(
+    name: string,
+    scopes: ApiTokenScope[],
+    connectionIds: number[] | null,
+    createdBy: number,
+    expiresAt: string | null
+  ): Promise<{ id: number; token: string }> {
+    const secret = crypto.randomBytes(32).toString('hex');
+    const secretHash = await this.database.hashPassword(secret);
+    const id = await this.database.createApiToken(name, secretHash, scopes, connectionIds, createdBy, expiresAt);
+
+    return { id, token: `${API_TOKEN_PREFIX}${id}_${secret}` };
+  }
+
+  /**
+   * Resolve an API token to its principal, or null if it is malformed, revoked, expired or wrong
+   */
+  async validateApiToken(token: string): Promise<ApiTokenPrincipal | null> {
+    const match = API_TOKEN_PATTERN.exec(token);
+    if (!match) {
+      return null;
+    }
+
+    const record = await this.database.getApiTokenById(parseInt(match[1]));
+    if (!record || !record.id || !record.token_hash || record.revoked_at) {
+      return null;
+    }
+
+    if (record.expires_at && new Date(record.expires_at).getTime() <= Date.now()) {
+      return null;
+    }
+
+    if (!(await this.database.verifyPassword(match[2], record.token_hash))) {
+      return null;
+    }
+
+    this.database.updateApiTokenLastUsed(record.id).catch(() => {
+      // Last-used tracking is best effort
+    });
+
+    return {
+      id: record.id,
+      name: record.name,
+      scopes: record.scopes,
+      connectionIds: record.connection_ids
+    };
+  }
+
+  /**
+   * Express middleware that resolves the session or API token and sets req.user or
+   * req.apiToken, rejecting with 401 otherwise
+   */
+  authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const token = getSessionToken(req.headers);
+
+      if (token && token.startsWith(API_TOKEN_PREFIX)) {
+        const apiToken = await this.validateApiToken(token);
+        if (!apiToken) {
+          Logger.warn(`Rejected invalid API token from ${req.ip}`);
+          res.status(401).json({ error: 'Invalid or expired API token' });
+          return;
+        }
+
+        req.apiToken = apiToken;
+        next();
+        return;
+      }
+
+      const user = token ? await this.validateSession(token) : null;
+
+      if (!user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      req.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  setSessionCookie(res: Response, token: string, expiresAt: Date): void {
+    res.cookie(SESSION_COOKIE_NAME, token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production' && process.env.SESSION_COOKIE_SECURE !== 'false',
+      expires: expiresAt,
+      path: '/'
+    });
+  }
+
+  clearSessionCookie(res: Response): void {
+    res.clearCookie(SESSION_COOKIE_NAME, { path: '/' });
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,11 +1,23 @@
-import cron from 'node-cron';
+import cron, { ScheduledTask } from 'node-cron';
+import fs from 'fs';
 import { DatabaseManager } from './database';
 import { Logger } from './logger';
 import { certificateRenewalService } from './certificate-renewal';
 import { SSHClient } from './ssh-client';
+import { AuditLogger } from './audit';
+import { accountManager } from './account-manager';
+import { createAcmeClient } from './acme-client';
+import { getAcmeEnvironment } from './acme-environment';
+import { getAcmeCaId } from './ssl-providers/registry';
+import { getAriCertId, isRenewalDue, pickRenewalTime } from './renewal-info';
+import { RenewalInfoRecord } from './types';
+import { loadCurrentCertificates } from './certificate-history';
+import { getVosServices } from './key-parameters';
+import { getRestartCommand, getRestartServices } from './platform-providers/vos-services';
 
 export class AutoRenewalCron {
   private database: DatabaseManager;
+  private task: ScheduledTask | null = null;
   
   constructor(database: DatabaseManager) {
     this.database = database;
@@ -19,7 +31,7 @@ export class AutoRenewalCron {
     // Get cron schedule from settings, default to midnight
     const cronSchedule = await this.getCronSchedule();
     
-    cron.schedule(cronSchedule, async () => {
+    this.task = cron.schedule(cronSchedule, async () => {
       Logger.info('Starting auto-renewal check...');
       await this.checkAndRenewCertificates();
     });
@@ -28,7 +40,7 @@ export class AutoRenewalCron {
   }
 
   /**
-   * Check for certificates expiring within configured days and renew them
+   * Check for certificates due for renewal and renew them
    */
   private async checkAndRenewCertificates() {
     try {
@@ -41,26 +53,99 @@ export class AutoRenewalCron {
           continue;
         }
 
-        // Check if certificate expires within configured days
-        const expiresWithinThreshold = await this.checkCertificateExpiration(connection);
-        if (expiresWithinThreshold) {
+        // The CA's renewal window decides when it supports ARI, the day threshold otherwise
+        const renewalDue = await this.checkRenewalInfo(connection);
+        if ((renewalDue ?? await this.checkCertificateExpiration(connection)) || await this.checkServiceCertificates(connection)) {
           expiringConnections.push(connection);
         }
       }
 
-      const renewalDays = await this.getRenewalDays();
-      Logger.info(`Found ${expiringConnections.length} connections with certificates expiring within ${renewalDays} days`);
+      Logger.info(`Found ${expiringConnections.length} connections with certificates due for renewal`);
 
-      // Process renewals
-      for (const connection of expiringConnections) {
-        await this.renewCertificate(connection);
-      }
+      // Queue every renewal at once; the renewal queue limits how many run in parallel
+      await Promise.all(expiringConnections.map(connection => this.renewCertificate(connection)));
 
     } catch (error: any) {
       Logger.error('Error during auto-renewal check:', error);
     }
   }
 
+  /**
+   * Check the CA's ARI renewal window for the certificate issued to a
+   * connection. Returns null when the CA has no ARI support or the window
+   * can't be determined, so the day threshold applies.
+   */
+  private async checkRenewalInfo(connection: any): Promise<boolean | null> {
+    const certPath = accountManager.getCertificateFilePath(connection.id, 'certificate.pem', getAcmeEnvironment(connection));
+    if (!fs.existsSync(certPath)) {
+      return null;
+    }
+
+    try {
+      const certId = getAriCertId(await fs.promises.readFile(certPath, 'utf8'));
+      const caId = getAcmeCaId(connection);
+      const stored = await this.database.getRenewalInfo(connection.id);
+      const current = stored && stored.cert_id === certId && stored.ca_id === caId ? stored : null;
+
+      let info: RenewalInfoRecord | null = current;
+      if (!current || new Date(current.retry_after).getTime() <= Date.now()) {
+        info = await this.refreshRenewalInfo(connection, caId, certId, current);
+      }
+      if (!info) {
+        return null;
+      }
+
+      const scheduledAt = new Date(info.scheduled_at);
+      const due = isRenewalDue(scheduledAt, new Date(), this.task?.getNextRun());
+      Logger.info(`Certificate for ${connection.hostname}.${connection.domain} has a renewal window of ${info.window_start} to ${info.window_end}, renewal ${due ? 'is due' : `scheduled for ${scheduledAt.toISOString()}`}`);
+      return due;
+    } catch (error: any) {
+      Logger.warn(`Could not check ARI renewal window for ${connection.hostname}.${connection.domain}, using the day threshold: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the renewal window and keep the scheduled time unless the CA moved
+   * the window, e.g. to ask for early renewal ahead of a revocation
+   */
+  private async refreshRenewalInfo(connection: any, caId: string, certId: string, current: RenewalInfoRecord | null): Promise<RenewalInfoRecord | null> {
+    const acmeClient = await createAcmeClient(this.database, connection);
+    let renewalInfo;
+    try {
+      renewalInfo = await acmeClient.getRenewalInfo(certId);
+    } catch (error: any) {
+      if (current) {
+        Logger.warn(`Failed to refresh ARI renewal window for ${certId}, keeping the last one: ${error.message}`);
+        return current;
+      }
+      throw error;
+    }
+    if (!renewalInfo) {
+      return null;
+    }
+
+    const windowStart = renewalInfo.window.start.toISOString();
+    const windowEnd = renewalInfo.window.end.toISOString();
+    const windowChanged = !current || current.window_start !== windowStart || current.window_end !== windowEnd;
+    if (windowChanged && current) {
+      Logger.info(`${acmeClient.getDirectory().caName} moved the renewal window for ${connection.hostname}.${connection.domain}${renewalInfo.explanationUrl ? ` (see ${renewalInfo.explanationUrl})` : ''}`);
+    }
+
+    const info: RenewalInfoRecord = {
+      connection_id: connection.id,
+      ca_id: caId,
+      cert_id: certId,
+      window_start: windowStart,
+      window_end: windowEnd,
+      explanation_url: renewalInfo.explanationUrl || null,
+      scheduled_at: windowChanged ? pickRenewalTime(renewalInfo.window).toISOString() : current!.scheduled_at,
+      retry_after: renewalInfo.retryAfter.toISOString()
+    };
+    await this.database.saveRenewalInfo(info);
+    return info;
+  }
+
   /**
    * Check if a certificate expires within configured days
    */
@@ -89,6 +174,35 @@ export class AutoRenewalCron {
     }
   }
 
+  /**
+   * Check the certificates of the connection's further VOS services (e.g.
+   * CallManager or cup-xmpp), which aren't served where the expiry check looks
+   */
+  private async checkServiceCertificates(connection: any): Promise<boolean> {
+    try {
+      const renewalDays = await this.getRenewalDays();
+      const domain = `${connection.hostname}.${connection.domain}`;
+      for (const { identity, details } of await loadCurrentCertificates(connection)) {
+        if (identity.primary) {
+          continue;
+        }
+        if (!details) {
+          Logger.info(`No ${identity.service} certificate issued for ${domain} yet`);
+          return true;
+        }
+        const daysUntilExpiration = Math.ceil((new Date(details.not_after).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+        Logger.info(`${identity.service} certificate for ${domain} expires in ${daysUntilExpiration} days`);
+        if (daysUntilExpiration <= renewalDays) {
+          return true;
+        }
+      }
+      return false;
+    } catch (error: any) {
+      Logger.error(`Error checking service certificates for ${connection.hostname}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Renew certificate for a connection
    */
@@ -101,6 +215,13 @@ export class AutoRenewalCron {
 
       // Issue new certificate
       const renewalStatus = await certificateRenewalService.renewCertificate(connection.id!, this.database);
+      await new AuditLogger(this.database).recordSystem({
+        action: 'certificate.auto_renew',
+        targetType: 'connection',
+        targetId: connection.id,
+        targetName: connection.name,
+        details: renewalStatus ? `Renewal ${renewalStatus.id} started` : 'Failed to start renewal'
+      });
       
       if (!renewalStatus) {
         Logger.error(`Failed to start certificate renewal for connection ${connection.id}`);
@@ -108,34 +229,34 @@ export class AutoRenewalCron {
         return;
       }
 
-      // Wait for renewal to complete (with timeout)
-      const maxWaitTime = 300000; // 5 minutes
-      const startTime = Date.now();
+      // Wait for renewal to complete (with timeout, including time spent in the queue)
+      const maxWaitTime = 3600000; // 1 hour
+      let timer: NodeJS.Timeout | undefined;
+      const status = await Promise.race([
+        certificateRenewalService.waitForRenewal(renewalStatus.id),
+        new Promise<null>(resolve => {
+          timer = setTimeout(() => resolve(null), maxWaitTime);
+        })
+      ]).finally(() => clearTimeout(timer));
       
-      while (Date.now() - startTime < maxWaitTime) {
-        const status = await certificateRenewalService.getRenewalStatus(renewalStatus.id);
+      if (status && status.status === 'completed') {
+        Logger.info(`Certificate renewal completed for ${connection.hostname}.${connection.domain}`);
         
-        if (status && status.status === 'completed') {
-          Logger.info(`Certificate renewal completed for ${connection.hostname}.${connection.domain}`);
-          
-          // If auto_restart_service is enabled and SSH is available, restart Tomcat service
-          if (connection.auto_restart_service && connection.enable_ssh) {
-            await this.restartTomcatService(connection);
-          }
-          
-          // Update status to "success"
-          await this.updateAutoRenewalStatus(connection.id, 'success', new Date().toISOString());
-          return;
-        } else if (status && status.status === 'failed') {
-          Logger.error(`Certificate renewal failed for ${connection.hostname}.${connection.domain}: ${status.error}`);
-          await this.updateAutoRenewalStatus(connection.id, 'failed', new Date().toISOString());
-          return;
+        // If auto_restart_service is enabled and SSH is available, restart the services using the certificates;
+        // the renewal has already restarted the nodes of a cluster one at a time
+        if (connection.auto_restart_service && connection.enable_ssh && !(await this.database.getClusterByPublisher(connection.id))) {
+          await this.restartCertificateServices(connection);
         }
-
-        // Wait 10 seconds before checking again
-        await new Promise(resolve => setTimeout(resolve, 10000));
+        
+        // Update status to "success"
+        await this.updateAutoRenewalStatus(connection.id, 'success', new Date().toISOString());
+        return;
+      } else if (status && status.status === 'failed') {
+        Logger.error(`Certificate renewal failed for ${connection.hostname}.${connection.domain}: ${status.error}`);
+        await this.updateAutoRenewalStatus(connection.id, 'failed', new Date().toISOString());
+        return;
       }
-
+      
       Logger.error(`Certificate renewal timed out for ${connection.hostname}.${connection.domain}`);
       await this.updateAutoRenewalStatus(connection.id, 'timeout', new Date().toISOString());
       
@@ -187,13 +308,13 @@ export class AutoRenewalCron {
   }
 
   /**
-   * Restart Cisco Tomcat service via SSH
+   * Restart the services that use the connection's certificates via SSH
    */
-  private async restartTomcatService(connection: any) {
+  private async restartCertificateServices(connection: any) {
     try {
-      Logger.info(`Restarting Cisco Tomcat service for ${connection.hostname}.${connection.domain}`);
-
       const fqdn = `${connection.hostname}.${connection.domain}`;
+      const restartServices = getRestartServices(getVosServices(connection));
+      Logger.info(`Restarting ${restartServices.join(', ')} for ${fqdn}`);
       
       // Test SSH connection first
       const sshTest = await SSHClient.testConnection({
@@ -207,22 +328,24 @@ export class AutoRenewalCron {
         return;
       }
 
-      // Execute service restart command
-      const restartResult = await SSHClient.executeCommand({
-        hostname: fqdn,
-        username: connection.username,
-        password: connection.password,
-        command: 'utils service restart Cisco Tomcat'
-      });
+      for (const service of restartServices) {
+        // Execute service restart command
+        const restartResult = await SSHClient.executeCommand({
+          hostname: fqdn,
+          username: connection.username,
+          password: connection.password,
+          command: getRestartCommand(service)
+        });
 
-      if (restartResult.success) {
-        Logger.info(`Successfully restarted Cisco Tomcat service for ${fqdn}`);
-      } else {
-        Logger.error(`Failed to restart Cisco Tomcat service for ${fqdn}: ${restartResult.error}`);
+        if (restartResult.success) {
+          Logger.info(`Successfully restarted ${service} service for ${fqdn}`);
+        } else {
+          Logger.error(`Failed to restart ${service} service for ${fqdn}: ${restartResult.error}`);
+        }
       }
 
     } catch (error: any) {
-      Logger.error(`Error restarting Tomcat service for ${connection.hostname}:`, error);
+      Logger.error(`Error restarting services for ${connection.hostname}:`, error);
     }
   }
 
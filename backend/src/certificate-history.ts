@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+import { DatabaseManager } from './database';
+import { accountManager } from './account-manager';
+import { encryptionManager } from './encryption';
+import { getAcmeEnvironment } from './acme-environment';
+import { getAcmeCaId } from './ssl-providers/registry';
+import { getDomainFromConnection } from './utils/domain-utils';
+import { CertificateIdentity, getCertificateIdentities, getIdentityStorage } from './key-parameters';
+import { SshDeployTarget, parseDeployTargets } from './platform-providers/general-provider';
+import { ConnectionRecord, IssuedCertificateRecord } from './types';
+
+/**
+ * History of every certificate issued to a connection. Each issuance gets a
+ * row in the `certificates` table and its files are kept under
+ * `history/<serial>/` in the connection's environment directory.
+ */
+
+// Files kept for each version, by download type
+export const CERTIFICATE_VERSION_FILES: Record<string, string> = {
+  certificate: 'certificate.pem',
+  chain: 'chain.pem',
+  fullchain: 'fullchain.pem',
+  private_key: 'private_key.pem'
+};
+
+export type CertificateDetails = Pick<IssuedCertificateRecord,
+  'serial_number' | 'fingerprint' | 'fingerprint256' | 'common_name' | 'sans' | 'issuer' | 'not_before' | 'not_after' | 'key_type'>;
+
+const CURVE_NAMES: Record<string, string> = {
+  prime256v1: 'P-256',
+  secp384r1: 'P-384',
+  secp521r1: 'P-521'
+};
+
+function getKeyType(certificate: crypto.X509Certificate): string {
+  const { asymmetricKeyType, asymmetricKeyDetails } = certificate.publicKey;
+  if (asymmetricKeyType === 'rsa') {
+    return `RSA ${asymmetricKeyDetails?.modulusLength ?? ''}`.trim();
+  }
+  if (asymmetricKeyType === 'ec') {
+    const curve = asymmetricKeyDetails?.namedCurve || '';
+    return `EC ${CURVE_NAMES[curve] || curve}`.trim();
+  }
+  return (asymmetricKeyType || 'unknown').toUpperCase();
+}
+
+// Details of the leaf certificate, the first one in the PEM data
+export function describeCertificate(pem: string): CertificateDetails {
+  const certificate = new crypto.X509Certificate(pem);
+  const commonName = certificate.subject.split('\n').find(line => line.startsWith('CN='));
+
+  return {
+    serial_number: certificate.serialNumber,
+    fingerprint: certificate.fingerprint,
+    fingerprint256: certificate.fingerprint256,
+    common_name: commonName ? commonName.slice(3) : null,
+    sans: (certificate.subjectAltName || '')
+      .split(',')
+      .map(name => name.trim().replace(/^(DNS|IP Address):/, ''))
+      .filter(name => name.length > 0),
+    issuer: certificate.issuer.split('\n').reverse().join(', '),
+    not_before: new Date(certificate.validFrom).toISOString(),
+    not_after: new Date(certificate.validTo).toISOString(),
+    key_type: getKeyType(certificate)
+  };
+}
+
+// SSH targets of a general connection, none when they aren't set or don't parse
+export function getSshDeployTargets(connection: ConnectionRecord): SshDeployTarget[] {
+  try {
+    return parseDeployTargets(connection.general_deploy_targets);
+  } catch (error) {
+    Logger.warn(`Ignoring invalid deploy targets of connection ${connection.id}:`, error);
+    return [];
+  }
+}
+
+// General connections without SSH targets only make their certificate available for download
+export function isDownloadOnly(connection: ConnectionRecord): boolean {
+  return connection.application_type === 'general' && getSshDeployTargets(connection).length === 0;
+}
+
+// Hosts the dashboard installs the certificate on
+export function getDeployTargets(connection: ConnectionRecord): string[] {
+  if (connection.application_type === 'general') {
+    return getSshDeployTargets(connection).map(target => target.host);
+  }
+  if (connection.application_type === 'ise') {
+    return (connection.ise_nodes || '').split(',').map(node => node.trim()).filter(node => node.length > 0);
+  }
+  if (connection.application_type === 'fmc') {
+    return connection.fmc_host ? [connection.fmc_host] : [];
+  }
+  const domain = getDomainFromConnection(connection);
+  return domain ? [domain] : [];
+}
+
+export async function recordIssuedCertificate(
+  database: DatabaseManager,
+  connection: ConnectionRecord,
+  renewalId: string,
+  fullChain: string,
+  service: string | null = null,
+  deployTargets: string[] = getDeployTargets(connection)
+): Promise<number> {
+  const id = await database.saveIssuedCertificate({
+    connection_id: connection.id!,
+    renewal_id: renewalId,
+    ...describeCertificate(fullChain),
+    ca_id: getAcmeCaId(connection),
+    environment: getAcmeEnvironment(connection),
+    service,
+    deploy_targets: deployTargets,
+    deploy_status: isDownloadOnly(connection) ? 'manual' : 'pending'
+  });
+
+  Logger.info(`Recorded certificate ${id} issued to connection ${connection.id} by renewal ${renewalId}`);
+  return id;
+}
+
+export interface CurrentCertificate {
+  identity: CertificateIdentity;
+  // Null when no certificate has been issued for the identity yet
+  details: CertificateDetails | null;
+}
+
+// The installed certificate of each identity a connection maintains (one per VOS service), from its files
+export async function loadCurrentCertificates(connection: ConnectionRecord): Promise<CurrentCertificate[]> {
+  const environment = getAcmeEnvironment(connection);
+  return Promise.all(getCertificateIdentities(connection).map(async identity => {
+    const certPath = accountManager.getCertificateFilePath(connection.id!, 'certificate.pem', environment, getIdentityStorage(identity));
+    try {
+      return { identity, details: fs.existsSync(certPath) ? describeCertificate(await fs.promises.readFile(certPath, 'utf8')) : null };
+    } catch (error) {
+      Logger.debug(`Could not read current ${identity.service || ''} certificate for connection ${connection.id}:`, error);
+      return { identity, details: null };
+    }
+  }));
+}
+
+/**
+ * Why an earlier certificate can't be redeployed, or null when it can
+ */
+export function getRedeployBlocker(certificate: IssuedCertificateRecord, connection: ConnectionRecord, now: Date = new Date()): string | null {
+  if (isDownloadOnly(connection)) {
+    return 'Certificates for general connections without deploy targets are installed manually; download it instead';
+  }
+  if (certificate.revoked_at) {
+    return 'The certificate has been revoked';
+  }
+  if (new Date(certificate.not_after).getTime() <= now.getTime()) {
+    return 'The certificate has expired';
+  }
+  if (certificate.environment !== getAcmeEnvironment(connection)) {
+    return `The certificate was issued in the ${certificate.environment} environment, the connection now uses ${getAcmeEnvironment(connection)}`;
+  }
+  return null;
+}
+
+export function getCertificateVersionFile(certificate: IssuedCertificateRecord, type: string): string | null {
+  const filename = CERTIFICATE_VERSION_FILES[type];
+  if (!filename) {
+    return null;
+  }
+  return path.join(accountManager.getCertificateVersionDir(certificate.connection_id, certificate.environment, certificate.serial_number), filename);
+}
+
+export async function loadCertificateVersion(certificate: IssuedCertificateRecord): Promise<{ fullChain: string; privateKey: string }> {
+  const fullChainPath = getCertificateVersionFile(certificate, 'fullchain')!;
+  if (!fs.existsSync(fullChainPath)) {
+    throw new Error(`Files for certificate ${certificate.serial_number} are no longer on disk`);
+  }
+
+  const keyPath = getCertificateVersionFile(certificate, 'private_key')!;
+  return {
+    fullChain: await fs.promises.readFile(fullChainPath, 'utf8'),
+    privateKey: fs.existsSync(keyPath) ? await encryptionManager.readFile(keyPath) : ''
+  };
+}
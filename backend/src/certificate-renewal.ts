@@ -4,18 +4,42 @@ import path from 'path';
 import crypto from 'crypto';
 import { Logger } from './logger';
 import { DatabaseManager } from './database';
-import { ConnectionRecord } from './types';
+import { AcmeEnvironment, ClusterWithNodes, ConnectionRecord, IssuedCertificateRecord } from './types';
 import { accountManager } from './account-manager';
+import { encryptionManager } from './encryption';
 import { SSHClient } from './ssh-client';
 import { OperationStatusManager } from './services/operation-status-manager';
 import { getDomainFromConnection } from './utils/domain-utils';
-import { PlatformFactory } from './platform-providers/platform-factory';
+import { splitPemCertificates } from './utils/pem';
+import { PlatformFactory, SupportedPlatform } from './platform-providers/platform-factory';
 import { ISEProvider } from './platform-providers/ise-provider';
+import { ExpresswayProvider } from './platform-providers/expressway-provider';
+import { IOSProvider, parseIosBindings } from './platform-providers/ios-provider';
+import { FMCProvider, FmcDeviceDeployment } from './platform-providers/fmc-provider';
+import { WLCProvider, isWlcTrustpoint } from './platform-providers/wlc-provider';
+import { GeneralProvider } from './platform-providers/general-provider';
+import { DEFAULT_VOS_SERVICE, VOS_CERTIFICATE_SERVICES, getRestartCommand, getRestartServices } from './platform-providers/vos-services';
+import type { ACMEClient, CertificateOrder } from './acme-client';
+import { DnsProvider, DnsRecord } from './dns-providers/dns-provider';
+import { getAcmeEnvironment, getEnvironmentDir, getEnvironmentLabel } from './acme-environment';
+import { createHttpChallengePublisher, getAcmeChallengeType, getChallengeUrl, verifyHttpChallenge } from './http-challenge';
+import { checkChallengeDelegation, getChallengeDelegate, getChallengeDnsProvider, getChallengeTargetName, getChallengeZoneKey } from './dns-providers/delegation';
+import { createDnsProvider, getDnsProviderDefinition } from './dns-providers/registry';
+import { getMissingSettings } from './settings-providers';
+import { getAcmeCaDefinition, getAcmeCaId } from './ssl-providers/registry';
+import { DEFAULT_RENEWAL_CONCURRENCY, renewalQueue } from './renewal-queue';
+import { RenewalCheckpoint, getRecoveryAction, getRecoveryReason, getStaleChallengeRecords } from './renewal-checkpoint';
+import { getAriCertId } from './renewal-info';
+import { getSshDeployTargets, isDownloadOnly, loadCertificateVersion, recordIssuedCertificate } from './certificate-history';
+import { getOrderDomains, getRateLimitBudget } from './rate-limits';
+import { getExpresswayConnection, getMissingMraNames } from './expressway-mra';
+import { getClusterConnection, getClusterDeployTargets, getExpectedSerials, getNodeCertificateServices, waitForNodeCertificate } from './vos-cluster';
+import { CertificateIdentity, KEY_ALGORITHMS, csrMatchesIdentity, csrMatchesNames, describeIdentity, getCertificateIdentities, getIdentityStorage, getVosCsrPayload, getVosServices } from './key-parameters';
 
 export interface RenewalStatus {
   id: string;
   connectionId: number;
-  status: 'pending' | 'generating_csr' | 'creating_account' | 'requesting_certificate' | 'creating_dns_challenge' | 'dns_validation' | 'waiting_dns_propagation' | 'waiting_manual_dns' | 'completing_validation' | 'downloading_certificate' | 'uploading_certificate' | 'completed' | 'failed';
+  status: 'pending' | 'generating_csr' | 'creating_account' | 'requesting_certificate' | 'creating_dns_challenge' | 'creating_http_challenge' | 'verifying_http_challenge' | 'dns_validation' | 'waiting_dns_propagation' | 'waiting_manual_dns' | 'completing_validation' | 'downloading_certificate' | 'uploading_certificate' | 'completed' | 'failed';
   message: string;
   progress: number;
   startTime: Date;
@@ -28,6 +52,20 @@ export interface RenewalStatus {
     recordValue: string;
     instructions: string;
   };
+  // FMC: deployment status of each managed device
+  deviceDeployments?: FmcDeviceDeployment[];
+}
+
+// Platforms the private key is uploaded to with the certificate, so the CSR and key are generated here
+const LOCAL_KEY_PLATFORMS: Partial<Record<SupportedPlatform, string>> = {
+  expressway: 'Expressway',
+  ios: 'IOS',
+  fmc: 'FMC',
+  wlc: 'WLC'
+};
+
+function generatesLocalKey(connection: ConnectionRecord): boolean {
+  return !!connection.application_type && connection.application_type in LOCAL_KEY_PLATFORMS;
 }
 
 export interface CertificateRenewalService {
@@ -39,15 +77,16 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
   private renewalStatuses: Map<string, RenewalStatus> = new Map();
   private database: DatabaseManager | null = null;
   private activeRenewals: Set<number> = new Set(); // Track active renewals by connection ID
-  private authzRecords: any[] = []; // Store authorization records for DNS challenges
-  private dnsRecordIds: string[] = []; // Store DNS record IDs for cleanup
+  private renewalJobs: Map<string, Promise<void>> = new Map(); // Settles when a queued renewal has finished
   private cancellationTokens: Map<string, boolean> = new Map(); // Track cancellation tokens
+  private resumeCheckpoints: Map<string, RenewalCheckpoint> = new Map(); // Interrupted renewals being resumed, by new renewal ID
+  private renewalIdentities: Map<string, CertificateIdentity> = new Map(); // Certificate each renewal is currently ordering, by renewal ID
 
   setDatabase(database: DatabaseManager): void {
     this.database = database;
   }
 
-  async renewCertificate(connectionId: number, database: DatabaseManager, operationManager?: OperationStatusManager): Promise<RenewalStatus> {
+  async renewCertificate(connectionId: number, database: DatabaseManager, operationManager?: OperationStatusManager, resumeFrom?: RenewalCheckpoint): Promise<RenewalStatus> {
     // Check if there's already an active renewal for this connection
     if (operationManager) {
       const existingOperation = await operationManager.checkActiveOperation(connectionId, 'certificate_renewal');
@@ -76,11 +115,13 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       this.activeRenewals.add(connectionId);
     }
 
+    await this.updateConcurrency(database);
+
     const status: RenewalStatus = {
       id: renewalId,
       connectionId,
       status: 'pending',
-      message: 'Starting certificate renewal process',
+      message: 'Queued for certificate renewal',
       progress: 0,
       startTime: new Date(),
       logs: []
@@ -89,11 +130,20 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     this.renewalStatuses.set(renewalId, status);
     Logger.info(`Created renewal status with ID: ${renewalId} for connection ${connectionId}`);
 
+    if (resumeFrom) {
+      this.resumeCheckpoints.set(renewalId, resumeFrom);
+      status.logs.push(`Resuming renewal ${resumeFrom.renewalId}, interrupted by a backend restart`);
+    }
+
     // Save to database (legacy support)
     await database.saveRenewalStatus(renewalId, connectionId, status.status, undefined, status.message, undefined, status.logs);
 
-    // Start the renewal process asynchronously with comprehensive error handling
-    this.performRenewal(renewalId, connectionId, database, operationManager).catch(async error => {
+    // Run the renewal once a worker is free, with comprehensive error handling
+    const job = renewalQueue.enqueue({
+      id: renewalId,
+      connectionId,
+      run: () => this.performRenewal(renewalId, connectionId, database, operationManager)
+    }).catch(async error => {
       try {
         Logger.error(`Certificate renewal failed for connection ${connectionId}:`, error);
         status.status = 'failed';
@@ -134,11 +184,224 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     }).finally(() => {
       // Always remove from active renewals when done (legacy support)
       this.activeRenewals.delete(connectionId);
+      this.renewalJobs.delete(renewalId);
+      this.resumeCheckpoints.delete(renewalId);
     });
+    this.renewalJobs.set(renewalId, job);
+
+    const position = renewalQueue.getPosition(renewalId);
+    if (position > 0) {
+      status.logs.push(`Waiting for a free renewal worker (position ${position} in queue)`);
+    }
 
     return status;
   }
 
+  /**
+   * Settles once a renewal has completed or failed
+   */
+  async waitForRenewal(renewalId: string): Promise<RenewalStatus | null> {
+    await this.renewalJobs.get(renewalId);
+    return this.getRenewalStatus(renewalId);
+  }
+
+  /**
+   * Reconcile renewals that were in flight when the backend stopped. Their
+   * challenge records are removed and they are marked failed with the reason;
+   * renewals that had placed an ACME order are then resumed from that order.
+   */
+  async recoverInterruptedRenewals(database: DatabaseManager, operationManager: OperationStatusManager): Promise<void> {
+    await operationManager.ready();
+    
+    const checkpoints = new Map<string, RenewalCheckpoint>();
+    for (const checkpoint of await this.getSavedCheckpoints(database)) {
+      checkpoints.set(checkpoint.renewalId, checkpoint);
+    }
+    
+    // Renewals that finished with DNS records left behind weren't interrupted, only their records are removed
+    for (const checkpoint of [...checkpoints.values()].filter(saved => saved.finished)) {
+      checkpoints.delete(checkpoint.renewalId);
+      try {
+        const connection = await database.getConnectionById(checkpoint.connectionId);
+        const cleanup = connection ? await this.rollbackCheckpoint(database, connection, checkpoint) : [];
+        Logger.info(`Renewal ${checkpoint.renewalId} for connection ${checkpoint.connectionId} left DNS records behind: ${cleanup.join('; ') || 'the connection no longer exists'}`);
+        await database.deleteRenewalCheckpoint(checkpoint.renewalId);
+      } catch (error) {
+        Logger.error(`Failed to remove DNS records left by renewal ${checkpoint.renewalId}:`, error);
+      }
+    }
+    
+    // Renewal ID -> connection ID, from every place an in-flight renewal leaves a trace
+    const interrupted = new Map<string, number>();
+    const savedLogs = new Map<string, string[]>();
+    for (const checkpoint of checkpoints.values()) {
+      interrupted.set(checkpoint.renewalId, checkpoint.connectionId);
+    }
+    for (const operation of await database.getInFlightOperations('certificate_renewal')) {
+      interrupted.set(operation.id, operation.connection_id);
+    }
+    for (const row of await database.getInFlightRenewalStatuses()) {
+      interrupted.set(row.renewal_id, row.connection_id);
+      savedLogs.set(row.renewal_id, row.logs);
+    }
+    
+    if (interrupted.size === 0) {
+      return;
+    }
+    Logger.info(`Reconciling ${interrupted.size} certificate renewal(s) interrupted by a restart`);
+    
+    for (const [renewalId, connectionId] of interrupted) {
+      // Renewals started since this process came up are not interrupted
+      if (this.renewalStatuses.has(renewalId)) {
+        continue;
+      }
+      
+      try {
+        const checkpoint = checkpoints.get(renewalId);
+        const connection = await database.getConnectionById(connectionId);
+        const cleanup = checkpoint && connection ? await this.rollbackCheckpoint(database, connection, checkpoint) : [];
+        const action = getRecoveryAction(checkpoint, connection);
+        const reason = getRecoveryReason(checkpoint, action, cleanup);
+        Logger.warn(`Renewal ${renewalId} for connection ${connectionId}: ${reason}`);
+        
+        const logs = [...(savedLogs.get(renewalId) || []), `ERROR: ${reason}`];
+        await database.saveRenewalStatus(renewalId, connectionId, 'failed', undefined, 'Certificate renewal interrupted', reason, logs);
+        const operation = await operationManager.getOperation(renewalId);
+        if (operation && ['pending', 'in_progress'].includes(operation.status)) {
+          await operationManager.updateOperation(renewalId, {
+            status: 'failed',
+            progress: 100,
+            message: 'Certificate renewal interrupted',
+            error: reason,
+            metadata: { ...operation.metadata, logs, renewal_status: 'failed' }
+          });
+        }
+        await database.deleteRenewalCheckpoint(renewalId);
+        
+        if (action === 'resume' && checkpoint) {
+          const resumed = await this.renewCertificate(connectionId, database, operationManager, checkpoint);
+          Logger.info(`Resumed interrupted renewal ${renewalId} as ${resumed.id}`);
+        }
+      } catch (error) {
+        Logger.error(`Failed to reconcile interrupted renewal ${renewalId}:`, error);
+      }
+    }
+  }
+  
+  // Remove the challenge records an interrupted renewal published, returns what was done
+  private async rollbackCheckpoint(database: DatabaseManager, connection: ConnectionRecord, checkpoint: RenewalCheckpoint): Promise<string[]> {
+    const cleanup: string[] = [];
+    
+    const dnsRecords = checkpoint.dnsRecords;
+    if (dnsRecords && dnsRecords.records.length > 0) {
+      let removed = 0;
+      try {
+        const client = await createDnsProvider(database, dnsRecords.provider, dnsRecords.domain);
+        await renewalQueue.withZoneLock(getChallengeZoneKey(connection), async () => {
+          for (const record of dnsRecords.records) {
+            try {
+              await client.deleteRecord(record);
+              removed++;
+            } catch (error) {
+              Logger.warn(`Failed to remove DNS record ${record.name} of interrupted renewal ${checkpoint.renewalId}:`, error);
+            }
+          }
+        });
+      } catch (error) {
+        Logger.warn(`Failed to initialize ${dnsRecords.provider} DNS provider for interrupted renewal ${checkpoint.renewalId}:`, error);
+      }
+      cleanup.push(removed === dnsRecords.records.length
+        ? `removed ${removed} DNS TXT record(s)`
+        : `removed ${removed} of ${dnsRecords.records.length} DNS TXT record(s), remove the rest by hand`);
+    }
+    
+    if (checkpoint.httpTokens && checkpoint.httpTokens.length > 0) {
+      const publisher = createHttpChallengePublisher(connection);
+      let removed = 0;
+      for (const token of checkpoint.httpTokens) {
+        try {
+          await publisher.remove(token);
+          removed++;
+        } catch (error) {
+          Logger.warn(`Failed to remove HTTP-01 token ${token} of interrupted renewal ${checkpoint.renewalId}:`, error);
+        }
+      }
+      await publisher.close().catch(error => {
+        Logger.warn(`Failed to close HTTP-01 publisher for interrupted renewal ${checkpoint.renewalId}:`, error);
+      });
+      cleanup.push(removed === checkpoint.httpTokens.length
+        ? `removed ${removed} HTTP-01 token(s)`
+        : `removed ${removed} of ${checkpoint.httpTokens.length} HTTP-01 token(s), remove the rest by hand`);
+    }
+    
+    return cleanup;
+  }
+  
+  private async getSavedCheckpoints(database: DatabaseManager): Promise<RenewalCheckpoint[]> {
+    return (await database.getRenewalCheckpoints())
+      .map(row => ({ ...row.data, renewalId: row.renewal_id, connectionId: row.connection_id, step: row.step }));
+  }
+  
+  // Drop the checkpoint of a renewal that ended, keeping it only while it lists DNS records that are still published
+  private async finishCheckpoint(database: DatabaseManager, renewalId: string): Promise<void> {
+    const checkpoint = (await this.getSavedCheckpoints(database)).find(saved => saved.renewalId === renewalId);
+    if (checkpoint?.dnsRecords && checkpoint.dnsRecords.records.length > 0) {
+      await database.saveRenewalCheckpoint(renewalId, checkpoint.connectionId, checkpoint.step, { ...checkpoint, finished: true });
+    } else {
+      await database.deleteRenewalCheckpoint(renewalId);
+    }
+  }
+  
+  // Remove the TXT records at `names` that failed or interrupted renewals left behind, returns how many were removed
+  private async removeStaleChallengeRecords(database: DatabaseManager, client: DnsProvider, provider: string, names: string[]): Promise<number> {
+    const stale = getStaleChallengeRecords(await this.getSavedCheckpoints(database), provider, names, renewalId => this.renewalIdentities.has(renewalId));
+    let removed = 0;
+    for (const { checkpoint, records } of stale) {
+      const remaining = [...checkpoint.dnsRecords!.records];
+      for (const record of records) {
+        try {
+          await client.deleteRecord(record);
+          remaining.splice(remaining.indexOf(record), 1);
+          removed++;
+        } catch (error) {
+          Logger.warn(`Failed to remove DNS record ${record.name} left by renewal ${checkpoint.renewalId}:`, error);
+        }
+      }
+      
+      if (remaining.length === 0 && checkpoint.finished) {
+        await database.deleteRenewalCheckpoint(checkpoint.renewalId);
+      } else {
+        await database.saveRenewalCheckpoint(checkpoint.renewalId, checkpoint.connectionId, checkpoint.step, {
+          ...checkpoint,
+          dnsRecords: { ...checkpoint.dnsRecords!, records: remaining }
+        });
+      }
+    }
+    return removed;
+  }
+  
+  // Checkpoints are best effort: failing to save one must not fail the renewal
+  private async saveCheckpoint(checkpoint: RenewalCheckpoint, updates: Partial<RenewalCheckpoint> = {}): Promise<void> {
+    Object.assign(checkpoint, updates);
+    if (!this.database) {
+      return;
+    }
+    try {
+      await this.database.saveRenewalCheckpoint(checkpoint.renewalId, checkpoint.connectionId, checkpoint.step, checkpoint);
+    } catch (error) {
+      Logger.warn(`Failed to save checkpoint for renewal ${checkpoint.renewalId}:`, error);
+    }
+  }
+
+  private async updateConcurrency(database: DatabaseManager): Promise<void> {
+    try {
+      const setting = await database.getSetting('CERT_RENEWAL_CONCURRENCY');
+      renewalQueue.setConcurrency(setting?.key_value ? parseInt(setting.key_value) : DEFAULT_RENEWAL_CONCURRENCY);
+    } catch (error) {
+      Logger.warn('Failed to get CERT_RENEWAL_CONCURRENCY setting, keeping the current concurrency');
+    }
+  }
+
   async getRenewalStatus(renewalId: string): Promise<RenewalStatus | null> {
     Logger.info(`Looking for renewal status ID: ${renewalId}`);
     
@@ -180,6 +443,11 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     // Set cancellation token
     this.cancellationTokens.set(renewalId, true);
     
+    // Renewals that haven't started yet are simply dropped from the queue
+    if (renewalQueue.cancel(renewalId)) {
+      Logger.info(`Removed queued renewal ${renewalId} before it started`);
+    }
+    
     // Update status if it exists
     const status = this.renewalStatuses.get(renewalId);
     if (status) {
@@ -203,6 +471,12 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     return this.cancellationTokens.get(renewalId) === true;
   }
 
+  private throwIfCancelled(renewalId: string): void {
+    if (this.isCancelled(renewalId)) {
+      throw new Error('Operation cancelled by user');
+    }
+  }
+
   private getProgressForStatus(status: string): number {
     const progressMap: Record<string, number> = {
       'pending': 0,
@@ -234,34 +508,44 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       this.updateStatus(status, newStatus, message, progress, operationManager);
     
     // Helper method to check cancellation
-    const checkCancellation = () => {
-      if (this.isCancelled(renewalId)) {
-        throw new Error('Operation cancelled by user');
-      }
-    };
+    const checkCancellation = () => this.throwIfCancelled(renewalId);
+    
+    // History entry of the certificate issued by this renewal, until it has been deployed
+    let pendingDeployment: number | null = null;
     
     try {
       // Check cancellation at the start
       checkCancellation();
       // Get connection details
-      const connection = await database.getConnectionById(connectionId);
-      if (!connection) {
+      const storedConnection = await database.getConnectionById(connectionId);
+      if (!storedConnection) {
         throw new Error(`Connection ${connectionId} not found`);
       }
+      
+      // A cluster publisher orders one multi-server certificate naming every node, an Expressway-E also names its MRA domains
+      const cluster = storedConnection.application_type === 'vos' ? await database.getClusterByPublisher(connectionId) : null;
+      const connection = getExpresswayConnection(getClusterConnection(storedConnection, cluster));
+      if (cluster) {
+        status.logs.push(`Renewing the multi-server certificate of cluster ${cluster.name} (${cluster.nodes.map(node => node.hostname).join(', ') || 'no nodes discovered yet'})`);
+      }
 
       const fullFQDN = getDomainFromConnection(connection);
       if (!fullFQDN) {
         throw new Error(`Invalid connection configuration: missing hostname/domain for connection ${connectionId}`);
       }
 
+      const identities = getCertificateIdentities(connection);
+      this.renewalIdentities.set(renewalId, identities[0]);
+
       // Check for existing valid certificate
-      const existingCert = await this.getExistingCertificate(fullFQDN);
+      const environment = getAcmeEnvironment(connection);
+      const existingCert = await this.getExistingCertificate(fullFQDN, environment);
       
       // For ISE, also check for recently generated certificates (within last hour)
       // This helps when retrying failed uploads
       let recentCert = null;
       if (!existingCert && connection.application_type === 'ise') {
-        recentCert = await this.getRecentCertificate(connectionId, fullFQDN, 3600000); // 1 hour in milliseconds
+        recentCert = await this.getRecentCertificate(connectionId, fullFQDN, 3600000, environment); // 1 hour in milliseconds
         if (recentCert) {
           status.logs.push(`Found recently generated certificate for ${connection.name} (generated within last hour)`);
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Using recently generated certificate (less than 1 hour old)`);
@@ -270,24 +554,43 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       
       const certificateToUse = existingCert || recentCert;
       if (certificateToUse) {
-        if (connection.application_type === 'general') {
+        if (isDownloadOnly(connection)) {
           await updateStatusWithOp('uploading_certificate', 'Existing certificate available for download', 80);
           status.logs.push(`Existing valid certificate available for ${connection.name}`);
+        } else if (connection.application_type === 'general') {
+          await updateStatusWithOp('uploading_certificate', 'Deploying existing valid certificate to SSH targets', 80);
+          await this.uploadCertificateToGeneral(connectionId, connection, certificateToUse, status);
         } else if (connection.application_type === 'ise') {
           await updateStatusWithOp('uploading_certificate', 'Using existing valid certificate for ISE', 80);
           await this.uploadCertificateToISE(connectionId, connection, certificateToUse, status);
+        } else if (connection.application_type === 'expressway') {
+          await updateStatusWithOp('uploading_certificate', 'Using existing valid certificate for Expressway', 80);
+          await this.uploadCertificateToExpressway(connectionId, connection, certificateToUse, status);
+        } else if (connection.application_type === 'ios') {
+          await updateStatusWithOp('uploading_certificate', 'Using existing valid certificate for IOS', 80);
+          await this.uploadCertificateToIOS(connectionId, connection, certificateToUse, status);
+        } else if (connection.application_type === 'fmc') {
+          await updateStatusWithOp('uploading_certificate', 'Using existing valid certificate for FMC', 80);
+          await this.uploadCertificateToFMC(connectionId, connection, certificateToUse, status, operationManager);
+        } else if (connection.application_type === 'wlc') {
+          await updateStatusWithOp('uploading_certificate', 'Using existing valid certificate for WLC', 80);
+          await this.uploadCertificateToWLC(connectionId, connection, certificateToUse, status, identities[0]);
         } else {
           await updateStatusWithOp('uploading_certificate', 'Using existing valid certificate', 80);
           await this.uploadCertificateToVOS(connectionId, connection, certificateToUse, status);
+          await this.resetClusterVerification(database, cluster);
         }
         
+        // Only the primary certificate was installed, so only its services need a restart
+        const installedServices = [identities[0].service || DEFAULT_VOS_SERVICE];
+        
         // Notify user about service restart attempt (VOS only)
         if (connection.application_type === 'vos' && connection.enable_ssh && connection.auto_restart_service) {
-          await updateStatusWithOp('uploading_certificate', 'Certificate ready. Now attempting to restart Cisco Tomcat service...', 91);
+          await updateStatusWithOp('uploading_certificate', `Certificate ready. Now attempting to restart ${getRestartServices(installedServices).join(', ')}...`, 91);
         }
         
         // Handle service restart if enabled
-        const restartResult = await this.handleServiceRestart(connection, status);
+        const restartResult = await this.handleServiceRestart(connection, status, installedServices, cluster);
         
         // Set completion message based on restart result
         let completionMessage = 'Certificate renewal completed successfully';
@@ -300,6 +603,20 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         return;
       }
 
+      // Check the CA's rate limits for every order the renewal makes before the first one, so selecting more
+      // services than the duplicate limit allows doesn't fail halfway; a resumed order has already been counted
+      const orders = this.resumeCheckpoints.has(renewalId) ? identities.length - 1 : identities.length;
+      if (orders > 0) {
+        const budget = await getRateLimitBudget(database, connection, orders);
+        for (const warning of budget.warnings) {
+          status.logs.push(`Warning: ${warning}`);
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `WARNING: ${warning}`);
+        }
+        if (budget.blocked) {
+          throw new Error(`${budget.blocked}. Wait until the window resets or raise the ${budget.caName} rate limits in settings.`);
+        }
+      }
+
       // Step 1: Get CSR based on application type
       let csr: string;
       if (connection.application_type === 'general') {
@@ -328,7 +645,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `CSR length: ${csr.length} characters`);
         
         // Save the CSR to accounts folder for record keeping
-        await accountManager.saveCSR(connectionId, fullFQDN, csr);
+        await accountManager.saveCSR(connectionId, fullFQDN, csr, getAcmeEnvironment(connection));
         
         // If private key is included, save it as well
         if (privateKeyMatch) {
@@ -338,15 +655,14 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Private key length: ${privateKey.length} characters`);
           
           // Save private key to accounts folder in the appropriate environment subdirectory
-          const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-          const envDir = isStaging ? 'staging' : 'prod';
+          const envDir = getEnvironmentDir(getAcmeEnvironment(connection));
           const domainDir = path.join(accountManager['accountsDir'], fullFQDN, envDir);
           
           // Ensure the directory exists
           await fs.promises.mkdir(domainDir, { recursive: true });
           
           const privateKeyPath = path.join(domainDir, 'private_key.pem');
-          await fs.promises.writeFile(privateKeyPath, privateKey);
+          await encryptionManager.writeFile(privateKeyPath, privateKey);
         } else {
           status.logs.push(`No private key found in custom CSR - only CSR will be processed`);
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `No private key found in custom CSR - only CSR will be processed`);
@@ -368,83 +684,142 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         } else {
           // Generate CSR using ISE provider
           await updateStatusWithOp('generating_csr', 'Generating CSR from ISE application API', 10);
-          csr = await this.generateCSRFromISE(connection, status, connectionId);
+          csr = await this.generateCSRFromISE(connection, status, connectionId, identities[0]);
         }
+      } else if (connection.application_type === 'expressway') {
+        // For Expressway, generate the CSR and key here, the key is uploaded with the certificate
+        await updateStatusWithOp('generating_csr', 'Generating CSR for Expressway', 10);
+        csr = await this.generateLocalCSR(connection, status, connectionId, identities[0]);
+      } else if (connection.application_type === 'ios') {
+        // For IOS, generate the CSR and key here, the key is imported into the trustpoint with the certificate
+        await updateStatusWithOp('generating_csr', 'Generating CSR for IOS', 10);
+        csr = await this.generateLocalCSR(connection, status, connectionId, identities[0]);
+      } else if (connection.application_type === 'fmc') {
+        // For FMC, generate the CSR and key here, the key is imported with the internal certificate
+        await updateStatusWithOp('generating_csr', 'Generating CSR for FMC', 10);
+        csr = await this.generateLocalCSR(connection, status, connectionId, identities[0]);
+      } else if (connection.application_type === 'wlc') {
+        // For WLC, generate the CSR and key here, the key goes into the PKCS#12 bundle with the certificate
+        await updateStatusWithOp('generating_csr', `Generating CSR for WLC ${describeIdentity(identities[0])}`, 10);
+        csr = await this.generateLocalCSR(connection, status, connectionId, identities[0]);
       } else {
         // For VOS applications (CUCM, CER, CUC, IM&P), generate CSR from API
         await updateStatusWithOp('generating_csr', 'Generating CSR from VOS application API', 10);
-        csr = await this.generateCSRFromVOS(connection, status, connectionId);
+        csr = await this.generateCSRFromVOS(connection, status, connectionId, identities[0], !!cluster);
+      }
+      
+      // MRA clients reject an Expressway-E certificate that misses a registration domain
+      const missingMraNames = getMissingMraNames(csr, connection);
+      if (missingMraNames.length > 0) {
+        throw new Error(`The CSR doesn't include the MRA names ${missingMraNames.join(', ')}; MRA clients would reject the certificate`);
       }
       
       // Check cancellation before certificate request
       checkCancellation();
       
-      // Now continue with Let's Encrypt certificate request
-      await updateStatusWithOp('requesting_certificate', 'Requesting certificate from Let\'s Encrypt', 20);
+      // Now continue with the ACME certificate request
+      await updateStatusWithOp('requesting_certificate', 'Requesting certificate', 20);
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: About to call requestCertificate method`);
       const certificate = await this.requestCertificate(connection, csr, database, status, connectionId, operationManager);
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: requestCertificate returned, certificate length: ${certificate ? certificate.length : 'null/undefined'}`);
       
+      // Record the issuance before deploying, so a failed upload still shows up in the history
+      try {
+        const historyId = await recordIssuedCertificate(database, connection, renewalId, certificate, identities[0].service, cluster ? getClusterDeployTargets(cluster, identities[0].service) : undefined);
+        pendingDeployment = isDownloadOnly(connection) ? null : historyId;
+      } catch (error) {
+        Logger.warn(`Failed to record certificate issued by renewal ${renewalId}:`, error);
+      }
+      
       // Step 4: Handle certificate installation based on application type
       if (connection.application_type === 'general') {
-        // For general applications, just make certificate available for download
+        // For general applications, make the certificate available for download. The key files are encrypted
+        // at rest, the private key download decrypts them.
         await updateStatusWithOp('uploading_certificate', 'Certificate ready for download', 90);
-        status.logs.push(`Certificate generated and ready for manual installation on ${connection.name}`);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate generated and ready for manual installation on ${connection.name}`);
-        const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-        const envDir = isStaging ? 'staging' : 'prod';
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate files available in: ./accounts/${fullFQDN}/${envDir}/`);
+        status.logs.push(`Certificate generated for ${connection.name}; download the certificate, chain and private key from the dashboard`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate generated for ${connection.name}; download the certificate, chain and private key from the dashboard`);
         
-        // Create CRT and KEY files for easier ESXi import
-        try {
-          const domainEnvDir = path.join(accountManager['accountsDir'], fullFQDN, envDir);
-          const certPath = path.join(domainEnvDir, 'certificate.pem');
-          const privateKeyPath = path.join(domainEnvDir, 'private_key.pem');
-          
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: Looking for certificate.pem at: ${certPath}`);
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: certificate.pem exists: ${fs.existsSync(certPath)}`);
-          
-          // Create .crt file from certificate.pem
-          if (fs.existsSync(certPath)) {
-            const certContent = await fs.promises.readFile(certPath, 'utf8');
-            const crtPath = path.join(domainEnvDir, `${fullFQDN}.crt`);
-            await fs.promises.writeFile(crtPath, certContent);
-            await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: Created ${fullFQDN}.crt successfully`);
-            status.logs.push(`Created ${fullFQDN}.crt file for ESXi import`);
-            await accountManager.saveRenewalLog(connectionId, fullFQDN, `Created ${fullFQDN}.crt file for ESXi import`);
-          }
-          
-          // Create .key file from private_key.pem
-          if (fs.existsSync(privateKeyPath)) {
-            const keyContent = await fs.promises.readFile(privateKeyPath, 'utf8');
-            if (keyContent.trim()) { // Only create if not empty
-              const keyPath = path.join(domainEnvDir, `${fullFQDN}.key`);
-              await fs.promises.writeFile(keyPath, keyContent);
-              status.logs.push(`Created ${fullFQDN}.key file for ESXi import`);
-              await accountManager.saveRenewalLog(connectionId, fullFQDN, `Created ${fullFQDN}.key file for ESXi import`);
-            }
-          }
-        } catch (error) {
-          status.logs.push(`Warning: Could not create CRT/KEY files: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Warning: Could not create CRT/KEY files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // With SSH targets, upload the files and run each target's post-deploy command
+        if (!isDownloadOnly(connection)) {
+          await updateStatusWithOp('uploading_certificate', 'Deploying certificate to SSH targets', 95);
+          await this.uploadCertificateToGeneral(connectionId, connection, certificate, status);
         }
       } else if (connection.application_type === 'ise') {
         // For ISE applications, upload via ISE API
         await updateStatusWithOp('uploading_certificate', 'Uploading certificate to ISE nodes', 90);
         await this.uploadCertificateToISE(connectionId, connection, certificate, status);
+      } else if (connection.application_type === 'expressway') {
+        // For Expressway, upload the certificate with its key and trust the issuing CA
+        await updateStatusWithOp('uploading_certificate', 'Uploading certificate to Expressway', 90);
+        await this.uploadCertificateToExpressway(connectionId, connection, certificate, status);
+      } else if (connection.application_type === 'ios') {
+        // For IOS, import the certificate, key and issuing CA into a trustpoint over SSH
+        await updateStatusWithOp('uploading_certificate', 'Importing certificate into IOS trustpoint', 90);
+        if (!await this.uploadCertificateToIOS(connectionId, connection, certificate, status)) {
+          // A dry run leaves the certificate pending deployment
+          pendingDeployment = null;
+        }
+      } else if (connection.application_type === 'fmc') {
+        // For FMC, import the internal certificate and deploy to the managed devices
+        await updateStatusWithOp('uploading_certificate', 'Importing internal certificate into FMC', 90);
+        await this.uploadCertificateToFMC(connectionId, connection, certificate, status, operationManager);
+      } else if (connection.application_type === 'wlc') {
+        // For WLC, import a PKCS#12 bundle into a trustpoint over SSH and assign it
+        await updateStatusWithOp('uploading_certificate', `Importing ${identities[0].service} certificate into WLC trustpoint`, 90);
+        await this.uploadCertificateToWLC(connectionId, connection, certificate, status, identities[0]);
       } else {
         // For VOS applications, upload via API
         await updateStatusWithOp('uploading_certificate', 'Uploading certificate to VOS application', 90);
-        await this.uploadCertificateToVOS(connectionId, connection, certificate, status);
+        await this.uploadCertificateToVOS(connectionId, connection, certificate, status, identities[0].service || undefined);
+      }
+      
+      if (pendingDeployment) {
+        await this.updateDeployment(database, pendingDeployment, 'deployed');
+        pendingDeployment = null;
+      }
+      
+      // Further VOS services get their own certificate, e.g. tomcat-ECDSA next to tomcat; the services restart once at the end.
+      // So does the web-auth trustpoint of a WLC next to the web admin one.
+      for (const identity of identities.slice(1)) {
+        checkCancellation();
+        this.renewalIdentities.set(renewalId, identity);
+        // The interrupted order belonged to the primary certificate
+        this.resumeCheckpoints.delete(renewalId);
+        
+        await updateStatusWithOp('generating_csr', `Generating CSR for ${describeIdentity(identity)}`, 90);
+        const serviceCsr = connection.application_type === 'wlc'
+          ? await this.generateLocalCSR(connection, status, connectionId, identity)
+          : await this.generateCSRFromVOS(connection, status, connectionId, identity, !!cluster);
+        const serviceCertificate = await this.requestCertificate(connection, serviceCsr, database, status, connectionId, operationManager);
+        try {
+          pendingDeployment = await recordIssuedCertificate(database, connection, renewalId, serviceCertificate, identity.service, cluster ? getClusterDeployTargets(cluster, identity.service) : undefined);
+        } catch (error) {
+          Logger.warn(`Failed to record ${identity.service} certificate issued by renewal ${renewalId}:`, error);
+        }
+        
+        if (connection.application_type === 'wlc') {
+          await updateStatusWithOp('uploading_certificate', `Importing ${identity.service} certificate into WLC trustpoint`, 90);
+          await this.uploadCertificateToWLC(connectionId, connection, serviceCertificate, status, identity);
+        } else {
+          await updateStatusWithOp('uploading_certificate', `Uploading ${identity.service} certificate to VOS application`, 90);
+          await this.uploadCertificateToVOS(connectionId, connection, serviceCertificate, status, identity.service || undefined);
+        }
+        if (pendingDeployment) {
+          await this.updateDeployment(database, pendingDeployment, 'deployed');
+          pendingDeployment = null;
+        }
       }
       
+      // The nodes serve the new certificates once they have been restarted
+      await this.resetClusterVerification(database, cluster);
+      
       // Notify user about service restart attempt (VOS only)
       if (connection.application_type === 'vos' && connection.enable_ssh && connection.auto_restart_service) {
-        await updateStatusWithOp('uploading_certificate', 'Certificate uploaded. Now attempting to restart Cisco Tomcat service...', 91);
+        await updateStatusWithOp('uploading_certificate', `Certificate uploaded. Now attempting to restart ${getRestartServices(getVosServices(connection)).join(', ')}...`, 91);
       }
       
       // Handle service restart if enabled
-      const restartResult = await this.handleServiceRestart(connection, status);
+      const restartResult = await this.handleServiceRestart(connection, status, getVosServices(connection), cluster);
       
       // Set completion message based on restart result
       let completionMessage = 'Certificate renewal completed successfully';
@@ -468,18 +843,31 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       status.message = 'Certificate renewal failed';
       status.endTime = new Date();
       status.logs.push(`ERROR: ${status.error}`);
+      
+      if (pendingDeployment) {
+        await this.updateDeployment(database, pendingDeployment, 'failed', status.error);
+      }
+      
+      // Persist the failure, otherwise the operation still looks in flight after a restart
+      await updateStatusWithOp('failed', 'Certificate renewal failed', 100).catch(updateError => {
+        Logger.error(`Failed to save failed renewal status for ${renewalId}:`, updateError);
+      });
     } finally {
       // Always remove from active renewals
       this.activeRenewals.delete(connectionId);
+      this.renewalIdentities.delete(renewalId);
+      
+      // Challenge records are cleaned up in-process, so the checkpoint is only kept for records that couldn't be removed
+      await this.finishCheckpoint(database, renewalId).catch(error => {
+        Logger.warn(`Failed to finish renewal checkpoint ${renewalId}:`, error);
+      });
     }
   }
 
-  private async getRecentCertificate(connectionId: number, domain: string, maxAgeMs: number): Promise<string | null> {
+  private async getRecentCertificate(connectionId: number, domain: string, maxAgeMs: number, environment: AcmeEnvironment): Promise<string | null> {
     try {
       // Use connection-based directory structure
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envDir = isStaging ? 'staging' : 'prod';
-      const connectionDir = path.join(process.env.ACCOUNTS_DIR || './accounts', `connection-${connectionId}`, envDir);
+      const connectionDir = path.join(process.env.ACCOUNTS_DIR || './accounts', `connection-${connectionId}`, getEnvironmentDir(environment));
       
       // Try different certificate file names in order of preference
       const certFiles = ['fullchain.pem', 'certificate.pem', `${domain}.crt`];
@@ -495,8 +883,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
             
             if (fileAge <= maxAgeMs) {
               const certificateData = await fs.promises.readFile(certPath, 'utf8');
-              const envType = isStaging ? 'staging' : 'production';
-              Logger.info(`Found recent certificate for ${domain} (${Math.round(fileAge / 60000)} minutes old, ${envType}): ${certPath}`);
+              Logger.info(`Found recent certificate for ${domain} (${Math.round(fileAge / 60000)} minutes old, ${environment}): ${certPath}`);
               return certificateData;
             }
             
@@ -515,11 +902,10 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     }
   }
 
-  private async getExistingCertificate(domain: string): Promise<string | null> {
+  private async getExistingCertificate(domain: string, environment: AcmeEnvironment): Promise<string | null> {
     try {
       // Use environment-specific directory structure
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envDir = isStaging ? 'staging' : 'prod';
+      const envDir = getEnvironmentDir(environment);
       const fullChainPath = path.join(process.env.ACCOUNTS_DIR || './accounts', domain, envDir, 'fullchain.pem');
       
       if (!fs.existsSync(fullChainPath)) {
@@ -536,8 +922,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
 
         if (new Date(cert.validTo) > thirtyDaysFromNow) {
-          const envType = isStaging ? 'staging' : 'production';
-          Logger.info(`Found existing certificate for ${domain} that is valid for more than 30 days (${envType}).`);
+          Logger.info(`Found existing certificate for ${domain} that is valid for more than 30 days (${environment}).`);
           return certificateData;
         }
 
@@ -551,8 +936,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
 
       if (new Date(cert.validTo) > thirtyDaysFromNow) {
-        const envType = isStaging ? 'staging' : 'production';
-        Logger.info(`Found existing certificate for ${domain} that is valid for more than 30 days (${envType}).`);
+        Logger.info(`Found existing certificate for ${domain} that is valid for more than 30 days (${environment}).`);
         return certificateData;
       }
 
@@ -582,6 +966,9 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         metadata.manualDNSEntry = status.manualDNSEntry;
         Logger.info(`Including manualDNSEntry in metadata: ${JSON.stringify(status.manualDNSEntry)}`);
       }
+      if (status.deviceDeployments) {
+        metadata.deviceDeployments = status.deviceDeployments;
+      }
       
       await operationManager.updateOperation(status.id, {
         status: newStatus === 'completed' ? 'completed' : newStatus === 'failed' ? 'failed' : 'in_progress',
@@ -607,20 +994,24 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     }
   }
 
-  private async generateCSRFromVOS(connection: ConnectionRecord, status: RenewalStatus, connectionId: number): Promise<string> {
+  private async generateCSRFromVOS(connection: ConnectionRecord, status: RenewalStatus, connectionId: number, identity: CertificateIdentity, cluster: boolean = false): Promise<string> {
     return new Promise(async (resolve, reject) => {
       try {
         // Construct full FQDN from hostname and domain
         const fullFQDN = `${connection.hostname}.${connection.domain}`;
+        const storage = getIdentityStorage(identity);
         
-        // Check if we have an existing CSR
-        const existingCSR = await accountManager.loadCSR(connectionId, fullFQDN);
-        if (existingCSR) {
-          status.logs.push(`Using existing CSR for ${fullFQDN}`);
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Using existing CSR for renewal`);
+        // Check if we have an existing CSR, unless the key settings or names have changed since
+        const existingCSR = await accountManager.loadCSR(connectionId, fullFQDN, getAcmeEnvironment(connection), storage);
+        if (existingCSR && csrMatchesIdentity(existingCSR, identity) && csrMatchesNames(existingCSR, getOrderDomains(connection))) {
+          status.logs.push(`Using existing CSR for ${fullFQDN} (${describeIdentity(identity)})`);
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Using existing CSR for renewal (${describeIdentity(identity)})`);
           resolve(existingCSR);
           return;
         }
+        if (existingCSR) {
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Existing CSR doesn't match ${describeIdentity(identity)} or ${getOrderDomains(connection).join(', ')}, generating a new one`);
+        }
 
         if (!connection.username || !connection.password) {
           throw new Error('Username and password are required for VOS applications');
@@ -634,15 +1025,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
           ? connection.alt_names.split(',').map(name => name.trim()).filter(name => name.length > 0)
           : [];
 
-        const csrPayload = {
-          'service': 'tomcat',
-          'distribution': 'this-server',
-          'commonName': fullFQDN,
-          'keyType': 'rsa',
-          'keyLength': 2048,
-          'hashAlgorithm': 'sha256',
-          ...(altNames.length > 0 && { 'altNames': altNames })
-        };
+        const csrPayload = getVosCsrPayload(identity, fullFQDN, altNames, cluster);
 
         const options = {
           hostname: fullFQDN,
@@ -668,7 +1051,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         // Log detailed CSR information to renewal log
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== CSR Generation Request ===`);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Target: ${fullFQDN}:${options.port}${options.path}`);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Service: ${csrPayload.service}`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Service: ${csrPayload.service} (${csrPayload.distribution})`);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Common Name: ${csrPayload.commonName}`);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Key Type: ${csrPayload.keyType}, Length: ${csrPayload.keyLength}`);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Hash Algorithm: ${csrPayload.hashAlgorithm}`);
@@ -703,11 +1086,11 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
               const response = JSON.parse(data);
               if (response.csr) {
                 // Save CSR to accounts folder
-                await accountManager.saveCSR(connectionId, fullFQDN, response.csr);
-                await accountManager.saveRenewalLog(connectionId, fullFQDN, `Generated new CSR from ${fullFQDN} for service: tomcat`);
+                await accountManager.saveCSR(connectionId, fullFQDN, response.csr, getAcmeEnvironment(connection), storage);
+                await accountManager.saveRenewalLog(connectionId, fullFQDN, `Generated new CSR from ${fullFQDN} for service: ${csrPayload.service}`);
                 await accountManager.saveRenewalLog(connectionId, fullFQDN, `CSR length: ${response.csr.length} characters`);
                 
-                status.logs.push(`CSR generated successfully from ${fullFQDN} for service: tomcat`);
+                status.logs.push(`CSR generated successfully from ${fullFQDN} for service: ${csrPayload.service}`);
                 resolve(response.csr);
               } else {
                 const errorMsg = `CSR not found in response. Response: ${JSON.stringify(response)}`;
@@ -737,67 +1120,55 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
   }
 
   private async requestCertificate(connection: ConnectionRecord, csr: string, database: DatabaseManager, status: RenewalStatus, connectionId: number, operationManager?: OperationStatusManager): Promise<string> {
-    // Get SSL provider settings
-    const sslProvider = connection.ssl_provider || 'letsencrypt';
-    const settings = await database.getSettingsByProvider(sslProvider);
-    
-    if (sslProvider === 'letsencrypt') {
-      return this.requestLetsEncryptCertificate(connection, csr, settings, database, status, connectionId, operationManager);
-    } else if (sslProvider === 'zerossl') {
-      return this.requestZeroSSLCertificate(connection, csr, settings, status, operationManager);
-    } else {
+    // Every SSL provider is an ACME CA from the catalogue
+    const sslProvider = getAcmeCaId(connection);
+    if (!getAcmeCaDefinition(sslProvider)) {
       throw new Error(`Unsupported SSL provider: ${sslProvider}`);
     }
+    
+    return this.requestAcmeCertificate(connection, csr, database, status, connectionId, operationManager);
   }
 
-  private async requestLetsEncryptCertificate(connection: ConnectionRecord, csr: string, settings: any[], database: DatabaseManager, status: RenewalStatus, connectionId: number, operationManager?: OperationStatusManager): Promise<string> {
+  private async requestAcmeCertificate(connection: ConnectionRecord, csr: string, database: DatabaseManager, status: RenewalStatus, connectionId: number, operationManager?: OperationStatusManager): Promise<string> {
+    let caName = getAcmeCaDefinition(getAcmeCaId(connection))?.name || 'ACME';
     try {
-      const { acmeClient } = await import('./acme-client');
-      const CloudflareProvider = (await import('./dns-providers/cloudflare')).default;
+      const { createAcmeClient } = await import('./acme-client');
+      const environment = getAcmeEnvironment(connection);
+      const acmeClient = await createAcmeClient(database, connection);
+      const directory = acmeClient.getDirectory();
+      caName = directory.caName;
       
       const fullFQDN = `${connection.hostname}.${connection.domain}`;
-      
-      // Parse altNames from connection
-      const altNames = connection.alt_names 
-        ? connection.alt_names.split(',').map(name => name.trim()).filter(name => name.length > 0)
-        : [];
-      
-      const domains = [fullFQDN, ...altNames];
+      const domains = getOrderDomains(connection);
       
       // Log renewal start
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== Let's Encrypt Certificate Renewal Started ===`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== ${caName} Certificate Renewal Started ===`);
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `Domains: ${domains.join(', ')}`);
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Environment: ${process.env.LETSENCRYPT_STAGING !== 'false' ? 'STAGING' : 'PRODUCTION'}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Environment: ${getEnvironmentLabel(environment)}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ACME directory: ${directory.directoryUrl}`);
       
-      await this.updateStatus(status, 'creating_account', 'Setting up Let\'s Encrypt account', 20);
+      await this.updateStatus(status, 'creating_account', `Setting up ${caName} account`, 20);
       
       // Load existing ACME account
       const account = await acmeClient.loadAccount(fullFQDN, connectionId);
       if (!account) {
-        const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-        const envType = isStaging ? 'STAGING' : 'PRODUCTION';
-        const errorMsg = `No Let's Encrypt account found for ${fullFQDN} in ${envType} mode. The account should have been created during server startup. Please restart the server to create missing accounts.`;
+        const errorMsg = `No ${caName} account found for ${fullFQDN} in ${getEnvironmentLabel(environment)} mode. The account should have been created during server startup. Please restart the server to create missing accounts.`;
         
         Logger.error(errorMsg);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
         
         // Try to create account as fallback
-        const email = settings.find(s => s.key_name === 'LETSENCRYPT_EMAIL')?.key_value;
-        if (!email) {
-          throw new Error('Let\'s Encrypt email not configured in settings. Please add LETSENCRYPT_EMAIL to your settings.');
-        }
-        
-        Logger.info(`Attempting to create account as fallback with email: ${email}`);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Attempting to create account as fallback with email: ${email}`);
+        Logger.info(`Attempting to create account as fallback with email: ${directory.email || 'none'}`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Attempting to create account as fallback with email: ${directory.email || 'none'}`);
         
         try {
-          const newAccount = await acmeClient.createAccount(email, fullFQDN, connectionId);
+          const newAccount = await acmeClient.createAccount(fullFQDN, connectionId);
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Account created successfully as fallback`);
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Account URL: ${newAccount.accountUrl}`);
         } catch (accountError) {
           Logger.error(`Failed to create account as fallback:`, accountError);
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Failed to create account: ${accountError instanceof Error ? accountError.message : 'Unknown error'}`);
-          throw new Error(`Failed to create Let's Encrypt account for ${fullFQDN}. ${accountError instanceof Error ? accountError.message : 'Unknown error'}`);
+          throw new Error(`Failed to create ${caName} account for ${fullFQDN}. ${accountError instanceof Error ? accountError.message : 'Unknown error'}`);
         }
       } else {
         Logger.info(`Using existing account for domain: ${fullFQDN}`);
@@ -805,17 +1176,66 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Account URL: ${account.accountUrl}`);
       }
       
-      await this.updateStatus(status, 'requesting_certificate', 'Requesting certificate from Let\'s Encrypt', 30);
+      const challengeType = getAcmeChallengeType(connection);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Challenge type: ${challengeType.toUpperCase()}`);
+      
+      // A delegated challenge only works once every _acme-challenge name is a CNAME to the target
+      const challengeDelegate = challengeType === 'dns-01' ? getChallengeDelegate(connection) : null;
+      if (challengeDelegate) {
+        for (const domain of [...new Set<string>(domains.map(domain => domain.replace(/^\*\./, '')))]) {
+          const check = await checkChallengeDelegation(domain, challengeDelegate);
+          if (!check.valid) {
+            const found = check.error || (check.cname ? `found CNAME to ${check.cname}` : 'no CNAME found');
+            throw new Error(`DNS challenge delegation missing: ${check.recordName} must be a CNAME to ${challengeDelegate} (${found})`);
+          }
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Verified DNS challenge delegation: ${check.recordName} -> ${challengeDelegate}`);
+        }
+      }
+      
+      await this.updateStatus(status, 'requesting_certificate', `Requesting certificate from ${caName}`, 30);
+      
+      // Continue the order of an interrupted renewal if the CA still accepts it
+      const resumeFrom = this.resumeCheckpoints.get(status.id);
+      let order: CertificateOrder | null = null;
+      if (resumeFrom) {
+        try {
+          order = await acmeClient.resumeOrder(resumeFrom.orderUrl, csr, domains, challengeType);
+        } catch (error) {
+          Logger.warn(`Failed to load order ${resumeFrom.orderUrl}:`, error);
+        }
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, order
+          ? `Resuming certificate order ${resumeFrom.orderUrl} (${order.challenges.length} challenge(s) still pending)`
+          : `Certificate order ${resumeFrom.orderUrl} can no longer be used, creating a new order`);
+      }
+      
+      if (!order) {
+        // Create certificate order
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Creating certificate order for domains: ${domains.join(', ')}`);
+        order = await acmeClient.requestCertificate(csr, domains, challengeType, await this.getReplacedCertId(connectionId, environment, this.getRenewalStorage(status.id)));
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate order created: ${order.order.url}`);
+      }
+      
+      const checkpoint: RenewalCheckpoint = {
+        renewalId: status.id,
+        connectionId,
+        step: 'order_created',
+        caId: directory.caId,
+        environment,
+        orderUrl: order.order.url,
+        challengeType,
+        challenges: order.challenges.map(challenge => ({ domain: challenge.domain, type: challenge.type, url: challenge.url, token: challenge.token })),
+        resumedFrom: resumeFrom?.renewalId
+      };
+      await this.saveCheckpoint(checkpoint);
       
-      // Create certificate order
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Creating certificate order for domains: ${domains.join(', ')}`);
-      const order = await acmeClient.requestCertificate(csr, domains);
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate order created: ${order.order.url}`);
+      if (challengeType === 'http-01') {
+        return await this.completeHttpChallenges(acmeClient, connection, csr, order, status, connectionId, checkpoint);
+      }
       
       await this.updateStatus(status, 'creating_dns_challenge', 'Setting up DNS challenges', 40);
       
-      // Check DNS challenge mode and provider
-      const dnsProvider = connection.dns_provider || 'cloudflare';
+      // Check DNS challenge mode and provider (the delegated zone's provider when delegating)
+      const dnsProvider = getChallengeDnsProvider(connection);
       
       // Store challenges for manual mode
       status.challenges = order.challenges.map(challenge => ({
@@ -826,51 +1246,19 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       // Determine if we should use manual DNS
       let forceManualDNS = false;
       
-      // Always use manual for custom DNS provider
-      if (dnsProvider === 'custom') {
+      const providerDefinition = getDnsProviderDefinition(dnsProvider);
+      
+      // Always use manual for providers without an API (e.g. custom DNS)
+      if (!providerDefinition?.automated) {
         forceManualDNS = true;
       } else {
         // For other providers, check if API keys are available
         try {
-          const settings = await this.database!.getSettingsByProvider(dnsProvider);
-          
-          // Check for required API keys based on provider
-          let hasRequiredKeys = false;
+          const missingKeys = await getMissingSettings(this.database!, dnsProvider);
           
-          switch (dnsProvider) {
-            case 'cloudflare':
-              const cfKey = settings.find(s => s.key_name === 'CF_KEY')?.key_value;
-              const cfZone = settings.find(s => s.key_name === 'CF_ZONE')?.key_value;
-              hasRequiredKeys = !!(cfKey && cfZone);
-              break;
-            case 'digitalocean':
-              const doKey = settings.find(s => s.key_name === 'DO_KEY')?.key_value;
-              hasRequiredKeys = !!doKey;
-              break;
-            case 'route53':
-              const awsKey = settings.find(s => s.key_name === 'AWS_ACCESS_KEY')?.key_value;
-              const awsSecret = settings.find(s => s.key_name === 'AWS_SECRET_KEY')?.key_value;
-              const awsZone = settings.find(s => s.key_name === 'AWS_ZONE_ID')?.key_value;
-              hasRequiredKeys = !!(awsKey && awsSecret && awsZone);
-              break;
-            case 'azure':
-              const azureSub = settings.find(s => s.key_name === 'AZURE_SUBSCRIPTION_ID')?.key_value;
-              const azureRg = settings.find(s => s.key_name === 'AZURE_RESOURCE_GROUP')?.key_value;
-              const azureZone = settings.find(s => s.key_name === 'AZURE_ZONE_NAME')?.key_value;
-              hasRequiredKeys = !!(azureSub && azureRg && azureZone);
-              break;
-            case 'google':
-              const googleProject = settings.find(s => s.key_name === 'GOOGLE_PROJECT_ID')?.key_value;
-              const googleZone = settings.find(s => s.key_name === 'GOOGLE_ZONE_NAME')?.key_value;
-              hasRequiredKeys = !!(googleProject && googleZone);
-              break;
-            default:
-              hasRequiredKeys = false;
-          }
-          
-          if (!hasRequiredKeys) {
+          if (missingKeys.length > 0) {
             forceManualDNS = true;
-            await accountManager.saveRenewalLog(connectionId, fullFQDN, `API keys not configured for ${dnsProvider} provider, falling back to manual DNS`);
+            await accountManager.saveRenewalLog(connectionId, fullFQDN, `API keys not configured for ${dnsProvider} provider (missing ${missingKeys.join(', ')}), falling back to manual DNS`);
             status.logs.push(`API keys not configured for ${dnsProvider} provider, using manual DNS mode`);
           }
         } catch (error) {
@@ -882,115 +1270,114 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       }
       
       if (forceManualDNS) {
-        const reason = dnsProvider === 'custom' ? 'custom DNS provider' : 'API keys not configured';
+        const reason = !providerDefinition?.automated ? `${dnsProvider} DNS provider` : 'API keys not configured';
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Manual DNS challenge required (${reason}) for ${dnsProvider} provider`);
         status.logs.push(`Manual DNS challenge required (${reason})`);
         
-        // Add key authorizations to challenges for manual mode
-        for (let i = 0; i < order.challenges.length; i++) {
-          const challenge = order.challenges[i];
-          const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
-          status.challenges[i].keyAuthorization = keyAuthorization;
-        }
-        
-        // Use custom DNS handler for manual mode
-        await this.handleCustomDNSChallenge(connectionId, connection, [], status, operationManager);
-        
-        // Complete the challenges
-        await this.updateStatus(status, 'completing_validation', 'Completing Let\'s Encrypt validation', 70);
-        for (const challenge of order.challenges) {
-          await acmeClient.completeChallenge(challenge);
-        }
-        
-        // Wait for order completion and finalize certificate
-        await acmeClient.waitForOrderCompletion(order.order, 300000); // 5 minutes
-        const certificateData = await acmeClient.finalizeCertificate(order.order, csr);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, 'Let\'s Encrypt certificate downloaded successfully');
-        status.logs.push('Let\'s Encrypt certificate downloaded successfully');
-        
-        // Save certificate and chain to accounts folder with individual certificate extraction
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: About to save certificate chain. Certificate data length: ${certificateData.length}`);
-        Logger.debug(`About to save certificate chain for ${fullFQDN}. Certificate data length: ${certificateData.length}`);
-        
-        if (!certificateData || certificateData.length === 0) {
-          throw new Error('Certificate data is empty - cannot save certificate chain');
-        }
-        
-        await this.saveCertificateChain(connectionId, fullFQDN, certificateData, status);
-        
-        return certificateData;
+        return await this.completeManualDNSChallenges(acmeClient, connection, csr, order, status, connectionId, checkpoint, operationManager);
       }
       
-      // Try automated DNS provider first, fall back to manual on failure
+      // Try the configured DNS provider first, fall back to manual DNS if the records can't be published.
+      // The provider client and records belong to this renewal; changes to a zone are serialized across renewals,
+      // and a renewal only ever removes its own records or those of renewals that are no longer running.
+      let dnsClient: DnsProvider | null = null;
+      const challengeRecords: DnsRecord[] = [];
+      const zoneKey = getChallengeZoneKey(connection);
+      const challengeDomain = challengeDelegate || fullFQDN;
+      let challengesSubmitted = false;
+      
+      const cleanupChallengeRecords = async () => {
+        if (!dnsClient || challengeRecords.length === 0) {
+          return;
+        }
+        const client = dnsClient;
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Cleaning up ${challengeRecords.length} DNS TXT record(s)`);
+        // Records that can't be removed stay in the checkpoint for a later renewal or restart to remove
+        const leftover: DnsRecord[] = [];
+        await renewalQueue.withZoneLock(zoneKey, async () => {
+          for (const record of challengeRecords.splice(0)) {
+            try {
+              await client.deleteRecord(record);
+              await accountManager.saveRenewalLog(connectionId, fullFQDN, `Cleaned up DNS TXT record: ${record.name}`);
+              status.logs.push(`Cleaned up DNS TXT record: ${record.name}`);
+            } catch (error) {
+              leftover.push(record);
+              Logger.warn(`Failed to clean up DNS record ${record.name}:`, error);
+              await accountManager.saveRenewalLog(connectionId, fullFQDN, `WARNING: Failed to clean up DNS record ${record.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+          }
+        });
+        await this.saveCheckpoint(checkpoint, { dnsRecords: { provider: dnsProvider, domain: challengeDomain, records: leftover } });
+      };
+      
       try {
-        // Initialize automated DNS provider
-        const cloudflare = await CloudflareProvider.create(database, fullFQDN);
+        const client = await createDnsProvider(database, dnsProvider, challengeDomain);
+        dnsClient = client;
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `${dnsProvider} DNS provider initialized`);
         
-        // Create DNS TXT records for challenges
-        const dnsRecords: any[] = [];
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Setting up ${order.challenges.length} DNS challenge(s)`);
-        
-        for (const challenge of order.challenges) {
-          const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
-          
-          // Log the key authorization for debugging
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Key authorization: ${keyAuthorization}`);
-          
-          const dnsValue = acmeClient.getDNSRecordValue(keyAuthorization);
-          
-          // Extract domain from challenge
-          const challengeDomain = challenge.url.includes('identifier') 
-            ? domains.find(d => challenge.url.includes(d)) || domains[0]
-            : domains[0];
-          
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Processing challenge for domain: ${challengeDomain}`);
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Challenge URL: ${challenge.url}`);
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `DNS value: ${dnsValue}`);
-          
-          // Clean up any existing TXT records before creating new one
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Cleaning up existing TXT records for ${challengeDomain}`);
-          await cloudflare.cleanupTxtRecords(challengeDomain);
-          
-          const record = await cloudflare.createTxtRecord(challengeDomain, dnsValue);
-          dnsRecords.push({ record, challenge, domain: challengeDomain });
+        await renewalQueue.withZoneLock(zoneKey, async () => {
+          // Remove records that failed or interrupted renewals left at these names so they can't shadow the new values
+          const challengeRecordNames = [...new Set<string>(order.challenges.map(challenge => getChallengeTargetName(connection, challenge.domain)))];
+          const staleRemoved = await this.removeStaleChallengeRecords(database, client, dnsProvider, challengeRecordNames);
+          if (staleRemoved > 0) {
+            await accountManager.saveRenewalLog(connectionId, fullFQDN, `Removed ${staleRemoved} stale TXT record(s) left by earlier renewals for ${challengeRecordNames.join(', ')}`);
+            status.logs.push(`Removed ${staleRemoved} stale TXT record(s) left by earlier renewals`);
+          }
           
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Created DNS TXT record for ${challengeDomain}: ${record.id}`);
-          status.logs.push(`Created DNS TXT record for ${challengeDomain}: ${record.id}`);
-        }
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Setting up ${order.challenges.length} DNS challenge(s)`);
+          for (const challenge of order.challenges) {
+            this.throwIfCancelled(status.id);
+            
+            const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
+            const dnsValue = acmeClient.getDNSRecordValue(keyAuthorization);
+            
+            await accountManager.saveRenewalLog(connectionId, fullFQDN, `Processing challenge for domain: ${challenge.domain}`);
+            await accountManager.saveRenewalLog(connectionId, fullFQDN, `DNS value: ${dnsValue}`);
+            
+            const record = await client.createRecord(getChallengeTargetName(connection, challenge.domain), dnsValue, 'TXT');
+            challengeRecords.push(record);
+            await this.saveCheckpoint(checkpoint, {
+              step: 'challenges_published',
+              dnsRecords: { provider: dnsProvider, domain: challengeDomain, records: [...challengeRecords] }
+            });
+            
+            await accountManager.saveRenewalLog(connectionId, fullFQDN, `Created DNS TXT record for ${challenge.domain}: ${record.name}`);
+            status.logs.push(`Created DNS TXT record for ${challenge.domain}: ${record.name}`);
+          }
+        });
         
         await this.updateStatus(status, 'waiting_dns_propagation', 'Waiting for DNS propagation', 50);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Waiting for DNS propagation of ${dnsRecords.length} record(s)`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Waiting for DNS propagation of ${challengeRecords.length} record(s)`);
         
-        // Wait for DNS propagation
-        for (const { challenge, domain } of dnsRecords) {
-          const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
-          const expectedValue = acmeClient.getDNSRecordValue(keyAuthorization);
+        for (const record of challengeRecords) {
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Verifying DNS propagation for ${record.name}, expected value: ${record.value}`);
+          const isVerified = await client.waitForPropagation(record, 300000, () => this.isCancelled(status.id));
+          this.throwIfCancelled(status.id);
           
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Verifying DNS propagation for ${domain}, expected value: ${expectedValue}`);
-          const isVerified = await cloudflare.verifyTxtRecord(domain, expectedValue);
           if (!isVerified) {
-            await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: DNS propagation verification failed for ${domain}`);
-            throw new Error(`DNS propagation verification failed for ${domain}`);
+            await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: DNS propagation verification failed for ${record.name}`);
+            throw new Error(`DNS propagation verification failed for ${record.name}`);
           }
           
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `DNS propagation verified for ${domain}`);
-          status.logs.push(`DNS propagation verified for ${domain}`);
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `DNS propagation verified for ${record.name}`);
+          status.logs.push(`DNS propagation verified for ${record.name}`);
         }
         
-        await this.updateStatus(status, 'completing_validation', 'Completing Let\'s Encrypt validation', 70);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Completing ${dnsRecords.length} Let's Encrypt challenge(s)`);
+        await this.updateStatus(status, 'completing_validation', `Completing ${caName} validation`, 70);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Completing ${order.challenges.length} ${caName} challenge(s)`);
         
-        // Complete challenges
-        for (const { challenge } of dnsRecords) {
+        // Once a challenge is submitted the authorization can't be retried manually
+        challengesSubmitted = true;
+        await this.saveCheckpoint(checkpoint, { step: 'challenges_submitted' });
+        for (const challenge of order.challenges) {
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Completing challenge: ${challenge.url}`);
           await acmeClient.completeChallenge(challenge);
           await accountManager.saveRenewalLog(connectionId, fullFQDN, `Challenge completed successfully: ${challenge.url}`);
         }
         
-        // Add delay to ensure Let's Encrypt processes the completed challenges
-        Logger.info('Waiting for Let\'s Encrypt to process challenge completion...');
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Waiting 3 seconds for Let's Encrypt to process challenge completion...`);
+        // Add delay to ensure the CA processes the completed challenges
+        Logger.info(`Waiting for ${caName} to process challenge completion...`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Waiting 3 seconds for ${caName} to process challenge completion...`);
         await new Promise(resolve => setTimeout(resolve, 3000));
         
         // Wait for order completion
@@ -1005,87 +1392,47 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         const certificate = await acmeClient.finalizeCertificate(completedOrder, csr);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate downloaded successfully`);
         
-        // Clean up DNS records - skip in staging mode for debugging
-        const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-        if (!isStaging || process.env.LETSENCRYPT_CLEANUP_DNS === 'true') {
-          await accountManager.saveRenewalLog(connectionId, fullFQDN, `Cleaning up ${dnsRecords.length} DNS TXT record(s)`);
-          for (const { record } of dnsRecords) {
-            try {
-            await cloudflare.deleteTxtRecord(record.id);
-            await accountManager.saveRenewalLog(connectionId, fullFQDN, `Cleaned up DNS TXT record: ${record.id}`);
-            status.logs.push(`Cleaned up DNS TXT record: ${record.id}`);
-          } catch (error) {
-            Logger.warn(`Failed to clean up DNS record ${record.id}:`, error);
-            await accountManager.saveRenewalLog(connectionId, fullFQDN, `WARNING: Failed to clean up DNS record ${record.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          }
-        }
-      } else {
-        Logger.info(`Skipping DNS record cleanup in staging mode (${dnsRecords.length} records)`);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Skipping DNS record cleanup in staging mode (${dnsRecords.length} records)`);
-        status.logs.push(`Skipped DNS cleanup in staging mode for debugging`);
-      }
-      
-      // Save certificate and chain to accounts folder with individual certificate extraction
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: About to save certificate chain. Certificate data length: ${certificate.length}`);
-      Logger.debug(`About to save certificate chain for ${fullFQDN}. Certificate data length: ${certificate.length}`);
-      
-      if (!certificate || certificate.length === 0) {
-        throw new Error('Certificate data is empty - cannot save certificate chain');
-      }
-      
-      await this.saveCertificateChain(connectionId, fullFQDN, certificate, status);
-      
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== Certificate obtained successfully from Let's Encrypt ===`);
-      status.logs.push('Certificate obtained from Let\'s Encrypt');
-      return certificate;
-      
-      } catch (error) {
-        // API failed, fall back to manual DNS mode
-        Logger.error(`Automated DNS provider failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Automated DNS failed: ${error instanceof Error ? error.message : 'Unknown error'}, falling back to manual DNS`);
-        status.logs.push(`Automated DNS failed, switching to manual DNS mode`);
-        
-        // Add key authorizations to challenges for manual mode
-        for (let i = 0; i < order.challenges.length; i++) {
-          const challenge = order.challenges[i];
-          const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
-          status.challenges[i].keyAuthorization = keyAuthorization;
-        }
+        await cleanupChallengeRecords();
         
-        // Use custom DNS handler for manual mode
-        await this.handleCustomDNSChallenge(connectionId, connection, [], status, operationManager);
+        // Save certificate and chain to accounts folder with individual certificate extraction
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: About to save certificate chain. Certificate data length: ${certificate.length}`);
+        Logger.debug(`About to save certificate chain for ${fullFQDN}. Certificate data length: ${certificate.length}`);
         
-        // Complete the challenges
-        await this.updateStatus(status, 'completing_validation', 'Completing Let\'s Encrypt validation', 70);
-        for (const challenge of order.challenges) {
-          await acmeClient.completeChallenge(challenge);
+        if (!certificate || certificate.length === 0) {
+          throw new Error('Certificate data is empty - cannot save certificate chain');
         }
         
-        // Wait for order completion and finalize certificate
-        await acmeClient.waitForOrderCompletion(order.order, 300000); // 5 minutes
-        const certificateData = await acmeClient.finalizeCertificate(order.order, csr);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, 'Let\'s Encrypt certificate downloaded successfully');
-        status.logs.push('Let\'s Encrypt certificate downloaded successfully');
+        await this.saveCertificateChain(connectionId, fullFQDN, certificate, status, getAcmeEnvironment(connection), this.getRenewalStorage(status.id));
+        await this.saveCheckpoint(checkpoint, { step: 'certificate_issued' });
         
-        // Save certificate and chain to accounts folder with individual certificate extraction
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: About to save certificate chain. Certificate data length: ${certificateData.length}`);
-        Logger.debug(`About to save certificate chain for ${fullFQDN}. Certificate data length: ${certificateData.length}`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== Certificate obtained successfully from ${caName} ===`);
+        status.logs.push(`Certificate obtained from ${caName}`);
+        return certificate;
         
-        if (!certificateData || certificateData.length === 0) {
-          throw new Error('Certificate data is empty - cannot save certificate chain');
+      } catch (error) {
+        await cleanupChallengeRecords();
+        
+        if (challengesSubmitted || this.isCancelled(status.id)) {
+          throw error;
         }
         
-        await this.saveCertificateChain(connectionId, fullFQDN, certificateData, status);
+        // Records couldn't be published or didn't propagate, fall back to manual DNS mode
+        Logger.error(`Automated DNS provider failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Automated DNS failed: ${error instanceof Error ? error.message : 'Unknown error'}, falling back to manual DNS`);
+        status.logs.push(`Automated DNS failed, switching to manual DNS mode`);
         
-        return certificateData;
+        return await this.completeManualDNSChallenges(acmeClient, connection, csr, order, status, connectionId, checkpoint, operationManager);
+      } finally {
+        // Covers cancellation and errors thrown while cleaning up after a failure
+        await cleanupChallengeRecords();
       }
       
     } catch (error) {
       const fullFQDN = `${connection.hostname}.${connection.domain}`;
-      Logger.error('Let\'s Encrypt certificate request failed:', error);
+      Logger.error(`${caName} certificate request failed:`, error);
       
       // Log detailed error information
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== ERROR: Let's Encrypt certificate request failed ===`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== ERROR: ${caName} certificate request failed ===`);
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       
       if (error instanceof Error && error.stack) {
@@ -1112,400 +1459,115 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     }
   }
 
-  private async requestZeroSSLCertificate(connection: ConnectionRecord, csr: string, _settings: any[], status: RenewalStatus, operationManager?: OperationStatusManager): Promise<string> {
+  private async completeHttpChallenges(acmeClient: ACMEClient, connection: ConnectionRecord, csr: string, order: CertificateOrder, status: RenewalStatus, connectionId: number, checkpoint: RenewalCheckpoint): Promise<string> {
+    const caName = acmeClient.getDirectory().caName;
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+    const publisher = createHttpChallengePublisher(connection);
+    const published: { domain: string; token: string; keyAuthorization: string }[] = [];
+    
     try {
-      const { ZeroSSLProvider } = await import('./ssl-providers/zerossl');
-      const { MXToolboxService } = await import('./services/mxtoolbox');
+      await this.updateStatus(status, 'creating_http_challenge', 'Publishing HTTP challenges', 40);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Publishing ${order.challenges.length} HTTP-01 challenge(s) via ${publisher.description}`);
       
-      if (!this.database) {
-        throw new Error('Database not initialized');
+      for (const challenge of order.challenges) {
+        this.throwIfCancelled(status.id);
+        
+        const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
+        await publisher.publish(challenge.token, keyAuthorization);
+        published.push({ domain: challenge.domain, token: challenge.token, keyAuthorization });
+        await this.saveCheckpoint(checkpoint, { step: 'challenges_published', httpTokens: published.map(entry => entry.token) });
+        
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Published HTTP-01 token for ${challenge.domain}: ${getChallengeUrl(challenge.domain, challenge.token)}`);
+        status.logs.push(`Published HTTP-01 token for ${challenge.domain}`);
       }
-
-      const zeroSSL = await ZeroSSLProvider.create(this.database);
-      const mxToolbox = await MXToolboxService.create(this.database);
       
-      const fullFQDN = `${connection.hostname}.${connection.domain}`;
-      const domains = [fullFQDN];
+      // A failed validation spends the authorization, so check the URLs are reachable first
+      await this.updateStatus(status, 'verifying_http_challenge', 'Checking HTTP challenge URLs', 50);
+      for (const entry of published) {
+        this.throwIfCancelled(status.id);
+        await verifyHttpChallenge(entry.domain, entry.token, entry.keyAuthorization);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `HTTP-01 challenge reachable for ${entry.domain}`);
+      }
       
-      // Add alt_names if provided
-      if (connection.alt_names) {
-        const altNames = connection.alt_names.split(',').map(name => name.trim()).filter(name => name);
-        domains.push(...altNames);
+      await this.updateStatus(status, 'completing_validation', `Completing ${caName} validation`, 70);
+      await this.saveCheckpoint(checkpoint, { step: 'challenges_submitted' });
+      for (const challenge of order.challenges) {
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Completing challenge: ${challenge.url}`);
+        await acmeClient.completeChallenge(challenge);
       }
-
-      await this.updateStatus(status, 'requesting_certificate', 'Creating ZeroSSL certificate request', 30);
       
-      // Create certificate with ZeroSSL
-      const certificate = await zeroSSL.createCertificate(domains, csr);
-      status.logs.push(`ZeroSSL certificate created with ID: ${certificate.id}`);
-
-      await this.updateStatus(status, 'creating_dns_challenge', 'Setting up DNS validation', 40);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Waiting for order completion: ${order.order.url}`);
+      const completedOrder = await acmeClient.waitForOrderCompletion(order.order);
       
-      // Get validation details
-      const validations = await zeroSSL.getValidationDetails(certificate.id);
-      status.logs.push(`Retrieved validation details for ${validations.length} domains`);
-
-      // Create DNS records for validation
-      const dnsProvider = connection.dns_provider || 'cloudflare';
+      await this.updateStatus(status, 'downloading_certificate', 'Downloading certificate', 80);
+      const certificate = await acmeClient.finalizeCertificate(completedOrder, csr);
       
-      for (const validation of validations) {
-        if (validation.details?.cname_validation_p1 && validation.details?.cname_validation_p2) {
-          const recordName = validation.details.cname_validation_p1;
-          const recordValue = validation.details.cname_validation_p2;
-          
-          status.logs.push(`Creating CNAME record: ${recordName} -> ${recordValue}`);
-          
-          // Create DNS record using the configured DNS provider
-          await this.createDNSRecordForValidation(dnsProvider, recordName, recordValue, 'CNAME');
-          
-          // Store record for cleanup
-          this.dnsRecordIds.push(`CNAME_${recordName}`);
-        }
-      }
-
-      await this.updateStatus(status, 'waiting_dns_propagation', 'Waiting for DNS propagation via MXToolbox', 50);
-      
-      // Wait for DNS propagation using MXToolbox
-      for (const validation of validations) {
-        if (validation.details?.cname_validation_p1 && validation.details?.cname_validation_p2) {
-          const recordName = validation.details.cname_validation_p1;
-          const recordValue = validation.details.cname_validation_p2;
-          
-          const isVerified = await mxToolbox.waitForDNSPropagation(
-            recordName,
-            recordValue,
-            'CNAME',
-            180000 // 3 minutes timeout
-          );
-          
-          if (!isVerified) {
-            throw new Error(`DNS propagation failed for ${recordName}`);
-          }
-          
-          status.logs.push(`CNAME record verified: ${recordName}`);
-        }
+      if (!certificate || certificate.length === 0) {
+        throw new Error('Certificate data is empty - cannot save certificate chain');
       }
-
-      await this.updateStatus(status, 'completing_validation', 'Triggering ZeroSSL validation', 70);
       
-      // Verify domains with ZeroSSL
-      for (const validation of validations) {
-        await zeroSSL.verifyDomain(certificate.id, validation.domain);
-        status.logs.push(`Verification triggered for ${validation.domain}`);
-      }
-
-      await this.updateStatus(status, 'downloading_certificate', 'Waiting for certificate issuance', 80);
+      await this.saveCertificateChain(connectionId, fullFQDN, certificate, status, getAcmeEnvironment(connection), this.getRenewalStorage(status.id));
+      await this.saveCheckpoint(checkpoint, { step: 'certificate_issued' });
       
-      // Wait for certificate to be issued and download it
-      const certificateData = await zeroSSL.waitForCertificate(certificate.id, 300000); // 5 minutes
-      status.logs.push('ZeroSSL certificate downloaded successfully');
-
-      return certificateData;
-    } catch (error) {
-      Logger.error(`ZeroSSL certificate request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
-    }
-  }
-
-  private async createDNSRecordForValidation(dnsProvider: string, recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<void> {
-    if (!this.database) {
-      throw new Error('Database not initialized');
-    }
-
-    try {
-      if (dnsProvider === 'cloudflare') {
-        const { CloudflareProvider } = await import('./dns-providers/cloudflare');
-        const cloudflare = await CloudflareProvider.create(this.database, recordName);
-        await cloudflare.createDNSRecord(recordName, recordValue, recordType);
-      } else if (dnsProvider === 'digitalocean') {
-        const { DigitalOceanDNSProvider } = await import('./dns-providers/digitalocean');
-        const digitalOcean = await DigitalOceanDNSProvider.create(this.database, recordName);
-        await digitalOcean.createDNSRecord(recordName, recordValue, recordType);
-      } else if (dnsProvider === 'route53') {
-        const { Route53DNSProvider } = await import('./dns-providers/route53');
-        const route53 = await Route53DNSProvider.create(this.database, recordName);
-        await route53.createDNSRecord(recordName, recordValue, recordType);
-      } else if (dnsProvider === 'azure') {
-        const { AzureDNSProvider } = await import('./dns-providers/azure');
-        const azure = await AzureDNSProvider.create(this.database, recordName);
-        await azure.createDNSRecord(recordName, recordValue, recordType);
-      } else if (dnsProvider === 'google') {
-        const { GoogleDNSProvider } = await import('./dns-providers/google');
-        const google = await GoogleDNSProvider.create(this.database, recordName);
-        await google.createDNSRecord(recordName, recordValue, recordType);
-      } else {
-        throw new Error(`DNS provider ${dnsProvider} not supported for ZeroSSL CNAME validation`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `=== Certificate obtained successfully from ${caName} ===`);
+      status.logs.push(`Certificate obtained from ${caName}`);
+      return certificate;
+    } finally {
+      for (const entry of published) {
+        try {
+          await publisher.remove(entry.token);
+        } catch (error) {
+          Logger.warn(`Failed to remove HTTP-01 token for ${entry.domain}:`, error);
+          await accountManager.saveRenewalLog(connectionId, fullFQDN, `WARNING: Failed to remove HTTP-01 token for ${entry.domain}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       }
-    } catch (error) {
-      Logger.error(`Failed to create DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+      await publisher.close();
     }
   }
 
-  private async handleDNSChallenge(connectionId: number, connection: ConnectionRecord, database: DatabaseManager, status: RenewalStatus, operationManager?: OperationStatusManager): Promise<void> {
-    const dnsProvider = connection.dns_provider || 'cloudflare';
-    const settings = await database.getSettingsByProvider(dnsProvider);
+  private async completeManualDNSChallenges(acmeClient: ACMEClient, connection: ConnectionRecord, csr: string, order: CertificateOrder, status: RenewalStatus, connectionId: number, checkpoint: RenewalCheckpoint, operationManager?: OperationStatusManager): Promise<string> {
+    const caName = acmeClient.getDirectory().caName;
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
     
-    // Use automated DNS challenge based on provider
-    if (dnsProvider === 'cloudflare') {
-      await this.handleCloudflareChallenge(connection, settings, status);
-    } else if (dnsProvider === 'digitalocean') {
-      await this.handleDigitalOceanChallenge(connection, settings, status);
-    } else if (dnsProvider === 'route53') {
-      await this.handleRoute53Challenge(connection, settings, status);
-    } else if (dnsProvider === 'azure') {
-      await this.handleAzureChallenge(connection, settings, status);
-    } else if (dnsProvider === 'google') {
-      await this.handleGoogleChallenge(connection, settings, status);
-    } else if (dnsProvider === 'custom') {
-      await this.handleCustomDNSChallenge(connectionId, connection, settings, status, operationManager);
-    } else {
-      throw new Error(`Unsupported DNS provider: ${dnsProvider}`);
+    // Add key authorizations to challenges for manual mode
+    status.challenges = [];
+    for (const challenge of order.challenges) {
+      const keyAuthorization = await acmeClient.getChallengeKeyAuthorization(challenge);
+      status.challenges.push({ ...challenge, keyAuthorization: acmeClient.getDNSRecordValue(keyAuthorization) });
     }
-  }
-
-  private async handleCloudflareChallenge(_connection: ConnectionRecord, settings: any[], status: RenewalStatus): Promise<void> {
-    const cfKey = settings.find(s => s.key_name === 'CF_KEY')?.key_value;
-    const cfZone = settings.find(s => s.key_name === 'CF_ZONE')?.key_value;
     
-    if (!cfKey || !cfZone) {
-      throw new Error('Cloudflare API key or zone ID not configured');
+    // Use custom DNS handler for manual mode
+    await this.handleCustomDNSChallenge(connectionId, connection, [], status, operationManager);
+    
+    // Complete the challenges
+    await this.updateStatus(status, 'completing_validation', `Completing ${caName} validation`, 70);
+    await this.saveCheckpoint(checkpoint, { step: 'challenges_submitted' });
+    for (const challenge of order.challenges) {
+      await acmeClient.completeChallenge(challenge);
     }
-
-    status.logs.push('Managing DNS challenge via Cloudflare');
     
-    // TODO: Implement Cloudflare API integration
-    // This would involve:
-    // 1. Creating TXT record for _acme-challenge.domain
-    // 2. Waiting for DNS propagation
-    // 3. Cleaning up the TXT record after challenge
+    // Wait for order completion and finalize certificate
+    const completedOrder = await acmeClient.waitForOrderCompletion(order.order, 300000); // 5 minutes
+    const certificateData = await acmeClient.finalizeCertificate(completedOrder, csr);
+    await accountManager.saveRenewalLog(connectionId, fullFQDN, `${caName} certificate downloaded successfully`);
+    status.logs.push(`${caName} certificate downloaded successfully`);
     
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        status.logs.push('DNS challenge completed via Cloudflare');
-        resolve();
-      }, 1000);
-    });
-  }
-
-  private async handleDigitalOceanChallenge(connection: ConnectionRecord, _settings: any[], status: RenewalStatus): Promise<void> {
-    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+    const recordNames = [...new Set<string>(order.challenges.map(challenge => getChallengeTargetName(connection, challenge.domain)))];
+    await accountManager.saveRenewalLog(connectionId, fullFQDN, `Validation complete. The TXT record(s) can now be removed: ${recordNames.join(', ')}`);
+    status.logs.push(`Remove the manual DNS TXT record(s): ${recordNames.join(', ')}`);
     
-    try {
-      const { DigitalOceanDNSProvider } = await import('./dns-providers/digitalocean');
-      if (!this.database) {
-        throw new Error('Database not initialized');
-      }
-      const digitalOceanDNS = await DigitalOceanDNSProvider.create(this.database, fullFQDN);
-      
-      await this.updateStatus(status, 'dns_validation', 'Creating DNS records in DigitalOcean', 50);
-      
-      // Process each authorization
-      for (const authz of this.authzRecords) {
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const keyAuth = challenge.keyAuthorization;
-        
-        // Create the DNS record
-        const record = await digitalOceanDNS.createDNSRecord(recordName, keyAuth, 'TXT');
-        status.logs.push(`Created DigitalOcean DNS record with ID: ${record.id}`);
-        
-        // Store record ID for cleanup
-        this.dnsRecordIds.push(record.id.toString());
-      }
-      
-      // Wait for DNS propagation
-      await this.updateStatus(status, 'waiting_dns_propagation', 'Waiting for DNS propagation', 60);
-      
-      for (const authz of this.authzRecords) {
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const isVerified = await digitalOceanDNS.waitForDNSPropagation(
-          recordName,
-          challenge.keyAuthorization,
-          120000 // 2 minutes timeout
-        );
-        
-        if (!isVerified) {
-          throw new Error(`DNS propagation failed for ${recordName}`);
-        }
-      }
-      
-      await this.updateStatus(status, 'completing_validation', 'DNS propagation confirmed - completing validation', 70);
-      
-    } catch (error) {
-      Logger.error(`DigitalOcean DNS challenge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
-    }
-  }
-
-  private async handleRoute53Challenge(connection: ConnectionRecord, _settings: any[], status: RenewalStatus): Promise<void> {
-    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+    // Save certificate and chain to accounts folder with individual certificate extraction
+    await accountManager.saveRenewalLog(connectionId, fullFQDN, `DEBUG: About to save certificate chain. Certificate data length: ${certificateData.length}`);
+    Logger.debug(`About to save certificate chain for ${fullFQDN}. Certificate data length: ${certificateData.length}`);
     
-    try {
-      const { Route53DNSProvider } = await import('./dns-providers/route53');
-      if (!this.database) {
-        throw new Error('Database not initialized');
-      }
-      const route53DNS = await Route53DNSProvider.create(this.database, fullFQDN);
-      
-      await this.updateStatus(status, 'dns_validation', 'Creating DNS records in Route53', 50);
-      
-      // Process each authorization
-      for (const authz of this.authzRecords) {
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const keyAuth = challenge.keyAuthorization;
-        
-        // Create the DNS record
-        const record = await route53DNS.createDNSRecord(recordName, keyAuth, 'TXT');
-        status.logs.push(`Created Route53 DNS record: ${record.id}`);
-        
-        // Store record ID for cleanup
-        this.dnsRecordIds.push(record.id);
-      }
-      
-      // Wait for DNS propagation
-      await this.updateStatus(status, 'waiting_dns_propagation', 'Waiting for DNS propagation', 60);
-      
-      for (const authz of this.authzRecords) {
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const isVerified = await route53DNS.waitForDNSPropagation(
-          recordName,
-          challenge.keyAuthorization,
-          120000 // 2 minutes timeout
-        );
-        
-        if (!isVerified) {
-          throw new Error(`DNS propagation failed for ${recordName}`);
-        }
-      }
-      
-      await this.updateStatus(status, 'completing_validation', 'DNS propagation confirmed - completing validation', 70);
-      
-    } catch (error) {
-      Logger.error(`Route53 DNS challenge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
+    if (!certificateData || certificateData.length === 0) {
+      throw new Error('Certificate data is empty - cannot save certificate chain');
     }
-  }
-
-  private async handleAzureChallenge(connection: ConnectionRecord, _settings: any[], status: RenewalStatus): Promise<void> {
-    const fullFQDN = `${connection.hostname}.${connection.domain}`;
     
-    try {
-      const { AzureDNSProvider } = await import('./dns-providers/azure');
-      if (!this.database) {
-        throw new Error('Database not initialized');
-      }
-      const azureDNS = await AzureDNSProvider.create(this.database, fullFQDN);
-      
-      await this.updateStatus(status, 'dns_validation', 'Creating DNS records in Azure', 50);
-      
-      // Process each authorization
-      for (const authz of this.authzRecords) {
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const keyAuth = challenge.keyAuthorization;
-        
-        // Create the DNS record
-        const record = await azureDNS.createDNSRecord(recordName, keyAuth, 'TXT');
-        status.logs.push(`Created Azure DNS record: ${record.id}`);
-        
-        // Store record ID for cleanup
-        this.dnsRecordIds.push(record.id);
-      }
-      
-      // Wait for DNS propagation
-      await this.updateStatus(status, 'waiting_dns_propagation', 'Waiting for DNS propagation', 60);
-      
-      for (const authz of this.authzRecords) {
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const isVerified = await azureDNS.waitForDNSPropagation(
-          recordName,
-          challenge.keyAuthorization,
-          120000 // 2 minutes timeout
-        );
-        
-        if (!isVerified) {
-          throw new Error(`DNS propagation failed for ${recordName}`);
-        }
-      }
-      
-      await this.updateStatus(status, 'completing_validation', 'DNS propagation confirmed - completing validation', 70);
-      
-    } catch (error) {
-      Logger.error(`Azure DNS challenge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
-    }
-  }
-
-  private async handleGoogleChallenge(connection: ConnectionRecord, _settings: any[], status: RenewalStatus): Promise<void> {
-    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+    await this.saveCertificateChain(connectionId, fullFQDN, certificateData, status, getAcmeEnvironment(connection), this.getRenewalStorage(status.id));
+    await this.saveCheckpoint(checkpoint, { step: 'certificate_issued' });
     
-    try {
-      const { GoogleDNSProvider } = await import('./dns-providers/google');
-      if (!this.database) {
-        throw new Error('Database not initialized');
-      }
-      const googleDNS = await GoogleDNSProvider.create(this.database, fullFQDN);
-      
-      await this.updateStatus(status, 'dns_validation', 'Creating DNS records in Google Cloud', 50);
-      
-      // Process each authorization
-      for (const authz of this.authzRecords) {
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const keyAuth = challenge.keyAuthorization;
-        
-        // Create the DNS record
-        const record = await googleDNS.createDNSRecord(recordName, keyAuth, 'TXT');
-        status.logs.push(`Created Google Cloud DNS record: ${record.id}`);
-        
-        // Store record ID for cleanup
-        this.dnsRecordIds.push(record.id);
-      }
-      
-      // Wait for DNS propagation
-      await this.updateStatus(status, 'waiting_dns_propagation', 'Waiting for DNS propagation', 60);
-      
-      for (const authz of this.authzRecords) {
-        const recordName = `_acme-challenge.${authz.identifier.value}`;
-        const challenge = authz.challenges.find((ch: any) => ch.type === 'dns-01');
-        if (!challenge) continue;
-        
-        const isVerified = await googleDNS.waitForDNSPropagation(
-          recordName,
-          challenge.keyAuthorization,
-          120000 // 2 minutes timeout
-        );
-        
-        if (!isVerified) {
-          throw new Error(`DNS propagation failed for ${recordName}`);
-        }
-      }
-      
-      await this.updateStatus(status, 'completing_validation', 'DNS propagation confirmed - completing validation', 70);
-      
-    } catch (error) {
-      Logger.error(`Google Cloud DNS challenge failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error;
-    }
+    return certificateData;
   }
 
   private async handleCustomDNSChallenge(connectionId: number, connection: ConnectionRecord, _settings: any[], status: RenewalStatus, operationManager?: OperationStatusManager): Promise<void> {
@@ -1526,10 +1588,10 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       
       for (const challenge of challenges) {
         const keyAuth = challenge.keyAuthorization;
-        const recordName = `_acme-challenge.${fullFQDN}`;
+        const recordName = getChallengeTargetName(connection, challenge.domain || fullFQDN);
         
         // Create the DNS record instruction
-        await customDNS.createDNSRecord(recordName, keyAuth, 'TXT');
+        await customDNS.createRecord(recordName, keyAuth, 'TXT');
         
         // Log manual instructions
         const instructions = customDNS.getManualInstructions(recordName, keyAuth);
@@ -1554,6 +1616,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         
         const isVerified = await customDNS.waitForManualEntry(recordName, keyAuth, maxWaitTime, () => this.isCancelled(status.id));
         
+        this.throwIfCancelled(status.id);
         if (!isVerified) {
           throw new Error(`Manual DNS entry verification timed out after ${maxWaitTime / 1000} seconds`);
         }
@@ -1573,27 +1636,25 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     }
   }
 
-  private async uploadCertificateToVOS(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus): Promise<void> {
+  private async uploadCertificateToVOS(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, service: string = DEFAULT_VOS_SERVICE): Promise<void> {
     return new Promise(async (resolve, reject) => {
       try {
         // Parse the certificate chain into individual certificates
-        const certParts = certificate.split('-----END CERTIFICATE-----');
-        const certificates = certParts
-          .filter(part => part.includes('-----BEGIN CERTIFICATE-----'))
-          .map(part => (part.trim() + '\n-----END CERTIFICATE-----'));
+        const certificates = splitPemCertificates(certificate);
 
         if (certificates.length === 0) {
           return reject(new Error('No certificates found to upload.'));
         }
 
         // Upload the full certificate chain (leaf + intermediates)
-        await this.uploadLeafCertificate(connectionId, connection, certificate, status);
+        await this.uploadLeafCertificate(connectionId, connection, certificate, status, service);
 
-        // Upload the CA certificates separately (root and intermediates)
+        // Upload the CA certificates separately (root and intermediates) to the service's trust store
         // VOS may already have these, so we'll handle errors gracefully
-        if (certificates.length > 1) {
+        const trustService = VOS_CERTIFICATE_SERVICES[service]?.trustService;
+        if (certificates.length > 1 && trustService) {
           try {
-            await this.uploadCaCertificates(connectionId, connection, certificates.slice(1), status);
+            await this.uploadCaCertificates(connectionId, connection, certificates.slice(1), status, trustService);
           } catch (caError: any) {
             const fullFQDN = `${connection.hostname}.${connection.domain}`;
             await accountManager.saveRenewalLog(connectionId, fullFQDN, `CA certificate upload warning: ${caError.message}`);
@@ -1609,7 +1670,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     });
   }
 
-  private async uploadLeafCertificate(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus): Promise<void> {
+  private async uploadLeafCertificate(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, service: string): Promise<void> {
     return new Promise(async (resolve, reject) => {
       const fullFQDN = `${connection.hostname}.${connection.domain}`;
       
@@ -1619,11 +1680,14 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       }
 
       // Extract only the leaf certificate (first certificate in the chain)
-      const certParts = certificate.split('-----END CERTIFICATE-----');
-      const leafCert = certParts[0].trim() + '\n-----END CERTIFICATE-----';
+      const [leafCert] = splitPemCertificates(certificate);
+      if (!leafCert) {
+        reject(new Error('No certificates found to upload.'));
+        return;
+      }
 
       const postData = JSON.stringify({
-        service: 'tomcat',
+        service,
         certificates: [leafCert]
       });
 
@@ -1642,7 +1706,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
 
       Logger.info(`VOS certificate chain upload request body: ${postData}`);
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `VOS certificate chain upload request to ${fullFQDN}:${options.port}${options.path}`);
-      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Uploading leaf certificate to tomcat service`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Uploading leaf certificate to ${service} service`);
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `Request body: ${postData}`);
 
       const req = https.request(options, (res) => {
@@ -1693,7 +1757,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     });
   }
 
-  private async getExistingTrustCertificates(connection: ConnectionRecord): Promise<string[]> {
+  private async getExistingTrustCertificates(connection: ConnectionRecord, trustService: string): Promise<string[]> {
     return new Promise((resolve, reject) => {
         const fullFQDN = `${connection.hostname}.${connection.domain}`;
         
@@ -1705,7 +1769,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         const options = {
             hostname: fullFQDN,
             port: 443,
-            path: '/platformcom/api/v1/certmgr/config/trust/certificate?service=tomcat',
+            path: `/platformcom/api/v1/certmgr/config/trust/certificate?service=${encodeURIComponent(trustService)}`,
             method: 'GET',
             headers: {
                 'Accept': 'application/json',
@@ -1745,7 +1809,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     });
   }
 
-  private async uploadCaCertificates(connectionId: number, connection: ConnectionRecord, certificates: string[], status: RenewalStatus): Promise<void> {
+  private async uploadCaCertificates(connectionId: number, connection: ConnectionRecord, certificates: string[], status: RenewalStatus, trustService: string): Promise<void> {
     return new Promise(async (resolve, reject) => {
       try {
         const fullFQDN = `${connection.hostname}.${connection.domain}`;
@@ -1755,7 +1819,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
           return;
         }
 
-        const existingCerts = await this.getExistingTrustCertificates(connection);
+        const existingCerts = await this.getExistingTrustCertificates(connection, trustService);
         const certsToUpload = certificates.filter(c => !existingCerts.includes(c.trim()));
 
         if (certsToUpload.length === 0) {
@@ -1767,7 +1831,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         }
 
         const postData = JSON.stringify({
-          service: ['tomcat'],
+          service: [trustService],
           certificates: certsToUpload,
           description: 'Trust Certificate'
         });
@@ -1786,7 +1850,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         };
 
         Logger.info(`VOS CA cert upload request body: ${postData}`);
-        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Uploading ${certsToUpload.length} CA certificate(s) to ${fullFQDN}:${options.port}${options.path}`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Uploading ${certsToUpload.length} CA certificate(s) to the ${trustService}-trust store on ${fullFQDN}:${options.port}${options.path}`);
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `CA cert request body: ${postData}`);
 
         const req = https.request(options, (res) => {
@@ -1829,7 +1893,105 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
     });
   }
 
-  private async saveCertificateChain(connectionId: number, domain: string, certificateData: string, status: RenewalStatus): Promise<void> {
+  private async updateDeployment(database: DatabaseManager, historyId: number, deployStatus: 'deployed' | 'failed', error?: string): Promise<void> {
+    try {
+      await database.updateCertificateDeployment(historyId, deployStatus, error);
+    } catch (updateError) {
+      Logger.warn(`Failed to update deployment of certificate ${historyId}:`, updateError);
+    }
+  }
+
+  /**
+   * Install an earlier certificate from the history again. Its files become the
+   * connection's current certificate, then it is uploaded as after a renewal.
+   * Nothing is applied in an IOS dry run, the certificate stays pending.
+   */
+  async redeployCertificate(connection: ConnectionRecord, certificate: IssuedCertificateRecord, database: DatabaseManager): Promise<{ logs: string[]; applied: boolean }> {
+    const connectionId = connection.id!;
+    const fullFQDN = getDomainFromConnection(connection);
+    if (!fullFQDN) {
+      throw new Error(`Invalid connection configuration: missing hostname/domain for connection ${connectionId}`);
+    }
+    if (!this.database) {
+      this.database = database;
+    }
+
+    const status: RenewalStatus = {
+      id: `certificate_redeploy_${connectionId}_${Date.now()}`,
+      connectionId,
+      status: 'uploading_certificate',
+      message: `Redeploying certificate ${certificate.serial_number}`,
+      progress: 0,
+      startTime: new Date(),
+      logs: []
+    };
+
+    try {
+      const { fullChain, privateKey } = await loadCertificateVersion(certificate);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Redeploying certificate ${certificate.serial_number} issued ${certificate.created_at}`);
+      // Certificates of further VOS services and WLC trustpoints are kept in their own directory
+      const primary = getCertificateIdentities(connection)[0];
+      const service = certificate.service || primary.service;
+      await accountManager.saveCertificateChain(connectionId, fullFQDN, fullChain, privateKey, certificate.environment, getIdentityStorage({ service, primary: service === primary.service }));
+
+      if (connection.application_type === 'general') {
+        await this.uploadCertificateToGeneral(connectionId, connection, fullChain, status, privateKey);
+      } else if (connection.application_type === 'ise') {
+        // Import with the key that belongs to this certificate
+        await this.uploadCertificateToISE(connectionId, privateKey ? { ...connection, ise_private_key: privateKey } : connection, fullChain, status);
+      } else if (connection.application_type === 'expressway') {
+        await this.uploadCertificateToExpressway(connectionId, connection, fullChain, status, privateKey);
+      } else if (connection.application_type === 'ios') {
+        if (!await this.uploadCertificateToIOS(connectionId, connection, fullChain, status, privateKey)) {
+          return { logs: status.logs, applied: false };
+        }
+      } else if (connection.application_type === 'fmc') {
+        await this.uploadCertificateToFMC(connectionId, connection, fullChain, status, undefined, privateKey);
+      } else if (connection.application_type === 'wlc') {
+        await this.uploadCertificateToWLC(connectionId, connection, fullChain, status, { service, primary: service === primary.service }, privateKey);
+      } else {
+        await this.uploadCertificateToVOS(connectionId, connection, fullChain, status, service || undefined);
+      }
+
+      const cluster = connection.application_type === 'vos' ? await database.getClusterByPublisher(connectionId) : null;
+      await this.resetClusterVerification(database, cluster);
+      const restartResult = await this.handleServiceRestart(connection, status, [service || DEFAULT_VOS_SERVICE], cluster);
+      if (restartResult.requiresManualRestart && restartResult.message) {
+        status.logs.push(restartResult.message);
+      }
+
+      await database.updateCertificateDeployment(certificate.id!, 'deployed');
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Certificate ${certificate.serial_number} redeployed`);
+      return { logs: status.logs, applied: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: Failed to redeploy certificate ${certificate.serial_number}: ${message}`);
+      await this.updateDeployment(database, certificate.id!, 'failed', message);
+      throw error;
+    }
+  }
+
+  // ARI identifier of the certificate a new order replaces, sent as the order's `replaces` field
+  private async getReplacedCertId(connectionId: number, environment: AcmeEnvironment, service?: string): Promise<string | undefined> {
+    const certPath = accountManager.getCertificateFilePath(connectionId, 'certificate.pem', environment, service);
+    if (!fs.existsSync(certPath)) {
+      return undefined;
+    }
+    try {
+      return getAriCertId(await fs.promises.readFile(certPath, 'utf8'));
+    } catch (error) {
+      Logger.warn(`Could not read the certificate being replaced for connection ${connectionId}:`, error);
+      return undefined;
+    }
+  }
+
+  // Storage of the certificate a renewal is ordering, undefined for the connection's primary certificate
+  private getRenewalStorage(renewalId: string): string | undefined {
+    const identity = this.renewalIdentities.get(renewalId);
+    return identity ? getIdentityStorage(identity) : undefined;
+  }
+
+  private async saveCertificateChain(connectionId: number, domain: string, certificateData: string, status: RenewalStatus, environment: AcmeEnvironment, service?: string): Promise<void> {
     try {
       await accountManager.saveRenewalLog(connectionId, domain, `DEBUG: saveCertificateChain called with domain: ${domain}, certificateData length: ${certificateData.length}`);
       Logger.debug(`saveCertificateChain called with domain: ${domain}, certificateData length: ${certificateData.length}`);
@@ -1847,12 +2009,16 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
           } else if (connection && connection.general_private_key) {
             privateKey = connection.general_private_key;
             await accountManager.saveRenewalLog(connectionId, domain, `DEBUG: Found general private key in database, length: ${privateKey.length}`);
+          } else if (connection && generatesLocalKey(connection)) {
+            // The certificate was issued for the CSR generated here, which goes with its key
+            privateKey = await accountManager.loadCSRPrivateKey(connectionId, domain, environment, service) || '';
+            await accountManager.saveRenewalLog(connectionId, domain, `DEBUG: Found ${connection.application_type} CSR private key, length: ${privateKey.length}`);
           }
         }
         
         // If no private key in database, try to load from existing certificate files (for general applications with custom CSR)
         if (!privateKey) {
-          const existingCert = await accountManager.loadCertificate(connectionId, domain);
+          const existingCert = await accountManager.loadCertificate(connectionId, domain, environment, service);
           if (existingCert) {
             privateKey = existingCert.privateKey;
             await accountManager.saveRenewalLog(connectionId, domain, `DEBUG: Found existing private key in files, length: ${privateKey.length}`);
@@ -1867,7 +2033,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       // Use the new chain saving method that extracts individual certificates
       await accountManager.saveRenewalLog(connectionId, domain, `Saving certificate chain for ${domain}`);
       await accountManager.saveRenewalLog(connectionId, domain, `DEBUG: About to call accountManager.saveCertificateChain`);
-      await accountManager.saveCertificateChain(connectionId, domain, certificateData, privateKey);
+      await accountManager.saveCertificateChain(connectionId, domain, certificateData, privateKey, environment, service);
       await accountManager.saveRenewalLog(connectionId, domain, `DEBUG: accountManager.saveCertificateChain completed successfully`);
       
       status.logs.push(`Saved certificate files for ${domain}`);
@@ -1877,7 +2043,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       status.logs.push(`- CA bundle: ca-bundle.crt`);
       status.logs.push(`- Full chain: fullchain.pem`);
       if (privateKey) {
-        status.logs.push(`- Private key: private_key.pem, ${domain}.key`);
+        status.logs.push(`- Private key: private_key.pem (encrypted, download it from the dashboard)`);
       }
       
       // Also save these logs to the renewal log file
@@ -1888,7 +2054,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       await accountManager.saveRenewalLog(connectionId, domain, `- CA bundle: ca-bundle.crt`);
       await accountManager.saveRenewalLog(connectionId, domain, `- Full chain: fullchain.pem`);
       if (privateKey) {
-        await accountManager.saveRenewalLog(connectionId, domain, `- Private key: private_key.pem, ${domain}.key`);
+        await accountManager.saveRenewalLog(connectionId, domain, `- Private key: private_key.pem (encrypted, download it from the dashboard)`);
       }
       
       Logger.info(`Successfully saved certificate chain for ${domain}`);
@@ -1902,11 +2068,16 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
 
   private async updateDatabaseWithRenewal(connectionId: number, database: DatabaseManager): Promise<void> {
     try {
+      // Certificates issued in the last 7 days; the count drops once the oldest of them is a week old
+      const weekMs = 7 * 24 * 60 * 60 * 1000;
+      const issued = await database.countCertificatesIssuedSince(connectionId, new Date(Date.now() - weekMs));
+      const oldest = issued.oldest ? new Date(`${issued.oldest.replace(' ', 'T')}Z`) : new Date();
+      
       // Update the database with renewal information
       await database.updateConnection(connectionId, {
         last_cert_issued: new Date().toISOString(),
-        cert_count_this_week: 1, // This should be calculated based on existing count
-        cert_count_reset_date: new Date().toISOString()
+        cert_count_this_week: issued.count,
+        cert_count_reset_date: new Date(oldest.getTime() + weekMs).toISOString()
       });
       
       Logger.info(`Updated database with renewal info for connection ${connectionId}`);
@@ -1917,10 +2088,16 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
   }
 
   /**
-   * Restart Cisco Tomcat service via SSH if auto_restart_service is enabled
+   * Restart the services that use the renewed certificates via SSH if auto_restart_service is enabled,
+   * e.g. Cisco Tomcat for tomcat, Cisco CallManager and Cisco TFTP for CallManager. The nodes of a
+   * cluster are restarted one at a time, each once the one before serves the new certificate.
    */
-  private async handleServiceRestart(connection: ConnectionRecord, status: RenewalStatus): Promise<{success: boolean; requiresManualRestart: boolean; message?: string}> {
-    // Only VOS applications support service restart
+  private async handleServiceRestart(connection: ConnectionRecord, status: RenewalStatus, certificateServices: string[] = getVosServices(connection), cluster: ClusterWithNodes | null = null): Promise<{success: boolean; requiresManualRestart: boolean; message?: string}> {
+    if (connection.application_type === 'expressway') {
+      return this.restartExpressway(connection, status);
+    }
+
+    // Only VOS and Expressway applications support service restart
     if (connection.application_type !== 'vos') {
       Logger.info(`Skipping service restart for ${connection.hostname}.${connection.domain} - Not a VOS application (${connection.application_type})`);
       return { success: true, requiresManualRestart: false };
@@ -1932,83 +2109,171 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       return { success: true, requiresManualRestart: false };
     }
 
-    try {
-      const fqdn = `${connection.hostname}.${connection.domain}`;
-      Logger.info(`Starting Cisco Tomcat service restart for ${fqdn}`);
-      
-      status.logs.push(`Restarting Cisco Tomcat service on ${fqdn}`);
-      await this.updateStatus(status, 'uploading_certificate', 'Attempting to restart Cisco Tomcat service (if enabled)', 92);
+    const restartServices = getRestartServices(certificateServices);
+    if (restartServices.length === 0) {
+      Logger.info(`Skipping service restart for ${connection.hostname}.${connection.domain} - ${certificateServices.join(', ')} need no restart`);
+      return { success: true, requiresManualRestart: false };
+    }
 
-      // Test SSH connection first
-      const sshTest = await SSHClient.testConnection({
-        hostname: fqdn,
-        username: connection.username!,
-        password: connection.password!
-      });
+    if (cluster && cluster.nodes.length > 0) {
+      return this.restartClusterNodes(connection, status, certificateServices, cluster);
+    }
 
-      if (!sshTest.success) {
-        const errorMsg = `SSH connection failed for ${fqdn}: ${sshTest.error}`;
-        Logger.error(errorMsg);
-        status.logs.push(`⚠️ ${errorMsg}`);
-        status.logs.push(`📋 Manual action required: Run 'utils service restart Cisco Tomcat' on ${fqdn}`);
-        return { 
-          success: false, 
-          requiresManualRestart: true, 
-          message: `SSH failed - Manual service restart required on ${fqdn}` 
-        };
+    const fqdn = `${connection.hostname}.${connection.domain}`;
+    try {
+      const failed = await this.restartServicesOnHost(connection, fqdn, restartServices, status);
+      if (failed.length === 0) {
+        return { success: true, requiresManualRestart: false };
       }
+      status.logs.push(`📋 Manual action required: Run ${this.getManualRestartCommands(failed)} on ${fqdn}`);
+      return { 
+        success: false, 
+        requiresManualRestart: true, 
+        message: `Service restart failed - Manual restart of ${failed.join(', ')} required on ${fqdn}` 
+      };
+    } catch (error: any) {
+      const errorMsg = `Error during service restart for ${connection.hostname}: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`⚠️ ${errorMsg}`);
+      status.logs.push(`📋 Manual action required: Run ${this.getManualRestartCommands(restartServices)} on ${fqdn}`);
+      return { 
+        success: false, 
+        requiresManualRestart: true, 
+        message: `Service restart error - Manual restart required on ${fqdn}` 
+      };
+    }
+  }
+
+  private getManualRestartCommands(services: string[]): string {
+    return services.map(service => `'${getRestartCommand(service)}'`).join(', then ');
+  }
+
+  /**
+   * Restart services on one VOS node with the connection's credentials, returning the ones that failed
+   */
+  private async restartServicesOnHost(connection: ConnectionRecord, fqdn: string, restartServices: string[], status: RenewalStatus): Promise<string[]> {
+    const serviceNames = restartServices.join(', ');
+    Logger.info(`Starting ${serviceNames} restart for ${fqdn}`);
+    
+    status.logs.push(`Restarting ${serviceNames} on ${fqdn}`);
+    await this.updateStatus(status, 'uploading_certificate', `Attempting to restart ${serviceNames} on ${fqdn}`, 92);
+
+    // Test SSH connection first
+    const sshTest = await SSHClient.testConnection({
+      hostname: fqdn,
+      username: connection.username!,
+      password: connection.password!
+    });
+
+    if (!sshTest.success) {
+      const errorMsg = `SSH connection failed for ${fqdn}: ${sshTest.error}`;
+      Logger.error(errorMsg);
+      status.logs.push(`⚠️ ${errorMsg}`);
+      return restartServices;
+    }
 
+    const failed: string[] = [];
+    for (const service of restartServices) {
       // Update status to show we're starting the service restart
-      await this.updateStatus(status, 'uploading_certificate', 'Starting Cisco Tomcat service restart...', 94);
+      await this.updateStatus(status, 'uploading_certificate', `Starting ${service} service restart on ${fqdn}...`, 94);
 
       // Execute service restart command with streaming support and extended timeout (5 minutes)
       const restartResult = await SSHClient.executeCommandWithStream({
         hostname: fqdn,
         username: connection.username!,
         password: connection.password!,
-        command: 'utils service restart Cisco Tomcat',
+        command: getRestartCommand(service),
         timeout: 300000, // 5 minutes for service restart
         onData: async (chunk: string, totalOutput: string) => {
           // Check for [STARTING] pattern and update progress to 97%
-          if (chunk.includes('[STARTING]') || totalOutput.includes('Cisco Tomcat[STARTING]')) {
-            Logger.info(`Detected Cisco Tomcat [STARTING] for ${fqdn} during certificate renewal`);
-            await this.updateStatus(status, 'uploading_certificate', 'Cisco Tomcat service is starting...', 97);
-            status.logs.push(`🔄 Cisco Tomcat service is starting on ${fqdn}`);
+          if (chunk.includes('[STARTING]') || totalOutput.includes(`${service}[STARTING]`)) {
+            Logger.info(`Detected ${service} [STARTING] for ${fqdn} during certificate renewal`);
+            await this.updateStatus(status, 'uploading_certificate', `${service} service is starting on ${fqdn}...`, 97);
+            status.logs.push(`🔄 ${service} service is starting on ${fqdn}`);
           }
         }
       });
 
       if (restartResult.success) {
-        Logger.info(`Successfully restarted Cisco Tomcat service for ${fqdn}`);
-        status.logs.push(`✅ Cisco Tomcat service restarted successfully on ${fqdn}`);
+        Logger.info(`Successfully restarted ${service} service for ${fqdn}`);
+        status.logs.push(`✅ ${service} service restarted successfully on ${fqdn}`);
         status.logs.push(`Service restart output: ${restartResult.output || 'Command completed'}`);
-        return { success: true, requiresManualRestart: false };
       } else {
-        const errorMsg = `Failed to restart Cisco Tomcat service for ${fqdn}: ${restartResult.error}`;
+        const errorMsg = `Failed to restart ${service} service for ${fqdn}: ${restartResult.error}`;
         Logger.error(errorMsg);
         status.logs.push(`⚠️ ${errorMsg}`);
-        status.logs.push(`📋 Manual action required: Run 'utils service restart Cisco Tomcat' on ${fqdn}`);
+        failed.push(service);
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Restart the nodes of a cluster in order, publisher first. A node that fails to
+   * restart or doesn't serve the new certificate afterwards stops the sequence, so
+   * the nodes after it keep serving.
+   */
+  private async restartClusterNodes(connection: ConnectionRecord, status: RenewalStatus, certificateServices: string[], cluster: ClusterWithNodes): Promise<{success: boolean; requiresManualRestart: boolean; message?: string}> {
+    const nodes = [...cluster.nodes].sort((a, b) => a.position - b.position);
+    const serials = await getExpectedSerials(connection);
+
+    for (const [index, node] of nodes.entries()) {
+      const restartServices = getRestartServices(getNodeCertificateServices(node, certificateServices));
+      if (restartServices.length === 0) {
+        continue;
+      }
+
+      status.logs.push(`Cluster ${cluster.name}: restarting node ${index + 1} of ${nodes.length} (${node.hostname})`);
+      let failed: string[];
+      try {
+        failed = await this.restartServicesOnHost(connection, node.hostname, restartServices, status);
+      } catch (error: any) {
+        Logger.error(`Error during service restart for ${node.hostname}: ${error.message}`);
+        status.logs.push(`⚠️ Error during service restart for ${node.hostname}: ${error.message}`);
+        failed = restartServices;
+      }
+
+      const remaining = nodes.slice(index + 1).map(other => other.hostname);
+      const stopMessage = remaining.length > 0 ? `; ${remaining.join(', ')} not restarted` : '';
+      if (failed.length > 0) {
+        status.logs.push(`📋 Manual action required: Run ${this.getManualRestartCommands(failed)} on ${node.hostname}, then restart the remaining nodes one at a time`);
         return { 
           success: false, 
           requiresManualRestart: true, 
-          message: `Service restart failed - Manual restart required on ${fqdn}` 
+          message: `Service restart failed on ${node.hostname} - Manual restart of ${failed.join(', ')} required${stopMessage}` 
         };
       }
+      await this.database?.updateClusterNode(node.id!, { restarted_at: new Date().toISOString() });
 
-    } catch (error: any) {
-      const errorMsg = `Error during service restart for ${connection.hostname}: ${error.message}`;
-      Logger.error(errorMsg);
-      status.logs.push(`⚠️ ${errorMsg}`);
-      status.logs.push(`📋 Manual action required: Run 'utils service restart Cisco Tomcat' on ${connection.hostname}.${connection.domain}`);
-      return { 
-        success: false, 
-        requiresManualRestart: true, 
-        message: `Service restart error - Manual restart required on ${connection.hostname}.${connection.domain}` 
-      };
+      // Nodes without a web certificate of ours can't be checked, e.g. when only CallManager is managed
+      if (serials.length === 0) {
+        continue;
+      }
+      await this.updateStatus(status, 'uploading_certificate', `Waiting for ${node.hostname} to serve the new certificate`, 98);
+      const verification = await waitForNodeCertificate(node.hostname, serials);
+      await this.database?.updateClusterNode(node.id!, { ...verification, verified_at: new Date().toISOString() });
+      if (verification.verify_status !== 'verified') {
+        status.logs.push(`⚠️ ${node.hostname} doesn't serve the new certificate: ${verification.verify_error}`);
+        return { 
+          success: false, 
+          requiresManualRestart: true, 
+          message: `${node.hostname} doesn't serve the new certificate after the restart${stopMessage}` 
+        };
+      }
+      status.logs.push(`✅ ${node.hostname} serves the new certificate`);
+    }
+
+    return { success: true, requiresManualRestart: false };
+  }
+
+  // Newly installed certificates aren't served until the nodes have been restarted
+  private async resetClusterVerification(database: DatabaseManager, cluster: ClusterWithNodes | null): Promise<void> {
+    for (const node of cluster?.nodes || []) {
+      await database.updateClusterNode(node.id!, { verify_status: 'pending', verify_error: null });
     }
   }
 
-  private async generateCSRFromISE(connection: ConnectionRecord, status: RenewalStatus, connectionId: number): Promise<string> {
+  private async generateCSRFromISE(connection: ConnectionRecord, status: RenewalStatus, connectionId: number, identity: CertificateIdentity): Promise<string> {
     const fullFQDN = getDomainFromConnection(connection);
     if (!fullFQDN) {
       throw new Error('Invalid connection configuration: missing hostname/domain');
@@ -2040,8 +2305,9 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       const csrParams = {
         commonName: fullFQDN,
         subjectAltNames: connection.alt_names ? connection.alt_names.split(',').map(name => name.trim()) : [],
-        keySize: 2048,
-        keyType: 'RSA',
+        keySize: KEY_ALGORITHMS[identity.keyAlgorithm].size,
+        keyType: KEY_ALGORITHMS[identity.keyAlgorithm].type === 'ec' ? 'ECDSA' : 'RSA',
+        hashAlgorithm: identity.hashAlgorithm,
         organizationName: 'Organization',
         organizationalUnit: 'IT Department',
         locality: 'City',
@@ -2065,7 +2331,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       await accountManager.saveRenewalLog(connectionId, fullFQDN, `CSR generated successfully from ISE: ${csrResponse.csr.length} characters`);
 
       // Save the CSR to accounts folder for record keeping
-      await accountManager.saveCSR(connectionId, fullFQDN, csrResponse.csr);
+      await accountManager.saveCSR(connectionId, fullFQDN, csrResponse.csr, getAcmeEnvironment(connection));
 
       // Save private key if provided by ISE
       if (csrResponse.privateKey) {
@@ -2073,13 +2339,12 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         await accountManager.saveRenewalLog(connectionId, fullFQDN, `Private key received from ISE and saved`);
         
         // Save private key to accounts folder
-        const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-        const envDir = isStaging ? 'staging' : 'prod';
+        const envDir = getEnvironmentDir(getAcmeEnvironment(connection));
         const domainDir = path.join(accountManager['accountsDir'], fullFQDN, envDir);
         
         await fs.promises.mkdir(domainDir, { recursive: true });
         const privateKeyPath = path.join(domainDir, 'private_key.pem');
-        await fs.promises.writeFile(privateKeyPath, csrResponse.privateKey);
+        await encryptionManager.writeFile(privateKeyPath, csrResponse.privateKey);
       }
 
       return csrResponse.csr;
@@ -2114,12 +2379,11 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
         status.logs.push(`Using provided private key for ISE certificate import`);
       } else {
         // Try to load private key from accounts folder
-        const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-        const envDir = isStaging ? 'staging' : 'prod';
+        const envDir = getEnvironmentDir(getAcmeEnvironment(connection));
         const privateKeyPath = path.join(accountManager['accountsDir'], fullFQDN, envDir, 'private_key.pem');
         
         try {
-          privateKey = await fs.promises.readFile(privateKeyPath, 'utf8');
+          privateKey = await encryptionManager.readFile(privateKeyPath);
           status.logs.push(`Loaded private key from accounts folder`);
         } catch (error) {
           throw new Error('Private key not found. Please ensure private key is provided or CSR was generated via this system.');
@@ -2127,8 +2391,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       }
 
       // Try to load already separated certificate files first, fallback to parsing chain
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      const envDir = isStaging ? 'staging' : 'prod';
+      const envDir = getEnvironmentDir(getAcmeEnvironment(connection));
       const certDir = path.join(accountManager['accountsDir'], fullFQDN, envDir);
       
       let caCertificates: string[] = [];
@@ -2163,10 +2426,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       // If no certificate files found, parse from the certificate chain
       if (!filesFound) {
         status.logs.push(`Certificate files not found, parsing from certificate chain`);
-        const certParts = certificate.split('-----END CERTIFICATE-----');
-        const certificates = certParts
-          .filter(part => part.includes('-----BEGIN CERTIFICATE-----'))
-          .map(part => (part.trim() + '\n-----END CERTIFICATE-----'));
+        const certificates = splitPemCertificates(certificate);
         
         if (certificates.length === 0) {
           throw new Error('No certificates found to upload');
@@ -2236,10 +2496,7 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       } catch (error) {
         // If file doesn't exist, extract from certificate chain
         status.logs.push(`Certificate file not found, extracting from certificate chain`);
-        const certParts = certificate.split('-----END CERTIFICATE-----');
-        const certificates = certParts
-          .filter(part => part.includes('-----BEGIN CERTIFICATE-----'))
-          .map(part => (part.trim() + '\n-----END CERTIFICATE-----'));
+        const certificates = splitPemCertificates(certificate);
         
         if (certificates.length === 0) {
           throw new Error('No certificates found in certificate chain');
@@ -2314,6 +2571,367 @@ class CertificateRenewalServiceImpl implements CertificateRenewalService {
       throw new Error(errorMsg);
     }
   }
+
+  /**
+   * CSR for the platforms that take the private key with the certificate (Expressway, IOS, FMC, WLC), generated here with its key
+   */
+  private async generateLocalCSR(connection: ConnectionRecord, status: RenewalStatus, connectionId: number, identity: CertificateIdentity): Promise<string> {
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+    const environment = getAcmeEnvironment(connection);
+    const platform = connection.application_type as SupportedPlatform;
+    const platformLabel = LOCAL_KEY_PLATFORMS[platform];
+    const storage = getIdentityStorage(identity);
+
+    // Reuse the last CSR while its key is kept and neither the key settings nor the names have changed
+    const existingCSR = await accountManager.loadCSR(connectionId, fullFQDN, environment, storage);
+    if (existingCSR && csrMatchesIdentity(existingCSR, identity) && csrMatchesNames(existingCSR, getOrderDomains(connection)) &&
+        await accountManager.loadCSRPrivateKey(connectionId, fullFQDN, environment, storage)) {
+      status.logs.push(`Using existing CSR for ${fullFQDN} (${describeIdentity(identity)})`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Using existing CSR for renewal (${describeIdentity(identity)})`);
+      return existingCSR;
+    }
+
+    try {
+      const provider = PlatformFactory.createProvider(platform);
+      const altNames = getOrderDomains(connection).slice(1);
+      const csrResponse = await provider.generateCSR(fullFQDN, connection.username || '', connection.password || '', {
+        commonName: fullFQDN,
+        subjectAltNames: altNames,
+        keySize: KEY_ALGORITHMS[identity.keyAlgorithm].size,
+        keyType: KEY_ALGORITHMS[identity.keyAlgorithm].type === 'ec' ? 'ECDSA' : 'RSA',
+        hashAlgorithm: identity.hashAlgorithm
+      });
+
+      if (!csrResponse.success || !csrResponse.csr || !csrResponse.privateKey) {
+        throw new Error(csrResponse.message || `Failed to generate CSR for ${platformLabel}`);
+      }
+
+      await accountManager.saveCSR(connectionId, fullFQDN, csrResponse.csr, environment, storage);
+      await accountManager.saveCSRPrivateKey(connectionId, fullFQDN, csrResponse.privateKey, environment, storage);
+
+      status.logs.push(`CSR generated for ${fullFQDN} (${describeIdentity(identity)})${altNames.length > 0 ? ` with alt names ${altNames.join(', ')}` : ''}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Generated new CSR and private key for ${fullFQDN} (${describeIdentity(identity)})`);
+      if (altNames.length > 0) {
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Alt Names: ${altNames.join(', ')}`);
+      }
+      return csrResponse.csr;
+    } catch (error: any) {
+      const errorMsg = `Failed to generate CSR for ${platformLabel}: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`ERROR: ${errorMsg}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+  }
+
+  /**
+   * Install a certificate as the Expressway server certificate: the issuing CAs
+   * go into the trusted CA list first, then the certificate with its key
+   */
+  private async uploadCertificateToExpressway(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, privateKey?: string): Promise<void> {
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+
+    if (!connection.username || !connection.password) {
+      throw new Error('Username and password are required for Expressway certificate upload');
+    }
+
+    try {
+      const certificates = splitPemCertificates(certificate);
+      if (certificates.length === 0) {
+        throw new Error('No certificates found to upload');
+      }
+      const [leafCertificate, ...caCertificates] = certificates;
+
+      const key = await this.loadLocalPrivateKey(connectionId, connection, leafCertificate, privateKey);
+      const expresswayProvider = PlatformFactory.createProvider('expressway') as ExpresswayProvider;
+
+      if (caCertificates.length > 0) {
+        status.logs.push(`Adding ${caCertificates.length} CA certificate(s) to the trusted CA list of ${fullFQDN}`);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Adding ${caCertificates.length} CA certificate(s) to the trusted CA list`);
+        const caResult = await expresswayProvider.uploadTrustCertificates(fullFQDN, connection.username, connection.password, caCertificates);
+        const caMessage = caResult.success ? `✅ ${caResult.message}` : `⚠️ CA certificate upload warning for ${fullFQDN}: ${caResult.message}`;
+        status.logs.push(caMessage);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, caMessage);
+      }
+
+      status.logs.push(`Uploading server certificate to ${fullFQDN}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Uploading server certificate and private key`);
+      const result = await expresswayProvider.uploadIdentityCertificate(fullFQDN, connection.username, connection.password, {
+        certificate: leafCertificate,
+        privateKey: key,
+        caCertificates
+      });
+      if (!result.success) {
+        throw new Error(result.message || 'Server certificate upload failed');
+      }
+
+      status.logs.push(`✅ Server certificate uploaded to ${fullFQDN}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `✅ Server certificate uploaded`);
+    } catch (error: any) {
+      const errorMsg = `Failed to upload certificate to Expressway: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`ERROR: ${errorMsg}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+  }
+
+  /**
+   * The new server certificate takes effect once the Expressway restarts, which drops its calls and registrations
+   */
+  private async restartExpressway(connection: ConnectionRecord, status: RenewalStatus): Promise<{success: boolean; requiresManualRestart: boolean; message?: string}> {
+    const fqdn = `${connection.hostname}.${connection.domain}`;
+    if (!connection.enable_ssh || !connection.auto_restart_service || !connection.username || !connection.password) {
+      status.logs.push(`📋 Manual action required: Restart ${fqdn} (Maintenance > Restart options) for the new server certificate to take effect`);
+      return {
+        success: true,
+        requiresManualRestart: true,
+        message: `Restart of ${fqdn} required for the new server certificate to take effect`
+      };
+    }
+
+    status.logs.push(`Restarting ${fqdn}...`);
+    const expresswayProvider = PlatformFactory.createProvider('expressway') as ExpresswayProvider;
+    if (await expresswayProvider.restartServices(fqdn, connection.username, connection.password)) {
+      status.logs.push(`✅ Restart of ${fqdn} requested`);
+      return { success: true, requiresManualRestart: false };
+    }
+
+    status.logs.push(`📋 Manual action required: Run 'xCommand Restart' on ${fqdn}`);
+    return {
+      success: false,
+      requiresManualRestart: true,
+      message: `Restart failed - Manual restart of ${fqdn} required`
+    };
+  }
+
+  /**
+   * The key saved with the certificate, or the key of the CSR it was issued for; checked against the certificate
+   */
+  private async loadLocalPrivateKey(connectionId: number, connection: ConnectionRecord, leafCertificate: string, privateKey?: string, storage?: string): Promise<string> {
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+    const environment = getAcmeEnvironment(connection);
+    const key = privateKey
+      || (await accountManager.loadCertificate(connectionId, fullFQDN, environment, storage))?.privateKey
+      || await accountManager.loadCSRPrivateKey(connectionId, fullFQDN, environment, storage);
+    if (!key || !key.trim()) {
+      throw new Error('Private key not found. Please renew the certificate so a new CSR and key are generated.');
+    }
+    if (!new crypto.X509Certificate(leafCertificate).checkPrivateKey(crypto.createPrivateKey(key))) {
+      throw new Error('The private key does not belong to the certificate. Please renew the certificate so a new CSR and key are generated.');
+    }
+    return key;
+  }
+
+  /**
+   * Import a certificate with its key and issuing CA into a new trustpoint on an IOS router or switch,
+   * bind it and save the configuration. Returns false for a dry run, which only logs the CLI lines.
+   */
+  private async uploadCertificateToIOS(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, privateKey?: string): Promise<boolean> {
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+
+    if (!connection.username || !connection.password) {
+      throw new Error('Username and password are required for IOS certificate import');
+    }
+
+    try {
+      const certificates = splitPemCertificates(certificate);
+      if (certificates.length === 0) {
+        throw new Error('No certificates found to import');
+      }
+      const [leafCertificate, ...caCertificates] = certificates;
+      const key = await this.loadLocalPrivateKey(connectionId, connection, leafCertificate, privateKey);
+
+      const iosProvider = PlatformFactory.createProvider('ios') as IOSProvider;
+      const result = await iosProvider.deployCertificate(fullFQDN, connection.username, connection.password, {
+        certificate: leafCertificate,
+        privateKey: key,
+        caCertificates
+      }, { bindings: parseIosBindings(connection.ios_bindings), dryRun: !!connection.ios_dry_run });
+      if (!result.success) {
+        throw new Error(result.message || 'Certificate import failed');
+      }
+
+      if (!result.applied) {
+        status.logs.push(`🔍 Dry run: these CLI lines were not applied to ${fullFQDN}, the private key and its passphrase are redacted`);
+        status.logs.push(...result.commands);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, `Dry run, CLI lines not applied:\n${result.commands.join('\n')}`);
+        return false;
+      }
+
+      status.logs.push(`✅ ${result.message} on ${fullFQDN}, configuration saved`);
+      status.logs.push(`Earlier ACME-* trustpoints can be removed with 'no crypto pki trustpoint <name>' once nothing uses them`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `✅ ${result.message}, configuration saved`);
+      return true;
+    } catch (error: any) {
+      const errorMsg = `Failed to import certificate on IOS: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`ERROR: ${errorMsg}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+  }
+
+  /**
+   * Import a certificate as an FMC internal certificate, make it the identity certificate of the RA VPN
+   * policy if one is set, and deploy to the managed devices when enabled. The deployment status of each
+   * device goes into the renewal's operation.
+   */
+  private async uploadCertificateToFMC(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, operationManager?: OperationStatusManager, privateKey?: string): Promise<void> {
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+
+    if (!connection.fmc_host || !connection.username || !connection.password) {
+      throw new Error('Management Center address, username and password are required for FMC certificate import');
+    }
+
+    try {
+      const certificates = splitPemCertificates(certificate);
+      if (certificates.length === 0) {
+        throw new Error('No certificates found to import');
+      }
+      const [leafCertificate, ...caCertificates] = certificates;
+      const key = await this.loadLocalPrivateKey(connectionId, connection, leafCertificate, privateKey);
+
+      const name = connection.fmc_certificate_name || fullFQDN;
+      const fmcProvider = PlatformFactory.createProvider('fmc') as FMCProvider;
+      const result = await fmcProvider.importInternalCertificate(connection.fmc_host, connection.username, connection.password, name, {
+        certificate: leafCertificate,
+        privateKey: key,
+        caCertificates
+      });
+      if (!result.success || !result.certificateId) {
+        throw new Error(result.message || 'Internal certificate import failed');
+      }
+      status.logs.push(`✅ ${result.message} on ${connection.fmc_host}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `✅ ${result.message} on ${connection.fmc_host}`);
+
+      if (connection.fmc_ravpn_policy) {
+        const updated = await fmcProvider.updateRaVpnPolicy(connection.fmc_host, connection.username, connection.password, connection.fmc_ravpn_policy, { id: result.certificateId, name });
+        const policyMessage = updated
+          ? `RA VPN policy ${connection.fmc_ravpn_policy} now uses ${name} as its identity certificate`
+          : `RA VPN policy ${connection.fmc_ravpn_policy} already uses ${name}`;
+        status.logs.push(policyMessage);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, policyMessage);
+      }
+
+      if (!connection.fmc_deploy) {
+        status.logs.push(`📋 Manual action required: Deploy the changes on ${connection.fmc_host} to the managed devices`);
+        return;
+      }
+
+      const devices = (connection.fmc_devices || '').split(',').map(device => device.trim()).filter(device => device);
+      const deployment = await fmcProvider.deployToDevices(connection.fmc_host, connection.username, connection.password, {
+        devices,
+        onStatus: async deployments => {
+          status.deviceDeployments = deployments;
+          await this.updateStatus(status, 'uploading_certificate', `Deploying: ${deployments.map(deployment => `${deployment.device} ${deployment.status}`).join(', ')}`, 95, operationManager);
+        }
+      });
+      if (!deployment.success) {
+        throw new Error(deployment.message);
+      }
+      status.logs.push(`✅ ${deployment.message}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `✅ ${deployment.message}`);
+    } catch (error: any) {
+      const errorMsg = `Failed to import certificate into FMC: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`ERROR: ${errorMsg}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+  }
+
+  /**
+   * Import a certificate with its key and chain into a new trustpoint on a WLC as a PKCS#12 bundle, assign it
+   * to the web admin GUI or the web-auth parameter map the identity stands for and save the configuration
+   */
+  private async uploadCertificateToWLC(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, identity: Pick<CertificateIdentity, 'service' | 'primary'>, privateKey?: string): Promise<void> {
+    const fullFQDN = `${connection.hostname}.${connection.domain}`;
+
+    if (!connection.username || !connection.password) {
+      throw new Error('Username and password are required for WLC certificate import');
+    }
+    if (!identity.service || !isWlcTrustpoint(identity.service)) {
+      throw new Error(`Unknown WLC trustpoint ${identity.service}`);
+    }
+
+    try {
+      const certificates = splitPemCertificates(certificate);
+      if (certificates.length === 0) {
+        throw new Error('No certificates found to import');
+      }
+      const [leafCertificate, ...caCertificates] = certificates;
+      const key = await this.loadLocalPrivateKey(connectionId, connection, leafCertificate, privateKey, getIdentityStorage(identity));
+
+      status.logs.push(`Copying the ${identity.service} PKCS#12 bundle to ${fullFQDN}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Importing ${identity.service} certificate as a PKCS#12 bundle`);
+      const wlcProvider = PlatformFactory.createProvider('wlc') as WLCProvider;
+      const result = await wlcProvider.deployCertificate(fullFQDN, connection.username, connection.password, {
+        certificate: leafCertificate,
+        privateKey: key,
+        caCertificates
+      }, { trustpoint: identity.service, parameterMap: connection.wlc_parameter_map || undefined });
+      if (!result.success) {
+        throw new Error(result.message || 'Certificate import failed');
+      }
+
+      status.logs.push(`✅ ${result.message} on ${fullFQDN}, configuration saved`);
+      status.logs.push(`Earlier ACME-* trustpoints can be removed with 'no crypto pki trustpoint <name>' once nothing uses them`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `✅ ${result.message}, configuration saved`);
+    } catch (error: any) {
+      const errorMsg = `Failed to import ${identity.service} certificate on WLC: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`ERROR: ${errorMsg}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+  }
+
+  /**
+   * Upload the certificate files of a general connection to its SSH targets and run their post-deploy
+   * commands. A target whose upload or command fails gets its previous files back.
+   */
+  private async uploadCertificateToGeneral(connectionId: number, connection: ConnectionRecord, certificate: string, status: RenewalStatus, privateKey?: string): Promise<void> {
+    const fullFQDN = getDomainFromConnection(connection) || connection.domain;
+
+    if (!connection.username || !connection.password) {
+      throw new Error('Username and password are required to deploy to SSH targets');
+    }
+
+    try {
+      const certificates = splitPemCertificates(certificate);
+      if (certificates.length === 0) {
+        throw new Error('No certificates found to deploy');
+      }
+      const [leafCertificate, ...caCertificates] = certificates;
+      const key = await this.loadLocalPrivateKey(connectionId, connection, leafCertificate, privateKey || connection.general_private_key);
+
+      const targets = getSshDeployTargets(connection);
+      status.logs.push(`Deploying certificate to ${targets.map(target => target.host).join(', ')}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `Deploying certificate to ${targets.length} SSH target(s)`);
+      const generalProvider = PlatformFactory.createProvider('general') as GeneralProvider;
+      const result = await generalProvider.deployCertificate(targets, connection.username, connection.password, {
+        certificate: leafCertificate,
+        privateKey: key,
+        caCertificates
+      });
+
+      for (const target of result.targets) {
+        const targetMessage = target.success ? `✅ ${target.host}: ${target.message}` : `❌ ${target.host}: ${target.message}`;
+        status.logs.push(targetMessage);
+        await accountManager.saveRenewalLog(connectionId, fullFQDN, targetMessage);
+      }
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+    } catch (error: any) {
+      const errorMsg = `Failed to deploy certificate to SSH targets: ${error.message}`;
+      Logger.error(errorMsg);
+      status.logs.push(`ERROR: ${errorMsg}`);
+      await accountManager.saveRenewalLog(connectionId, fullFQDN, `ERROR: ${errorMsg}`);
+      throw new Error(errorMsg);
+    }
+  }
 }
 
 export const certificateRenewalService = new CertificateRenewalServiceImpl();
\ No newline at end of file
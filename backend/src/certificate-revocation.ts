@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+import { DatabaseManager } from './database';
+import { accountManager } from './account-manager';
+import { encryptionManager } from './encryption';
+import { createAcmeClient } from './acme-client';
+import { getAcmeEnvironment } from './acme-environment';
+import { getDomainFromConnection } from './utils/domain-utils';
+import { ConnectionRecord, RevocationReason, RevocationSigner } from './types';
+
+/**
+ * Revocation of the certificate last issued for a connection. The request is
+ * signed with the connection's ACME account key or with the certificate's own
+ * private key, and the revoked files are archived so renewals and downloads
+ * never pick them up again.
+ */
+
+// RFC 5280 CRLReason codes offered in the dashboard
+export const REVOCATION_REASONS: Record<RevocationReason, number> = {
+  keyCompromise: 1,
+  superseded: 4,
+  cessationOfOperation: 5
+};
+
+export const REVOCATION_SIGNERS: RevocationSigner[] = ['account', 'certificate_key'];
+
+export const isRevocationReason = (value: unknown): value is RevocationReason =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(REVOCATION_REASONS, value);
+
+export interface IssuedCertificate {
+  pem: string;
+  serialNumber: string;
+  fingerprint256: string;
+  commonName: string | null;
+  validTo: string;
+  privateKey: string | null;
+}
+
+// The certificate and its key; CA certificates in the same directory stay where they are
+const getCertificateFiles = (domain: string): string[] =>
+  ['certificate.pem', 'fullchain.pem', 'private_key.pem', `${domain}.crt`, `${domain}.key`];
+
+export async function loadIssuedCertificate(connection: ConnectionRecord): Promise<IssuedCertificate | null> {
+  const environment = getAcmeEnvironment(connection);
+  const certPath = accountManager.getCertificateFilePath(connection.id!, 'certificate.pem', environment);
+  if (!fs.existsSync(certPath)) {
+    return null;
+  }
+
+  const pem = await fs.promises.readFile(certPath, 'utf8');
+  const certificate = new crypto.X509Certificate(pem);
+
+  // Only general connections with a key in their custom CSR have one on disk
+  const keyPath = accountManager.getCertificateFilePath(connection.id!, 'private_key.pem', environment);
+  const privateKey = fs.existsSync(keyPath) ? (await encryptionManager.readFile(keyPath)).trim() : '';
+
+  const commonName = certificate.subject.split('\n').find(line => line.startsWith('CN='));
+  return {
+    pem,
+    serialNumber: certificate.serialNumber,
+    fingerprint256: certificate.fingerprint256,
+    commonName: commonName ? commonName.slice(3) : null,
+    validTo: certificate.validTo,
+    privateKey: privateKey || null
+  };
+}
+
+/**
+ * Whether a renewal generates a new key pair, so the connection can be
+ * re-issued right after a key compromise. General connections and ISE
+ * connections with a pasted CSR reuse the key behind their CSR.
+ */
+export function generatesNewKey(connection: ConnectionRecord): boolean {
+  if (connection.application_type === 'general') {
+    return false;
+  }
+  if (connection.application_type === 'ise') {
+    return !connection.ise_certificate?.trim();
+  }
+  return true;
+}
+
+export async function revokeIssuedCertificate(
+  database: DatabaseManager,
+  connection: ConnectionRecord,
+  certificate: IssuedCertificate,
+  reason: RevocationReason,
+  signer: RevocationSigner
+): Promise<void> {
+  const acmeClient = await createAcmeClient(database, connection);
+  const reasonCode = REVOCATION_REASONS[reason];
+  Logger.info(`Revoking certificate ${certificate.serialNumber} for connection ${connection.id} (${reason}, signed with ${signer === 'account' ? 'account key' : 'certificate key'})`);
+
+  if (signer === 'certificate_key') {
+    if (!certificate.privateKey) {
+      throw new Error('No private key is stored for this certificate, sign the revocation with the account key instead');
+    }
+    await acmeClient.revokeCertificateWithKey(certificate.pem, certificate.privateKey, reasonCode);
+    return;
+  }
+
+  const domain = getDomainFromConnection(connection);
+  const account = domain ? await acmeClient.loadAccount(domain, connection.id!) : null;
+  if (!account) {
+    throw new Error(`No ${acmeClient.getDirectory().caName} account found for this connection, sign the revocation with the certificate key instead`);
+  }
+  await acmeClient.revokeCertificate(certificate.pem, reasonCode);
+}
+
+/**
+ * Move the revoked certificate and its key to `revoked/<serial>/` in the
+ * connection's environment directory
+ */
+export async function archiveRevokedCertificate(connection: ConnectionRecord, certificate: IssuedCertificate): Promise<string> {
+  const environment = getAcmeEnvironment(connection);
+  const archiveDir = accountManager.getCertificateFilePath(connection.id!, path.join('revoked', certificate.serialNumber), environment);
+  await fs.promises.mkdir(archiveDir, { recursive: true });
+
+  for (const filename of getCertificateFiles(getDomainFromConnection(connection) || '')) {
+    const source = accountManager.getCertificateFilePath(connection.id!, filename, environment);
+    if (fs.existsSync(source)) {
+      await fs.promises.rename(source, path.join(archiveDir, filename));
+    }
+  }
+
+  Logger.info(`Archived revoked certificate ${certificate.serialNumber} for connection ${connection.id} in ${archiveDir}`);
+  return archiveDir;
+}
@@ -5,6 +5,7 @@ import fs from 'fs';
 import path from 'path';
 import { Logger } from './logger';
 import { DatabaseManager } from './database';
+import { getAcmeEnvironment, getEnvironmentDir } from './acme-environment';
 
 export interface CertificateInfo {
   subject: {
@@ -459,9 +460,8 @@ export async function getCertificateInfoWithFallback(hostname: string, connectio
   const accountsDir = process.env.ACCOUNTS_DIR || path.join(__dirname, '..', 'accounts');
   const domainDir = path.join(accountsDir, hostname);
   
-  // Check for staging environment setting (consistent with account-manager.ts)
-  const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-  const certSubDir = isStaging ? 'staging' : 'prod';
+  // Check the connection's ACME environment first (consistent with account-manager.ts)
+  const certSubDir = getEnvironmentDir(getAcmeEnvironment(connection));
   
   const certPath = path.join(domainDir, certSubDir, 'certificate.pem');
   
@@ -495,7 +495,7 @@ export async function getCertificateInfoWithFallback(hostname: string, connectio
   }
   
   // Fallback 2: Try local certificate in alternate directory (staging/prod)
-  const alternateCertSubDir = isStaging ? 'prod' : 'staging';
+  const alternateCertSubDir = certSubDir === 'staging' ? 'prod' : 'staging';
   const alternateCertPath = path.join(domainDir, alternateCertSubDir, 'certificate.pem');
   
   Logger.debug(`Checking for alternate local certificate at: ${alternateCertPath}`);
@@ -20,14 +20,9 @@ async function clearStuckOperations() {
 
     console.log('Connected to database');
 
-    // Get all active operations
-    const activeOps = await database.getActiveOperationsByType(0, '', false);
-    console.log(`\nFound ${activeOps.length} total operations`);
-
-    // Filter for stuck operations (pending or in_progress)
-    const stuckOps = activeOps.filter(op => 
-      ['pending', 'in_progress'].includes(op.status)
-    );
+    // Get stuck operations (pending or in_progress). Certificate renewals are also
+    // reconciled automatically when the server starts.
+    const stuckOps = await database.getInFlightOperations();
 
     console.log(`\nFound ${stuckOps.length} stuck operations:`);
     
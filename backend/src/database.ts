@@ -1,9 +1,13 @@
 import sqlite3 from 'sqlite3';
 import fs from 'fs';
-import { ConnectionRecord, DatabaseError } from './types';
+import { ApiTokenRecord, ApiTokenScope, AuditEventFilters, AuditEventRecord, CertificateDeployStatus, CertificateRevocationRecord, ClusterNodeRecord, ClusterWithNodes, ConnectionRecord, DatabaseError, IssuedCertificateRecord, RenewalInfoRecord, UserRecord, UserRole } from './types';
 import { Logger } from './logger';
+import { encryptionManager } from './encryption';
 import bcrypt from 'bcrypt';
 
+// Connection columns encrypted at rest. custom_csr may carry the private key alongside the CSR.
+export const ENCRYPTED_CONNECTION_FIELDS = ['password', 'ise_private_key', 'general_private_key', 'custom_csr'];
+
 export class DatabaseManager {
   private db: sqlite3.Database;
   private tableColumns: string[];
@@ -122,6 +126,28 @@ export class DatabaseManager {
       }
     });
 
+    // Last checkpoint of each in-flight renewal, used to reconcile renewals interrupted by a restart
+    const createRenewalCheckpointsTableQuery = `
+      CREATE TABLE IF NOT EXISTS renewal_checkpoints (
+        renewal_id TEXT PRIMARY KEY,
+        connection_id INTEGER NOT NULL,
+        step TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createRenewalCheckpointsTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create renewal_checkpoints table:', err);
+        throw err;
+      } else {
+        Logger.info('Database renewal_checkpoints table created');
+      }
+    });
+
     const createActiveOperationsTableQuery = `
       CREATE TABLE IF NOT EXISTS active_operations (
         id TEXT PRIMARY KEY,
@@ -210,6 +236,274 @@ export class DatabaseManager {
         });
       }
     });
+
+    const createUsersTableQuery = `
+      CREATE TABLE IF NOT EXISTS users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'viewer', -- 'viewer', 'operator' or 'admin'
+        is_enabled INTEGER DEFAULT 1,
+        last_login DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    this.db.run(createUsersTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create users table:', err);
+        throw err;
+      } else {
+        Logger.info('Database users table created');
+      }
+    });
+
+    const createSessionsTableQuery = `
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY, -- SHA-256 of the session token, the token itself is never stored
+        user_id INTEGER NOT NULL,
+        ip_address TEXT,
+        user_agent TEXT,
+        expires_at DATETIME NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createSessionsTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create sessions table:', err);
+        throw err;
+      } else {
+        Logger.info('Database sessions table created');
+        this.db.run('CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id)', [], (indexErr: any) => {
+          if (indexErr) {
+            Logger.error('Failed to create sessions index:', indexErr);
+          }
+        });
+      }
+    });
+
+    const createApiTokensTableQuery = `
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL, -- bcrypt hash of the token secret
+        scopes TEXT NOT NULL, -- JSON array of scopes
+        connection_ids TEXT, -- JSON array of connection IDs, NULL for all connections
+        created_by INTEGER,
+        expires_at DATETIME,
+        last_used_at DATETIME,
+        revoked_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `;
+
+    this.db.run(createApiTokensTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create api_tokens table:', err);
+        throw err;
+      } else {
+        Logger.info('Database api_tokens table created');
+      }
+    });
+
+    const createAuditEventsTableQuery = `
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_type TEXT NOT NULL, -- 'user', 'api_token' or 'system'
+        actor_id INTEGER,
+        actor_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        target_type TEXT NOT NULL,
+        target_id TEXT,
+        target_name TEXT,
+        changes TEXT, -- JSON field diff with secrets redacted
+        details TEXT,
+        ip_address TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    this.db.run(createAuditEventsTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create audit_events table:', err);
+        throw err;
+      } else {
+        Logger.info('Database audit_events table created');
+
+        const indexes = [
+          'CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at)',
+          'CREATE INDEX IF NOT EXISTS idx_audit_events_action ON audit_events(action)',
+          'CREATE INDEX IF NOT EXISTS idx_audit_events_target ON audit_events(target_type, target_id)'
+        ];
+
+        indexes.forEach(indexQuery => {
+          this.db.run(indexQuery, [], (indexErr: any) => {
+            if (indexErr) {
+              Logger.error('Failed to create audit_events index:', indexErr);
+            }
+          });
+        });
+      }
+    });
+
+    const createCertificateRevocationsTableQuery = `
+      CREATE TABLE IF NOT EXISTS certificate_revocations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        connection_id INTEGER NOT NULL,
+        serial_number TEXT NOT NULL,
+        fingerprint256 TEXT NOT NULL,
+        common_name TEXT,
+        environment TEXT NOT NULL,
+        ca_id TEXT NOT NULL,
+        reason TEXT NOT NULL, -- 'keyCompromise', 'superseded' or 'cessationOfOperation'
+        reason_code INTEGER NOT NULL, -- RFC 5280 CRLReason
+        signed_with TEXT NOT NULL, -- 'account' or 'certificate_key'
+        revoked_by TEXT NOT NULL,
+        reissue_renewal_id TEXT,
+        revoked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createCertificateRevocationsTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create certificate_revocations table:', err);
+        throw err;
+      } else {
+        Logger.info('Database certificate_revocations table created');
+        this.db.run('CREATE INDEX IF NOT EXISTS idx_certificate_revocations_connection ON certificate_revocations(connection_id)', [], (indexErr: any) => {
+          if (indexErr) {
+            Logger.error('Failed to create certificate_revocations index:', indexErr);
+          }
+        });
+      }
+    });
+
+    const createCertificatesTableQuery = `
+      CREATE TABLE IF NOT EXISTS certificates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        connection_id INTEGER NOT NULL,
+        renewal_id TEXT,
+        serial_number TEXT NOT NULL,
+        fingerprint TEXT NOT NULL, -- SHA-1
+        fingerprint256 TEXT NOT NULL,
+        common_name TEXT,
+        sans TEXT, -- JSON array
+        issuer TEXT NOT NULL,
+        not_before DATETIME NOT NULL,
+        not_after DATETIME NOT NULL,
+        ca_id TEXT NOT NULL,
+        environment TEXT NOT NULL,
+        key_type TEXT NOT NULL, -- e.g. 'RSA 2048' or 'EC P-256'
+        service TEXT, -- VOS certificate service, e.g. 'tomcat' or 'tomcat-ECDSA', or WLC trustpoint
+        deploy_targets TEXT, -- JSON array of hosts the certificate is installed on
+        deploy_status TEXT NOT NULL, -- 'pending', 'deployed', 'failed' or 'manual'
+        deploy_error TEXT,
+        deployed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createCertificatesTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create certificates table:', err);
+        throw err;
+      } else {
+        Logger.info('Database certificates table created');
+        this.db.run('CREATE INDEX IF NOT EXISTS idx_certificates_connection ON certificates(connection_id, created_at)', [], (indexErr: any) => {
+          if (indexErr) {
+            Logger.error('Failed to create certificates index:', indexErr);
+          }
+        });
+        // Tables created before certificates were kept per VOS service
+        this.db.all('PRAGMA table_info(certificates)', [], (infoErr: any, columns: any[]) => {
+          if (!infoErr && !columns.some(column => column.name === 'service')) {
+            this.db.run('ALTER TABLE certificates ADD COLUMN service TEXT', [], (alterErr: any) => {
+              if (alterErr) {
+                Logger.error('Failed to add service column to certificates table:', alterErr);
+              }
+            });
+          }
+        });
+      }
+    });
+
+    const createRenewalInfoTableQuery = `
+      CREATE TABLE IF NOT EXISTS renewal_info (
+        connection_id INTEGER PRIMARY KEY,
+        ca_id TEXT NOT NULL,
+        cert_id TEXT NOT NULL, -- ARI certificate identifier
+        window_start DATETIME NOT NULL,
+        window_end DATETIME NOT NULL,
+        explanation_url TEXT,
+        scheduled_at DATETIME NOT NULL, -- random point in the window
+        retry_after DATETIME NOT NULL,
+        checked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (connection_id) REFERENCES connections(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createRenewalInfoTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create renewal_info table:', err);
+        throw err;
+      } else {
+        Logger.info('Database renewal_info table created');
+      }
+    });
+
+    const createClustersTableQuery = `
+      CREATE TABLE IF NOT EXISTS clusters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        publisher_id INTEGER NOT NULL UNIQUE, -- connection of the publisher node
+        discovered_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (publisher_id) REFERENCES connections(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createClustersTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create clusters table:', err);
+        throw err;
+      } else {
+        Logger.info('Database clusters table created');
+      }
+    });
+
+    const createClusterNodesTableQuery = `
+      CREATE TABLE IF NOT EXISTS cluster_nodes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cluster_id INTEGER NOT NULL,
+        hostname TEXT NOT NULL, -- FQDN
+        ip_address TEXT,
+        role TEXT NOT NULL, -- 'publisher' or 'subscriber'
+        position INTEGER NOT NULL, -- restart order, publisher first
+        verify_status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'verified', 'mismatch' or 'unreachable'
+        live_serial TEXT, -- serial of the certificate the node served when last checked
+        verify_error TEXT,
+        verified_at DATETIME,
+        restarted_at DATETIME,
+        UNIQUE (cluster_id, hostname),
+        FOREIGN KEY (cluster_id) REFERENCES clusters(id) ON DELETE CASCADE
+      )
+    `;
+
+    this.db.run(createClusterNodesTableQuery, [], (err: any) => {
+      if (err) {
+        Logger.error('Failed to create cluster_nodes table:', err);
+        throw err;
+      } else {
+        Logger.info('Database cluster_nodes table created');
+      }
+    });
   }
 
   private createTable(): void {
@@ -290,7 +584,7 @@ export class DatabaseManager {
       }
       
       const existingColumns = columns.map((col: any) => col.name);
-      const requiredColumns = ['id', ...this.tableColumns, 'password_hash', 'application_type', 'custom_csr', 'is_enabled', 'last_cert_issued', 'cert_count_this_week', 'cert_count_reset_date', 'created_at', 'updated_at'];
+      const requiredColumns = ['id', ...this.tableColumns, 'password_hash', 'application_type', 'custom_csr', 'is_enabled', 'dns_challenge_mode', 'dns_challenge_delegate', 'dns_challenge_delegate_provider', 'acme_challenge_type', 'http_challenge_method', 'http_challenge_webroot', 'acme_environment', 'key_algorithm', 'hash_algorithm', 'vos_services', 'ecdsa_key_algorithm', 'mra_domains', 'mra_san_format', 'ios_bindings', 'ios_dry_run', 'fmc_host', 'fmc_certificate_name', 'fmc_ravpn_policy', 'fmc_deploy', 'fmc_devices', 'wlc_trustpoints', 'wlc_parameter_map', 'general_deploy_targets', 'last_cert_issued', 'cert_count_this_week', 'cert_count_reset_date', 'created_at', 'updated_at'];
       
       // Check for missing columns
       const missingColumns = requiredColumns.filter(col => !existingColumns.includes(col));
@@ -353,6 +647,26 @@ export class DatabaseManager {
         columnDef = 'INTEGER DEFAULT 1';
       } else if (column === 'dns_challenge_mode') {
         columnDef = 'TEXT DEFAULT "auto"';
+      } else if (column === 'acme_challenge_type') {
+        columnDef = 'TEXT DEFAULT "dns-01"';
+      } else if (column === 'http_challenge_method') {
+        columnDef = 'TEXT DEFAULT "responder"';
+      } else if (column === 'key_algorithm') {
+        columnDef = 'TEXT DEFAULT "rsa2048"';
+      } else if (column === 'hash_algorithm') {
+        columnDef = 'TEXT DEFAULT "sha256"';
+      } else if (column === 'vos_services') {
+        columnDef = 'TEXT DEFAULT "tomcat"';
+      } else if (column === 'mra_san_format') {
+        columnDef = 'TEXT DEFAULT "collab-edge"';
+      } else if (column === 'ios_bindings') {
+        columnDef = 'TEXT DEFAULT "https"';
+      } else if (column === 'wlc_trustpoints') {
+        columnDef = 'TEXT DEFAULT "web-admin,web-auth"';
+      } else if (column === 'wlc_parameter_map') {
+        columnDef = 'TEXT DEFAULT "global"';
+      } else if (column === 'ios_dry_run' || column === 'fmc_deploy') {
+        columnDef = 'INTEGER DEFAULT 0';
       }
 
       const alterQuery = `ALTER TABLE connections ADD COLUMN ${column} ${columnDef}`;
@@ -380,7 +694,7 @@ export class DatabaseManager {
   getAllConnections(): Promise<ConnectionRecord[]> {
     return new Promise((resolve, reject) => {
       // Get all columns including password for API functionality
-      const baseColumns = ['id', ...this.tableColumns, 'application_type', 'custom_csr', 'is_enabled', 'last_cert_issued', 'cert_count_this_week', 'cert_count_reset_date', 'created_at', 'updated_at'];
+      const baseColumns = ['id', ...this.tableColumns, 'application_type', 'custom_csr', 'is_enabled', 'dns_challenge_mode', 'dns_challenge_delegate', 'dns_challenge_delegate_provider', 'acme_challenge_type', 'http_challenge_method', 'http_challenge_webroot', 'acme_environment', 'key_algorithm', 'hash_algorithm', 'vos_services', 'ecdsa_key_algorithm', 'mra_domains', 'mra_san_format', 'ios_bindings', 'ios_dry_run', 'fmc_host', 'fmc_certificate_name', 'fmc_ravpn_policy', 'fmc_deploy', 'fmc_devices', 'wlc_trustpoints', 'wlc_parameter_map', 'general_deploy_targets', 'last_cert_issued', 'cert_count_this_week', 'cert_count_reset_date', 'created_at', 'updated_at'];
       const query = `SELECT ${baseColumns.join(', ')} FROM connections`;
       
       this.db.all(query, [], (err: any, rows: any[]) => {
@@ -406,7 +720,13 @@ export class DatabaseManager {
             if (row.enable_ssh !== undefined) {
               row.enable_ssh = !!(Number(row.enable_ssh));
             }
-            return row;
+            if (row.ios_dry_run !== undefined) {
+              row.ios_dry_run = !!(Number(row.ios_dry_run));
+            }
+            if (row.fmc_deploy !== undefined) {
+              row.fmc_deploy = !!(Number(row.fmc_deploy));
+            }
+            return this.decryptConnectionRow(row);
           });
           resolve(convertedRows as ConnectionRecord[]);
         }
@@ -417,7 +737,7 @@ export class DatabaseManager {
   getConnectionById(id: number): Promise<ConnectionRecord | null> {
     return new Promise((resolve, reject) => {
       // Get all columns including password for API functionality
-      const baseColumns = ['id', ...this.tableColumns, 'application_type', 'custom_csr', 'is_enabled', 'last_cert_issued', 'cert_count_this_week', 'cert_count_reset_date', 'created_at', 'updated_at'];
+      const baseColumns = ['id', ...this.tableColumns, 'application_type', 'custom_csr', 'is_enabled', 'dns_challenge_mode', 'dns_challenge_delegate', 'dns_challenge_delegate_provider', 'acme_challenge_type', 'http_challenge_method', 'http_challenge_webroot', 'acme_environment', 'key_algorithm', 'hash_algorithm', 'vos_services', 'ecdsa_key_algorithm', 'mra_domains', 'mra_san_format', 'ios_bindings', 'ios_dry_run', 'fmc_host', 'fmc_certificate_name', 'fmc_ravpn_policy', 'fmc_deploy', 'fmc_devices', 'wlc_trustpoints', 'wlc_parameter_map', 'general_deploy_targets', 'last_cert_issued', 'cert_count_this_week', 'cert_count_reset_date', 'created_at', 'updated_at'];
       const query = `SELECT ${baseColumns.join(', ')} FROM connections WHERE id = ?`;
       
       this.db.get(query, [id], (err: any, row: any) => {
@@ -443,6 +763,13 @@ export class DatabaseManager {
             if (row.enable_ssh !== undefined) {
               row.enable_ssh = !!(Number(row.enable_ssh));
             }
+            if (row.ios_dry_run !== undefined) {
+              row.ios_dry_run = !!(Number(row.ios_dry_run));
+            }
+            if (row.fmc_deploy !== undefined) {
+              row.fmc_deploy = !!(Number(row.fmc_deploy));
+            }
+            this.decryptConnectionRow(row);
           }
           resolve(row as ConnectionRecord || null);
         }
@@ -451,14 +778,14 @@ export class DatabaseManager {
   }
 
   async createConnection(data: Omit<ConnectionRecord, 'id'>): Promise<number> {
-    // For CUCM API automation, store password directly since we need it for API calls
-    // This is less secure but necessary for automation tools
+    // The password is needed for API calls, so it is kept encrypted in the password column
+    // alongside a bcrypt hash
     const hashedPassword = data.password ? await this.hashPassword(data.password) : null;
     
     return new Promise((resolve, reject) => {
       // Include all columns including the newer fields
-      const allColumns = [...this.tableColumns, 'application_type', 'custom_csr', 'is_enabled'];
-      const columnValues = allColumns.map(col => (data as any)[col] || null);
+      const allColumns = [...this.tableColumns, 'application_type', 'custom_csr', 'is_enabled', 'dns_challenge_mode', 'dns_challenge_delegate', 'dns_challenge_delegate_provider', 'acme_challenge_type', 'http_challenge_method', 'http_challenge_webroot', 'acme_environment', 'key_algorithm', 'hash_algorithm', 'vos_services', 'ecdsa_key_algorithm', 'mra_domains', 'mra_san_format', 'ios_bindings', 'ios_dry_run', 'fmc_host', 'fmc_certificate_name', 'fmc_ravpn_policy', 'fmc_deploy', 'fmc_devices', 'wlc_trustpoints', 'wlc_parameter_map', 'general_deploy_targets'];
+      const columnValues = allColumns.map(col => this.encryptConnectionField(col, (data as any)[col] || null));
 
       const insertQuery = `
         INSERT INTO connections (${allColumns.join(', ')}, password_hash) 
@@ -487,7 +814,7 @@ export class DatabaseManager {
         // Only update columns that are provided in data (excluding password and id)
         const dataColumns = this.tableColumns.filter(col => col !== 'password');
         // Add the new fields that were added later
-        const allUpdateableColumns = [...dataColumns, 'application_type', 'custom_csr', 'is_enabled'];
+        const allUpdateableColumns = [...dataColumns, 'application_type', 'custom_csr', 'is_enabled', 'dns_challenge_mode', 'dns_challenge_delegate', 'dns_challenge_delegate_provider', 'acme_challenge_type', 'http_challenge_method', 'http_challenge_webroot', 'acme_environment', 'key_algorithm', 'hash_algorithm', 'vos_services', 'ecdsa_key_algorithm', 'mra_domains', 'mra_san_format', 'ios_bindings', 'ios_dry_run', 'fmc_host', 'fmc_certificate_name', 'fmc_ravpn_policy', 'fmc_deploy', 'fmc_devices', 'wlc_trustpoints', 'wlc_parameter_map', 'general_deploy_targets'];
         const updateColumns: string[] = [];
         const updateValues: any[] = [];
         
@@ -495,13 +822,12 @@ export class DatabaseManager {
         for (const col of allUpdateableColumns) {
           if ((data as any)[col] !== undefined) {
             updateColumns.push(col);
-            updateValues.push((data as any)[col]);
+            updateValues.push(this.encryptConnectionField(col, (data as any)[col]));
           }
         }
         
         Logger.info(`Update columns for connection ${id}:`, { 
           updateColumns, 
-          updateValues,
           allUpdateableColumns,
           providedData: Object.keys(data)
         });
@@ -511,6 +837,11 @@ export class DatabaseManager {
           const hashedPassword = await this.hashPassword(data.password);
           updateColumns.push('password_hash');
           updateValues.push(hashedPassword);
+          // Keep the usable (encrypted) credential in step with the hash
+          if (this.tableColumns.includes('password')) {
+            updateColumns.push('password');
+            updateValues.push(this.encryptConnectionField('password', data.password));
+          }
         }
 
         // Always update the timestamp
@@ -574,6 +905,9 @@ export class DatabaseManager {
           Logger.error('Failed to fetch setting:', err);
           reject(err);
         } else {
+          if (row) {
+            row.key_value = this.decryptSecret(row.key_value, `setting ${keyName}`);
+          }
           resolve(row || null);
         }
       });
@@ -607,7 +941,7 @@ export class DatabaseManager {
           updated_at = CURRENT_TIMESTAMP
       `;
       
-      this.db.run(query, [keyName, keyValue, provider, description], (err: any) => {
+      this.db.run(query, [keyName, encryptionManager.encrypt(keyValue), provider, description], (err: any) => {
         if (err) {
           Logger.error('Failed to upsert setting:', err);
           reject(err);
@@ -641,6 +975,94 @@ export class DatabaseManager {
         if (err) {
           Logger.error('Failed to fetch settings by provider:', err);
           reject(err);
+        } else {
+          resolve(rows.map(row => ({
+            ...row,
+            key_value: this.decryptSecret(row.key_value, `setting ${row.key_name}`)
+          })));
+        }
+      });
+    });
+  }
+
+  // Encryption at rest
+  private encryptConnectionField(column: string, value: any): any {
+    if (!ENCRYPTED_CONNECTION_FIELDS.includes(column) || typeof value !== 'string' || value === '') {
+      return value;
+    }
+    return encryptionManager.encrypt(value);
+  }
+
+  private decryptConnectionRow(row: any): any {
+    for (const field of ENCRYPTED_CONNECTION_FIELDS) {
+      if (row[field]) {
+        row[field] = this.decryptSecret(row[field], `${field} of connection ${row.id}`);
+      }
+    }
+    return row;
+  }
+
+  /**
+   * Decrypt a stored secret. A value that cannot be decrypted (e.g. wrong master key)
+   * is logged and returned empty rather than failing the whole query.
+   */
+  private decryptSecret(value: string, context: string): string {
+    try {
+      return encryptionManager.decrypt(value);
+    } catch (error) {
+      Logger.error(`Failed to decrypt ${context}:`, error);
+      return '';
+    }
+  }
+
+  /**
+   * Apply a transform to every stored secret (encrypted connection columns and setting
+   * values), writing back only the values that change. Used by the encryption migration
+   * and master key rotation.
+   * @returns The number of values rewritten
+   */
+  async transformStoredSecrets(transform: (value: string) => string): Promise<number> {
+    const columns = ENCRYPTED_CONNECTION_FIELDS.filter(col => this.tableColumns.includes(col));
+    let changed = 0;
+
+    if (columns.length > 0) {
+      const connections = await this.allRaw(`SELECT id, ${columns.join(', ')} FROM connections`);
+      for (const connection of connections) {
+        for (const column of columns) {
+          const value = connection[column];
+          if (typeof value !== 'string' || value === '') {
+            continue;
+          }
+          const transformed = transform(value);
+          if (transformed !== value) {
+            await this.runRaw(`UPDATE connections SET ${column} = ? WHERE id = ?`, [transformed, connection.id]);
+            changed++;
+          }
+        }
+      }
+    }
+
+    const settings = await this.allRaw('SELECT key_name, key_value FROM settings');
+    for (const setting of settings) {
+      if (typeof setting.key_value !== 'string' || setting.key_value === '') {
+        continue;
+      }
+      const transformed = transform(setting.key_value);
+      if (transformed !== setting.key_value) {
+        await this.runRaw('UPDATE settings SET key_value = ? WHERE key_name = ?', [transformed, setting.key_name]);
+        changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  private allRaw(query: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(query, params, (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Database query failed:', err);
+          reject(err);
         } else {
           resolve(rows);
         }
@@ -648,125 +1070,1052 @@ export class DatabaseManager {
     });
   }
 
-  async saveRenewalStatus(renewalId: string, connectionId: number, status: string, currentStep?: string, message?: string, error?: string, logs?: string[]): Promise<void> {
+  private runRaw(query: string, params: any[] = []): Promise<void> {
     return new Promise((resolve, reject) => {
-      const query = `
-        INSERT OR REPLACE INTO renewal_status (renewal_id, connection_id, status, current_step, message, error, logs, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-      `;
-      
-      const logsJson = logs ? JSON.stringify(logs) : null;
-      
-      this.db.run(query, [renewalId, connectionId, status, currentStep, message, error, logsJson], (err: any) => {
+      this.db.run(query, params, (err: any) => {
         if (err) {
-          Logger.error('Failed to save renewal status:', err);
+          Logger.error('Database update failed:', err);
           reject(err);
         } else {
-          Logger.debug(`Saved renewal status: ${renewalId} - ${status}`);
           resolve();
         }
       });
     });
   }
 
-  async getRenewalStatus(renewalId: string): Promise<any | null> {
+  // User and session management
+  async countUsers(): Promise<number> {
     return new Promise((resolve, reject) => {
-      const query = 'SELECT * FROM renewal_status WHERE renewal_id = ?';
-      
-      this.db.get(query, [renewalId], (err: any, row: any) => {
+      this.db.get('SELECT COUNT(*) as count FROM users', [], (err: any, row: any) => {
         if (err) {
-          Logger.error('Failed to get renewal status:', err);
+          Logger.error('Failed to count users:', err);
           reject(err);
-        } else if (row) {
-          // Parse logs from JSON
-          if (row.logs) {
-            try {
-              row.logs = JSON.parse(row.logs);
-            } catch (e) {
-              row.logs = [];
-            }
-          }
-          resolve(row);
         } else {
-          resolve(null);
+          resolve(row ? row.count : 0);
         }
       });
     });
   }
 
-  async deleteRenewalStatus(renewalId: string): Promise<void> {
+  async getAllUsers(): Promise<UserRecord[]> {
     return new Promise((resolve, reject) => {
-      this.db.run('DELETE FROM renewal_status WHERE renewal_id = ?', [renewalId], (err: any) => {
+      const query = 'SELECT id, username, role, is_enabled, last_login, created_at, updated_at FROM users ORDER BY username';
+
+      this.db.all(query, [], (err: any, rows: any[]) => {
         if (err) {
-          Logger.error('Failed to delete renewal status:', err);
+          Logger.error('Failed to fetch users:', err);
           reject(err);
         } else {
-          Logger.debug(`Deleted renewal status: ${renewalId}`);
-          resolve();
+          resolve(rows);
         }
       });
     });
   }
 
-  async cleanupOldRenewalStatuses(hoursOld: number = 24): Promise<void> {
+  async getUserById(id: number): Promise<UserRecord | null> {
     return new Promise((resolve, reject) => {
-      const query = `DELETE FROM renewal_status WHERE created_at < datetime('now', '-${hoursOld} hours')`;
-      
-      this.db.run(query, [], (err: any) => {
+      const query = 'SELECT id, username, role, is_enabled, last_login, created_at, updated_at FROM users WHERE id = ?';
+
+      this.db.get(query, [id], (err: any, row: any) => {
         if (err) {
-          Logger.error('Failed to cleanup old renewal statuses:', err);
+          Logger.error('Failed to fetch user:', err);
           reject(err);
         } else {
-          Logger.debug(`Cleaned up renewal statuses older than ${hoursOld} hours`);
-          resolve();
+          resolve(row || null);
         }
       });
     });
   }
 
-  // Active Operations Management
-  async saveActiveOperation(
-    id: string,
-    connectionId: number,
-    operationType: string,
-    status: string = 'pending',
-    progress: number = 0,
-    message?: string,
-    error?: string,
-    metadata?: any,
-    createdBy: string = 'user'
-  ): Promise<void> {
+  /**
+   * Look up a user including the password hash, for credential checks only
+   */
+  async getUserByUsername(username: string): Promise<UserRecord | null> {
     return new Promise((resolve, reject) => {
-      const query = `
-        INSERT OR REPLACE INTO active_operations 
-        (id, connection_id, operation_type, status, progress, message, error, metadata, created_by)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `;
-      
-      const metadataJson = metadata ? JSON.stringify(metadata) : null;
-      
-      this.db.run(query, [id, connectionId, operationType, status, progress, message, error, metadataJson, createdBy], (err: any) => {
+      this.db.get('SELECT * FROM users WHERE username = ?', [username], (err: any, row: any) => {
         if (err) {
-          Logger.error('Failed to save active operation:', err);
+          Logger.error('Failed to fetch user by username:', err);
           reject(err);
         } else {
-          Logger.debug(`Saved active operation: ${id}`);
-          resolve();
+          resolve(row || null);
         }
       });
     });
   }
 
-  async updateActiveOperation(
-    id: string,
-    updates: {
-      status?: string;
-      progress?: number;
-      message?: string;
-      error?: string;
-      metadata?: any;
-      completedAt?: Date;
-    }
+  async createUser(username: string, password: string, role: UserRole): Promise<number> {
+    const passwordHash = await this.hashPassword(password);
+
+    return new Promise((resolve, reject) => {
+      const query = 'INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)';
+
+      this.db.run(query, [username, passwordHash, role], function(err: any) {
+        if (err) {
+          Logger.error('Failed to create user:', err);
+          const dbError: DatabaseError = new Error('Failed to create user');
+          dbError.code = err.code;
+          reject(dbError);
+        } else {
+          Logger.info(`Created user: ${username} (${role})`);
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  async updateUser(id: number, data: { role?: UserRole; password?: string; is_enabled?: boolean }): Promise<void> {
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (data.role !== undefined) {
+      updates.push('role = ?');
+      values.push(data.role);
+    }
+    if (data.password !== undefined) {
+      updates.push('password_hash = ?');
+      values.push(await this.hashPassword(data.password));
+    }
+    if (data.is_enabled !== undefined) {
+      updates.push('is_enabled = ?');
+      values.push(data.is_enabled ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const query = `UPDATE users SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`;
+
+      this.db.run(query, [...values, id], function(err: any) {
+        if (err) {
+          Logger.error('Failed to update user:', err);
+          reject(err);
+        } else if (this.changes === 0) {
+          const notFound: DatabaseError = new Error('User not found');
+          notFound.code = 'NOT_FOUND';
+          reject(notFound);
+        } else {
+          Logger.info(`Updated user ${id}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async deleteUser(id: number): Promise<void> {
+    await this.deleteSessionsForUser(id);
+
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM users WHERE id = ?', [id], function(err: any) {
+        if (err) {
+          Logger.error('Failed to delete user:', err);
+          reject(err);
+        } else if (this.changes === 0) {
+          const notFound: DatabaseError = new Error('User not found');
+          notFound.code = 'NOT_FOUND';
+          reject(notFound);
+        } else {
+          Logger.info(`Deleted user ${id}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async updateUserLastLogin(id: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = ?', [id], (err: any) => {
+        if (err) {
+          Logger.error('Failed to update last login:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async createSession(sessionId: string, userId: number, expiresAt: Date, ipAddress?: string, userAgent?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO sessions (id, user_id, ip_address, user_agent, expires_at)
+        VALUES (?, ?, ?, ?, ?)
+      `;
+
+      this.db.run(query, [sessionId, userId, ipAddress, userAgent, expiresAt.toISOString()], (err: any) => {
+        if (err) {
+          Logger.error('Failed to create session:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Get an unexpired session joined with its (enabled) user
+   */
+  async getSessionUser(sessionId: string): Promise<{ id: number; username: string; role: UserRole } | null> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT u.id, u.username, u.role
+        FROM sessions s
+        JOIN users u ON s.user_id = u.id
+        WHERE s.id = ? AND s.expires_at > ? AND u.is_enabled = 1
+      `;
+
+      this.db.get(query, [sessionId, new Date().toISOString()], (err: any, row: any) => {
+        if (err) {
+          Logger.error('Failed to fetch session:', err);
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM sessions WHERE id = ?', [sessionId], (err: any) => {
+        if (err) {
+          Logger.error('Failed to delete session:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async deleteSessionsForUser(userId: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM sessions WHERE user_id = ?', [userId], (err: any) => {
+        if (err) {
+          Logger.error('Failed to delete user sessions:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Deleted sessions for user ${userId}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async cleanupExpiredSessions(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM sessions WHERE expires_at <= ?', [new Date().toISOString()], (err: any) => {
+        if (err) {
+          Logger.error('Failed to cleanup expired sessions:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  // API token management
+  async createApiToken(
+    name: string,
+    tokenHash: string,
+    scopes: ApiTokenScope[],
+    connectionIds: number[] | null,
+    createdBy: number,
+    expiresAt: string | null
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO api_tokens (name, token_hash, scopes, connection_ids, created_by, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `;
+
+      const values = [
+        name,
+        tokenHash,
+        JSON.stringify(scopes),
+        connectionIds ? JSON.stringify(connectionIds) : null,
+        createdBy,
+        expiresAt
+      ];
+
+      this.db.run(query, values, function(err: any) {
+        if (err) {
+          Logger.error('Failed to create API token:', err);
+          reject(err);
+        } else {
+          Logger.info(`Created API token: ${name} (${scopes.join(', ')})`);
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  async getAllApiTokens(): Promise<ApiTokenRecord[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT t.id, t.name, t.scopes, t.connection_ids, t.created_by, u.username as created_by_username,
+               t.expires_at, t.last_used_at, t.revoked_at, t.created_at
+        FROM api_tokens t
+        LEFT JOIN users u ON t.created_by = u.id
+        ORDER BY t.created_at DESC
+      `;
+
+      this.db.all(query, [], (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to fetch API tokens:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.parseApiTokenRow(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Look up a token including its hash, for credential checks only
+   */
+  async getApiTokenById(id: number): Promise<ApiTokenRecord | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM api_tokens WHERE id = ?', [id], (err: any, row: any) => {
+        if (err) {
+          Logger.error('Failed to fetch API token:', err);
+          reject(err);
+        } else {
+          resolve(row ? this.parseApiTokenRow(row) : null);
+        }
+      });
+    });
+  }
+
+  async revokeApiToken(id: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = 'UPDATE api_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL';
+
+      this.db.run(query, [id], function(err: any) {
+        if (err) {
+          Logger.error('Failed to revoke API token:', err);
+          reject(err);
+        } else if (this.changes === 0) {
+          const notFound: DatabaseError = new Error('API token not found or already revoked');
+          notFound.code = 'NOT_FOUND';
+          reject(notFound);
+        } else {
+          Logger.info(`Revoked API token ${id}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async updateApiTokenLastUsed(id: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE api_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?', [id], (err: any) => {
+        if (err) {
+          Logger.error('Failed to update API token last used time:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private parseApiTokenRow(row: any): ApiTokenRecord {
+    return {
+      ...row,
+      scopes: row.scopes ? JSON.parse(row.scopes) : [],
+      connection_ids: row.connection_ids ? JSON.parse(row.connection_ids) : null
+    };
+  }
+
+  // Audit trail
+  async saveAuditEvent(event: AuditEventRecord): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO audit_events (actor_type, actor_id, actor_name, action, target_type, target_id, target_name, changes, details, ip_address)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      const values = [
+        event.actor_type,
+        event.actor_id ?? null,
+        event.actor_name,
+        event.action,
+        event.target_type,
+        event.target_id ?? null,
+        event.target_name ?? null,
+        event.changes ? JSON.stringify(event.changes) : null,
+        event.details ?? null,
+        event.ip_address ?? null
+      ];
+
+      this.db.run(query, values, function(err: any) {
+        if (err) {
+          Logger.error('Failed to save audit event:', err);
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get audit events matching the filters, newest first
+   * @returns One page of events plus the total number of matches
+   */
+  async getAuditEvents(filters: AuditEventFilters, limit: number, offset: number): Promise<{ events: AuditEventRecord[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.actor) {
+      conditions.push('actor_name LIKE ?');
+      params.push(`%${filters.actor}%`);
+    }
+    if (filters.action) {
+      // "connection" matches every connection.* action
+      conditions.push('(action = ? OR action LIKE ?)');
+      params.push(filters.action, `${filters.action}.%`);
+    }
+    if (filters.target_type) {
+      conditions.push('target_type = ?');
+      params.push(filters.target_type);
+    }
+    if (filters.target_id) {
+      conditions.push('target_id = ?');
+      params.push(filters.target_id);
+    }
+    if (filters.from) {
+      conditions.push('created_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('created_at <= ?');
+      params.push(filters.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRow = await new Promise<any>((resolve, reject) => {
+      this.db.get(`SELECT COUNT(*) as count FROM audit_events ${where}`, params, (err: any, row: any) => {
+        if (err) {
+          Logger.error('Failed to count audit events:', err);
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      const query = `SELECT * FROM audit_events ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`;
+
+      this.db.all(query, [...params, limit, offset], (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to fetch audit events:', err);
+          reject(err);
+        } else {
+          resolve({
+            events: rows.map(row => ({ ...row, changes: row.changes ? JSON.parse(row.changes) : null })),
+            total: countRow ? countRow.count : 0
+          });
+        }
+      });
+    });
+  }
+
+  async saveCertificateRevocation(revocation: CertificateRevocationRecord): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO certificate_revocations (connection_id, serial_number, fingerprint256, common_name, environment, ca_id, reason, reason_code, signed_with, revoked_by, reissue_renewal_id)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      const values = [
+        revocation.connection_id,
+        revocation.serial_number,
+        revocation.fingerprint256,
+        revocation.common_name ?? null,
+        revocation.environment,
+        revocation.ca_id,
+        revocation.reason,
+        revocation.reason_code,
+        revocation.signed_with,
+        revocation.revoked_by,
+        revocation.reissue_renewal_id ?? null
+      ];
+
+      this.db.run(query, values, function(err: any) {
+        if (err) {
+          Logger.error('Failed to save certificate revocation:', err);
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  async updateCertificateRevocationReissue(id: number, renewalId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE certificate_revocations SET reissue_renewal_id = ? WHERE id = ?', [renewalId, id], (err: any) => {
+        if (err) {
+          Logger.error('Failed to update certificate revocation:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async getCertificateRevocations(connectionId: number): Promise<CertificateRevocationRecord[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM certificate_revocations WHERE connection_id = ? ORDER BY revoked_at DESC, id DESC', [connectionId], (err: any, rows: CertificateRevocationRecord[]) => {
+        if (err) {
+          Logger.error('Failed to get certificate revocations:', err);
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
+  async saveIssuedCertificate(certificate: IssuedCertificateRecord): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO certificates (connection_id, renewal_id, serial_number, fingerprint, fingerprint256, common_name, sans, issuer, not_before, not_after, ca_id, environment, key_type, service, deploy_targets, deploy_status, deploy_error, deployed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      const values = [
+        certificate.connection_id,
+        certificate.renewal_id ?? null,
+        certificate.serial_number,
+        certificate.fingerprint,
+        certificate.fingerprint256,
+        certificate.common_name ?? null,
+        JSON.stringify(certificate.sans),
+        certificate.issuer,
+        certificate.not_before,
+        certificate.not_after,
+        certificate.ca_id,
+        certificate.environment,
+        certificate.key_type,
+        certificate.service ?? null,
+        JSON.stringify(certificate.deploy_targets),
+        certificate.deploy_status,
+        certificate.deploy_error ?? null,
+        certificate.deployed_at ?? null
+      ];
+
+      this.db.run(query, values, function(err: any) {
+        if (err) {
+          Logger.error('Failed to save issued certificate:', err);
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  async updateCertificateDeployment(id: number, status: CertificateDeployStatus, error?: string | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE certificates
+        SET deploy_status = ?, deploy_error = ?, deployed_at = CASE WHEN ? = 'deployed' THEN CURRENT_TIMESTAMP ELSE deployed_at END
+        WHERE id = ?
+      `;
+
+      this.db.run(query, [status, error ?? null, status, id], (err: any) => {
+        if (err) {
+          Logger.error('Failed to update certificate deployment:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private parseIssuedCertificate(row: any): IssuedCertificateRecord {
+    return {
+      ...row,
+      sans: row.sans ? JSON.parse(row.sans) : [],
+      deploy_targets: row.deploy_targets ? JSON.parse(row.deploy_targets) : []
+    };
+  }
+
+  // Newest first, with the revocation of each certificate if there was one
+  async getCertificateHistory(connectionId: number): Promise<IssuedCertificateRecord[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT c.*, r.revoked_at, r.reason AS revocation_reason
+        FROM certificates c
+        LEFT JOIN certificate_revocations r ON r.connection_id = c.connection_id AND r.serial_number = c.serial_number
+        WHERE c.connection_id = ?
+        ORDER BY c.created_at DESC, c.id DESC
+      `;
+
+      this.db.all(query, [connectionId], (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to get certificate history:', err);
+          reject(err);
+        } else {
+          resolve((rows || []).map(row => this.parseIssuedCertificate(row)));
+        }
+      });
+    });
+  }
+
+  async getIssuedCertificate(connectionId: number, id: number): Promise<IssuedCertificateRecord | null> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT c.*, r.revoked_at, r.reason AS revocation_reason
+        FROM certificates c
+        LEFT JOIN certificate_revocations r ON r.connection_id = c.connection_id AND r.serial_number = c.serial_number
+        WHERE c.connection_id = ? AND c.id = ?
+      `;
+
+      this.db.get(query, [connectionId, id], (err: any, row: any) => {
+        if (err) {
+          Logger.error('Failed to get issued certificate:', err);
+          reject(err);
+        } else {
+          resolve(row ? this.parseIssuedCertificate(row) : null);
+        }
+      });
+    });
+  }
+
+  // Certificates issued to a connection since `since`, and when the oldest of them was issued
+  async countCertificatesIssuedSince(connectionId: number, since: Date): Promise<{ count: number; oldest: string | null }> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT COUNT(*) AS count, MIN(created_at) AS oldest
+        FROM certificates
+        WHERE connection_id = ? AND created_at >= ?
+      `;
+
+      this.db.get(query, [connectionId, since.toISOString().replace('T', ' ').slice(0, 19)], (err: any, row: any) => {
+        if (err) {
+          Logger.error('Failed to count issued certificates:', err);
+          reject(err);
+        } else {
+          resolve({ count: row?.count || 0, oldest: row?.oldest || null });
+        }
+      });
+    });
+  }
+
+  // Certificates from one CA and environment across all connections, oldest first
+  async getCertificatesIssuedSince(caId: string, environment: string, since: Date): Promise<IssuedCertificateRecord[]> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT * FROM certificates
+        WHERE ca_id = ? AND environment = ? AND created_at >= ?
+        ORDER BY created_at ASC, id ASC
+      `;
+
+      this.db.all(query, [caId, environment, since.toISOString().replace('T', ' ').slice(0, 19)], (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to get issued certificates:', err);
+          reject(err);
+        } else {
+          resolve((rows || []).map(row => this.parseIssuedCertificate(row)));
+        }
+      });
+    });
+  }
+
+  async saveRenewalInfo(info: RenewalInfoRecord): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO renewal_info (connection_id, ca_id, cert_id, window_start, window_end, explanation_url, scheduled_at, retry_after, checked_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(connection_id) DO UPDATE SET
+          ca_id = excluded.ca_id,
+          cert_id = excluded.cert_id,
+          window_start = excluded.window_start,
+          window_end = excluded.window_end,
+          explanation_url = excluded.explanation_url,
+          scheduled_at = excluded.scheduled_at,
+          retry_after = excluded.retry_after,
+          checked_at = CURRENT_TIMESTAMP
+      `;
+
+      const values = [
+        info.connection_id,
+        info.ca_id,
+        info.cert_id,
+        info.window_start,
+        info.window_end,
+        info.explanation_url ?? null,
+        info.scheduled_at,
+        info.retry_after
+      ];
+
+      this.db.run(query, values, (err: any) => {
+        if (err) {
+          Logger.error('Failed to save renewal info:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async getRenewalInfo(connectionId: number): Promise<RenewalInfoRecord | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM renewal_info WHERE connection_id = ?', [connectionId], (err: any, row: RenewalInfoRecord) => {
+        if (err) {
+          Logger.error('Failed to get renewal info:', err);
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+  }
+
+  async createCluster(name: string, publisherId: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run('INSERT INTO clusters (name, publisher_id) VALUES (?, ?)', [name, publisherId], function(err: any) {
+        if (err) {
+          Logger.error('Failed to create cluster:', err);
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  private async getClusterNodes(clusterId: number): Promise<ClusterNodeRecord[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM cluster_nodes WHERE cluster_id = ? ORDER BY position, id', [clusterId], (err: any, rows: ClusterNodeRecord[]) => {
+        if (err) {
+          Logger.error('Failed to get cluster nodes:', err);
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+  }
+
+  private async findCluster(where: string, value: number): Promise<ClusterWithNodes | null> {
+    const cluster = await new Promise<ClusterWithNodes | null>((resolve, reject) => {
+      this.db.get(`SELECT * FROM clusters WHERE ${where} = ?`, [value], (err: any, row: ClusterWithNodes) => {
+        if (err) {
+          Logger.error('Failed to get cluster:', err);
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+    return cluster ? { ...cluster, nodes: await this.getClusterNodes(cluster.id!) } : null;
+  }
+
+  async getCluster(id: number): Promise<ClusterWithNodes | null> {
+    return this.findCluster('id', id);
+  }
+
+  // The cluster a connection is the publisher of
+  async getClusterByPublisher(connectionId: number): Promise<ClusterWithNodes | null> {
+    return this.findCluster('publisher_id', connectionId);
+  }
+
+  async getAllClusters(): Promise<ClusterWithNodes[]> {
+    const clusters = await new Promise<ClusterWithNodes[]>((resolve, reject) => {
+      this.db.all('SELECT * FROM clusters ORDER BY name, id', [], (err: any, rows: ClusterWithNodes[]) => {
+        if (err) {
+          Logger.error('Failed to get clusters:', err);
+          reject(err);
+        } else {
+          resolve(rows || []);
+        }
+      });
+    });
+    return Promise.all(clusters.map(async cluster => ({ ...cluster, nodes: await this.getClusterNodes(cluster.id!) })));
+  }
+
+  async deleteCluster(id: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.serialize(() => {
+        this.db.run('DELETE FROM cluster_nodes WHERE cluster_id = ?', [id]);
+        this.db.run('DELETE FROM clusters WHERE id = ?', [id], (err: any) => {
+          if (err) {
+            Logger.error('Failed to delete cluster:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Replace the member nodes of a cluster with the discovered ones. Nodes that
+   * are still members keep their verification state.
+   */
+  async saveClusterNodes(clusterId: number, nodes: Pick<ClusterNodeRecord, 'hostname' | 'ip_address' | 'role' | 'position'>[]): Promise<void> {
+    const hostnames = nodes.map(node => node.hostname);
+    const upsert = `
+      INSERT INTO cluster_nodes (cluster_id, hostname, ip_address, role, position)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(cluster_id, hostname) DO UPDATE SET
+        ip_address = excluded.ip_address,
+        role = excluded.role,
+        position = excluded.position
+    `;
+
+    return new Promise((resolve, reject) => {
+      this.db.serialize(() => {
+        this.db.run(
+          `DELETE FROM cluster_nodes WHERE cluster_id = ? AND hostname NOT IN (${hostnames.map(() => '?').join(', ')})`,
+          [clusterId, ...hostnames]
+        );
+        for (const node of nodes) {
+          this.db.run(upsert, [clusterId, node.hostname, node.ip_address ?? null, node.role, node.position]);
+        }
+        this.db.run('UPDATE clusters SET discovered_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [clusterId], (err: any) => {
+          if (err) {
+            Logger.error('Failed to save cluster nodes:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        });
+      });
+    });
+  }
+
+  async updateClusterNode(id: number, updates: Partial<Pick<ClusterNodeRecord, 'verify_status' | 'live_serial' | 'verify_error' | 'verified_at' | 'restarted_at'>>): Promise<void> {
+    const fields = Object.keys(updates) as (keyof typeof updates)[];
+    if (fields.length === 0) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE cluster_nodes SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`,
+        [...fields.map(field => updates[field] ?? null), id],
+        (err: any) => {
+          if (err) {
+            Logger.error('Failed to update cluster node:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+  }
+
+  async saveRenewalStatus(renewalId: string, connectionId: number, status: string, currentStep?: string, message?: string, error?: string, logs?: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT OR REPLACE INTO renewal_status (renewal_id, connection_id, status, current_step, message, error, logs, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      `;
+      
+      const logsJson = logs ? JSON.stringify(logs) : null;
+      
+      this.db.run(query, [renewalId, connectionId, status, currentStep, message, error, logsJson], (err: any) => {
+        if (err) {
+          Logger.error('Failed to save renewal status:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Saved renewal status: ${renewalId} - ${status}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async getRenewalStatus(renewalId: string): Promise<any | null> {
+    return new Promise((resolve, reject) => {
+      const query = 'SELECT * FROM renewal_status WHERE renewal_id = ?';
+      
+      this.db.get(query, [renewalId], (err: any, row: any) => {
+        if (err) {
+          Logger.error('Failed to get renewal status:', err);
+          reject(err);
+        } else if (row) {
+          // Parse logs from JSON
+          if (row.logs) {
+            try {
+              row.logs = JSON.parse(row.logs);
+            } catch (e) {
+              row.logs = [];
+            }
+          }
+          resolve(row);
+        } else {
+          resolve(null);
+        }
+      });
+    });
+  }
+
+  async deleteRenewalStatus(renewalId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM renewal_status WHERE renewal_id = ?', [renewalId], (err: any) => {
+        if (err) {
+          Logger.error('Failed to delete renewal status:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Deleted renewal status: ${renewalId}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async cleanupOldRenewalStatuses(hoursOld: number = 24): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `DELETE FROM renewal_status WHERE created_at < datetime('now', '-${hoursOld} hours')`;
+      
+      this.db.run(query, [], (err: any) => {
+        if (err) {
+          Logger.error('Failed to cleanup old renewal statuses:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Cleaned up renewal statuses older than ${hoursOld} hours`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async getInFlightRenewalStatuses(): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT * FROM renewal_status WHERE status NOT IN ('completed', 'failed')`;
+      
+      this.db.all(query, [], (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to get in-flight renewal statuses:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => {
+            try {
+              row.logs = row.logs ? JSON.parse(row.logs) : [];
+            } catch (e) {
+              row.logs = [];
+            }
+            return row;
+          }));
+        }
+      });
+    });
+  }
+
+  async saveRenewalCheckpoint(renewalId: string, connectionId: number, step: string, data: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO renewal_checkpoints (renewal_id, connection_id, step, data)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(renewal_id) DO UPDATE SET step = excluded.step, data = excluded.data, updated_at = CURRENT_TIMESTAMP
+      `;
+      
+      this.db.run(query, [renewalId, connectionId, step, JSON.stringify(data)], (err: any) => {
+        if (err) {
+          Logger.error('Failed to save renewal checkpoint:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Saved renewal checkpoint: ${renewalId} - ${step}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async getRenewalCheckpoints(): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM renewal_checkpoints ORDER BY created_at', [], (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to get renewal checkpoints:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => {
+            try {
+              row.data = JSON.parse(row.data);
+            } catch (e) {
+              row.data = {};
+            }
+            return row;
+          }));
+        }
+      });
+    });
+  }
+
+  async deleteRenewalCheckpoint(renewalId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM renewal_checkpoints WHERE renewal_id = ?', [renewalId], (err: any) => {
+        if (err) {
+          Logger.error('Failed to delete renewal checkpoint:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Deleted renewal checkpoint: ${renewalId}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  // Active Operations Management
+  async saveActiveOperation(
+    id: string,
+    connectionId: number,
+    operationType: string,
+    status: string = 'pending',
+    progress: number = 0,
+    message?: string,
+    error?: string,
+    metadata?: any,
+    createdBy: string = 'user'
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT OR REPLACE INTO active_operations 
+        (id, connection_id, operation_type, status, progress, message, error, metadata, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      
+      const metadataJson = metadata ? JSON.stringify(metadata) : null;
+      
+      this.db.run(query, [id, connectionId, operationType, status, progress, message, error, metadataJson, createdBy], (err: any) => {
+        if (err) {
+          Logger.error('Failed to save active operation:', err);
+          reject(err);
+        } else {
+          Logger.debug(`Saved active operation: ${id}`);
+          resolve();
+        }
+      });
+    });
+  }
+
+  async updateActiveOperation(
+    id: string,
+    updates: {
+      status?: string;
+      progress?: number;
+      message?: string;
+      error?: string;
+      metadata?: any;
+      completedAt?: Date;
+    }
   ): Promise<void> {
     return new Promise((resolve, reject) => {
       const fields: string[] = [];
@@ -938,6 +2287,37 @@ export class DatabaseManager {
     });
   }
 
+  // Pending and in-progress operations across all connections, as stored
+  async getInFlightOperations(operationType?: string): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      let query = `SELECT * FROM active_operations WHERE status IN ('pending', 'in_progress')`;
+      const params: any[] = [];
+      
+      if (operationType) {
+        query += ' AND operation_type = ?';
+        params.push(operationType);
+      }
+      
+      this.db.all(query, params, (err: any, rows: any[]) => {
+        if (err) {
+          Logger.error('Failed to get in-flight operations:', err);
+          reject(err);
+        } else {
+          resolve(rows.map(row => {
+            if (row.metadata) {
+              try {
+                row.metadata = JSON.parse(row.metadata);
+              } catch (e) {
+                row.metadata = null;
+              }
+            }
+            return row;
+          }));
+        }
+      });
+    });
+  }
+
   async deleteActiveOperation(id: string): Promise<void> {
     return new Promise((resolve, reject) => {
       this.db.run('DELETE FROM active_operations WHERE id = ?', [id], (err: any) => {
@@ -968,13 +2348,16 @@ export class DatabaseManager {
     });
   }
 
-  close(): void {
-    this.db.close((err: any) => {
-      if (err) {
-        Logger.error('Failed to close database:', err);
-      } else {
-        Logger.info('Database connection closed');
-      }
+  close(): Promise<void> {
+    return new Promise(resolve => {
+      this.db.close((err: any) => {
+        if (err) {
+          Logger.error('Failed to close database:', err);
+        } else {
+          Logger.info('Database connection closed');
+        }
+        resolve();
+      });
     });
   }
 
@@ -2,16 +2,9 @@ import { DnsManagementClient } from '@azure/arm-dns';
 import { DefaultAzureCredential } from '@azure/identity';
 import { DatabaseManager } from '../database';
 import { Logger } from '../logger';
+import { DnsProvider, DnsRecord, DnsRecordType, getPropagationNameservers, waitForRecordPropagation } from './dns-provider';
 
-export interface AzureDNSRecord {
-  id: string;
-  name: string;
-  type: string;
-  ttl: number;
-  recordValue: string;
-}
-
-export class AzureDNSProvider {
+export class AzureDNSProvider implements DnsProvider {
   private client: DnsManagementClient;
   private domain: string;
   private resourceGroup: string;
@@ -32,137 +25,114 @@ export class AzureDNSProvider {
     const subscriptionId = settings.find(s => s.key_name === 'AZURE_SUBSCRIPTION_ID')?.key_value;
     const resourceGroup = settings.find(s => s.key_name === 'AZURE_RESOURCE_GROUP')?.key_value;
     const zoneName = settings.find(s => s.key_name === 'AZURE_ZONE_NAME')?.key_value;
-    
+
     if (!subscriptionId || !resourceGroup || !zoneName) {
       throw new Error('Azure DNS credentials not configured. Please add AZURE_SUBSCRIPTION_ID, AZURE_RESOURCE_GROUP, and AZURE_ZONE_NAME to your settings.');
     }
-    
+
     const provider = new AzureDNSProvider(subscriptionId, resourceGroup, zoneName, domain);
     Logger.info(`Azure DNS provider initialized for ${domain}`);
     return provider;
   }
 
-  async createDNSRecord(recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<AzureDNSRecord> {
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  private getRelativeRecordName(recordName: string): string {
+    if (recordName === this.zoneName) {
+      return '@';
+    }
+    return recordName.endsWith(`.${this.zoneName}`) ? recordName.slice(0, -(this.zoneName.length + 1)) : recordName;
+  }
+
+  /**
+   * Values of the record set at the given name. Azure holds every value for a
+   * name in one record set, so TXT records are merged into it.
+   */
+  private async getRecordValues(relativeRecordName: string, type: DnsRecordType): Promise<string[]> {
     try {
-      // Remove zone name from record name if present
-      let relativeRecordName = recordName;
-      if (recordName.endsWith(`.${this.zoneName}`)) {
-        relativeRecordName = recordName.slice(0, -(this.zoneName.length + 1));
+      const recordSet = await this.client.recordSets.get(this.resourceGroup, this.zoneName, relativeRecordName, type);
+      if (type === 'CNAME') {
+        return recordSet.cnameRecord?.cname ? [recordSet.cnameRecord.cname] : [];
       }
-      
-      // Handle root domain
-      if (relativeRecordName === this.zoneName || relativeRecordName === '') {
-        relativeRecordName = '@';
+      return (recordSet.txtRecords || []).map(record => (record.value || []).join(''));
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return [];
       }
+      throw error;
+    }
+  }
 
-      const recordSet = {
-        TTL: 60,
-        metadata: {},
-        ...(recordType === 'TXT' ? {
-          txtRecords: [{ value: [recordValue] }]
-        } : recordType === 'CNAME' ? {
-          cnameRecord: { cname: recordValue }
-        } : {})
-      };
-
-      Logger.info(`Creating Azure DNS record: ${relativeRecordName}.${this.zoneName} (${recordType})`);
-      
-      const response = await this.client.recordSets.createOrUpdate(
-        this.resourceGroup,
-        this.zoneName,
-        relativeRecordName,
-        recordType as any,
-        recordSet
-      );
-
-      const recordId = `${recordType}_${relativeRecordName}`;
-      
-      Logger.info(`Azure DNS record created: ${relativeRecordName}`);
-      
-      return {
-        id: recordId,
-        name: relativeRecordName,
-        type: recordType,
-        ttl: 60,
-        recordValue
-      };
-    } catch (error) {
-      Logger.error(`Azure DNS API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw new Error(`Failed to create DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private async setRecordValues(relativeRecordName: string, type: DnsRecordType, values: string[]): Promise<void> {
+    if (values.length === 0) {
+      await this.client.recordSets.delete(this.resourceGroup, this.zoneName, relativeRecordName, type);
+      return;
     }
+
+    await this.client.recordSets.createOrUpdate(this.resourceGroup, this.zoneName, relativeRecordName, type, {
+      ttl: 60,
+      ...(type === 'CNAME'
+        ? { cnameRecord: { cname: values[0] } }
+        : { txtRecords: values.map(value => ({ value: [value] })) })
+    });
   }
 
-  async verifyDNSPropagation(recordName: string, expectedValue: string): Promise<boolean> {
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
     try {
-      let relativeRecordName = recordName;
-      if (recordName.endsWith(`.${this.zoneName}`)) {
-        relativeRecordName = recordName.slice(0, -(this.zoneName.length + 1));
-      }
+      const relativeRecordName = this.getRelativeRecordName(name);
+      Logger.info(`Creating Azure DNS record: ${relativeRecordName}.${this.zoneName} (${type})`);
 
-      const response = await this.client.recordSets.get(
-        this.resourceGroup,
-        this.zoneName,
-        relativeRecordName,
-        'TXT'
-      );
-
-      if (response.txtRecords) {
-        const found = response.txtRecords.some(record => 
-          record.value && record.value.includes(expectedValue)
-        );
-        
-        if (found) {
-          Logger.info(`DNS record verified on Azure: ${recordName}`);
-          return true;
-        }
+      // A CNAME can only hold one target, so it is replaced rather than merged
+      const values = type === 'TXT' ? await this.getRecordValues(relativeRecordName, type) : [];
+      if (!values.includes(value)) {
+        await this.setRecordValues(relativeRecordName, type, [...values, value]);
       }
 
-      Logger.debug(`DNS record not found on Azure: ${recordName}`);
-      return false;
+      Logger.info(`Azure DNS record created: ${relativeRecordName}`);
+      return { id: `${type}_${relativeRecordName}`, name, type, value };
     } catch (error) {
-      Logger.debug(`DNS verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return false;
+      Logger.error(`Azure DNS API error: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to create DNS record: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async deleteDNSRecord(recordId: string): Promise<void> {
+  async deleteRecord(record: DnsRecord): Promise<void> {
     try {
-      const [recordType, relativeRecordName] = recordId.split('_');
-
-      await this.client.recordSets.delete(
-        this.resourceGroup,
-        this.zoneName,
-        relativeRecordName,
-        recordType as any
-      );
-      
-      Logger.info(`Azure DNS record ${recordId} deleted successfully`);
+      const relativeRecordName = this.getRelativeRecordName(record.name);
+      const values = await this.getRecordValues(relativeRecordName, record.type);
+      const remaining = values.filter(value => value !== record.value);
+
+      if (remaining.length !== values.length) {
+        await this.setRecordValues(relativeRecordName, record.type, remaining);
+        Logger.info(`Azure DNS record ${record.id} deleted successfully`);
+      }
     } catch (error) {
-      Logger.error(`Failed to delete DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      Logger.error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async waitForDNSPropagation(recordName: string, expectedValue: string, maxWaitTime: number = 300000): Promise<boolean> {
-    const startTime = Date.now();
-    const checkInterval = 10000; // Check every 10 seconds
-
-    Logger.info(`Waiting for DNS propagation on Azure...`);
-
-    while (Date.now() - startTime < maxWaitTime) {
-      const isVerified = await this.verifyDNSPropagation(recordName, expectedValue);
-      if (isVerified) {
-        Logger.info(`DNS record propagated successfully after ${Math.round((Date.now() - startTime) / 1000)} seconds`);
-        return true;
-      }
+  async listRecords(name: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
+    try {
+      const relativeRecordName = this.getRelativeRecordName(name);
+      const values = await this.getRecordValues(relativeRecordName, type);
+      return values.map(value => ({ id: `${type}_${relativeRecordName}`, name, type, value }));
+    } catch (error) {
+      throw new Error(`Failed to list DNS records: ${this.getErrorMessage(error)}`);
+    }
+  }
 
-      const elapsed = Math.round((Date.now() - startTime) / 1000);
-      const remaining = Math.round((maxWaitTime - (Date.now() - startTime)) / 1000);
-      Logger.info(`Waiting for DNS propagation... (${elapsed}s elapsed, ${remaining}s remaining)`);
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    return waitForRecordPropagation(record, getPropagationNameservers('azure'), maxWaitTime, cancellationCheck);
+  }
 
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
+  async validateCredentials(): Promise<void> {
+    try {
+      await this.client.zones.get(this.resourceGroup, this.zoneName);
+    } catch (error) {
+      throw new Error(`Azure DNS API error: ${this.getErrorMessage(error)}`);
     }
-
-    Logger.error(`Timeout waiting for DNS propagation after ${maxWaitTime / 1000} seconds`);
-    return false;
   }
-}
\ No newline at end of file
+}
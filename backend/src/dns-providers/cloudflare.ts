@@ -1,8 +1,7 @@
 import https from 'https';
-import dns from 'dns';
 import { Logger } from '../logger';
 import { DatabaseManager } from '../database';
-import dnsServers from '../dns-servers.json';
+import { DnsProvider, DnsRecord, DnsRecordType, getPropagationNameservers, waitForRecordPropagation } from './dns-provider';
 
 export interface CloudflareRecord {
   id: string;
@@ -22,17 +21,16 @@ export interface CloudflareResponse {
   result: CloudflareRecord | CloudflareRecord[];
 }
 
-export class CloudflareProvider {
+export class CloudflareProvider implements DnsProvider {
   private apiKey: string;
   private zoneId: string;
-  private baseUrl = 'https://api.cloudflare.com/client/v4';
 
   constructor(apiKey: string, zoneId: string) {
     this.apiKey = apiKey;
     this.zoneId = zoneId;
   }
 
-  static async create(database: DatabaseManager, domain: string): Promise<CloudflareProvider> {
+  static async create(database: DatabaseManager, _domain: string): Promise<CloudflareProvider> {
     try {
       const settings = await database.getSettingsByProvider('cloudflare');
       const apiKey = settings.find(s => s.key_name === 'CF_KEY')?.key_value;
@@ -49,14 +47,13 @@ export class CloudflareProvider {
     }
   }
 
-  async createTxtRecord(domain: string, value: string): Promise<CloudflareRecord> {
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
     try {
-      const recordName = `_acme-challenge.${domain}`;
-      Logger.info(`Creating TXT record: ${recordName} = ${value}`);
+      Logger.info(`Creating ${type} record: ${name} = ${value}`);
 
       const postData = JSON.stringify({
-        type: 'TXT',
-        name: recordName,
+        type,
+        name,
         content: value,
         ttl: 120 // 2 minutes for faster propagation
       });
@@ -72,205 +69,60 @@ export class CloudflareProvider {
       }
 
       const record = response.result as CloudflareRecord;
-      Logger.info(`Successfully created TXT record: ${record.id}`);
-      return record;
+      Logger.info(`Successfully created ${type} record: ${record.id}`);
+      return { id: record.id, name, type, value };
     } catch (error) {
-      Logger.error(`Failed to create TXT record for ${domain}:`, error);
+      Logger.error(`Failed to create ${type} record for ${name}:`, error);
       throw error;
     }
   }
 
-  async createDNSRecord(recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<CloudflareRecord> {
+  async deleteRecord(record: DnsRecord): Promise<void> {
     try {
-      Logger.info(`Creating ${recordType} record: ${recordName} = ${recordValue}`);
-
-      const postData = JSON.stringify({
-        type: recordType,
-        name: recordName,
-        content: recordValue,
-        ttl: 120 // 2 minutes for faster propagation
-      });
-
-      const response = await this.makeRequest(
-        'POST',
-        `/zones/${this.zoneId}/dns_records`,
-        postData
-      );
-
-      if (!response.success) {
-        throw new Error(`Cloudflare API error: ${JSON.stringify(response.errors)}`);
-      }
-
-      const record = response.result as CloudflareRecord;
-      Logger.info(`Successfully created ${recordType} record: ${record.id}`);
-      return record;
-    } catch (error) {
-      Logger.error(`Failed to create ${recordType} record for ${recordName}:`, error);
-      throw error;
-    }
-  }
-
-  async deleteTxtRecord(recordId: string): Promise<void> {
-    try {
-      Logger.info(`Deleting TXT record: ${recordId}`);
+      Logger.info(`Deleting ${record.type} record: ${record.id}`);
 
       const response = await this.makeRequest(
         'DELETE',
-        `/zones/${this.zoneId}/dns_records/${recordId}`
+        `/zones/${this.zoneId}/dns_records/${record.id}`
       );
 
       if (!response.success) {
         throw new Error(`Cloudflare API error: ${JSON.stringify(response.errors)}`);
       }
 
-      Logger.info(`Successfully deleted TXT record: ${recordId}`);
+      Logger.info(`Successfully deleted ${record.type} record: ${record.id}`);
     } catch (error) {
-      Logger.error(`Failed to delete TXT record ${recordId}:`, error);
+      Logger.error(`Failed to delete ${record.type} record ${record.id}:`, error);
       throw error;
     }
   }
 
-  async findTxtRecord(domain: string): Promise<CloudflareRecord | null> {
-    try {
-      const recordName = `_acme-challenge.${domain}`;
-      Logger.info(`Looking for TXT record: ${recordName}`);
-
-      const response = await this.makeRequest(
-        'GET',
-        `/zones/${this.zoneId}/dns_records?type=TXT&name=${recordName}`
-      );
-
-      if (!response.success) {
-        throw new Error(`Cloudflare API error: ${JSON.stringify(response.errors)}`);
-      }
-
-      const records = response.result as CloudflareRecord[];
-      if (records.length === 0) {
-        Logger.info(`No TXT record found for ${recordName}`);
-        return null;
-      }
-
-      const record = records[0];
-      Logger.info(`Found TXT record: ${record.id}`);
-      return record;
-    } catch (error) {
-      Logger.error(`Failed to find TXT record for ${domain}:`, error);
-      return null;
-    }
-  }
-
-  async findAllTxtRecords(domain: string): Promise<CloudflareRecord[]> {
-    try {
-      const recordName = `_acme-challenge.${domain}`;
-      Logger.info(`Looking for all TXT records: ${recordName}`);
+  async listRecords(name: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
+    Logger.info(`Looking for ${type} records: ${name}`);
 
-      const response = await this.makeRequest(
-        'GET',
-        `/zones/${this.zoneId}/dns_records?type=TXT&name=${recordName}`
-      );
+    const response = await this.makeRequest(
+      'GET',
+      `/zones/${this.zoneId}/dns_records?type=${type}&name=${encodeURIComponent(name)}`
+    );
 
-      if (!response.success) {
-        throw new Error(`Cloudflare API error: ${JSON.stringify(response.errors)}`);
-      }
-
-      const records = response.result as CloudflareRecord[];
-      Logger.info(`Found ${records.length} TXT records for ${recordName}`);
-      return records;
-    } catch (error) {
-      Logger.error(`Failed to find TXT records for ${domain}:`, error);
-      return [];
+    if (!response.success) {
+      throw new Error(`Cloudflare API error: ${JSON.stringify(response.errors)}`);
     }
-  }
 
-  async cleanupTxtRecords(domain: string): Promise<void> {
-    try {
-      const records = await this.findAllTxtRecords(domain);
-      if (records.length === 0) {
-        Logger.info(`No existing TXT records to cleanup for ${domain}`);
-        return;
-      }
-
-      Logger.info(`Cleaning up ${records.length} existing TXT records for ${domain}`);
-      for (const record of records) {
-        await this.deleteTxtRecord(record.id);
-      }
-    } catch (error) {
-      Logger.error(`Failed to cleanup TXT records for ${domain}:`, error);
-      throw error;
-    }
+    const records = response.result as CloudflareRecord[];
+    Logger.info(`Found ${records.length} ${type} records for ${name}`);
+    return records.map(record => ({ id: record.id, name: record.name, type, value: record.content }));
   }
 
-  async verifyTxtRecord(domain: string, expectedValue: string, maxWaitTime: number = 300000): Promise<boolean> {
-    try {
-      const recordName = `_acme-challenge.${domain}`;
-      Logger.info(`Verifying TXT record propagation for ${recordName}`);
-
-      const startTime = Date.now();
-      const checkInterval = 10000; // 10 seconds
-
-      while (Date.now() - startTime < maxWaitTime) {
-        try {
-          const isVerified = await this.checkDNSPropagation(recordName, expectedValue);
-          if (isVerified) {
-            Logger.info(`TXT record propagation verified for ${recordName}`);
-            return true;
-          }
-        } catch (error) {
-          Logger.debug(`DNS check failed, retrying: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-
-        Logger.info(`Waiting for DNS propagation... (${Math.round((Date.now() - startTime) / 1000)}s)`);
-        await this.sleep(checkInterval);
-      }
-
-      Logger.error(`DNS propagation verification timed out for ${recordName}`);
-      return false;
-    } catch (error) {
-      Logger.error(`Failed to verify TXT record for ${domain}:`, error);
-      return false;
-    }
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    return waitForRecordPropagation(record, getPropagationNameservers('cloudflare'), maxWaitTime, cancellationCheck);
   }
 
-  private async checkDNSPropagation(recordName: string, expectedValue: string): Promise<boolean> {
-    // Use Cloudflare's DNS servers for faster propagation checking
-    const nameservers = dnsServers.cloudflare || dnsServers.default;
-    
-    // Try each nameserver until we get a successful response
-    for (const nameserver of nameservers) {
-      try {
-        const result = await this.queryDNSServer(nameserver, recordName, expectedValue);
-        if (result) {
-          Logger.info(`DNS propagation verified on ${nameserver}: ${recordName}`);
-          return true;
-        }
-      } catch (error) {
-        Logger.debug(`DNS query failed on ${nameserver}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+  async validateCredentials(): Promise<void> {
+    const response = await this.makeRequest('GET', `/zones/${this.zoneId}`);
+    if (!response.success) {
+      throw new Error(`Cloudflare API error: ${JSON.stringify(response.errors)}`);
     }
-    
-    Logger.debug(`DNS propagation not yet complete for ${recordName}`);
-    return false;
-  }
-
-  private async queryDNSServer(nameserver: string, recordName: string, expectedValue: string): Promise<boolean> {
-    return new Promise((resolve, reject) => {
-      const resolver = new dns.Resolver();
-      resolver.setServers([nameserver]);
-      
-      resolver.resolveTxt(recordName, (err: any, addresses: string[][]) => {
-        if (err) {
-          reject(new Error(`DNS resolution failed on ${nameserver}: ${err.message}`));
-          return;
-        }
-
-        // Check if any TXT record contains the expected value
-        const found = addresses.some(txtArray => 
-          txtArray.some(txt => txt === expectedValue)
-        );
-
-        resolve(found);
-      });
-    });
   }
 
   private async makeRequest(method: string, path: string, data?: string): Promise<CloudflareResponse> {
@@ -319,10 +171,6 @@ export class CloudflareProvider {
       req.end();
     });
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
-export default CloudflareProvider;
\ No newline at end of file
+export default CloudflareProvider;
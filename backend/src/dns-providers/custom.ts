@@ -1,20 +1,9 @@
 import dns from 'dns';
 import { DatabaseManager } from '../database';
 import { Logger } from '../logger';
-import dnsServers from '../dns-servers.json';
-
-export interface CustomDNSRecord {
-  id: string;
-  domain: string;
-  recordName: string;
-  recordValue: string;
-  recordType: string;
-  status: 'pending' | 'verified' | 'failed';
-  createdAt: Date;
-  verifiedAt?: Date;
-}
+import { DnsProvider, DnsRecord, DnsRecordType, getPropagationNameservers, waitForRecordPropagation } from './dns-provider';
 
-export class CustomDNSProvider {
+export class CustomDNSProvider implements DnsProvider {
   private database: DatabaseManager;
   private domain: string;
   private customDnsServers: string[] = [];
@@ -26,137 +15,85 @@ export class CustomDNSProvider {
 
   static async create(database: DatabaseManager, domain: string): Promise<CustomDNSProvider> {
     const provider = new CustomDNSProvider(database, domain);
-    
+
     // Load custom DNS servers from settings
     const settings = await database.getSettingsByProvider('custom');
     const dnsServer1 = settings.find(s => s.key_name === 'CUSTOM_DNS_SERVER_1')?.key_value;
     const dnsServer2 = settings.find(s => s.key_name === 'CUSTOM_DNS_SERVER_2')?.key_value;
-    
+
     if (dnsServer1) provider.customDnsServers.push(dnsServer1);
     if (dnsServer2) provider.customDnsServers.push(dnsServer2);
-    
+
     Logger.info(`Custom DNS provider initialized for ${domain} with custom servers: ${provider.customDnsServers.join(', ')}`);
     return provider;
   }
 
-  async createDNSRecord(recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<CustomDNSRecord> {
-    const record: CustomDNSRecord = {
+  private get nameservers(): string[] {
+    // Use custom DNS servers if configured, otherwise use defaults
+    return this.customDnsServers.length > 0 ? this.customDnsServers : getPropagationNameservers('custom');
+  }
+
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
+    const record: DnsRecord = {
       id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      domain: this.domain,
-      recordName,
-      recordValue,
-      recordType,
-      status: 'pending',
-      createdAt: new Date()
+      name,
+      type,
+      value
     };
 
-    Logger.info(`Custom DNS: Created record ${recordName} = ${recordValue}`);
+    Logger.info(`Custom DNS: Created record ${name} = ${value}`);
     Logger.info(`Manual DNS Entry Required:`);
-    Logger.info(`  Record Type: ${recordType}`);
-    Logger.info(`  Name: ${recordName}`);
-    Logger.info(`  Value: ${recordValue}`);
+    Logger.info(`  Record Type: ${type}`);
+    Logger.info(`  Name: ${name}`);
+    Logger.info(`  Value: ${value}`);
     Logger.info(`  TTL: 300 (or lower for faster propagation)`);
-    
+
     return record;
   }
 
-  async verifyDNSPropagation(recordName: string, expectedValue: string): Promise<boolean> {
-    // Use custom DNS servers if configured, otherwise use defaults
-    const nameservers = this.customDnsServers.length > 0 
-      ? this.customDnsServers 
-      : (dnsServers.custom || dnsServers.default);
-    
-    Logger.info(`Verifying DNS propagation for ${recordName} using servers: ${nameservers.join(', ')}`);
-    
-    // Try each nameserver until we get a successful response
-    for (const nameserver of nameservers) {
-      try {
-        const result = await this.queryDNSServer(nameserver, recordName, expectedValue);
-        if (result) {
-          Logger.info(`DNS propagation verified on ${nameserver}: ${recordName}`);
-          return true;
-        }
-      } catch (error) {
-        Logger.debug(`DNS query failed on ${nameserver}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
-    }
-    
-    Logger.debug(`DNS propagation not yet complete for ${recordName}`);
-    return false;
+  async deleteRecord(record: DnsRecord): Promise<void> {
+    // For custom DNS, we just log the deletion - admin needs to manually remove
+    Logger.info(`Custom DNS: Record ${record.id} marked for deletion`);
+    Logger.info(`Manual DNS Entry Removal Required - please remove the ${record.type} record ${record.name} manually`);
   }
 
-  private async queryDNSServer(nameserver: string, recordName: string, expectedValue: string): Promise<boolean> {
-    return new Promise((resolve, reject) => {
-      const resolver = new dns.Resolver();
-      resolver.setServers([nameserver]);
-      
-      resolver.resolveTxt(recordName, (err, records) => {
-        if (err) {
-          reject(new Error(`DNS resolution failed on ${nameserver}: ${err.message}`));
-          return;
-        }
-        
-        // Flatten the TXT records and check for our expected value
-        const flatRecords = records.flat();
-        const found = flatRecords.some(record => record === expectedValue);
-        
-        if (found) {
-          Logger.debug(`Found expected TXT record on ${nameserver}: ${expectedValue}`);
-          resolve(true);
-        } else {
-          Logger.debug(`Expected value not found on ${nameserver}. Found: ${flatRecords.join(', ')}`);
-          resolve(false);
-        }
-      });
-    });
+  async listRecords(_name: string, _type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
+    // Records are managed by hand outside this application
+    return [];
   }
 
-  async deleteDNSRecord(recordId: string): Promise<void> {
-    // For custom DNS, we just log the deletion - admin needs to manually remove
-    Logger.info(`Custom DNS: Record ${recordId} marked for deletion`);
-    Logger.info(`Manual DNS Entry Removal Required - please remove the TXT record manually`);
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    return waitForRecordPropagation(record, this.nameservers, maxWaitTime, cancellationCheck);
   }
 
-  async waitForManualEntry(recordName: string, expectedValue: string, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
-    const startTime = Date.now();
-    const checkInterval = 15000; // Check every 15 seconds as specified in requirements
-    
-    Logger.info(`Waiting for manual DNS entry. You have ${maxWaitTime / 1000} seconds to add the record.`);
-    Logger.info(`Checking every ${checkInterval / 1000} seconds...`);
-    
-    while (Date.now() - startTime < maxWaitTime) {
+  async validateCredentials(): Promise<void> {
+    // There are no credentials; check that the configured servers answer queries
+    const failures: string[] = [];
+
+    for (const nameserver of this.customDnsServers) {
+      const resolver = new dns.promises.Resolver({ timeout: 5000, tries: 1 });
       try {
-        // Check for cancellation
-        if (cancellationCheck && cancellationCheck()) {
-          Logger.info(`DNS verification cancelled by user`);
-          return false;
-        }
-        
-        const isVerified = await this.verifyDNSPropagation(recordName, expectedValue);
-        if (isVerified) {
-          Logger.info(`DNS record verified successfully after ${Math.round((Date.now() - startTime) / 1000)} seconds`);
-          return true;
+        resolver.setServers([nameserver]);
+        // Any domain works when no connection is given; only reachability matters
+        await resolver.resolveSoa(this.domain || 'example.com');
+      } catch (error: any) {
+        // A negative answer still means the server responded
+        if (error.code !== dns.NODATA && error.code !== dns.NOTFOUND) {
+          failures.push(`${nameserver}: ${error.message}`);
         }
-        
-        const elapsed = Math.round((Date.now() - startTime) / 1000);
-        const remaining = Math.round((maxWaitTime - (Date.now() - startTime)) / 1000);
-        Logger.info(`Waiting for DNS entry... (${elapsed}s elapsed, ${remaining}s remaining)`);
-        
-        // Wait before next check, but check cancellation periodically
-        for (let i = 0; i < checkInterval / 1000; i++) {
-          if (cancellationCheck && cancellationCheck()) {
-            Logger.info(`DNS verification cancelled by user during wait`);
-            return false;
-          }
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
-      } catch (error) {
-        Logger.error(`Error during DNS verification: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
-    
-    Logger.error(`Timeout waiting for manual DNS entry after ${maxWaitTime / 1000} seconds`);
-    return false;
+
+    if (failures.length > 0) {
+      throw new Error(`DNS servers not reachable: ${failures.join(', ')}`);
+    }
+  }
+
+  async waitForManualEntry(recordName: string, expectedValue: string, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    Logger.info(`Waiting for manual DNS entry. You have ${maxWaitTime / 1000} seconds to add the record.`);
+
+    const record: DnsRecord = { id: recordName, name: recordName, type: 'TXT', value: expectedValue };
+    return this.waitForPropagation(record, maxWaitTime, cancellationCheck);
   }
 
   getManualInstructions(recordName: string, recordValue: string): string {
@@ -171,9 +108,9 @@ Manual DNS Configuration Required:
    - TTL: 300 (or minimum allowed)
 
 3. Save the record and wait for propagation
-4. The system will automatically verify the record every 15 seconds
+4. The system will automatically verify the record every 10 seconds
 
-DNS Servers being monitored: ${this.customDnsServers.length > 0 ? this.customDnsServers.join(', ') : 'Default (8.8.8.8, 1.1.1.1)'}
+DNS Servers being monitored: ${this.nameservers.join(', ')}
 `;
   }
-}
\ No newline at end of file
+}
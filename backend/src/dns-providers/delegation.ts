@@ -0,0 +1,94 @@
+import dns from 'dns';
+import { ConnectionRecord } from '../types';
+import { getChallengeRecordName, getPropagationNameservers, resolveNameserver } from './dns-provider';
+
+/**
+ * DNS-01 challenge delegation: `_acme-challenge.<domain>` is a CNAME, created
+ * once by whoever owns the zone, to a name in a zone we can automate. The
+ * challenge TXT records are then written at that target instead.
+ */
+export type DnsChallengeMode = 'auto' | 'delegated';
+
+export const DNS_CHALLENGE_MODES: DnsChallengeMode[] = ['auto', 'delegated'];
+
+export interface DelegationCheck {
+  domain: string;
+  recordName: string;
+  target: string;
+  cname: string | null;
+  valid: boolean;
+  error?: string;
+}
+
+const normalizeName = (name: string): string => name.trim().replace(/\.$/, '').toLowerCase();
+
+/**
+ * Delegated challenge target for a connection, or null when challenges are published in place
+ */
+export function getChallengeDelegate(connection: ConnectionRecord): string | null {
+  if (connection.dns_challenge_mode !== 'delegated' || !connection.dns_challenge_delegate) {
+    return null;
+  }
+  return normalizeName(connection.dns_challenge_delegate);
+}
+
+/**
+ * DNS provider that publishes the challenge records: the one owning the delegated zone, if set
+ */
+export function getChallengeDnsProvider(connection: ConnectionRecord): string {
+  if (getChallengeDelegate(connection) && connection.dns_challenge_delegate_provider) {
+    return connection.dns_challenge_delegate_provider;
+  }
+  return connection.dns_provider || 'cloudflare';
+}
+
+/**
+ * Provider and zone the challenge records are written to, used to serialize
+ * changes to the same zone across concurrent renewals
+ */
+export function getChallengeZoneKey(connection: ConnectionRecord): string {
+  const delegate = getChallengeDelegate(connection);
+  const zone = delegate ? delegate.split('.').slice(1).join('.') : normalizeName(connection.domain || '');
+  return `${getChallengeDnsProvider(connection)}:${zone}`;
+}
+
+/**
+ * Name the challenge TXT record for a domain is written to
+ */
+export function getChallengeTargetName(connection: ConnectionRecord, domain: string): string {
+  return getChallengeDelegate(connection) || getChallengeRecordName(domain);
+}
+
+/**
+ * Check that `_acme-challenge.<domain>` is a CNAME to the delegated target on public resolvers
+ */
+export async function checkChallengeDelegation(
+  domain: string,
+  target: string,
+  nameservers: string[] = getPropagationNameservers('default')
+): Promise<DelegationCheck> {
+  const recordName = getChallengeRecordName(domain);
+  const check: DelegationCheck = { domain, recordName, target: normalizeName(target), cname: null, valid: false };
+  const errors: string[] = [];
+
+  for (const nameserver of nameservers) {
+    try {
+      const resolver = new dns.promises.Resolver({ timeout: 5000, tries: 2 });
+      resolver.setServers([await resolveNameserver(nameserver)]);
+      const [cname] = await resolver.resolveCname(recordName);
+
+      check.cname = normalizeName(cname);
+      check.valid = check.cname === check.target;
+      return check;
+    } catch (error: any) {
+      // A negative answer is authoritative: there is no CNAME
+      if (error.code === dns.NODATA || error.code === dns.NOTFOUND) {
+        return check;
+      }
+      errors.push(`${nameserver}: ${error.message}`);
+    }
+  }
+
+  check.error = `DNS lookup failed on all resolvers (${errors.join(', ')})`;
+  return check;
+}
@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { DatabaseManager } from '../database';
 import { Logger } from '../logger';
+import { DnsProvider, DnsRecord, DnsRecordType, getPropagationNameservers, waitForRecordPropagation } from './dns-provider';
 
 export interface DigitalOceanDNSRecord {
   id: number;
@@ -10,7 +11,7 @@ export interface DigitalOceanDNSRecord {
   ttl: number;
 }
 
-export class DigitalOceanDNSProvider {
+export class DigitalOceanDNSProvider implements DnsProvider {
   private apiKey: string;
   private domain: string;
   private baseDomain: string;
@@ -26,131 +27,97 @@ export class DigitalOceanDNSProvider {
   static async create(database: DatabaseManager, domain: string): Promise<DigitalOceanDNSProvider> {
     const settings = await database.getSettingsByProvider('digitalocean');
     const apiKey = settings.find(s => s.key_name === 'DO_KEY')?.key_value;
-    
+
     if (!apiKey) {
       throw new Error('DigitalOcean API key not configured. Please add DO_KEY to your settings.');
     }
-    
+
     const provider = new DigitalOceanDNSProvider(apiKey, domain);
     Logger.info(`DigitalOcean DNS provider initialized for ${domain}`);
     return provider;
   }
 
-  async createDNSRecord(recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<DigitalOceanDNSRecord> {
+  private get headers() {
+    return {
+      'Authorization': `Bearer ${this.apiKey}`,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  private getApiError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response?.data?.message || error.message;
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
     try {
       // Remove base domain from record name if present
-      let name = recordName;
-      if (recordName.endsWith(`.${this.baseDomain}`)) {
-        name = recordName.slice(0, -(this.baseDomain.length + 1));
+      let relativeName = name;
+      if (name.endsWith(`.${this.baseDomain}`)) {
+        relativeName = name.slice(0, -(this.baseDomain.length + 1));
       }
       // Handle @ for root domain
-      if (name === this.baseDomain || name === '') {
-        name = '@';
+      if (relativeName === this.baseDomain || relativeName === '') {
+        relativeName = '@';
       }
 
       const url = `https://api.digitalocean.com/v2/domains/${this.baseDomain}/records`;
-      const headers = {
-        'Authorization': `Bearer ${this.apiKey}`,
-        'Content-Type': 'application/json'
-      };
-
       const data = {
-        type: recordType,
-        name: name,
-        data: recordValue,
+        type,
+        name: relativeName,
+        // DigitalOcean expects CNAME targets to be fully qualified
+        data: type === 'CNAME' && !value.endsWith('.') ? `${value}.` : value,
         ttl: 30 // Low TTL for faster propagation
       };
 
-      Logger.info(`Creating DigitalOcean DNS record: ${name}.${this.baseDomain} (${recordType})`);
-      
-      const response = await axios.post(url, data, { headers });
-      const record = response.data.domain_record;
-      
+      Logger.info(`Creating DigitalOcean DNS record: ${relativeName}.${this.baseDomain} (${type})`);
+
+      const response = await axios.post(url, data, { headers: this.headers });
+      const record: DigitalOceanDNSRecord = response.data.domain_record;
+
       Logger.info(`DigitalOcean DNS record created with ID: ${record.id}`);
-      return record;
+      return { id: record.id.toString(), name, type, value };
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        Logger.error(`DigitalOcean API error: ${error.response?.data?.message || error.message}`);
-        throw new Error(`Failed to create DNS record: ${error.response?.data?.message || error.message}`);
-      }
-      throw error;
+      Logger.error(`DigitalOcean API error: ${this.getApiError(error)}`);
+      throw new Error(`Failed to create DNS record: ${this.getApiError(error)}`);
     }
   }
 
-  async verifyDNSPropagation(recordName: string, expectedValue: string): Promise<boolean> {
+  async deleteRecord(record: DnsRecord): Promise<void> {
     try {
-      const url = `https://api.digitalocean.com/v2/domains/${this.baseDomain}/records`;
-      const headers = {
-        'Authorization': `Bearer ${this.apiKey}`
-      };
-
-      const response = await axios.get(url, { headers });
-      const records = response.data.domain_records;
-
-      // Remove base domain from record name for comparison
-      let searchName = recordName;
-      if (recordName.endsWith(`.${this.baseDomain}`)) {
-        searchName = recordName.slice(0, -(this.baseDomain.length + 1));
-      }
-
-      const found = records.some((record: DigitalOceanDNSRecord) => 
-        record.type === 'TXT' && 
-        (record.name === searchName || record.name === '@' && searchName === this.baseDomain) &&
-        record.data === expectedValue
-      );
-
-      if (found) {
-        Logger.info(`DNS record verified on DigitalOcean: ${recordName}`);
-        return true;
-      }
-
-      Logger.debug(`DNS record not found on DigitalOcean: ${recordName}`);
-      return false;
+      const url = `https://api.digitalocean.com/v2/domains/${this.baseDomain}/records/${record.id}`;
+      await axios.delete(url, { headers: this.headers });
+      Logger.info(`DigitalOcean DNS record ${record.id} deleted successfully`);
     } catch (error) {
-      Logger.error(`Error verifying DNS propagation: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return false;
+      Logger.error(`Failed to delete DNS record: ${this.getApiError(error)}`);
+      throw new Error(`Failed to delete DNS record: ${this.getApiError(error)}`);
     }
   }
 
-  async deleteDNSRecord(recordId: string | number): Promise<void> {
+  async listRecords(name: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
     try {
-      const url = `https://api.digitalocean.com/v2/domains/${this.baseDomain}/records/${recordId}`;
-      const headers = {
-        'Authorization': `Bearer ${this.apiKey}`
-      };
+      const url = `https://api.digitalocean.com/v2/domains/${this.baseDomain}/records`;
 
-      await axios.delete(url, { headers });
-      Logger.info(`DigitalOcean DNS record ${recordId} deleted successfully`);
+      // The name filter expects the fully qualified record name
+      const response = await axios.get(url, { headers: this.headers, params: { type, name, per_page: 200 } });
+      const records: DigitalOceanDNSRecord[] = response.data.domain_records;
+      return records.map(record => ({ id: record.id.toString(), name, type, value: record.data }));
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        Logger.error(`Failed to delete DNS record: ${error.response?.data?.message || error.message}`);
-      } else {
-        Logger.error(`Failed to delete DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+      throw new Error(`Failed to list DNS records: ${this.getApiError(error)}`);
     }
   }
 
-  async waitForDNSPropagation(recordName: string, expectedValue: string, maxWaitTime: number = 300000): Promise<boolean> {
-    const startTime = Date.now();
-    const checkInterval = 10000; // Check every 10 seconds
-
-    Logger.info(`Waiting for DNS propagation on DigitalOcean...`);
-
-    while (Date.now() - startTime < maxWaitTime) {
-      const isVerified = await this.verifyDNSPropagation(recordName, expectedValue);
-      if (isVerified) {
-        Logger.info(`DNS record propagated successfully after ${Math.round((Date.now() - startTime) / 1000)} seconds`);
-        return true;
-      }
-
-      const elapsed = Math.round((Date.now() - startTime) / 1000);
-      const remaining = Math.round((maxWaitTime - (Date.now() - startTime)) / 1000);
-      Logger.info(`Waiting for DNS propagation... (${elapsed}s elapsed, ${remaining}s remaining)`);
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    return waitForRecordPropagation(record, getPropagationNameservers('digitalocean'), maxWaitTime, cancellationCheck);
+  }
 
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
+  async validateCredentials(): Promise<void> {
+    try {
+      await axios.get('https://api.digitalocean.com/v2/account', { headers: this.headers });
+    } catch (error) {
+      throw new Error(`DigitalOcean API error: ${this.getApiError(error)}`);
     }
-
-    Logger.error(`Timeout waiting for DNS propagation after ${maxWaitTime / 1000} seconds`);
-    return false;
   }
-}
\ No newline at end of file
+}
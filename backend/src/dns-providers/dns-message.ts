@@ -0,0 +1,423 @@
+import crypto from 'crypto';
+
+/**
+ * Minimal DNS wire format (RFC 1035) with TSIG signing (RFC 8945), enough to
+ * send RFC 2136 UPDATE messages and the queries that go with them.
+ */
+
+export const DnsType = {
+  CNAME: 5,
+  SOA: 6,
+  TXT: 16,
+  TSIG: 250,
+  ANY: 255
+} as const;
+
+export const DnsClass = {
+  IN: 1,
+  NONE: 254,
+  ANY: 255
+} as const;
+
+export const DnsOpcode = {
+  QUERY: 0,
+  UPDATE: 5
+} as const;
+
+const RCODE_NAMES: Record<number, string> = {
+  0: 'NOERROR',
+  1: 'FORMERR',
+  2: 'SERVFAIL',
+  3: 'NXDOMAIN',
+  4: 'NOTIMP',
+  5: 'REFUSED',
+  6: 'YXDOMAIN',
+  7: 'YXRRSET',
+  8: 'NXRRSET',
+  9: 'NOTAUTH',
+  10: 'NOTZONE',
+  16: 'BADSIG',
+  17: 'BADKEY',
+  18: 'BADTIME'
+};
+
+export function getRcodeName(rcode: number): string {
+  return RCODE_NAMES[rcode] || `RCODE ${rcode}`;
+}
+
+export interface DnsQuestion {
+  name: string;
+  type: number;
+  class: number;
+}
+
+export interface DnsResourceRecord {
+  name: string;
+  type: number;
+  class: number;
+  ttl: number;
+  data: Buffer;
+}
+
+export interface DnsMessage {
+  id: number;
+  opcode: number;
+  rcode: number;
+  isResponse: boolean;
+  // In UPDATE messages these are the zone, prerequisite and update sections
+  questions: DnsQuestion[];
+  answers: DnsResourceRecord[];
+  authorities: DnsResourceRecord[];
+  additionals: DnsResourceRecord[];
+}
+
+export interface TsigKey {
+  name: string;
+  algorithm: string;
+  secret: Buffer;
+}
+
+export interface TsigData {
+  algorithm: string;
+  timeSigned: number;
+  fudge: number;
+  mac: Buffer;
+  originalId: number;
+  error: number;
+  other: Buffer;
+}
+
+// Accepted algorithm names and their node crypto digests
+const TSIG_ALGORITHMS: Record<string, string> = {
+  'hmac-md5.sig-alg.reg.int': 'md5',
+  'hmac-sha1': 'sha1',
+  'hmac-sha224': 'sha224',
+  'hmac-sha256': 'sha256',
+  'hmac-sha384': 'sha384',
+  'hmac-sha512': 'sha512'
+};
+
+const TSIG_FUDGE = 300;
+
+export function normalizeTsigAlgorithm(algorithm: string): string {
+  const name = algorithm.toLowerCase().replace(/\.$/, '');
+  const normalized = name === 'hmac-md5' ? 'hmac-md5.sig-alg.reg.int' : name;
+  if (!TSIG_ALGORITHMS[normalized]) {
+    throw new Error(`Unsupported TSIG algorithm: ${algorithm}`);
+  }
+  return normalized;
+}
+
+export function encodeName(name: string): Buffer {
+  const trimmed = name.replace(/\.$/, '');
+  const parts: Buffer[] = [];
+
+  if (trimmed !== '') {
+    for (const label of trimmed.split('.')) {
+      const bytes = Buffer.from(label, 'utf8');
+      if (bytes.length === 0 || bytes.length > 63) {
+        throw new Error(`Invalid DNS name: ${name}`);
+      }
+      parts.push(Buffer.from([bytes.length]), bytes);
+    }
+  }
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+function decodeName(buffer: Buffer, offset: number): { name: string; offset: number } {
+  const labels: string[] = [];
+  let position = offset;
+  let end = -1;
+  let jumps = 0;
+
+  while (true) {
+    if (position >= buffer.length) {
+      throw new Error('Truncated DNS name');
+    }
+    const length = buffer[position];
+
+    if ((length & 0xc0) === 0xc0) {
+      // Compression pointer
+      if (++jumps > 64) {
+        throw new Error('DNS name compression loop');
+      }
+      if (end === -1) {
+        end = position + 2;
+      }
+      position = buffer.readUInt16BE(position) & 0x3fff;
+      continue;
+    }
+
+    if (length === 0) {
+      position += 1;
+      break;
+    }
+
+    labels.push(buffer.toString('utf8', position + 1, position + 1 + length));
+    position += length + 1;
+  }
+
+  return { name: labels.join('.'), offset: end === -1 ? position : end };
+}
+
+/**
+ * TXT record data: one or more length-prefixed strings of up to 255 bytes
+ */
+export function encodeTxtData(value: string): Buffer {
+  const bytes = Buffer.from(value, 'utf8');
+  const parts: Buffer[] = [];
+
+  for (let offset = 0; offset < bytes.length || parts.length === 0; offset += 255) {
+    const chunk = bytes.subarray(offset, offset + 255);
+    parts.push(Buffer.from([chunk.length]), chunk);
+  }
+  return Buffer.concat(parts);
+}
+
+export function decodeTxtData(data: Buffer): string {
+  const chunks: string[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const length = data[offset];
+    chunks.push(data.toString('utf8', offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+  return chunks.join('');
+}
+
+export function decodeNameData(data: Buffer): string {
+  return decodeName(data, 0).name;
+}
+
+function encodeRecord(record: DnsResourceRecord): Buffer {
+  const fixed = Buffer.alloc(10);
+  fixed.writeUInt16BE(record.type, 0);
+  fixed.writeUInt16BE(record.class, 2);
+  fixed.writeUInt32BE(record.ttl, 4);
+  fixed.writeUInt16BE(record.data.length, 8);
+  return Buffer.concat([encodeName(record.name), fixed, record.data]);
+}
+
+export function encodeMessage(message: DnsMessage): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(message.id, 0);
+  header.writeUInt16BE((message.isResponse ? 0x8000 : 0) | ((message.opcode & 0xf) << 11) | (message.rcode & 0xf), 2);
+  header.writeUInt16BE(message.questions.length, 4);
+  header.writeUInt16BE(message.answers.length, 6);
+  header.writeUInt16BE(message.authorities.length, 8);
+  header.writeUInt16BE(message.additionals.length, 10);
+
+  const questions = message.questions.map(question => {
+    const fixed = Buffer.alloc(4);
+    fixed.writeUInt16BE(question.type, 0);
+    fixed.writeUInt16BE(question.class, 2);
+    return Buffer.concat([encodeName(question.name), fixed]);
+  });
+
+  return Buffer.concat([
+    header,
+    ...questions,
+    ...message.answers.map(encodeRecord),
+    ...message.authorities.map(encodeRecord),
+    ...message.additionals.map(encodeRecord)
+  ]);
+}
+
+interface ParsedMessage {
+  message: DnsMessage;
+  // Offset of the last additional record, where a TSIG record must be
+  lastRecordOffset: number;
+}
+
+function parseMessage(buffer: Buffer): ParsedMessage {
+  if (buffer.length < 12) {
+    throw new Error('Truncated DNS message');
+  }
+
+  const flags = buffer.readUInt16BE(2);
+  const message: DnsMessage = {
+    id: buffer.readUInt16BE(0),
+    opcode: (flags >> 11) & 0xf,
+    rcode: flags & 0xf,
+    isResponse: (flags & 0x8000) !== 0,
+    questions: [],
+    answers: [],
+    authorities: [],
+    additionals: []
+  };
+
+  let offset = 12;
+  for (let i = 0; i < buffer.readUInt16BE(4); i++) {
+    const { name, offset: next } = decodeName(buffer, offset);
+    message.questions.push({ name, type: buffer.readUInt16BE(next), class: buffer.readUInt16BE(next + 2) });
+    offset = next + 4;
+  }
+
+  let lastRecordOffset = offset;
+  const readRecords = (count: number, target: DnsResourceRecord[]) => {
+    for (let i = 0; i < count; i++) {
+      lastRecordOffset = offset;
+      const { name, offset: next } = decodeName(buffer, offset);
+      const type = buffer.readUInt16BE(next);
+      const length = buffer.readUInt16BE(next + 8);
+      const dataOffset = next + 10;
+      if (dataOffset + length > buffer.length) {
+        throw new Error('Truncated DNS record');
+      }
+
+      // Names inside CNAME data may be compressed against the whole message
+      const data = type === DnsType.CNAME
+        ? encodeName(decodeName(buffer, dataOffset).name)
+        : Buffer.from(buffer.subarray(dataOffset, dataOffset + length));
+
+      target.push({ name, type, class: buffer.readUInt16BE(next + 2), ttl: buffer.readUInt32BE(next + 4), data });
+      offset = dataOffset + length;
+    }
+  };
+
+  readRecords(buffer.readUInt16BE(6), message.answers);
+  readRecords(buffer.readUInt16BE(8), message.authorities);
+  readRecords(buffer.readUInt16BE(10), message.additionals);
+
+  return { message, lastRecordOffset };
+}
+
+export function decodeMessage(buffer: Buffer): DnsMessage {
+  return parseMessage(buffer).message;
+}
+
+function encodeTsigData(tsig: TsigData): Buffer {
+  const time = Buffer.alloc(10);
+  time.writeUInt16BE(Math.floor(tsig.timeSigned / 0x100000000), 0);
+  time.writeUInt32BE(tsig.timeSigned % 0x100000000, 2);
+  time.writeUInt16BE(tsig.fudge, 6);
+  time.writeUInt16BE(tsig.mac.length, 8);
+
+  const trailer = Buffer.alloc(6);
+  trailer.writeUInt16BE(tsig.originalId, 0);
+  trailer.writeUInt16BE(tsig.error, 2);
+  trailer.writeUInt16BE(tsig.other.length, 4);
+
+  return Buffer.concat([encodeName(tsig.algorithm), time, tsig.mac, trailer, tsig.other]);
+}
+
+export function decodeTsigData(data: Buffer): TsigData {
+  const { name: algorithm, offset } = decodeName(data, 0);
+  const macLength = data.readUInt16BE(offset + 8);
+  const macEnd = offset + 10 + macLength;
+  const otherLength = data.readUInt16BE(macEnd + 4);
+
+  return {
+    algorithm,
+    timeSigned: data.readUInt16BE(offset) * 0x100000000 + data.readUInt32BE(offset + 2),
+    fudge: data.readUInt16BE(offset + 6),
+    mac: Buffer.from(data.subarray(offset + 10, macEnd)),
+    originalId: data.readUInt16BE(macEnd),
+    error: data.readUInt16BE(macEnd + 2),
+    other: Buffer.from(data.subarray(macEnd + 6, macEnd + 6 + otherLength))
+  };
+}
+
+function computeMac(key: TsigKey, message: Buffer, tsig: TsigData, requestMac?: Buffer): Buffer {
+  const algorithm = normalizeTsigAlgorithm(key.algorithm);
+  const hmac = crypto.createHmac(TSIG_ALGORITHMS[algorithm], key.secret);
+
+  // Responses are chained to the request by its MAC
+  if (requestMac) {
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(requestMac.length);
+    hmac.update(length);
+    hmac.update(requestMac);
+  }
+  hmac.update(message);
+
+  // TSIG variables, with names in canonical (lowercase) form
+  const classAndTtl = Buffer.alloc(6);
+  classAndTtl.writeUInt16BE(DnsClass.ANY, 0);
+  hmac.update(encodeName(key.name.toLowerCase()));
+  hmac.update(classAndTtl);
+  hmac.update(encodeName(algorithm));
+
+  const variables = Buffer.alloc(10);
+  variables.writeUInt16BE(Math.floor(tsig.timeSigned / 0x100000000), 0);
+  variables.writeUInt32BE(tsig.timeSigned % 0x100000000, 2);
+  variables.writeUInt16BE(tsig.fudge, 6);
+  variables.writeUInt16BE(tsig.error, 8);
+  hmac.update(variables);
+
+  const otherLength = Buffer.alloc(2);
+  otherLength.writeUInt16BE(tsig.other.length);
+  hmac.update(otherLength);
+  hmac.update(tsig.other);
+
+  return hmac.digest();
+}
+
+/**
+ * Append a TSIG record to an encoded message. Pass the request MAC when signing a response.
+ */
+export function signMessage(message: Buffer, key: TsigKey, requestMac?: Buffer, timeSigned: number = Math.floor(Date.now() / 1000)): { message: Buffer; mac: Buffer } {
+  const tsig: TsigData = {
+    algorithm: normalizeTsigAlgorithm(key.algorithm),
+    timeSigned,
+    fudge: TSIG_FUDGE,
+    mac: Buffer.alloc(0),
+    originalId: message.readUInt16BE(0),
+    error: 0,
+    other: Buffer.alloc(0)
+  };
+  tsig.mac = computeMac(key, message, tsig, requestMac);
+
+  const signed = Buffer.from(message);
+  signed.writeUInt16BE(signed.readUInt16BE(10) + 1, 10);
+
+  const record = encodeRecord({ name: key.name, type: DnsType.TSIG, class: DnsClass.ANY, ttl: 0, data: encodeTsigData(tsig) });
+  return { message: Buffer.concat([signed, record]), mac: tsig.mac };
+}
+
+/**
+ * TSIG data of a signed message, or null when it carries no TSIG record
+ */
+export function getTsig(message: Buffer): TsigData | null {
+  const { message: decoded } = parseMessage(message);
+  const last = decoded.additionals[decoded.additionals.length - 1];
+  return last?.type === DnsType.TSIG ? decodeTsigData(last.data) : null;
+}
+
+/**
+ * Check the TSIG record of a signed message. Pass the request MAC when verifying a response.
+ * Throws when the message is unsigned, signed with another key, tampered with or stale.
+ */
+export function verifyMessage(message: Buffer, key: TsigKey, requestMac?: Buffer, now: number = Math.floor(Date.now() / 1000)): TsigData {
+  const { message: decoded, lastRecordOffset } = parseMessage(message);
+  const last = decoded.additionals[decoded.additionals.length - 1];
+
+  if (!last || last.type !== DnsType.TSIG) {
+    throw new Error('DNS message is not TSIG signed');
+  }
+  if (last.name.toLowerCase().replace(/\.$/, '') !== key.name.toLowerCase().replace(/\.$/, '')) {
+    throw new Error(`DNS message signed with unexpected TSIG key ${last.name}`);
+  }
+
+  const tsig = decodeTsigData(last.data);
+  if (normalizeTsigAlgorithm(tsig.algorithm) !== normalizeTsigAlgorithm(key.algorithm)) {
+    throw new Error(`DNS message signed with unexpected TSIG algorithm ${tsig.algorithm}`);
+  }
+
+  // The MAC covers the message as it was before the TSIG record was added
+  const unsigned = Buffer.from(message.subarray(0, lastRecordOffset));
+  unsigned.writeUInt16BE(tsig.originalId, 0);
+  unsigned.writeUInt16BE(unsigned.readUInt16BE(10) - 1, 10);
+
+  const expected = computeMac(key, unsigned, tsig, requestMac);
+  if (expected.length !== tsig.mac.length || !crypto.timingSafeEqual(expected, tsig.mac)) {
+    throw new Error('DNS message TSIG signature is invalid');
+  }
+  if (Math.abs(now - tsig.timeSigned) > tsig.fudge) {
+    throw new Error('DNS message TSIG time is outside the allowed window');
+  }
+
+  return tsig;
+}
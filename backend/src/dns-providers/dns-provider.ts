@@ -0,0 +1,132 @@
+import dns from 'dns';
+import net from 'net';
+import { DatabaseManager } from '../database';
+import { Logger } from '../logger';
+import dnsServers from '../dns-servers.json';
+
+export type DnsRecordType = 'TXT' | 'CNAME';
+
+export interface DnsRecord {
+  // Provider-specific identifier; opaque to callers
+  id: string;
+  name: string;
+  type: DnsRecordType;
+  value: string;
+}
+
+/**
+ * Common interface implemented by every DNS provider in this directory
+ */
+export interface DnsProvider {
+  createRecord(name: string, value: string, type?: DnsRecordType): Promise<DnsRecord>;
+  deleteRecord(record: DnsRecord): Promise<void>;
+  listRecords(name: string, type?: DnsRecordType): Promise<DnsRecord[]>;
+  // Resolves false on timeout or when the cancellation check fires
+  waitForPropagation(record: DnsRecord, maxWaitTime?: number, cancellationCheck?: () => boolean): Promise<boolean>;
+  // Throws when the configured credentials can't reach the zone
+  validateCredentials(): Promise<void>;
+}
+
+// A key the provider reads from the settings table
+export interface ProviderSetting {
+  key: string;
+  description: string;
+  required: boolean;
+  secret: boolean;
+  default?: string;
+}
+
+export interface DnsProviderDefinition {
+  id: string;
+  name: string;
+  description: string;
+  settings: ProviderSetting[];
+  // False for providers where records are created by hand
+  automated: boolean;
+  create(database: DatabaseManager, domain: string): Promise<DnsProvider>;
+}
+
+export function getChallengeRecordName(domain: string): string {
+  // Wildcard identifiers are validated on the base domain
+  return `_acme-challenge.${domain.replace(/^\*\./, '')}`;
+}
+
+/**
+ * Public resolvers used to check propagation for a provider (see dns-servers.json)
+ */
+export function getPropagationNameservers(providerId: string): string[] {
+  return (dnsServers as Record<string, string[]>)[providerId] || dnsServers.default;
+}
+
+// Accepts host, host:port and [ipv6]:port, returning the address form Resolver.setServers expects
+export async function resolveNameserver(nameserver: string): Promise<string> {
+  const match = nameserver.match(/^\[(.+)\]:(\d+)$/) || nameserver.match(/^([^:]+):(\d+)$/);
+  const host = match ? match[1] : nameserver;
+  const address = net.isIP(host) ? host : (await dns.promises.lookup(host)).address;
+
+  if (!match) {
+    return address;
+  }
+  return net.isIPv6(address) ? `[${address}]:${match[2]}` : `${address}:${match[2]}`;
+}
+
+async function hasRecordValue(nameserver: string, record: DnsRecord): Promise<boolean> {
+  const resolver = new dns.promises.Resolver();
+  resolver.setServers([await resolveNameserver(nameserver)]);
+
+  if (record.type === 'CNAME') {
+    const targets = await resolver.resolveCname(record.name);
+    return targets.some(target => target.replace(/\.$/, '').toLowerCase() === record.value.replace(/\.$/, '').toLowerCase());
+  }
+
+  const records = await resolver.resolveTxt(record.name);
+  return records.some(chunks => chunks.join('') === record.value);
+}
+
+/**
+ * Wait until a record is visible on any of the given resolvers.
+ * Returns false on timeout or when the cancellation check fires.
+ */
+export async function waitForRecordPropagation(
+  record: DnsRecord,
+  nameservers: string[],
+  maxWaitTime: number = 300000,
+  cancellationCheck?: () => boolean
+): Promise<boolean> {
+  const startTime = Date.now();
+  const checkInterval = 10000; // 10 seconds
+
+  Logger.info(`Waiting for DNS propagation of ${record.name} using servers: ${nameservers.join(', ')}`);
+
+  while (Date.now() - startTime < maxWaitTime) {
+    if (cancellationCheck && cancellationCheck()) {
+      Logger.info(`DNS propagation check for ${record.name} cancelled`);
+      return false;
+    }
+
+    for (const nameserver of nameservers) {
+      try {
+        if (await hasRecordValue(nameserver, record)) {
+          Logger.info(`DNS propagation verified on ${nameserver}: ${record.name}`);
+          return true;
+        }
+      } catch (error) {
+        Logger.debug(`DNS query failed on ${nameserver}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    Logger.info(`Waiting for DNS propagation of ${record.name}... (${Math.round((Date.now() - startTime) / 1000)}s)`);
+
+    // Sleep in one second steps so cancellation is noticed quickly
+    for (let waited = 0; waited < checkInterval; waited += 1000) {
+      if (cancellationCheck && cancellationCheck()) {
+        Logger.info(`DNS propagation check for ${record.name} cancelled`);
+        return false;
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  }
+
+  Logger.error(`DNS propagation timed out for ${record.name} after ${maxWaitTime / 1000} seconds`);
+  return false;
+}
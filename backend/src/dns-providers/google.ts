@@ -1,16 +1,9 @@
 import { DNS } from '@google-cloud/dns';
 import { DatabaseManager } from '../database';
 import { Logger } from '../logger';
+import { DnsProvider, DnsRecord, DnsRecordType, getPropagationNameservers, waitForRecordPropagation } from './dns-provider';
 
-export interface GoogleDNSRecord {
-  id: string;
-  name: string;
-  type: string;
-  ttl: number;
-  data: string[];
-}
-
-export class GoogleDNSProvider {
+export class GoogleDNSProvider implements DnsProvider {
   private dns: DNS;
   private zone: any;
   private domain: string;
@@ -29,51 +22,30 @@ export class GoogleDNSProvider {
     const settings = await database.getSettingsByProvider('google');
     const projectId = settings.find(s => s.key_name === 'GOOGLE_PROJECT_ID')?.key_value;
     const zoneName = settings.find(s => s.key_name === 'GOOGLE_ZONE_NAME')?.key_value;
-    
+
     if (!projectId || !zoneName) {
       throw new Error('Google Cloud DNS credentials not configured. Please add GOOGLE_PROJECT_ID and GOOGLE_ZONE_NAME to your settings.');
     }
-    
+
     const provider = new GoogleDNSProvider(projectId, zoneName, domain);
     Logger.info(`Google Cloud DNS provider initialized for ${domain}`);
     return provider;
   }
 
-  async createDNSRecord(recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<GoogleDNSRecord> {
-    try {
-      // Ensure record name ends with a dot for Google Cloud DNS
-      const fqdn = recordName.endsWith('.') ? recordName : `${recordName}.`;
-      
-      const record = this.zone.record(recordType.toLowerCase(), {
-        name: fqdn,
-        ttl: 60,
-        data: recordType === 'TXT' ? [`"${recordValue}"`] : [recordValue]
-      });
-
-      Logger.info(`Creating Google Cloud DNS record: ${fqdn} (${recordType})`);
-      
-      const [change] = await this.zone.createChange({
-        add: record
-      });
-
-      // Wait for change to be done
-      await this.waitForChange(change);
-      
-      const recordId = `${recordType}_${recordName}`;
-      
-      Logger.info(`Google Cloud DNS record created: ${fqdn}`);
-      
-      return {
-        id: recordId,
-        name: fqdn,
-        type: recordType,
-        ttl: 60,
-        data: record.data
-      };
-    } catch (error) {
-      Logger.error(`Google Cloud DNS API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw new Error(`Failed to create DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  // TXT values are stored quoted; CNAME targets are stored fully qualified
+  private encodeValue(type: DnsRecordType, value: string): string {
+    if (type === 'TXT') {
+      return `"${value}"`;
     }
+    return value.endsWith('.') ? value : `${value}.`;
+  }
+
+  private decodeValue(type: DnsRecordType, value: string): string {
+    return type === 'TXT' ? value.replace(/^"|"$/g, '') : value.replace(/\.$/, '');
   }
 
   private async waitForChange(change: any): Promise<void> {
@@ -92,80 +64,91 @@ export class GoogleDNSProvider {
     throw new Error('Timeout waiting for DNS change to complete');
   }
 
-  async verifyDNSPropagation(recordName: string, expectedValue: string): Promise<boolean> {
+  private async getRecordSet(fqdn: string, type: DnsRecordType): Promise<any | undefined> {
+    const [records] = await this.zone.getRecords({ name: fqdn, type });
+    return records[0];
+  }
+
+  /**
+   * Replace the record set at the given name. Google Cloud DNS holds every
+   * value for a name in one record set, so TXT records are merged into it.
+   */
+  private async replaceRecordValues(fqdn: string, type: DnsRecordType, existing: any | undefined, values: string[]): Promise<void> {
+    const change: { add?: any; delete?: any } = {};
+    if (existing) {
+      change.delete = existing;
+    }
+    if (values.length > 0) {
+      change.add = this.zone.record(type.toLowerCase(), { name: fqdn, ttl: 60, data: values });
+    }
+
+    const [result] = await this.zone.createChange(change);
+    await this.waitForChange(result);
+  }
+
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
     try {
-      const fqdn = recordName.endsWith('.') ? recordName : `${recordName}.`;
-      const [records] = await this.zone.getRecords({
-        name: fqdn,
-        type: 'TXT'
-      });
-
-      const found = records.some((record: any) => 
-        record.data && record.data.some((data: string) => 
-          data === `"${expectedValue}"` || data === expectedValue
-        )
-      );
-      
-      if (found) {
-        Logger.info(`DNS record verified on Google Cloud: ${recordName}`);
-        return true;
+      // Ensure record name ends with a dot for Google Cloud DNS
+      const fqdn = name.endsWith('.') ? name : `${name}.`;
+      const encoded = this.encodeValue(type, value);
+
+      Logger.info(`Creating Google Cloud DNS record: ${fqdn} (${type})`);
+
+      const existing = await this.getRecordSet(fqdn, type);
+      // A CNAME can only hold one target, so it is replaced rather than merged
+      const values: string[] = type === 'TXT' ? existing?.data || [] : [];
+      if (!values.includes(encoded)) {
+        await this.replaceRecordValues(fqdn, type, existing, [...values, encoded]);
       }
 
-      Logger.debug(`DNS record not found on Google Cloud: ${recordName}`);
-      return false;
+      Logger.info(`Google Cloud DNS record created: ${fqdn}`);
+      return { id: `${type}_${name}`, name, type, value };
     } catch (error) {
-      Logger.debug(`DNS verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return false;
+      Logger.error(`Google Cloud DNS API error: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to create DNS record: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async deleteDNSRecord(recordId: string): Promise<void> {
+  async deleteRecord(record: DnsRecord): Promise<void> {
     try {
-      const [recordType, ...nameParts] = recordId.split('_');
-      const recordName = nameParts.join('_');
-      const fqdn = recordName.endsWith('.') ? recordName : `${recordName}.`;
-
-      const [records] = await this.zone.getRecords({
-        name: fqdn,
-        type: recordType
-      });
-
-      if (records.length > 0) {
-        const [change] = await this.zone.createChange({
-          delete: records[0]
-        });
-
-        await this.waitForChange(change);
-        Logger.info(`Google Cloud DNS record ${recordId} deleted successfully`);
-      } else {
-        Logger.warn(`DNS record ${recordId} not found for deletion`);
+      const fqdn = record.name.endsWith('.') ? record.name : `${record.name}.`;
+      const existing = await this.getRecordSet(fqdn, record.type);
+      const values: string[] = existing?.data || [];
+      const remaining = values.filter(value => value !== this.encodeValue(record.type, record.value) && value !== record.value);
+
+      if (existing && remaining.length !== values.length) {
+        await this.replaceRecordValues(fqdn, record.type, existing, remaining);
+        Logger.info(`Google Cloud DNS record ${record.id} deleted successfully`);
       }
     } catch (error) {
-      Logger.error(`Failed to delete DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      Logger.error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async waitForDNSPropagation(recordName: string, expectedValue: string, maxWaitTime: number = 300000): Promise<boolean> {
-    const startTime = Date.now();
-    const checkInterval = 10000; // Check every 10 seconds
+  async listRecords(name: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
+    try {
+      const fqdn = name.endsWith('.') ? name : `${name}.`;
+      const existing = await this.getRecordSet(fqdn, type);
+      const values: string[] = existing?.data || [];
+      return values.map(value => ({ id: `${type}_${name}`, name, type, value: this.decodeValue(type, value) }));
+    } catch (error) {
+      throw new Error(`Failed to list DNS records: ${this.getErrorMessage(error)}`);
+    }
+  }
 
-    Logger.info(`Waiting for DNS propagation on Google Cloud...`);
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    return waitForRecordPropagation(record, getPropagationNameservers('google'), maxWaitTime, cancellationCheck);
+  }
 
-    while (Date.now() - startTime < maxWaitTime) {
-      const isVerified = await this.verifyDNSPropagation(recordName, expectedValue);
-      if (isVerified) {
-        Logger.info(`DNS record propagated successfully after ${Math.round((Date.now() - startTime) / 1000)} seconds`);
-        return true;
+  async validateCredentials(): Promise<void> {
+    try {
+      const [exists] = await this.zone.exists();
+      if (!exists) {
+        throw new Error(`Zone ${this.zoneName} not found in project ${this.projectId}`);
       }
-
-      const elapsed = Math.round((Date.now() - startTime) / 1000);
-      const remaining = Math.round((maxWaitTime - (Date.now() - startTime)) / 1000);
-      Logger.info(`Waiting for DNS propagation... (${elapsed}s elapsed, ${remaining}s remaining)`);
-
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
+    } catch (error) {
+      throw new Error(`Google Cloud DNS API error: ${this.getErrorMessage(error)}`);
     }
-
-    Logger.error(`Timeout waiting for DNS propagation after ${maxWaitTime / 1000} seconds`);
-    return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,120 @@
+import { DatabaseManager } from '../database';
+import { DnsProvider, DnsProviderDefinition } from './dns-provider';
+
+/**
+ * Registry of DNS providers and their settings schema. Provider modules are
+ * loaded on first use so cloud SDKs are only required when a provider is used.
+ *
+ * To add a provider, implement DnsProvider in a module in this directory and
+ * register its definition here (or call registerDnsProvider at startup).
+ */
+const providers = new Map<string, DnsProviderDefinition>();
+
+export function registerDnsProvider(definition: DnsProviderDefinition): void {
+  providers.set(definition.id, definition);
+}
+
+export function getDnsProviderDefinition(id: string): DnsProviderDefinition | undefined {
+  return providers.get(id);
+}
+
+export function listDnsProviders(): DnsProviderDefinition[] {
+  return Array.from(providers.values());
+}
+
+export async function createDnsProvider(database: DatabaseManager, id: string, domain: string): Promise<DnsProvider> {
+  const definition = providers.get(id);
+  if (!definition) {
+    throw new Error(`Unsupported DNS provider: ${id}`);
+  }
+  return definition.create(database, domain);
+}
+
+registerDnsProvider({
+  id: 'cloudflare',
+  name: 'Cloudflare',
+  description: 'DNS provider for automatic DNS validation',
+  automated: true,
+  settings: [
+    { key: 'CF_KEY', description: 'Global API Key from My Profile > API Tokens', required: true, secret: true },
+    { key: 'CF_ZONE', description: 'Zone ID from domain overview page', required: true, secret: false }
+  ],
+  create: async (database, domain) => (await import('./cloudflare')).CloudflareProvider.create(database, domain)
+});
+
+registerDnsProvider({
+  id: 'digitalocean',
+  name: 'DigitalOcean',
+  description: 'DNS provider for automatic DNS validation',
+  automated: true,
+  settings: [
+    { key: 'DO_KEY', description: 'Personal Access Token from API > Generate New Token', required: true, secret: true }
+  ],
+  create: async (database, domain) => (await import('./digitalocean')).DigitalOceanDNSProvider.create(database, domain)
+});
+
+registerDnsProvider({
+  id: 'route53',
+  name: 'AWS Route53',
+  description: 'DNS provider for automatic DNS validation',
+  automated: true,
+  settings: [
+    { key: 'AWS_ACCESS_KEY', description: 'IAM user access key with Route53 permissions', required: true, secret: true },
+    { key: 'AWS_SECRET_KEY', description: 'Secret access key for the IAM user', required: true, secret: true },
+    { key: 'AWS_ZONE_ID', description: 'Hosted zone ID from Route53 console', required: true, secret: false }
+  ],
+  create: async (database, domain) => (await import('./route53')).Route53DNSProvider.create(database, domain)
+});
+
+registerDnsProvider({
+  id: 'azure',
+  name: 'Azure DNS',
+  description: 'DNS provider for automatic DNS validation',
+  automated: true,
+  settings: [
+    { key: 'AZURE_SUBSCRIPTION_ID', description: 'Azure subscription containing DNS zones', required: true, secret: false },
+    { key: 'AZURE_RESOURCE_GROUP', description: 'Resource group containing DNS zone', required: true, secret: false },
+    { key: 'AZURE_ZONE_NAME', description: 'DNS zone name (e.g., example.com)', required: true, secret: false }
+  ],
+  create: async (database, domain) => (await import('./azure')).AzureDNSProvider.create(database, domain)
+});
+
+registerDnsProvider({
+  id: 'google',
+  name: 'Google Cloud DNS',
+  description: 'DNS provider for automatic DNS validation',
+  automated: true,
+  settings: [
+    { key: 'GOOGLE_PROJECT_ID', description: 'GCP project ID containing Cloud DNS zones', required: true, secret: false },
+    { key: 'GOOGLE_ZONE_NAME', description: 'Cloud DNS zone name', required: true, secret: false }
+  ],
+  create: async (database, domain) => (await import('./google')).GoogleDNSProvider.create(database, domain)
+});
+
+registerDnsProvider({
+  id: 'rfc2136',
+  name: 'RFC 2136 (BIND)',
+  description: 'Dynamic DNS updates signed with TSIG, for BIND and other primary DNS servers',
+  automated: true,
+  settings: [
+    { key: 'RFC2136_SERVER', description: 'Primary DNS server hostname or IP address that accepts dynamic updates', required: true, secret: false },
+    { key: 'RFC2136_PORT', description: 'DNS server port', required: false, secret: false, default: '53' },
+    { key: 'RFC2136_ZONE', description: 'Zone to update (e.g., example.com)', required: true, secret: false },
+    { key: 'RFC2136_TSIG_KEY_NAME', description: 'TSIG key name as configured on the server', required: true, secret: false },
+    { key: 'RFC2136_TSIG_SECRET', description: 'Base64 TSIG secret (the "secret" value from the key file)', required: true, secret: true },
+    { key: 'RFC2136_TSIG_ALGORITHM', description: 'TSIG algorithm: hmac-sha256, hmac-sha512, hmac-sha1 or hmac-md5', required: false, secret: false, default: 'hmac-sha256' }
+  ],
+  create: async (database, domain) => (await import('./rfc2136')).RFC2136DNSProvider.create(database, domain)
+});
+
+registerDnsProvider({
+  id: 'custom',
+  name: 'Custom DNS',
+  description: 'Manual DNS configuration for custom setups',
+  automated: false,
+  settings: [
+    { key: 'CUSTOM_DNS_SERVER_1', description: 'Primary DNS server IP address', required: true, secret: false },
+    { key: 'CUSTOM_DNS_SERVER_2', description: 'Secondary DNS server IP address (optional)', required: false, secret: false }
+  ],
+  create: async (database, domain) => (await import('./custom')).CustomDNSProvider.create(database, domain)
+});
@@ -0,0 +1,256 @@
+import crypto from 'crypto';
+import net from 'net';
+import { DatabaseManager } from '../database';
+import { Logger } from '../logger';
+import { DnsProvider, DnsRecord, DnsRecordType, waitForRecordPropagation } from './dns-provider';
+import {
+  DnsClass,
+  DnsMessage,
+  DnsOpcode,
+  DnsResourceRecord,
+  DnsType,
+  TsigKey,
+  decodeMessage,
+  decodeNameData,
+  decodeTxtData,
+  encodeMessage,
+  encodeName,
+  encodeTxtData,
+  getRcodeName,
+  getTsig,
+  normalizeTsigAlgorithm,
+  signMessage,
+  verifyMessage
+} from './dns-message';
+
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Dynamic DNS updates (RFC 2136) signed with TSIG, for zones hosted on BIND,
+ * Knot, PowerDNS or any other primary server that accepts UPDATE messages.
+ * Messages are sent over TCP so large signed responses are never truncated.
+ */
+export class RFC2136DNSProvider implements DnsProvider {
+  private server: string;
+  private port: number;
+  private zone: string;
+  private key: TsigKey;
+
+  constructor(server: string, port: number, zone: string, key: TsigKey) {
+    this.server = server;
+    this.port = port;
+    this.zone = zone.toLowerCase().replace(/\.$/, '');
+    this.key = key;
+  }
+
+  static async create(database: DatabaseManager, domain: string): Promise<RFC2136DNSProvider> {
+    const settings = await database.getSettingsByProvider('rfc2136');
+    const server = settings.find(s => s.key_name === 'RFC2136_SERVER')?.key_value;
+    const port = settings.find(s => s.key_name === 'RFC2136_PORT')?.key_value;
+    const zone = settings.find(s => s.key_name === 'RFC2136_ZONE')?.key_value;
+    const keyName = settings.find(s => s.key_name === 'RFC2136_TSIG_KEY_NAME')?.key_value;
+    const secret = settings.find(s => s.key_name === 'RFC2136_TSIG_SECRET')?.key_value;
+    const algorithm = settings.find(s => s.key_name === 'RFC2136_TSIG_ALGORITHM')?.key_value;
+
+    if (!server || !zone || !keyName || !secret) {
+      throw new Error('RFC 2136 settings not configured. Please add RFC2136_SERVER, RFC2136_ZONE, RFC2136_TSIG_KEY_NAME and RFC2136_TSIG_SECRET to your settings.');
+    }
+
+    const portNumber = port ? parseInt(port, 10) : 53;
+    if (isNaN(portNumber) || portNumber < 1 || portNumber > 65535) {
+      throw new Error(`Invalid RFC2136_PORT: ${port}`);
+    }
+
+    const provider = new RFC2136DNSProvider(server, portNumber, zone, {
+      name: keyName,
+      algorithm: normalizeTsigAlgorithm(algorithm || 'hmac-sha256'),
+      secret: Buffer.from(secret, 'base64')
+    });
+    Logger.info(`RFC 2136 DNS provider initialized for ${domain} (server ${server}:${portNumber}, zone ${zone})`);
+    return provider;
+  }
+
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  private checkInZone(name: string): string {
+    const fqdn = name.replace(/\.$/, '');
+    const lower = fqdn.toLowerCase();
+    if (lower !== this.zone && !lower.endsWith(`.${this.zone}`)) {
+      throw new Error(`${fqdn} is not in zone ${this.zone}`);
+    }
+    return fqdn;
+  }
+
+  private encodeRecordData(type: DnsRecordType, value: string): Buffer {
+    return type === 'CNAME' ? encodeName(value) : encodeTxtData(value);
+  }
+
+  /**
+   * Send a length-prefixed message over TCP and read one response
+   */
+  private send(message: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.server, port: this.port });
+      let received = Buffer.alloc(0);
+      let settled = false;
+
+      const finish = (error: Error | null, response?: Buffer) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(response!);
+        }
+      };
+
+      socket.setTimeout(REQUEST_TIMEOUT, () => finish(new Error(`DNS server ${this.server}:${this.port} timed out`)));
+
+      socket.on('connect', () => {
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(message.length);
+        socket.write(Buffer.concat([length, message]));
+      });
+
+      socket.on('data', (chunk) => {
+        received = Buffer.concat([received, chunk]);
+        if (received.length >= 2 && received.length >= 2 + received.readUInt16BE(0)) {
+          finish(null, received.subarray(2, 2 + received.readUInt16BE(0)));
+        }
+      });
+
+      socket.on('error', (error) => finish(new Error(`DNS server ${this.server}:${this.port} unreachable: ${error.message}`)));
+      socket.on('close', () => finish(new Error(`DNS server ${this.server}:${this.port} closed the connection`)));
+    });
+  }
+
+  /**
+   * Sign and send a message, then check the response is signed with the same key
+   */
+  private async exchange(message: DnsMessage): Promise<DnsMessage> {
+    const { message: signed, mac } = signMessage(encodeMessage(message), this.key);
+    const raw = await this.send(signed);
+    const response = decodeMessage(raw);
+
+    if (response.id !== message.id || !response.isResponse) {
+      throw new Error('DNS server sent an unexpected response');
+    }
+
+    if (response.rcode !== 0) {
+      // Errors for a rejected key or signature come back unsigned, with the TSIG error set
+      const tsig = getTsig(raw);
+      const tsigError = tsig && tsig.error !== 0 ? ` (TSIG ${getRcodeName(tsig.error)})` : '';
+      const error = new Error(`DNS server returned ${getRcodeName(response.rcode)}${tsigError}`) as Error & { rcode: number };
+      error.rcode = response.rcode;
+      throw error;
+    }
+
+    verifyMessage(raw, this.key, mac);
+    return response;
+  }
+
+  private async update(updates: DnsResourceRecord[]): Promise<void> {
+    await this.exchange({
+      id: crypto.randomInt(0, 0x10000),
+      opcode: DnsOpcode.UPDATE,
+      rcode: 0,
+      isResponse: false,
+      questions: [{ name: this.zone, type: DnsType.SOA, class: DnsClass.IN }],
+      answers: [],
+      authorities: updates,
+      additionals: []
+    });
+  }
+
+  private async query(name: string, type: number): Promise<DnsMessage> {
+    return this.exchange({
+      id: crypto.randomInt(0, 0x10000),
+      opcode: DnsOpcode.QUERY,
+      rcode: 0,
+      isResponse: false,
+      questions: [{ name, type, class: DnsClass.IN }],
+      answers: [],
+      authorities: [],
+      additionals: []
+    });
+  }
+
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
+    try {
+      const fqdn = this.checkInZone(name);
+      const recordType = type === 'CNAME' ? DnsType.CNAME : DnsType.TXT;
+      const updates: DnsResourceRecord[] = [];
+
+      // A CNAME can only hold one target, so the old one is removed in the same update
+      if (type === 'CNAME') {
+        updates.push({ name: fqdn, type: recordType, class: DnsClass.ANY, ttl: 0, data: Buffer.alloc(0) });
+      }
+      updates.push({ name: fqdn, type: recordType, class: DnsClass.IN, ttl: 60, data: this.encodeRecordData(type, value) });
+
+      Logger.info(`Sending RFC 2136 update to ${this.server}: add ${fqdn} (${type})`);
+      await this.update(updates);
+
+      Logger.info(`RFC 2136 DNS record created: ${fqdn}`);
+      return { id: `${type}_${fqdn}`, name: fqdn, type, value };
+    } catch (error) {
+      Logger.error(`RFC 2136 update error: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to create DNS record: ${this.getErrorMessage(error)}`);
+    }
+  }
+
+  async deleteRecord(record: DnsRecord): Promise<void> {
+    try {
+      const fqdn = this.checkInZone(record.name);
+      const recordType = record.type === 'CNAME' ? DnsType.CNAME : DnsType.TXT;
+
+      // Class NONE deletes only the record with this exact value
+      await this.update([{ name: fqdn, type: recordType, class: DnsClass.NONE, ttl: 0, data: this.encodeRecordData(record.type, record.value) }]);
+      Logger.info(`RFC 2136 DNS record ${record.id} deleted successfully`);
+    } catch (error) {
+      Logger.error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
+    }
+  }
+
+  async listRecords(name: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
+    const fqdn = this.checkInZone(name);
+    const recordType = type === 'CNAME' ? DnsType.CNAME : DnsType.TXT;
+
+    try {
+      const response = await this.query(fqdn, recordType);
+      return response.answers
+        .filter(answer => answer.type === recordType)
+        .map(answer => ({
+          id: `${type}_${fqdn}`,
+          name: fqdn,
+          type,
+          value: type === 'CNAME' ? decodeNameData(answer.data) : decodeTxtData(answer.data)
+        }));
+    } catch (error: any) {
+      if (error.rcode === 3) {
+        // NXDOMAIN: nothing exists at this name yet
+        return [];
+      }
+      throw new Error(`Failed to list DNS records: ${this.getErrorMessage(error)}`);
+    }
+  }
+
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    // Internal zones aren't visible on public resolvers; the primary answers as soon as the update is applied
+    const nameserver = net.isIPv6(this.server) ? `[${this.server}]:${this.port}` : `${this.server}:${this.port}`;
+    return waitForRecordPropagation(record, [nameserver], maxWaitTime, cancellationCheck);
+  }
+
+  async validateCredentials(): Promise<void> {
+    // A signed SOA query proves the server knows the key and serves the zone
+    const response = await this.query(this.zone, DnsType.SOA);
+    if (!response.answers.some(answer => answer.type === DnsType.SOA)) {
+      throw new Error(`Zone ${this.zone} is not served by ${this.server}`);
+    }
+  }
+}
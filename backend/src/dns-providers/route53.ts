@@ -1,20 +1,12 @@
-import { Route53Client, ChangeResourceRecordSetsCommand, ListHostedZonesByNameCommand, ChangeAction, RRType } from '@aws-sdk/client-route-53';
+import { Route53Client, ChangeResourceRecordSetsCommand, GetHostedZoneCommand, ListResourceRecordSetsCommand, ChangeAction, RRType } from '@aws-sdk/client-route-53';
 import { DatabaseManager } from '../database';
 import { Logger } from '../logger';
+import { DnsProvider, DnsRecord, DnsRecordType, getPropagationNameservers, waitForRecordPropagation } from './dns-provider';
 
-export interface Route53DNSRecord {
-  id: string;
-  changeId: string;
-  recordName: string;
-  recordValue: string;
-  recordType: string;
-}
-
-export class Route53DNSProvider {
+export class Route53DNSProvider implements DnsProvider {
   private client: Route53Client;
   private domain: string;
   private zoneId: string;
-  private recordIds: Map<string, string> = new Map();
 
   constructor(accessKeyId: string, secretAccessKey: string, zoneId: string, domain: string) {
     this.client = new Route53Client({
@@ -33,142 +25,129 @@ export class Route53DNSProvider {
     const accessKeyId = settings.find(s => s.key_name === 'AWS_ACCESS_KEY')?.key_value;
     const secretAccessKey = settings.find(s => s.key_name === 'AWS_SECRET_KEY')?.key_value;
     const zoneId = settings.find(s => s.key_name === 'AWS_ZONE_ID')?.key_value;
-    
+
     if (!accessKeyId || !secretAccessKey || !zoneId) {
       throw new Error('AWS Route53 credentials not configured. Please add AWS_ACCESS_KEY, AWS_SECRET_KEY, and AWS_ZONE_ID to your settings.');
     }
-    
+
     const provider = new Route53DNSProvider(accessKeyId, secretAccessKey, zoneId, domain);
     Logger.info(`AWS Route53 DNS provider initialized for ${domain}`);
     return provider;
   }
 
-  async createDNSRecord(recordName: string, recordValue: string, recordType: string = 'TXT'): Promise<Route53DNSRecord> {
+  private getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  // TXT values are stored quoted; CNAME targets are stored as-is
+  private encodeValue(type: DnsRecordType, value: string): string {
+    return type === 'TXT' ? `"${value}"` : value;
+  }
+
+  private decodeValue(type: DnsRecordType, value: string): string {
+    return type === 'TXT' ? value.replace(/^"|"$/g, '') : value;
+  }
+
+  /**
+   * Raw values of the record set at the given name. Route53 holds every value
+   * for a name in one record set, so records are merged into it.
+   */
+  private async getRecordValues(fqdn: string, type: DnsRecordType): Promise<string[]> {
+    const response = await this.client.send(new ListResourceRecordSetsCommand({
+      HostedZoneId: this.zoneId,
+      StartRecordName: fqdn,
+      StartRecordType: type as RRType,
+      MaxItems: 1
+    }));
+
+    const recordSet = response.ResourceRecordSets?.find(set =>
+      set.Type === type && set.Name?.toLowerCase() === fqdn.toLowerCase()
+    );
+    return (recordSet?.ResourceRecords || []).map(record => record.Value || '');
+  }
+
+  private async changeRecordValues(action: ChangeAction, fqdn: string, type: DnsRecordType, values: string[]): Promise<void> {
+    await this.client.send(new ChangeResourceRecordSetsCommand({
+      HostedZoneId: this.zoneId,
+      ChangeBatch: {
+        Changes: [{
+          Action: action,
+          ResourceRecordSet: {
+            Name: fqdn,
+            Type: type as RRType,
+            TTL: 60,
+            ResourceRecords: values.map(value => ({ Value: value }))
+          }
+        }]
+      }
+    }));
+  }
+
+  async createRecord(name: string, value: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord> {
     try {
       // Ensure record name ends with a dot for Route53
-      const fqdn = recordName.endsWith('.') ? recordName : `${recordName}.`;
-      
-      // For TXT records, values need to be quoted
-      const value = recordType === 'TXT' ? `"${recordValue}"` : recordValue;
-
-      const params = {
-        HostedZoneId: this.zoneId,
-        ChangeBatch: {
-          Changes: [{
-            Action: 'UPSERT' as ChangeAction,
-            ResourceRecordSet: {
-              Name: fqdn,
-              Type: recordType as RRType,
-              TTL: 60,
-              ResourceRecords: [{
-                Value: value
-              }]
-            }
-          }]
-        }
-      };
-
-      Logger.info(`Creating Route53 DNS record: ${fqdn} (${recordType})`);
-      
-      const command = new ChangeResourceRecordSetsCommand(params);
-      const response = await this.client.send(command);
-      
-      const recordId = `${recordType}_${recordName}`;
-      this.recordIds.set(recordId, response.ChangeInfo?.Id || '');
-      
-      Logger.info(`Route53 DNS record created with change ID: ${response.ChangeInfo?.Id}`);
-      
-      return {
-        id: recordId,
-        changeId: response.ChangeInfo?.Id || '',
-        recordName: fqdn,
-        recordValue: value,
-        recordType
-      };
+      const fqdn = name.endsWith('.') ? name : `${name}.`;
+      const encoded = this.encodeValue(type, value);
+
+      Logger.info(`Creating Route53 DNS record: ${fqdn} (${type})`);
+
+      // A CNAME can only hold one target, so it is replaced rather than merged
+      const values = type === 'TXT' ? await this.getRecordValues(fqdn, type) : [];
+      if (!values.includes(encoded)) {
+        await this.changeRecordValues('UPSERT', fqdn, type, [...values, encoded]);
+      }
+
+      Logger.info(`Route53 DNS record created: ${fqdn}`);
+      return { id: `${type}_${name}`, name, type, value };
     } catch (error) {
-      Logger.error(`Route53 API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw new Error(`Failed to create DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      Logger.error(`Route53 API error: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to create DNS record: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async verifyDNSPropagation(recordName: string, expectedValue: string): Promise<boolean> {
+  async deleteRecord(record: DnsRecord): Promise<void> {
     try {
-      // Use AWS DNS servers for verification
-      const dns = await import('dns').then(m => m.promises);
-      const resolver = new dns.Resolver();
-      resolver.setServers(['8.8.8.8', '1.1.1.1']); // Use public DNS for verification
-
-      const records = await resolver.resolveTxt(recordName);
-      const flatRecords = records.flat();
-      
-      const found = flatRecords.some(record => record === expectedValue);
-      
-      if (found) {
-        Logger.info(`DNS record verified: ${recordName}`);
-        return true;
+      const fqdn = record.name.endsWith('.') ? record.name : `${record.name}.`;
+      const values = await this.getRecordValues(fqdn, record.type);
+      const remaining = values.filter(value => value !== this.encodeValue(record.type, record.value));
+
+      if (remaining.length === values.length) {
+        return;
       }
 
-      Logger.debug(`DNS record not yet propagated: ${recordName}`);
-      return false;
+      // Deleting a record set requires its current values
+      if (remaining.length === 0) {
+        await this.changeRecordValues('DELETE', fqdn, record.type, values);
+      } else {
+        await this.changeRecordValues('UPSERT', fqdn, record.type, remaining);
+      }
+
+      Logger.info(`Route53 DNS record ${record.id} deleted successfully`);
     } catch (error) {
-      Logger.debug(`DNS verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return false;
+      Logger.error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
+      throw new Error(`Failed to delete DNS record: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async deleteDNSRecord(recordId: string): Promise<void> {
+  async listRecords(name: string, type: DnsRecordType = 'TXT'): Promise<DnsRecord[]> {
     try {
-      const [recordType, ...nameParts] = recordId.split('_');
-      const recordName = nameParts.join('_');
-      const fqdn = recordName.endsWith('.') ? recordName : `${recordName}.`;
-
-      const params = {
-        HostedZoneId: this.zoneId,
-        ChangeBatch: {
-          Changes: [{
-            Action: 'DELETE' as ChangeAction,
-            ResourceRecordSet: {
-              Name: fqdn,
-              Type: recordType as RRType,
-              TTL: 60,
-              ResourceRecords: [{
-                Value: recordType === 'TXT' ? `"${recordName}"` : recordName
-              }]
-            }
-          }]
-        }
-      };
-
-      const command = new ChangeResourceRecordSetsCommand(params);
-      await this.client.send(command);
-      
-      Logger.info(`Route53 DNS record ${recordId} deleted successfully`);
+      const fqdn = name.endsWith('.') ? name : `${name}.`;
+      const values = await this.getRecordValues(fqdn, type);
+      return values.map(value => ({ id: `${type}_${name}`, name, type, value: this.decodeValue(type, value) }));
     } catch (error) {
-      Logger.error(`Failed to delete DNS record: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to list DNS records: ${this.getErrorMessage(error)}`);
     }
   }
 
-  async waitForDNSPropagation(recordName: string, expectedValue: string, maxWaitTime: number = 300000): Promise<boolean> {
-    const startTime = Date.now();
-    const checkInterval = 10000; // Check every 10 seconds
-
-    Logger.info(`Waiting for DNS propagation on Route53...`);
-
-    while (Date.now() - startTime < maxWaitTime) {
-      const isVerified = await this.verifyDNSPropagation(recordName, expectedValue);
-      if (isVerified) {
-        Logger.info(`DNS record propagated successfully after ${Math.round((Date.now() - startTime) / 1000)} seconds`);
-        return true;
-      }
-
-      const elapsed = Math.round((Date.now() - startTime) / 1000);
-      const remaining = Math.round((maxWaitTime - (Date.now() - startTime)) / 1000);
-      Logger.info(`Waiting for DNS propagation... (${elapsed}s elapsed, ${remaining}s remaining)`);
+  async waitForPropagation(record: DnsRecord, maxWaitTime: number = 300000, cancellationCheck?: () => boolean): Promise<boolean> {
+    return waitForRecordPropagation(record, getPropagationNameservers('route53'), maxWaitTime, cancellationCheck);
+  }
 
-      await new Promise(resolve => setTimeout(resolve, checkInterval));
+  async validateCredentials(): Promise<void> {
+    try {
+      await this.client.send(new GetHostedZoneCommand({ Id: this.zoneId }));
+    } catch (error) {
+      throw new Error(`Route53 API error: ${this.getErrorMessage(error)}`);
     }
-
-    Logger.error(`Timeout waiting for DNS propagation after ${maxWaitTime / 1000} seconds`);
-    return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+
+/**
+ * Envelope encryption for secrets at rest.
+ *
+ * Every value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is wrapped with the master key. Rotating the master key only
+ * re-wraps data keys; the encrypted payloads themselves never change.
+ *
+ * Stored format:
+ *   enc:v1:<master key id>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+ * where the wrapped data key is base64(iv | auth tag | encrypted data key).
+ */
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const DEFAULT_KEY_FILE = './db/encryption.key';
+
+export class EncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Parse a master key given as 64 hex characters or base64 of 32 bytes
+ */
+export function parseMasterKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+
+  if (key.length !== KEY_LENGTH) {
+    throw new EncryptionError(`Master key must be ${KEY_LENGTH} bytes (64 hex characters or base64)`);
+  }
+  return key;
+}
+
+export function generateMasterKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64');
+}
+
+export function getKeyId(key: Buffer): string {
+  return crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+}
+
+export function getMasterKeyFilePath(): string {
+  return path.resolve(process.env.ENCRYPTION_KEY_FILE || DEFAULT_KEY_FILE);
+}
+
+function encryptWithKey(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function decryptWithKey(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export class EncryptionManager {
+  private masterKey: Buffer;
+  private masterKeyId: string;
+  // Every key we can unwrap with, by key id. Includes the current master key.
+  private keyring = new Map<string, Buffer>();
+
+  constructor(masterKey: Buffer, previousKeys: Buffer[] = []) {
+    this.masterKey = masterKey;
+    this.masterKeyId = getKeyId(masterKey);
+
+    for (const key of [masterKey, ...previousKeys]) {
+      this.keyring.set(getKeyId(key), key);
+    }
+  }
+
+  /**
+   * Load the master key from ENCRYPTION_KEY, or from the key file (ENCRYPTION_KEY_FILE,
+   * default ./db/encryption.key), generating the file on first start.
+   * Previous keys (ENCRYPTION_PREVIOUS_KEY, or the .previous/.pending files left by
+   * a key rotation) are kept for decryption only.
+   */
+  static fromEnvironment(): EncryptionManager {
+    const previousKeys: Buffer[] = [];
+
+    if (process.env.ENCRYPTION_PREVIOUS_KEY) {
+      previousKeys.push(parseMasterKey(process.env.ENCRYPTION_PREVIOUS_KEY));
+    }
+
+    if (process.env.ENCRYPTION_KEY) {
+      return new EncryptionManager(parseMasterKey(process.env.ENCRYPTION_KEY), previousKeys);
+    }
+
+    const keyFile = getMasterKeyFilePath();
+    for (const suffix of ['.previous', '.pending']) {
+      if (fs.existsSync(keyFile + suffix)) {
+        previousKeys.push(parseMasterKey(fs.readFileSync(keyFile + suffix, 'utf8')));
+      }
+    }
+
+    if (!fs.existsSync(keyFile)) {
+      fs.mkdirSync(path.dirname(keyFile), { recursive: true });
+      fs.writeFileSync(keyFile, generateMasterKey() + '\n', { mode: 0o600 });
+      Logger.warn(`Generated new encryption master key at ${keyFile}. Back this file up: secrets cannot be recovered without it.`);
+    }
+
+    return new EncryptionManager(parseMasterKey(fs.readFileSync(keyFile, 'utf8')), previousKeys);
+  }
+
+  get keyId(): string {
+    return this.masterKeyId;
+  }
+
+  /**
+   * Create a manager that encrypts with a new master key but can still unwrap
+   * everything this manager can. Used for key rotation.
+   */
+  withMasterKey(newMasterKey: Buffer): EncryptionManager {
+    return new EncryptionManager(newMasterKey, Array.from(this.keyring.values()));
+  }
+
+  isEncrypted(value: string | null | undefined): boolean {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    const payload = encryptWithKey(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return [
+      ENCRYPTED_PREFIX + this.masterKeyId,
+      this.wrapDataKey(dataKey),
+      payload.iv.toString('base64'),
+      payload.tag.toString('base64'),
+      payload.ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  /**
+   * Decrypt a stored value. Values without the encrypted prefix are returned
+   * unchanged so rows written before encryption was enabled keep working.
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const { keyId, wrappedKey, iv, tag, ciphertext } = this.parse(value);
+    const dataKey = this.unwrapDataKey(keyId, wrappedKey);
+
+    try {
+      return decryptWithKey(dataKey, iv, tag, ciphertext).toString('utf8');
+    } catch {
+      throw new EncryptionError('Failed to decrypt value: data is corrupted');
+    }
+  }
+
+  /**
+   * Re-wrap the data key of an encrypted value with this manager's master key.
+   * Plaintext values are encrypted instead.
+   */
+  rewrap(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return this.encrypt(value);
+    }
+
+    const { keyId, wrappedKey, iv, tag, ciphertext } = this.parse(value);
+    if (keyId === this.masterKeyId) {
+      return value;
+    }
+
+    const dataKey = this.unwrapDataKey(keyId, wrappedKey);
+    return [
+      ENCRYPTED_PREFIX + this.masterKeyId,
+      this.wrapDataKey(dataKey),
+      iv.toString('base64'),
+      tag.toString('base64'),
+      ciphertext.toString('base64')
+    ].join(':');
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return this.decrypt(await fs.promises.readFile(filePath, 'utf8'));
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    await fs.promises.writeFile(filePath, this.encrypt(content), { mode: 0o600 });
+  }
+
+  private wrapDataKey(dataKey: Buffer): string {
+    const { iv, tag, ciphertext } = encryptWithKey(this.masterKey, dataKey);
+    return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+  }
+
+  private unwrapDataKey(keyId: string, wrappedKey: Buffer): Buffer {
+    const key = this.keyring.get(keyId);
+    if (!key) {
+      throw new EncryptionError(`Value was encrypted with unknown master key ${keyId}`);
+    }
+
+    try {
+      return decryptWithKey(
+        key,
+        wrappedKey.subarray(0, IV_LENGTH),
+        wrappedKey.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+        wrappedKey.subarray(IV_LENGTH + TAG_LENGTH)
+      );
+    } catch {
+      throw new EncryptionError(`Failed to unwrap data key with master key ${keyId}`);
+    }
+  }
+
+  private parse(value: string): { keyId: string; wrappedKey: Buffer; iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+    const parts = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    if (parts.length !== 5) {
+      throw new EncryptionError('Malformed encrypted value');
+    }
+
+    const [keyId, wrappedKey, iv, tag, ciphertext] = parts;
+    return {
+      keyId,
+      wrappedKey: Buffer.from(wrappedKey, 'base64'),
+      iv: Buffer.from(iv, 'base64'),
+      tag: Buffer.from(tag, 'base64'),
+      ciphertext: Buffer.from(ciphertext, 'base64')
+    };
+  }
+}
+
+/**
+ * Account files holding key material: certificate private keys and ACME account files
+ */
+export function isSecretAccountFile(filename: string): boolean {
+  return filename === 'private_key.pem' || filename.endsWith('.key') || filename.endsWith('.json');
+}
+
+export const encryptionManager = EncryptionManager.fromEnvironment();
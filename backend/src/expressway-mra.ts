@@ -0,0 +1,62 @@
+import acme from 'acme-client';
+import { ConnectionRecord, MraSanFormat } from './types';
+
+/**
+ * Mobile and Remote Access (MRA) on an Expressway-E: clients outside the network
+ * register to Unified CM through it, and check that its server certificate names
+ * each Unified CM registration domain, either as the domain itself or as
+ * collab-edge.<domain>. Those names are added to the order of the connection and
+ * checked in the CSR before anything is ordered.
+ */
+
+export const MRA_SAN_FORMATS: MraSanFormat[] = ['dns', 'collab-edge'];
+export const DEFAULT_MRA_SAN_FORMAT: MraSanFormat = 'collab-edge';
+
+export function getMraDomains(connection: Pick<ConnectionRecord, 'mra_domains'>): string[] {
+  return (connection.mra_domains || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(domain => domain.length > 0);
+}
+
+// Names the Expressway certificate needs for MRA, in the connection's SAN format
+export function getMraNames(connection: Pick<ConnectionRecord, 'application_type' | 'mra_domains' | 'mra_san_format'>): string[] {
+  if (connection.application_type !== 'expressway') {
+    return [];
+  }
+  const format = connection.mra_san_format === 'dns' ? 'dns' : DEFAULT_MRA_SAN_FORMAT;
+  return getMraDomains(connection).map(domain => format === 'dns' ? domain : `collab-edge.${domain}`);
+}
+
+/**
+ * The connection with its MRA names in the alt names, so the CSR and the ACME order cover them
+ */
+export function getExpresswayConnection(connection: ConnectionRecord): ConnectionRecord {
+  const mraNames = getMraNames(connection);
+  if (mraNames.length === 0) {
+    return connection;
+  }
+
+  const names = connection.alt_names
+    ? connection.alt_names.split(',').map(name => name.trim()).filter(name => name.length > 0)
+    : [];
+  const known = new Set([`${connection.hostname}.${connection.domain}`, ...names].map(name => name.toLowerCase()));
+  for (const name of mraNames) {
+    if (!known.has(name)) {
+      names.push(name);
+      known.add(name);
+    }
+  }
+  return { ...connection, alt_names: names.join(',') };
+}
+
+// MRA names the CSR doesn't request, which MRA clients would reject the certificate for
+export function getMissingMraNames(csrPem: string, connection: ConnectionRecord): string[] {
+  const mraNames = getMraNames(connection);
+  if (mraNames.length === 0) {
+    return [];
+  }
+  const { commonName, altNames } = acme.crypto.readCsrDomains(csrPem);
+  const requested = new Set([commonName, ...altNames].filter(name => name).map(name => name.toLowerCase()));
+  return mraNames.filter(name => !requested.has(name));
+}
@@ -0,0 +1,172 @@
+import axios from 'axios';
+import path from 'path';
+import { Logger } from './logger';
+import { SSHClient } from './ssh-client';
+import { AcmeChallengeType, ConnectionRecord, HttpChallengeMethod } from './types';
+
+/**
+ * HTTP-01 challenges: the key authorization is served at
+ * `http://<domain>/.well-known/acme-challenge/<token>`, either by this server
+ * (a reverse proxy on the host forwards that path here) or from a file written
+ * into the host's web root over SFTP.
+ */
+export const ACME_CHALLENGE_TYPES: AcmeChallengeType[] = ['dns-01', 'http-01'];
+
+export const HTTP_CHALLENGE_METHODS: HttpChallengeMethod[] = ['responder', 'ssh'];
+
+export const HTTP_CHALLENGE_PATH = '/.well-known/acme-challenge';
+
+// Tokens are base64url, anything else is never a valid challenge
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const isValidChallengeToken = (token: string): boolean => TOKEN_PATTERN.test(token);
+
+export function getAcmeChallengeType(connection: ConnectionRecord): AcmeChallengeType {
+  return connection.acme_challenge_type === 'http-01' ? 'http-01' : 'dns-01';
+}
+
+export function getChallengeUrl(domain: string, token: string): string {
+  return `http://${domain}${HTTP_CHALLENGE_PATH}/${token}`;
+}
+
+/**
+ * In-memory key authorizations served at /.well-known/acme-challenge/:token
+ */
+export class HttpChallengeResponder {
+  private tokens: Map<string, string> = new Map();
+
+  set(token: string, keyAuthorization: string): void {
+    if (!isValidChallengeToken(token)) {
+      throw new Error(`Invalid HTTP-01 challenge token: ${token}`);
+    }
+    this.tokens.set(token, keyAuthorization);
+  }
+
+  get(token: string): string | undefined {
+    return this.tokens.get(token);
+  }
+
+  remove(token: string): void {
+    this.tokens.delete(token);
+  }
+}
+
+export const httpChallengeResponder = new HttpChallengeResponder();
+
+/**
+ * Where a connection's HTTP-01 tokens are published
+ */
+export interface HttpChallengePublisher {
+  description: string;
+  publish(token: string, keyAuthorization: string): Promise<void>;
+  remove(token: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+class ResponderPublisher implements HttpChallengePublisher {
+  description = 'built-in challenge responder';
+
+  async publish(token: string, keyAuthorization: string): Promise<void> {
+    httpChallengeResponder.set(token, keyAuthorization);
+  }
+
+  async remove(token: string): Promise<void> {
+    httpChallengeResponder.remove(token);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+class SftpPublisher implements HttpChallengePublisher {
+  description: string;
+  private ssh = new SSHClient();
+  private connected = false;
+  private challengeDir: string;
+
+  constructor(private host: string, private username: string, private password: string, webroot: string) {
+    this.challengeDir = path.posix.join(webroot, HTTP_CHALLENGE_PATH);
+    this.description = `${this.challengeDir} on ${host} (SFTP)`;
+  }
+
+  private async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+    await this.ssh.connect({ host: this.host, username: this.username, password: this.password });
+    this.connected = true;
+
+    await this.ssh.makeDirectory(path.posix.dirname(this.challengeDir));
+    await this.ssh.makeDirectory(this.challengeDir);
+  }
+
+  async publish(token: string, keyAuthorization: string): Promise<void> {
+    if (!isValidChallengeToken(token)) {
+      throw new Error(`Invalid HTTP-01 challenge token: ${token}`);
+    }
+    await this.connect();
+    await this.ssh.writeFile(path.posix.join(this.challengeDir, token), keyAuthorization);
+  }
+
+  async remove(token: string): Promise<void> {
+    await this.connect();
+    await this.ssh.deleteFile(path.posix.join(this.challengeDir, token));
+  }
+
+  async close(): Promise<void> {
+    await this.ssh.disconnect();
+    this.connected = false;
+  }
+}
+
+export function createHttpChallengePublisher(connection: ConnectionRecord): HttpChallengePublisher {
+  if (connection.http_challenge_method !== 'ssh') {
+    return new ResponderPublisher();
+  }
+
+  if (!connection.username || !connection.password) {
+    throw new Error('Username and password are required to publish HTTP-01 challenges over SFTP');
+  }
+  if (!connection.http_challenge_webroot || !connection.http_challenge_webroot.startsWith('/')) {
+    throw new Error('An absolute web root path is required to publish HTTP-01 challenges over SFTP');
+  }
+
+  return new SftpPublisher(`${connection.hostname}.${connection.domain}`, connection.username, connection.password, connection.http_challenge_webroot);
+}
+
+/**
+ * Fetch the challenge URL the way the CA will, so a broken proxy or web root
+ * is caught before the authorization is spent
+ */
+export async function verifyHttpChallenge(
+  domain: string,
+  token: string,
+  keyAuthorization: string,
+  attempts: number = 3,
+  retryDelay: number = 2000
+): Promise<void> {
+  const url = getChallengeUrl(domain, token);
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      const response = await axios.get(url, { timeout: 10000, responseType: 'text', transformResponse: data => data, validateStatus: () => true });
+      const body = String(response.data ?? '').trim();
+
+      if (response.status === 200 && body === keyAuthorization) {
+        return;
+      }
+      lastError = response.status === 200 ? 'unexpected response body' : `HTTP ${response.status}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    Logger.debug(`HTTP-01 self-check ${attempt}/${attempts} failed for ${url}: ${lastError}`);
+    if (attempt < attempts) {
+      await new Promise(resolve => setTimeout(resolve, retryDelay));
+    }
+  }
+
+  throw new Error(`HTTP-01 challenge not reachable at ${url} (${lastError})`);
+}
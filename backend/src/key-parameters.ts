@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import acme from 'acme-client';
+import { contentOf, encodingOf, readChildren, readElement } from './utils/der';
+import { DEFAULT_VOS_SERVICE, VOS_CERTIFICATE_SERVICES, getCsrDistribution } from './platform-providers/vos-services';
+import { parseWlcTrustpoints } from './platform-providers/wlc-provider';
+import { ConnectionRecord } from './types';
+
+/**
+ * Key and signature parameters of the certificates a connection requests.
+ * VOS connections keep one identity certificate per certificate service,
+ * e.g. an RSA `tomcat` and an EC `tomcat-ECDSA` certificate side by side,
+ * and WLC connections one per trustpoint (web admin and web auth).
+ */
+
+export type KeyAlgorithm = 'rsa2048' | 'rsa3072' | 'rsa4096' | 'ec256' | 'ec384';
+export type HashAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+export interface KeyAlgorithmDefinition {
+  type: 'rsa' | 'ec';
+  // Modulus length, or the curve's field size
+  size: number;
+  curve?: 'P-256' | 'P-384';
+  label: string;
+}
+
+export const KEY_ALGORITHMS: Record<KeyAlgorithm, KeyAlgorithmDefinition> = {
+  rsa2048: { type: 'rsa', size: 2048, label: 'RSA 2048' },
+  rsa3072: { type: 'rsa', size: 3072, label: 'RSA 3072' },
+  rsa4096: { type: 'rsa', size: 4096, label: 'RSA 4096' },
+  ec256: { type: 'ec', size: 256, curve: 'P-256', label: 'EC P-256' },
+  ec384: { type: 'ec', size: 384, curve: 'P-384', label: 'EC P-384' }
+};
+
+export const HASH_ALGORITHMS: HashAlgorithm[] = ['sha256', 'sha384', 'sha512'];
+
+export const DEFAULT_KEY_ALGORITHM: KeyAlgorithm = 'rsa2048';
+export const DEFAULT_ECDSA_KEY_ALGORITHM: KeyAlgorithm = 'ec256';
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = 'sha256';
+
+/**
+ * One certificate a connection maintains. The primary identity's files are the
+ * connection's current files; the others are kept under `services/<service>/`.
+ */
+export interface CertificateIdentity {
+  // VOS certificate service or WLC trustpoint, null for the other connections
+  service: string | null;
+  primary: boolean;
+  keyAlgorithm: KeyAlgorithm;
+  hashAlgorithm: HashAlgorithm;
+}
+
+export function isKeyAlgorithm(value: unknown): value is KeyAlgorithm {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(KEY_ALGORITHMS, value);
+}
+
+export function isHashAlgorithm(value: unknown): value is HashAlgorithm {
+  return typeof value === 'string' && (HASH_ALGORITHMS as string[]).includes(value);
+}
+
+// Managed VOS services in catalogue order, tomcat when none are set
+export function getVosServices(connection: Pick<ConnectionRecord, 'vos_services'>): string[] {
+  const selected = (connection.vos_services || '').split(',').map(service => service.trim()).filter(service => service.length > 0);
+  const services = Object.keys(VOS_CERTIFICATE_SERVICES).filter(service => selected.includes(service));
+  return services.length > 0 ? services : [DEFAULT_VOS_SERVICE];
+}
+
+/**
+ * Why the key settings of a connection don't fit its services, or null
+ */
+export function getKeyParameterError(connection: Partial<ConnectionRecord>): string | null {
+  const keyAlgorithm = connection.key_algorithm || DEFAULT_KEY_ALGORITHM;
+  if (connection.application_type === 'expressway' && isKeyAlgorithm(keyAlgorithm) && KEY_ALGORITHMS[keyAlgorithm].type !== 'rsa') {
+    return 'Expressway server certificates need an RSA key';
+  }
+  if (connection.application_type === 'ios' && isKeyAlgorithm(keyAlgorithm) && KEY_ALGORITHMS[keyAlgorithm].type !== 'rsa') {
+    return 'IOS trustpoints import PEM certificates with RSA keys only';
+  }
+  if (connection.application_type !== 'vos' || !isKeyAlgorithm(keyAlgorithm)) {
+    return null;
+  }
+
+  const services = getVosServices(connection);
+  const keyType = KEY_ALGORITHMS[keyAlgorithm].type;
+  // The key algorithm is the key of the RSA services when there are any, ECDSA ones take the ECDSA key algorithm
+  const rsaServices = services.filter(service => VOS_CERTIFICATE_SERVICES[service].keyType === 'rsa');
+  const needed = rsaServices.length > 0 ? 'rsa' : 'ec';
+  if (keyType === needed) {
+    return null;
+  }
+  if (services.length === 1) {
+    return `The ${services[0]} service needs ${needed === 'ec' ? 'an EC' : 'an RSA'} key`;
+  }
+  if (needed === 'rsa' && rsaServices.length < services.length) {
+    return 'With both RSA and ECDSA services, the key algorithm is the RSA key; set the ECDSA key separately';
+  }
+  return `The ${services.join(', ')} services need ${needed === 'ec' ? 'an EC' : 'an RSA'} key`;
+}
+
+/**
+ * The certificates a connection maintains, primary first
+ */
+export function getCertificateIdentities(connection: ConnectionRecord): CertificateIdentity[] {
+  const keyAlgorithm = isKeyAlgorithm(connection.key_algorithm) ? connection.key_algorithm : DEFAULT_KEY_ALGORITHM;
+  const hashAlgorithm = isHashAlgorithm(connection.hash_algorithm) ? connection.hash_algorithm : DEFAULT_HASH_ALGORITHM;
+  if (connection.application_type === 'wlc') {
+    return parseWlcTrustpoints(connection.wlc_trustpoints).map((service, index) => ({ service, primary: index === 0, keyAlgorithm, hashAlgorithm }));
+  }
+  if (connection.application_type !== 'vos') {
+    return [{ service: null, primary: true, keyAlgorithm, hashAlgorithm }];
+  }
+
+  const ecdsaKeyAlgorithm = isKeyAlgorithm(connection.ecdsa_key_algorithm) && KEY_ALGORITHMS[connection.ecdsa_key_algorithm].type === 'ec'
+    ? connection.ecdsa_key_algorithm
+    : DEFAULT_ECDSA_KEY_ALGORITHM;
+  return getVosServices(connection).map((service, index) => {
+    const keyType = VOS_CERTIFICATE_SERVICES[service].keyType;
+    return {
+      service,
+      primary: index === 0,
+      // The connection's key goes to the service of its type, the ECDSA key to EC services next to an RSA one
+      keyAlgorithm: KEY_ALGORITHMS[keyAlgorithm].type === keyType ? keyAlgorithm : keyType === 'ec' ? ecdsaKeyAlgorithm : DEFAULT_KEY_ALGORITHM,
+      hashAlgorithm
+    };
+  });
+}
+
+// Directory under the environment directory the identity's files are kept in, undefined for the primary one
+export function getIdentityStorage(identity: Pick<CertificateIdentity, 'service' | 'primary'>): string | undefined {
+  return identity.primary || !identity.service ? undefined : identity.service;
+}
+
+export function describeIdentity(identity: CertificateIdentity): string {
+  const key = `${KEY_ALGORITHMS[identity.keyAlgorithm].label}, ${identity.hashAlgorithm.toUpperCase()}`;
+  return identity.service ? `${identity.service} (${key})` : key;
+}
+
+/**
+ * Request body of the certmgr CSR API; a cluster publisher asks for a multi-server CSR where the service allows it
+ */
+export function getVosCsrPayload(identity: CertificateIdentity, commonName: string, altNames: string[], cluster: boolean = false): Record<string, unknown> {
+  const key = KEY_ALGORITHMS[identity.keyAlgorithm];
+  const service = identity.service || DEFAULT_VOS_SERVICE;
+  return {
+    service,
+    distribution: getCsrDistribution(service, cluster),
+    commonName,
+    keyType: key.type,
+    keyLength: key.size,
+    hashAlgorithm: identity.hashAlgorithm,
+    ...(altNames.length > 0 && { altNames })
+  };
+}
+
+const SIGNATURE_HASHES: Record<string, HashAlgorithm> = {
+  '2a864886f70d01010b': 'sha256', // sha256WithRSAEncryption
+  '2a864886f70d01010c': 'sha384',
+  '2a864886f70d01010d': 'sha512',
+  '2a8648ce3d040302': 'sha256', // ecdsa-with-SHA256
+  '2a8648ce3d040303': 'sha384',
+  '2a8648ce3d040304': 'sha512'
+};
+
+const CURVE_KEY_ALGORITHMS: Record<string, KeyAlgorithm> = {
+  prime256v1: 'ec256',
+  secp384r1: 'ec384'
+};
+
+/**
+ * Key and signature hash of a PEM CSR, null for what isn't one of ours
+ */
+export function describeCsr(csrPem: string): { keyAlgorithm: KeyAlgorithm | null; hashAlgorithm: HashAlgorithm | null } {
+  const base64 = csrPem.replace(/-----(BEGIN|END)[^-]*-----/g, '').replace(/\s+/g, '');
+  const der = Buffer.from(base64, 'base64');
+  const [requestInfo, signatureAlgorithm] = readChildren(der, readElement(der, 0));
+  const subjectPublicKeyInfo = readChildren(der, requestInfo)[2];
+  const signatureOid = readChildren(der, signatureAlgorithm)[0];
+
+  const publicKey = crypto.createPublicKey({ key: encodingOf(der, subjectPublicKeyInfo), format: 'der', type: 'spki' });
+  const details = publicKey.asymmetricKeyDetails;
+  let keyAlgorithm: KeyAlgorithm | null = null;
+  if (publicKey.asymmetricKeyType === 'rsa') {
+    const rsa = `rsa${details?.modulusLength}`;
+    keyAlgorithm = isKeyAlgorithm(rsa) ? rsa : null;
+  } else if (publicKey.asymmetricKeyType === 'ec') {
+    keyAlgorithm = CURVE_KEY_ALGORITHMS[details?.namedCurve || ''] || null;
+  }
+
+  return {
+    keyAlgorithm,
+    hashAlgorithm: SIGNATURE_HASHES[contentOf(der, signatureOid).toString('hex')] || null
+  };
+}
+
+export function csrMatchesIdentity(csrPem: string, identity: CertificateIdentity): boolean {
+  try {
+    const csr = describeCsr(csrPem);
+    return csr.keyAlgorithm === identity.keyAlgorithm && csr.hashAlgorithm === identity.hashAlgorithm;
+  } catch {
+    return false;
+  }
+}
+
+// Whether a CSR names exactly the given domains, e.g. not after a cluster node was added
+export function csrMatchesNames(csrPem: string, names: string[]): boolean {
+  try {
+    const { commonName, altNames } = acme.crypto.readCsrDomains(csrPem);
+    const csrNames = new Set([commonName, ...altNames].filter(name => name).map(name => name.toLowerCase()));
+    const expected = new Set(names.map(name => name.toLowerCase()));
+    return csrNames.size === expected.size && [...expected].every(name => csrNames.has(name));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A new private key and CSR for a general connection. The CSR is signed with
+ * the hash that goes with the key (SHA-384 for P-384, SHA-256 otherwise).
+ */
+export async function generateKeyAndCsr(identity: CertificateIdentity, commonName: string, altNames: string[]): Promise<{ privateKey: string; csr: string }> {
+  const key = KEY_ALGORITHMS[identity.keyAlgorithm];
+  const privateKey = key.type === 'ec'
+    ? await acme.crypto.createPrivateEcdsaKey(key.curve)
+    : await acme.crypto.createPrivateRsaKey(key.size);
+  const [, csr] = await acme.crypto.createCsr({ commonName, altNames }, privateKey);
+  return { privateKey: privateKey.toString(), csr: csr.toString() };
+}
@@ -1,7 +1,9 @@
 import { DatabaseManager } from './database';
 import { accountManager } from './account-manager';
-import { acmeClient } from './acme-client';
+import { createAcmeClient } from './acme-client';
+import { getAcmeEnvironment, getEnvironmentLabel } from './acme-environment';
 import { Logger } from './logger';
+import { getAcmeCaDefinition, getAcmeCaId } from './ssl-providers/registry';
 import { hasValidDomain, getDomainFromConnection } from './utils/domain-utils';
 
 export class LetsEncryptAccountChecker {
@@ -13,28 +15,18 @@ export class LetsEncryptAccountChecker {
 
   async checkAndCreateAccounts(): Promise<void> {
     try {
-      Logger.info('Starting Let\'s Encrypt account verification...');
-      
-      // Get Let's Encrypt settings
-      const settings = await this.database.getSettingsByProvider('letsencrypt');
-      const email = settings.find(s => s.key_name === 'LETSENCRYPT_EMAIL')?.key_value;
-      
-      if (!email) {
-        Logger.warn('LETSENCRYPT_EMAIL not configured in settings. Skipping account verification.');
-        return;
-      }
+      Logger.info('Starting ACME account verification...');
 
-      // Get all connections using Let's Encrypt
+      // Get all connections with a CA from the catalogue
       const connections = await this.database.getAllConnections();
       
       Logger.info(`Total connections in database: ${connections.length}`);
       
-      // Log details for Let's Encrypt connections only
-      const allLetsEncryptConnections = connections.filter(conn => conn.ssl_provider === 'letsencrypt');
-      allLetsEncryptConnections.forEach(conn => {
+      const allAcmeConnections = connections.filter(conn => getAcmeCaDefinition(getAcmeCaId(conn)));
+      allAcmeConnections.forEach(conn => {
         const domain = getDomainFromConnection(conn);
         const validDomain = hasValidDomain(conn);
-        Logger.info(`LE Connection: ${conn.name} - Type: ${conn.application_type || 'vos'}, Valid domain: ${validDomain}, Domain: ${domain}`);
+        Logger.info(`ACME Connection: ${conn.name} - CA: ${getAcmeCaId(conn)}, Type: ${conn.application_type || 'vos'}, Valid domain: ${validDomain}, Domain: ${domain}`);
         
         if (!validDomain) {
           if (conn.application_type === 'ise') {
@@ -45,47 +37,50 @@ export class LetsEncryptAccountChecker {
         }
       });
       
-      const letsEncryptConnections = connections.filter(conn => 
-        conn.ssl_provider === 'letsencrypt' &&
-        hasValidDomain(conn)
-      );
+      const acmeConnections = allAcmeConnections.filter(conn => hasValidDomain(conn));
 
-      Logger.info(`Connections matching Let's Encrypt criteria: ${letsEncryptConnections.length}`);
-      letsEncryptConnections.forEach(conn => {
+      Logger.info(`Connections matching ACME criteria: ${acmeConnections.length}`);
+      acmeConnections.forEach(conn => {
         const domain = getDomainFromConnection(conn);
         Logger.info(`Will check/create account for: ${conn.name} -> ${domain}`);
       });
 
-      if (letsEncryptConnections.length === 0) {
-        Logger.info('No connections configured for Let\'s Encrypt.');
+      if (acmeConnections.length === 0) {
+        Logger.info('No connections configured for an ACME CA.');
         return;
       }
 
-      const isStaging = process.env.LETSENCRYPT_STAGING !== 'false';
-      Logger.info(`Checking accounts for ${letsEncryptConnections.length} Let's Encrypt connections (${isStaging ? 'STAGING' : 'PRODUCTION'} mode)`);
+      Logger.info(`Checking accounts for ${acmeConnections.length} ACME connections`);
 
       // Check each connection
-      for (const connection of letsEncryptConnections) {
+      for (const connection of acmeConnections) {
         const domain = getDomainFromConnection(connection);
         if (!domain || !connection.id) {
           Logger.warn(`Skipping connection ${connection.name} - no valid domain or connection ID found`);
           continue;
         }
         
+        // Each connection has its account with its own CA and ACME environment
+        const environment = getAcmeEnvironment(connection);
+        
         try {
+          // Missing CA settings (email, directory, EAB) are reported per connection
+          const acmeClient = await createAcmeClient(this.database, connection);
+          const caName = acmeClient.getDirectory().caName;
+          
           // Check if account exists
           const existingAccount = await acmeClient.loadAccount(domain, connection.id);
           
           if (!existingAccount) {
-            Logger.info(`Creating Let's Encrypt account for ${domain}...`);
+            Logger.info(`Creating ${caName} account for ${domain} (${getEnvironmentLabel(environment)})...`);
             
             // Create new account
-            await acmeClient.createAccount(email, domain, connection.id);
+            await acmeClient.createAccount(domain, connection.id);
             
-            Logger.info(`Successfully created Let's Encrypt account for ${domain}`);
-            await accountManager.saveRenewalLog(connection.id, domain, `Account created during startup verification (${isStaging ? 'STAGING' : 'PRODUCTION'})`);
+            Logger.info(`Successfully created ${caName} account for ${domain}`);
+            await accountManager.saveRenewalLog(connection.id, domain, `${caName} account created during startup verification (${getEnvironmentLabel(environment)})`);
           } else {
-            Logger.info(`Let's Encrypt account already exists for ${domain}`);
+            Logger.info(`${caName} account already exists for ${domain}`);
           }
         } catch (error) {
           Logger.error(`Failed to verify/create account for ${domain}:`, error);
@@ -93,9 +88,9 @@ export class LetsEncryptAccountChecker {
         }
       }
 
-      Logger.info('Let\'s Encrypt account verification completed.');
+      Logger.info('ACME account verification completed.');
     } catch (error) {
-      Logger.error('Error during Let\'s Encrypt account verification:', error);
+      Logger.error('Error during ACME account verification:', error);
     }
   }
 }
\ No newline at end of file
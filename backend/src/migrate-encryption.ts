@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseManager } from './database';
+import { encryptionManager, isSecretAccountFile } from './encryption';
+import { Logger } from './logger';
+
+/**
+ * Apply a transform to the content of every key file under the accounts directory,
+ * writing back only the files that change
+ * @returns The number of files rewritten
+ */
+export async function transformAccountFiles(accountsDir: string, transform: (content: string) => string): Promise<number> {
+  if (!fs.existsSync(accountsDir)) {
+    return 0;
+  }
+
+  let changed = 0;
+  const entries = await fs.promises.readdir(accountsDir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const entryPath = path.join(accountsDir, entry.name);
+
+    if (entry.isDirectory()) {
+      changed += await transformAccountFiles(entryPath, transform);
+    } else if (entry.isFile() && isSecretAccountFile(entry.name)) {
+      const content = await fs.promises.readFile(entryPath, 'utf8');
+      const transformed = transform(content);
+      if (transformed !== content) {
+        await fs.promises.writeFile(entryPath, transformed, { mode: 0o600 });
+        changed++;
+      }
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Encrypt connection secrets, provider settings and account key files that are still
+ * stored in plain text, and re-wrap anything left under a previous master key.
+ * Safe to run on every start: values already under the current key are untouched.
+ */
+export async function encryptSecretsAtRest(database: DatabaseManager, accountsDir: string): Promise<void> {
+  try {
+    const rewrap = (value: string) => encryptionManager.rewrap(value);
+
+    const secretCount = await database.transformStoredSecrets(rewrap);
+    const fileCount = await transformAccountFiles(path.resolve(accountsDir), rewrap);
+
+    if (secretCount > 0 || fileCount > 0) {
+      Logger.info(`Encrypted ${secretCount} stored secrets and ${fileCount} key files with master key ${encryptionManager.keyId}`);
+    } else {
+      Logger.debug('All secrets already encrypted with the current master key');
+    }
+  } catch (error) {
+    Logger.error('Failed to encrypt secrets at rest:', error);
+  }
+}
@@ -0,0 +1,249 @@
+import acme from 'acme-client';
+import {
+  PlatformProvider,
+  PlatformConfig,
+  CSRGenerationParams,
+  CSRResponse,
+  CertificateData,
+  CertificateUploadResponse
+} from './platform-provider';
+import { Logger } from '../logger';
+import * as crypto from 'crypto';
+
+/**
+ * Cisco Expressway-C/E (VCS). The server certificate and its private key are
+ * uploaded together, so the CSR is generated here rather than on the
+ * Expressway, which keeps the key of its own CSRs to itself. The issuing CA
+ * chain goes into the trusted CA list, and the server certificate only takes
+ * effect after a restart.
+ */
+export class ExpresswayProvider extends PlatformProvider {
+  constructor() {
+    const config: PlatformConfig = {
+      platformType: 'expressway',
+      apiEndpoints: {
+        // CSRs are generated locally, see generateCSR
+        generateCSR: '',
+        uploadIdentityCert: '/api/provisioning/common/certificates/server',
+        getTrustCerts: '/api/provisioning/common/certificates/trustedca',
+        uploadTrustCerts: '/api/provisioning/common/certificates/trustedca'
+      },
+      sshConfig: {
+        promptPattern: 'OK',
+        serviceRestartCommand: 'xCommand Restart',
+        connectionAlgorithms: {
+          kex: ['diffie-hellman-group14-sha256', 'ecdh-sha2-nistp256'],
+          cipher: ['aes256-ctr', 'aes192-ctr', 'aes128-ctr'],
+          hmac: ['hmac-sha2-256', 'hmac-sha2-512'],
+          serverHostKey: ['ssh-rsa', 'rsa-sha2-256', 'ecdsa-sha2-nistp256']
+        }
+      },
+      certificateConfig: {
+        serviceName: 'expressway',
+        supportedKeyTypes: ['RSA'],
+        maxKeySize: 4096
+      }
+    };
+
+    super(config);
+  }
+
+  async generateCSR(
+    hostname: string,
+    username: string,
+    password: string,
+    params: CSRGenerationParams
+  ): Promise<CSRResponse> {
+    try {
+      Logger.info(`Generating CSR and private key for Expressway: ${hostname}`);
+
+      if (params.keyType && params.keyType !== 'RSA') {
+        throw new Error(`Expressway server certificates need an RSA key, not ${params.keyType}`);
+      }
+
+      const privateKey = await acme.crypto.createPrivateRsaKey(params.keySize || 2048);
+      const [, csr] = await acme.crypto.createCsr({
+        commonName: params.commonName,
+        altNames: params.subjectAltNames || [],
+        organization: params.organizationName,
+        organizationUnit: params.organizationalUnit,
+        locality: params.locality,
+        state: params.state,
+        country: params.country
+      }, privateKey);
+
+      return {
+        csr: csr.toString(),
+        privateKey: privateKey.toString(),
+        success: true,
+        message: 'CSR generated successfully'
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to generate CSR for Expressway ${hostname}:`, error);
+      return {
+        csr: '',
+        success: false,
+        message: error.message || 'Failed to generate CSR'
+      };
+    }
+  }
+
+  async uploadIdentityCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData
+  ): Promise<CertificateUploadResponse> {
+    try {
+      Logger.info(`Uploading server certificate to Expressway: ${hostname}`);
+
+      if (!certificateData.privateKey) {
+        throw new Error('The private key of the server certificate is required');
+      }
+
+      // The server certificate file carries the intermediates, so clients get the whole chain
+      const uploadData = {
+        Certificate: [certificateData.certificate, ...(certificateData.caCertificates || [])].join('\n'),
+        PrivateKey: certificateData.privateKey
+      };
+
+      await this.makeApiRequest(
+        hostname,
+        username,
+        password,
+        this.config.apiEndpoints.uploadIdentityCert,
+        'POST',
+        uploadData
+      );
+
+      return {
+        success: true,
+        message: 'Server certificate uploaded successfully'
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to upload server certificate to Expressway ${hostname}:`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to upload server certificate'
+      };
+    }
+  }
+
+  async uploadTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string,
+    caCertificates: string[]
+  ): Promise<CertificateUploadResponse> {
+    try {
+      Logger.info(`Adding CA certificates to the trusted CA list of Expressway: ${hostname}`);
+
+      const existingFingerprints = new Set(
+        (await this.getTrustCertificates(hostname, username, password)).map(cert => this.calculateCertificateFingerprint(cert))
+      );
+
+      let uploadedCount = 0;
+      let skippedCount = 0;
+      for (const cert of caCertificates) {
+        const certFingerprint = this.calculateCertificateFingerprint(cert);
+        if (existingFingerprints.has(certFingerprint)) {
+          Logger.info(`CA certificate already trusted by ${hostname}, skipping upload. Fingerprint: ${certFingerprint}`);
+          skippedCount++;
+          continue;
+        }
+
+        await this.makeApiRequest(
+          hostname,
+          username,
+          password,
+          this.config.apiEndpoints.uploadTrustCerts,
+          'POST',
+          { Certificate: cert }
+        );
+        existingFingerprints.add(certFingerprint);
+        uploadedCount++;
+        Logger.info(`Added CA certificate to the trusted CA list of ${hostname}. Fingerprint: ${certFingerprint}`);
+      }
+
+      return {
+        success: true,
+        message: uploadedCount > 0
+          ? `Added ${uploadedCount} CA certificate(s) to the trusted CA list${skippedCount > 0 ? `, ${skippedCount} already trusted` : ''}`
+          : `All ${skippedCount} CA certificate(s) are already trusted`
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to upload CA certificates to Expressway ${hostname}:`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to upload CA certificates'
+      };
+    }
+  }
+
+  /**
+   * Calculate SHA256 fingerprint of a certificate
+   */
+  private calculateCertificateFingerprint(certPem: string): string {
+    const base64 = certPem
+      .replace(/-----BEGIN CERTIFICATE-----/g, '')
+      .replace(/-----END CERTIFICATE-----/g, '')
+      .replace(/\s/g, '');
+
+    return crypto.createHash('sha256').update(Buffer.from(base64, 'base64')).digest('hex');
+  }
+
+  async getTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<string[]> {
+    Logger.info(`Getting the trusted CA list of Expressway: ${hostname}`);
+
+    const response = await this.makeApiRequest(
+      hostname,
+      username,
+      password,
+      this.config.apiEndpoints.getTrustCerts,
+      'GET'
+    );
+
+    return Array.isArray(response)
+      ? response.map((entry: any) => entry?.Certificate).filter((cert: unknown): cert is string => typeof cert === 'string')
+      : [];
+  }
+
+  async restartServices(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    try {
+      Logger.info(`Restarting Expressway: ${hostname}`);
+
+      await this.connectSSH(hostname, username, password);
+      const result = await this.executeSSHCommand(this.config.sshConfig.serviceRestartCommand);
+      await this.disconnectSSH();
+
+      Logger.info(`Expressway restart requested on ${hostname}: ${result}`);
+      return true;
+    } catch (error: any) {
+      Logger.error(`Failed to restart Expressway ${hostname}:`, error);
+      await this.disconnectSSH();
+      return false;
+    }
+  }
+
+  async validateConnection(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    try {
+      await this.makeApiRequest(hostname, username, password, '/api/provisioning/sysinfo', 'GET');
+      return true;
+    } catch (error: any) {
+      Logger.error(`Failed to validate Expressway connection ${hostname}:`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,446 @@
+import https from 'https';
+import acme from 'acme-client';
+import {
+  PlatformProvider,
+  PlatformConfig,
+  CSRGenerationParams,
+  CSRResponse,
+  CertificateData,
+  CertificateUploadResponse
+} from './platform-provider';
+import { Logger } from '../logger';
+
+/**
+ * Cisco Secure Firewall Management Center (FMC). The certificate and its key
+ * are imported as an internal certificate object, which SSL decryption rules
+ * and remote access VPN policies reference. An existing object of the same
+ * name is updated in place, so whatever references it gets the new
+ * certificate once the managed devices are deployed.
+ */
+
+export interface FmcDeviceDeployment {
+  device: string;
+  status: 'pending' | 'deploying' | 'deployed' | 'failed';
+}
+
+export interface FmcImportResponse extends CertificateUploadResponse {
+  // The object was new rather than updated
+  created?: boolean;
+}
+
+export interface FmcDeployOptions {
+  // Names of the devices to deploy, all devices with pending changes when empty
+  devices?: string[];
+  pollInterval?: number;
+  timeout?: number;
+  onStatus?: (deployments: FmcDeviceDeployment[]) => void | Promise<void>;
+}
+
+export interface FmcDeployResponse {
+  success: boolean;
+  message: string;
+  deployments: FmcDeviceDeployment[];
+}
+
+interface FmcSession {
+  hostname: string;
+  token: string;
+  domainUuid: string;
+}
+
+interface FmcReference {
+  id: string;
+  name: string;
+  type: string;
+}
+
+const TOKEN_ENDPOINT = '/api/fmc_platform/v1/auth/generatetoken';
+const PAGE_LIMIT = 1000;
+// Task states of a deployment that is still running
+const RUNNING_TASK_PATTERN = /^(pending|queued|running|deploying|in_?progress)/i;
+
+export class FMCProvider extends PlatformProvider {
+  constructor() {
+    const config: PlatformConfig = {
+      platformType: 'fmc',
+      apiEndpoints: {
+        // CSRs are generated locally, see generateCSR
+        generateCSR: '',
+        uploadIdentityCert: '/object/internalcertificates',
+        getTrustCerts: '/object/externalcacertificates',
+        uploadTrustCerts: '/object/externalcacertificates'
+      },
+      sshConfig: {
+        promptPattern: '>',
+        serviceRestartCommand: ''
+      },
+      certificateConfig: {
+        serviceName: 'fmc',
+        supportedKeyTypes: ['RSA', 'ECDSA'],
+        maxKeySize: 4096
+      }
+    };
+
+    super(config);
+  }
+
+  async generateCSR(
+    hostname: string,
+    username: string,
+    password: string,
+    params: CSRGenerationParams
+  ): Promise<CSRResponse> {
+    try {
+      Logger.info(`Generating CSR and private key for FMC: ${hostname}`);
+
+      const privateKey = params.keyType === 'ECDSA'
+        ? await acme.crypto.createPrivateEcdsaKey(params.keySize === 384 ? 'P-384' : 'P-256')
+        : await acme.crypto.createPrivateRsaKey(params.keySize || 2048);
+      const [, csr] = await acme.crypto.createCsr({
+        commonName: params.commonName,
+        altNames: params.subjectAltNames || [],
+        organization: params.organizationName,
+        organizationUnit: params.organizationalUnit,
+        locality: params.locality,
+        state: params.state,
+        country: params.country
+      }, privateKey);
+
+      return {
+        csr: csr.toString(),
+        privateKey: privateKey.toString(),
+        success: true,
+        message: 'CSR generated successfully'
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to generate CSR for FMC ${hostname}:`, error);
+      return {
+        csr: '',
+        success: false,
+        message: error.message || 'Failed to generate CSR'
+      };
+    }
+  }
+
+  /**
+   * Create the internal certificate object, or update the one with the same name in place
+   */
+  async importInternalCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    name: string,
+    certificateData: CertificateData
+  ): Promise<FmcImportResponse> {
+    try {
+      Logger.info(`Importing internal certificate ${name} into FMC: ${hostname}`);
+
+      if (!certificateData.privateKey) {
+        throw new Error('The private key of the certificate is required');
+      }
+
+      const session = await this.authenticate(hostname, username, password);
+      const existing = (await this.listObjects(session, this.config.apiEndpoints.uploadIdentityCert)).find(object => object.name === name);
+      const body = {
+        name,
+        type: 'InternalCertificate',
+        certData: certificateData.certificate,
+        privateKey: certificateData.privateKey
+      };
+
+      if (existing) {
+        await this.fmcRequest(session, 'PUT', `${this.config.apiEndpoints.uploadIdentityCert}/${existing.id}`, { ...body, id: existing.id });
+        return {
+          success: true,
+          message: `Internal certificate ${name} updated`,
+          certificateId: existing.id,
+          created: false
+        };
+      }
+
+      const created = await this.fmcRequest(session, 'POST', this.config.apiEndpoints.uploadIdentityCert, body);
+      return {
+        success: true,
+        message: `Internal certificate ${name} created`,
+        certificateId: created?.id,
+        created: true
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to import internal certificate into FMC ${hostname}:`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to import internal certificate'
+      };
+    }
+  }
+
+  /**
+   * Make an internal certificate the SSL and IKEv2 identity certificate of a remote access VPN policy.
+   * Returns false when the policy already uses it.
+   */
+  async updateRaVpnPolicy(
+    hostname: string,
+    username: string,
+    password: string,
+    policyName: string,
+    certificate: { id: string; name: string }
+  ): Promise<boolean> {
+    Logger.info(`Updating the identity certificate of RA VPN policy ${policyName} on FMC: ${hostname}`);
+
+    const session = await this.authenticate(hostname, username, password);
+    const policy = (await this.listObjects(session, '/policy/ravpns')).find(object => object.name === policyName);
+    if (!policy) {
+      throw new Error(`Remote access VPN policy ${policyName} not found`);
+    }
+
+    const accessSettingsPath = `/policy/ravpns/${policy.id}/accesssettings`;
+    const [accessSettingsRef] = await this.listObjects(session, accessSettingsPath);
+    if (!accessSettingsRef) {
+      throw new Error(`Remote access VPN policy ${policyName} has no access settings`);
+    }
+    const accessSettings = await this.fmcRequest(session, 'GET', `${accessSettingsPath}/${accessSettingsRef.id}`);
+
+    const reference = { id: certificate.id, name: certificate.name, type: 'InternalCertificate' };
+    if (accessSettings.sslGlobalIdentityCertificate?.id === certificate.id && accessSettings.ikeV2GlobalIdentityCertificate?.id === certificate.id) {
+      return false;
+    }
+
+    // Metadata and links are read-only
+    const { metadata, links, ...settings } = accessSettings;
+    await this.fmcRequest(session, 'PUT', `${accessSettingsPath}/${accessSettingsRef.id}`, {
+      ...settings,
+      sslGlobalIdentityCertificate: reference,
+      ikeV2GlobalIdentityCertificate: reference
+    });
+    return true;
+  }
+
+  /**
+   * Deploy the pending changes to the managed devices and follow each device
+   * until the deployment task ends. A device that still has pending changes
+   * then failed to deploy.
+   */
+  async deployToDevices(
+    hostname: string,
+    username: string,
+    password: string,
+    options: FmcDeployOptions = {}
+  ): Promise<FmcDeployResponse> {
+    const { devices = [], pollInterval = 10000, timeout = 900000, onStatus } = options;
+    let deployments: FmcDeviceDeployment[] = [];
+
+    try {
+      Logger.info(`Deploying pending changes to the devices managed by FMC: ${hostname}`);
+      const session = await this.authenticate(hostname, username, password);
+
+      const deployable = (await this.getDeployableDevices(session))
+        .filter(item => devices.length === 0 || devices.includes(item.device.name));
+      const missing = devices.filter(device => !deployable.some(item => item.device.name === device));
+      if (deployable.length === 0) {
+        return {
+          success: true,
+          message: missing.length > 0 ? `No pending changes for ${missing.join(', ')}` : 'No devices have pending changes',
+          deployments
+        };
+      }
+
+      deployments = deployable.map((item): FmcDeviceDeployment => ({ device: item.device.name, status: 'pending' }));
+      await onStatus?.(deployments);
+
+      const request = await this.fmcRequest(session, 'POST', '/deployment/deploymentrequests', {
+        type: 'DeploymentRequest',
+        version: String(Math.max(...deployable.map(item => Number(item.version) || 0))),
+        forceDeploy: false,
+        ignoreWarning: true,
+        deviceList: deployable.map(item => item.device.id)
+      });
+      const taskId = request?.metadata?.task?.id;
+      if (!taskId) {
+        throw new Error('FMC did not return a deployment task');
+      }
+
+      const deadline = Date.now() + timeout;
+      for (;;) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        const task = await this.fmcRequest(session, 'GET', `/job/taskstatuses/${taskId}`);
+        const running = RUNNING_TASK_PATTERN.test(String(task?.status || ''));
+        const pending = new Set((await this.getDeployableDevices(session)).map(item => item.device.name));
+
+        const updated: FmcDeviceDeployment[] = deployments.map(({ device }) => ({
+          device,
+          status: !pending.has(device) ? 'deployed' : running ? 'deploying' : 'failed'
+        }));
+        if (updated.some((deployment, index) => deployment.status !== deployments[index].status)) {
+          deployments = updated;
+          await onStatus?.(deployments);
+        }
+
+        if (!running) {
+          const failed = deployments.filter(deployment => deployment.status === 'failed');
+          return {
+            success: failed.length === 0,
+            message: failed.length === 0
+              ? `Deployed to ${deployments.map(deployment => deployment.device).join(', ')}`
+              : `Deployment failed on ${failed.map(deployment => deployment.device).join(', ')}: ${task?.message || task?.status}`,
+            deployments
+          };
+        }
+        if (Date.now() > deadline) {
+          throw new Error(`Deployment task ${taskId} still running after ${timeout / 60000} minutes`);
+        }
+      }
+    } catch (error: any) {
+      Logger.error(`Failed to deploy to the devices managed by FMC ${hostname}:`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to deploy',
+        deployments
+      };
+    }
+  }
+
+  async uploadIdentityCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData
+  ): Promise<CertificateUploadResponse> {
+    const { success, message, certificateId } = await this.importInternalCertificate(hostname, username, password, hostname, certificateData);
+    return { success, message, certificateId };
+  }
+
+  async uploadTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string,
+    caCertificates: string[]
+  ): Promise<CertificateUploadResponse> {
+    // The devices present the internal certificate, clients validate it against their own trust stores
+    return {
+      success: true,
+      message: `${caCertificates.length} CA certificate(s) not needed by FMC internal certificates`
+    };
+  }
+
+  async getTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<string[]> {
+    const session = await this.authenticate(hostname, username, password);
+    const certificates = await this.listObjects(session, this.config.apiEndpoints.getTrustCerts, true);
+    return certificates.map((certificate: any) => certificate.certData).filter((cert: unknown): cert is string => typeof cert === 'string');
+  }
+
+  async restartServices(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    // Changes take effect on the devices with a deployment, see deployToDevices
+    Logger.info(`No restart needed for FMC ${hostname}`);
+    return true;
+  }
+
+  async validateConnection(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    try {
+      await this.authenticate(hostname, username, password);
+      return true;
+    } catch (error: any) {
+      Logger.error(`Failed to validate FMC connection ${hostname}:`, error);
+      return false;
+    }
+  }
+
+  // Access token and domain of the user, tokens are valid for 30 minutes
+  private async authenticate(hostname: string, username: string, password: string): Promise<FmcSession> {
+    const auth = Buffer.from(`${username}:${password}`).toString('base64');
+    const response = await this.send(hostname, 'POST', TOKEN_ENDPOINT, { Authorization: `Basic ${auth}` });
+    const token = response.headers['x-auth-access-token'];
+    const domainUuid = response.headers['domain_uuid'];
+    if (typeof token !== 'string' || typeof domainUuid !== 'string') {
+      throw new Error(`FMC ${hostname} did not return an access token`);
+    }
+    return { hostname, token, domainUuid };
+  }
+
+  private async getDeployableDevices(session: FmcSession): Promise<{ device: FmcReference; version: string }[]> {
+    const items = await this.listObjects(session, '/deployment/deployabledevices', true);
+    return items.filter((item: any) => item?.device?.id && item?.device?.name);
+  }
+
+  private async listObjects(session: FmcSession, path: string, expanded: boolean = false): Promise<any[]> {
+    const response = await this.fmcRequest(session, 'GET', `${path}?limit=${PAGE_LIMIT}${expanded ? '&expanded=true' : ''}`);
+    return Array.isArray(response?.items) ? response.items : [];
+  }
+
+  private async fmcRequest(session: FmcSession, method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, data?: unknown): Promise<any> {
+    const response = await this.send(
+      session.hostname,
+      method,
+      `/api/fmc_config/v1/domain/${session.domainUuid}${path}`,
+      { 'X-auth-access-token': session.token },
+      data
+    );
+    return response.body ? JSON.parse(response.body) : null;
+  }
+
+  private send(hostname: string, method: string, path: string, headers: Record<string, string>, data?: unknown): Promise<{ status: number; headers: Record<string, string | string[] | undefined>; body: string }> {
+    const body = data !== undefined ? JSON.stringify(data) : undefined;
+    const [host, port] = hostname.split(':');
+
+    return new Promise((resolve, reject) => {
+      const req = https.request({
+        hostname: host,
+        port: port ? Number(port) : 443,
+        path,
+        method,
+        headers: {
+          'Accept': 'application/json',
+          ...(body && { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body).toString() }),
+          ...headers
+        },
+        rejectUnauthorized: false, // Disable SSL certificate verification for internal Cisco systems
+        timeout: 30000
+      }, (res) => {
+        let responseBody = '';
+        res.on('data', chunk => {
+          responseBody += chunk;
+        });
+        res.on('end', () => {
+          const status = res.statusCode || 0;
+          if (status < 200 || status >= 300) {
+            reject(new Error(`FMC API ${method} ${path} failed: ${status} ${this.getErrorDescription(responseBody) || res.statusMessage}`));
+            return;
+          }
+          resolve({ status, headers: res.headers, body: responseBody });
+        });
+      });
+
+      req.on('error', reject);
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new Error('Request timeout'));
+      });
+
+      if (body) {
+        req.write(body);
+      }
+      req.end();
+    });
+  }
+
+  // FMC errors carry their reasons in error.messages[].description
+  private getErrorDescription(body: string): string {
+    try {
+      const messages = JSON.parse(body)?.error?.messages;
+      return Array.isArray(messages) ? messages.map((message: any) => message?.description).filter(Boolean).join('; ') : '';
+    } catch {
+      return body;
+    }
+  }
+}
@@ -0,0 +1,395 @@
+import acme from 'acme-client';
+import {
+  PlatformProvider,
+  PlatformConfig,
+  CSRGenerationParams,
+  CSRResponse,
+  CertificateData,
+  CertificateUploadResponse
+} from './platform-provider';
+import { SSHClient } from '../ssh-client';
+import { Logger } from '../logger';
+
+/**
+ * General connections, e.g. web servers and load balancers. The certificate
+ * files are uploaded over SFTP to each SSH target, then a post-deploy command
+ * such as `systemctl reload nginx` picks them up. The previous files are kept
+ * as .bak next to the new ones and put back when the upload or the command fails.
+ */
+
+// fullchain is the certificate followed by its CA certificates, pem adds the key to that (HAProxy)
+export type DeployFileContent = 'certificate' | 'chain' | 'fullchain' | 'key' | 'pem';
+
+export const DEPLOY_FILE_CONTENTS: DeployFileContent[] = ['certificate', 'chain', 'fullchain', 'key', 'pem'];
+
+export interface DeployFile {
+  content: DeployFileContent;
+  // Absolute path on the target
+  path: string;
+  // Octal permissions, 0600 for files with the key and 0644 otherwise
+  mode?: string;
+  owner?: string;
+  group?: string;
+}
+
+export interface SshDeployTarget {
+  host: string;
+  port?: number;
+  // Logs in as the connection's username unless set
+  username?: string;
+  files: DeployFile[];
+  // Run after the files are uploaded, e.g. systemctl reload nginx
+  command?: string;
+}
+
+export interface TargetDeployResult {
+  host: string;
+  success: boolean;
+  message: string;
+  // Whether the previous files were put back after a failure
+  rolledBack: boolean;
+}
+
+export interface GeneralDeployResponse extends CertificateUploadResponse {
+  targets: TargetDeployResult[];
+}
+
+export const DEFAULT_COMMAND_TIMEOUT = 60000;
+
+const MODE_PATTERN = /^0?[0-7]{3}$/;
+const ACCOUNT_PATTERN = /^([a-z_][a-z0-9_.-]*\$?|\d+)$/i;
+const HOST_PATTERN = /^[a-z0-9.:_-]+$/i;
+
+// Single-quoted for the remote shell
+const quote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+const fileMode = (file: DeployFile): number =>
+  file.mode ? parseInt(file.mode, 8) : (file.content === 'key' || file.content === 'pem' ? 0o600 : 0o644);
+
+/**
+ * The SSH targets of a connection from their JSON; throws with the first problem found
+ */
+export function parseDeployTargets(value: string | undefined | null): SshDeployTarget[] {
+  if (!value || !value.trim()) {
+    return [];
+  }
+
+  let targets: any;
+  try {
+    targets = JSON.parse(value);
+  } catch {
+    throw new Error('Deploy targets must be valid JSON');
+  }
+  if (!Array.isArray(targets)) {
+    throw new Error('Deploy targets must be a JSON array');
+  }
+
+  targets.forEach((target: any, index: number) => {
+    const label = `Deploy target ${index + 1}`;
+    if (!target || typeof target !== 'object' || Array.isArray(target)) {
+      throw new Error(`${label} must be an object`);
+    }
+    if (typeof target.host !== 'string' || !HOST_PATTERN.test(target.host)) {
+      throw new Error(`${label} needs a host name or address`);
+    }
+    if (target.port !== undefined && (!Number.isInteger(target.port) || target.port < 1 || target.port > 65535)) {
+      throw new Error(`${label} port must be between 1 and 65535`);
+    }
+    if (target.username !== undefined && (typeof target.username !== 'string' || !ACCOUNT_PATTERN.test(target.username))) {
+      throw new Error(`${label} username is not valid`);
+    }
+    if (target.command !== undefined && typeof target.command !== 'string') {
+      throw new Error(`${label} command must be a string`);
+    }
+    if (!Array.isArray(target.files) || target.files.length === 0) {
+      throw new Error(`${label} needs at least one file`);
+    }
+
+    const paths = new Set<string>();
+    target.files.forEach((file: any) => {
+      if (!file || !DEPLOY_FILE_CONTENTS.includes(file.content)) {
+        throw new Error(`${label} file content must be one of: ${DEPLOY_FILE_CONTENTS.join(', ')}`);
+      }
+      if (typeof file.path !== 'string' || !file.path.startsWith('/') || file.path.endsWith('/')) {
+        throw new Error(`${label} file paths must be absolute file paths`);
+      }
+      if (paths.has(file.path)) {
+        throw new Error(`${label} writes ${file.path} more than once`);
+      }
+      paths.add(file.path);
+      if (file.mode !== undefined && (typeof file.mode !== 'string' || !MODE_PATTERN.test(file.mode))) {
+        throw new Error(`${label} file mode must be octal, e.g. "0640"`);
+      }
+      for (const account of ['owner', 'group']) {
+        if (file[account] !== undefined && (typeof file[account] !== 'string' || !ACCOUNT_PATTERN.test(file[account]))) {
+          throw new Error(`${label} file ${account} must be a user or group name or id`);
+        }
+      }
+    });
+  });
+
+  return targets;
+}
+
+export class GeneralProvider extends PlatformProvider {
+  constructor() {
+    const config: PlatformConfig = {
+      platformType: 'general',
+      apiEndpoints: {
+        // Files go over SFTP, see deployCertificate
+        generateCSR: '',
+        uploadIdentityCert: '',
+        getTrustCerts: '',
+        uploadTrustCerts: ''
+      },
+      sshConfig: {
+        promptPattern: '',
+        serviceRestartCommand: ''
+      },
+      certificateConfig: {
+        serviceName: 'general',
+        supportedKeyTypes: ['RSA', 'ECDSA'],
+        maxKeySize: 4096
+      }
+    };
+
+    super(config);
+  }
+
+  async generateCSR(
+    hostname: string,
+    username: string,
+    password: string,
+    params: CSRGenerationParams
+  ): Promise<CSRResponse> {
+    try {
+      Logger.info(`Generating CSR and private key for general connection: ${hostname}`);
+
+      const privateKey = params.keyType === 'ECDSA'
+        ? await acme.crypto.createPrivateEcdsaKey(params.keySize === 384 ? 'P-384' : 'P-256')
+        : await acme.crypto.createPrivateRsaKey(params.keySize || 2048);
+      const [, csr] = await acme.crypto.createCsr({
+        commonName: params.commonName,
+        altNames: params.subjectAltNames || [],
+        organization: params.organizationName,
+        organizationUnit: params.organizationalUnit,
+        locality: params.locality,
+        state: params.state,
+        country: params.country
+      }, privateKey);
+
+      return {
+        csr: csr.toString(),
+        privateKey: privateKey.toString(),
+        success: true,
+        message: 'CSR generated successfully'
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to generate CSR for ${hostname}:`, error);
+      return {
+        csr: '',
+        success: false,
+        message: error.message || 'Failed to generate CSR'
+      };
+    }
+  }
+
+  /**
+   * The content of a deployed file, each PEM block ending in a newline
+   */
+  getFileContent(content: DeployFileContent, certificateData: CertificateData): string {
+    const pem = (blocks: string[]) => blocks.map(block => `${block.trim()}\n`).join('');
+    const caCertificates = certificateData.caCertificates || [];
+
+    switch (content) {
+      case 'certificate':
+        return pem([certificateData.certificate]);
+      case 'chain':
+        return pem(caCertificates);
+      case 'fullchain':
+        return pem([certificateData.certificate, ...caCertificates]);
+      case 'key':
+        return pem([certificateData.privateKey!]);
+      case 'pem':
+        return pem([certificateData.certificate, ...caCertificates, certificateData.privateKey!]);
+    }
+  }
+
+  /**
+   * Upload the certificate files to each target and run its post-deploy command. A target
+   * that fails gets its previous files back; the others are deployed independently.
+   */
+  async deployCertificate(
+    targets: SshDeployTarget[],
+    username: string,
+    password: string,
+    certificateData: CertificateData,
+    commandTimeout: number = DEFAULT_COMMAND_TIMEOUT
+  ): Promise<GeneralDeployResponse> {
+    if (!certificateData.privateKey && targets.some(target => target.files.some(file => file.content === 'key' || file.content === 'pem'))) {
+      return { success: false, message: 'The private key of the certificate is required', targets: [] };
+    }
+
+    const results: TargetDeployResult[] = [];
+    for (const target of targets) {
+      results.push(await this.deployToTarget(target, username, password, certificateData, commandTimeout));
+    }
+
+    const failed = results.filter(result => !result.success);
+    return {
+      success: failed.length === 0,
+      message: failed.length === 0
+        ? `Certificate deployed to ${results.map(result => result.host).join(', ')}`
+        : `Deployment failed on ${failed.map(result => result.host).join(', ')}`,
+      targets: results
+    };
+  }
+
+  private async deployToTarget(
+    target: SshDeployTarget,
+    username: string,
+    password: string,
+    certificateData: CertificateData,
+    commandTimeout: number
+  ): Promise<TargetDeployResult> {
+    const client = new SSHClient();
+    // What was at each path before, null when the file is new
+    const previousFiles: { path: string; previous: { content: Buffer; mode: number } | null }[] = [];
+    let uploaded = false;
+
+    try {
+      await client.connect({ host: target.host, port: target.port, username: target.username || username, password });
+    } catch (error: any) {
+      Logger.error(`Failed to connect to deploy target ${target.host}:`, error);
+      return { host: target.host, success: false, message: `Could not connect: ${error.message}`, rolledBack: false };
+    }
+
+    try {
+      for (const file of target.files) {
+        const previous = await client.readFile(file.path);
+        if (previous) {
+          await client.writeFile(`${file.path}.bak`, previous.content, previous.mode);
+        }
+        previousFiles.push({ path: file.path, previous });
+
+        const mode = fileMode(file);
+        await client.writeFile(file.path, this.getFileContent(file.content, certificateData), mode);
+        // The mode only applies to new files when writing
+        await client.setMode(file.path, mode);
+        if (file.owner || file.group) {
+          await client.executeCommand(`chown ${quote(`${file.owner || ''}${file.group ? `:${file.group}` : ''}`)} ${quote(file.path)}`);
+        }
+      }
+      uploaded = true;
+
+      if (target.command) {
+        Logger.info(`Running post-deploy command on ${target.host}: ${target.command}`);
+        await client.executeCommand(target.command, commandTimeout);
+      }
+
+      return {
+        host: target.host,
+        success: true,
+        message: `Deployed ${target.files.map(file => file.path).join(', ')}${target.command ? `, ran ${target.command}` : ''}`,
+        rolledBack: false
+      };
+    } catch (error: any) {
+      const failure = uploaded ? `Post-deploy command failed: ${error.message.trim()}` : error.message;
+      Logger.error(`Failed to deploy certificate to ${target.host}: ${failure}`);
+
+      try {
+        await this.restoreFiles(client, previousFiles);
+        // The service goes back to the previous certificate
+        if (uploaded && target.command) {
+          await client.executeCommand(target.command, commandTimeout).catch(rerunError => {
+            Logger.warn(`Post-deploy command failed again on ${target.host} after restoring the previous files:`, rerunError);
+          });
+        }
+        return { host: target.host, success: false, message: `${failure}; the previous files were restored`, rolledBack: true };
+      } catch (restoreError: any) {
+        Logger.error(`Failed to restore the previous files on ${target.host}:`, restoreError);
+        return {
+          host: target.host,
+          success: false,
+          message: `${failure}; restoring the previous files failed: ${restoreError.message}, the backups are the .bak files`,
+          rolledBack: false
+        };
+      }
+    } finally {
+      await client.disconnect();
+    }
+  }
+
+  private async restoreFiles(client: SSHClient, previousFiles: { path: string; previous: { content: Buffer; mode: number } | null }[]): Promise<void> {
+    for (const { path, previous } of [...previousFiles].reverse()) {
+      if (previous) {
+        // Writing into the existing file keeps its owner
+        await client.writeFile(path, previous.content, previous.mode);
+        await client.setMode(path, previous.mode);
+      } else {
+        await client.deleteFile(path).catch(() => undefined);
+      }
+    }
+  }
+
+  async uploadIdentityCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData
+  ): Promise<CertificateUploadResponse> {
+    // Where the files go comes from the connection's deploy targets
+    return {
+      success: false,
+      message: 'General connections are deployed to their SSH deploy targets, see deployCertificate'
+    };
+  }
+
+  async uploadTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string,
+    caCertificates: string[]
+  ): Promise<CertificateUploadResponse> {
+    // The chain goes into the chain, fullchain and pem files
+    return {
+      success: true,
+      message: `The chain is deployed with the certificate, ${caCertificates.length} CA certificate(s) not uploaded separately`
+    };
+  }
+
+  async getTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<string[]> {
+    return [];
+  }
+
+  async restartServices(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    // The post-deploy command of each target does this
+    Logger.info(`No restart needed for ${hostname}, deploy targets run their post-deploy command`);
+    return true;
+  }
+
+  async validateConnection(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    const client = new SSHClient();
+    try {
+      await client.connect({ host: hostname, username, password });
+      return true;
+    } catch (error) {
+      Logger.error(`Failed to validate SSH connection to ${hostname}:`, error);
+      return false;
+    } finally {
+      await client.disconnect();
+    }
+  }
+}
@@ -0,0 +1,329 @@
+import acme from 'acme-client';
+import {
+  PlatformProvider,
+  PlatformConfig,
+  CSRGenerationParams,
+  CSRResponse,
+  CertificateData,
+  CertificateUploadResponse
+} from './platform-provider';
+import { SSHClient } from '../ssh-client';
+import { Logger } from '../logger';
+import * as crypto from 'crypto';
+
+/**
+ * Cisco IOS and IOS-XE routers and switches, e.g. CUBE and SRST. There is no
+ * API for certificates, so the certificate, its key and the issuing CA are
+ * imported into a new trustpoint from the CLI over SSH, and the trustpoint is
+ * bound to the HTTPS server and/or SIP TLS (sip-ua). The key is generated
+ * here, as IOS doesn't export the keys of its own CSRs.
+ */
+
+export type IosBinding = 'https' | 'sip-ua';
+
+export const IOS_BINDINGS: IosBinding[] = ['https', 'sip-ua'];
+export const DEFAULT_IOS_BINDINGS: IosBinding[] = ['https'];
+
+export interface IosDeployOptions {
+  bindings?: IosBinding[];
+  // Only return the CLI lines, nothing is sent to the device
+  dryRun?: boolean;
+}
+
+export interface IosDeployResponse extends CertificateUploadResponse {
+  trustpoint: string;
+  // The CLI lines, with the private key and its passphrase redacted
+  commands: string[];
+  applied: boolean;
+}
+
+// The privileged EXEC or configuration prompt, e.g. `cube01#` or `cube01(config-sip-ua)#`
+export const PROMPT_PATTERN = /[\w.\-]+(\([\w\-]+\))?#\s*$/;
+export const USER_EXEC_PROMPT_PATTERN = /[\w.\-]+>\s*$/;
+export const ERROR_PATTERN = /^%\s*(Invalid input|Incomplete command|Ambiguous command|Error\b|.*\bfailed\b)/im;
+
+const REDACTED_PASSPHRASE = '<passphrase>';
+const REDACTED_PRIVATE_KEY = '<encrypted private key>';
+
+export function parseIosBindings(value: string | undefined | null): IosBinding[] {
+  const selected = (value || '').split(',').map(binding => binding.trim()).filter(binding => binding.length > 0);
+  const bindings = IOS_BINDINGS.filter(binding => selected.includes(binding));
+  return bindings.length > 0 ? bindings : DEFAULT_IOS_BINDINGS;
+}
+
+// Each certificate gets its own trustpoint, IOS doesn't replace the certificate of a trustpoint in place
+export function getTrustpointName(certificatePem: string): string {
+  const serialNumber = new crypto.X509Certificate(certificatePem).serialNumber;
+  return `ACME-${serialNumber.slice(-8).toUpperCase()}`;
+}
+
+function pemLines(pem: string): string[] {
+  return pem.trim().split(/\r?\n/).map(line => line.trim());
+}
+
+export class IOSProvider extends PlatformProvider {
+  constructor() {
+    const config: PlatformConfig = {
+      platformType: 'ios',
+      apiEndpoints: {
+        // Everything goes through the CLI, see deployCertificate
+        generateCSR: '',
+        uploadIdentityCert: '',
+        getTrustCerts: '',
+        uploadTrustCerts: ''
+      },
+      sshConfig: {
+        promptPattern: PROMPT_PATTERN.source,
+        serviceRestartCommand: '',
+        connectionAlgorithms: {
+          kex: ['diffie-hellman-group14-sha1', 'diffie-hellman-group14-sha256', 'ecdh-sha2-nistp256'],
+          cipher: ['aes256-ctr', 'aes192-ctr', 'aes128-ctr', 'aes256-cbc'],
+          hmac: ['hmac-sha2-256', 'hmac-sha2-512', 'hmac-sha1'],
+          serverHostKey: ['ssh-rsa', 'rsa-sha2-256', 'ecdsa-sha2-nistp256']
+        }
+      },
+      certificateConfig: {
+        serviceName: 'ios',
+        supportedKeyTypes: ['RSA'],
+        maxKeySize: 4096
+      }
+    };
+
+    super(config);
+  }
+
+  async generateCSR(
+    hostname: string,
+    username: string,
+    password: string,
+    params: CSRGenerationParams
+  ): Promise<CSRResponse> {
+    try {
+      Logger.info(`Generating CSR and private key for IOS: ${hostname}`);
+
+      // crypto pki import ... pem only takes RSA keys
+      if (params.keyType && params.keyType !== 'RSA') {
+        throw new Error(`IOS certificates imported over the CLI need an RSA key, not ${params.keyType}`);
+      }
+
+      const privateKey = await acme.crypto.createPrivateRsaKey(params.keySize || 2048);
+      const [, csr] = await acme.crypto.createCsr({
+        commonName: params.commonName,
+        altNames: params.subjectAltNames || [],
+        organization: params.organizationName,
+        organizationUnit: params.organizationalUnit,
+        locality: params.locality,
+        state: params.state,
+        country: params.country
+      }, privateKey);
+
+      return {
+        csr: csr.toString(),
+        privateKey: privateKey.toString(),
+        success: true,
+        message: 'CSR generated successfully'
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to generate CSR for IOS ${hostname}:`, error);
+      return {
+        csr: '',
+        success: false,
+        message: error.message || 'Failed to generate CSR'
+      };
+    }
+  }
+
+  /**
+   * The CLI lines that install a certificate, grouped into the steps that each
+   * end at a prompt. The import reads the issuing CA, the key and the
+   * certificate in turn, each ended by `quit`; a blank line would end it too
+   * early, and the encrypted key has one after its headers.
+   */
+  getDeployCommands(
+    certificateData: CertificateData,
+    bindings: IosBinding[],
+    secrets: { encryptedKey: string; passphrase: string } = { encryptedKey: REDACTED_PRIVATE_KEY, passphrase: REDACTED_PASSPHRASE }
+  ): string[][] {
+    const issuingCA = certificateData.caCertificates?.[0];
+    if (!issuingCA) {
+      throw new Error('The issuing CA certificate is required to import a certificate into a trustpoint');
+    }
+    const trustpoint = getTrustpointName(certificateData.certificate);
+
+    const steps: string[][] = [
+      ['terminal length 0'],
+      ['configure terminal'],
+      [
+        `crypto pki trustpoint ${trustpoint}`,
+        'enrollment terminal pem',
+        'revocation-check none',
+        // The issuing intermediate is the trust anchor of the trustpoint
+        'chain-validation stop',
+        'exit'
+      ],
+      [
+        `crypto pki import ${trustpoint} pem terminal password ${secrets.passphrase}`,
+        ...pemLines(issuingCA),
+        'quit',
+        ...pemLines(secrets.encryptedKey),
+        'quit',
+        ...pemLines(certificateData.certificate),
+        'quit'
+      ]
+    ];
+
+    if (bindings.includes('https')) {
+      // The HTTPS server picks up the trustpoint when it starts
+      steps.push([`ip http secure-trustpoint ${trustpoint}`, 'no ip http secure-server', 'ip http secure-server']);
+    }
+    if (bindings.includes('sip-ua')) {
+      steps.push(['sip-ua', `crypto signaling default trustpoint ${trustpoint}`, 'exit']);
+    }
+    steps.push(['end'], ['write memory']);
+    return steps;
+  }
+
+  /**
+   * Import a certificate with its key and issuing CA into a new trustpoint,
+   * bind it and save the configuration. In a dry run the lines are only
+   * returned, with the key and its passphrase redacted.
+   */
+  async deployCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData,
+    options: IosDeployOptions = {}
+  ): Promise<IosDeployResponse> {
+    const bindings = options.bindings && options.bindings.length > 0 ? options.bindings : DEFAULT_IOS_BINDINGS;
+    let trustpoint = '';
+    let commands: string[] = [];
+
+    try {
+      if (!certificateData.privateKey) {
+        throw new Error('The private key of the certificate is required');
+      }
+      trustpoint = getTrustpointName(certificateData.certificate);
+      commands = this.getDeployCommands(certificateData, bindings).flat();
+
+      if (options.dryRun) {
+        Logger.info(`Dry run for IOS ${hostname}: ${commands.length} CLI lines for trustpoint ${trustpoint} not applied`);
+        return {
+          success: true,
+          message: `Dry run: ${commands.length} CLI lines for trustpoint ${trustpoint} were not applied`,
+          trustpoint,
+          commands,
+          applied: false
+        };
+      }
+
+      Logger.info(`Importing certificate into trustpoint ${trustpoint} on IOS: ${hostname}`);
+      const passphrase = crypto.randomBytes(16).toString('hex');
+      const encryptedKey = crypto.createPrivateKey(certificateData.privateKey).export({
+        type: 'pkcs1',
+        format: 'pem',
+        cipher: 'des-ede3-cbc',
+        passphrase
+      }).toString();
+
+      const result = await SSHClient.executeShellSession({
+        hostname,
+        username,
+        password,
+        steps: this.getDeployCommands(certificateData, bindings, { encryptedKey, passphrase }),
+        promptPattern: PROMPT_PATTERN
+      });
+
+      if (!result.success) {
+        if (USER_EXEC_PROMPT_PATTERN.test(result.output)) {
+          throw new Error(`${username} logs in to user EXEC mode, importing certificates needs a privilege 15 account`);
+        }
+        throw new Error(result.error || 'The CLI session failed');
+      }
+
+      const failedStep = result.stepOutputs.find(output => ERROR_PATTERN.test(output));
+      if (failedStep) {
+        const errorLine = failedStep.split(/\r?\n/).find(line => ERROR_PATTERN.test(line))!.trim();
+        throw new Error(`${hostname} rejected the configuration: ${errorLine}`);
+      }
+
+      return {
+        success: true,
+        message: `Certificate imported into trustpoint ${trustpoint} and bound to ${bindings.join(', ')}`,
+        trustpoint,
+        commands,
+        applied: true
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to deploy certificate to IOS ${hostname}:`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to deploy certificate',
+        trustpoint,
+        commands,
+        applied: false
+      };
+    }
+  }
+
+  async uploadIdentityCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData
+  ): Promise<CertificateUploadResponse> {
+    const { success, message } = await this.deployCertificate(hostname, username, password, certificateData);
+    return { success, message };
+  }
+
+  async uploadTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string,
+    caCertificates: string[]
+  ): Promise<CertificateUploadResponse> {
+    // The issuing CA is imported into the trustpoint together with the certificate
+    return {
+      success: true,
+      message: `The issuing CA is imported with the certificate, ${caCertificates.length} CA certificate(s) not uploaded separately`
+    };
+  }
+
+  async getTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<string[]> {
+    // IOS lists trustpoint certificates without their PEM
+    return [];
+  }
+
+  async restartServices(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    // The bindings take effect when they are configured
+    Logger.info(`No restart needed for IOS ${hostname}`);
+    return true;
+  }
+
+  async validateConnection(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    const result = await SSHClient.executeShellSession({
+      hostname,
+      username,
+      password,
+      steps: [['terminal length 0'], ['show version']],
+      promptPattern: PROMPT_PATTERN,
+      timeout: 30000
+    });
+    if (!result.success) {
+      Logger.error(`Failed to validate IOS connection ${hostname}: ${result.error}`);
+    }
+    return result.success;
+  }
+}
@@ -67,7 +67,7 @@ export class ISEProvider extends PlatformProvider {
       },
       certificateConfig: {
         serviceName: 'ise',
-        supportedKeyTypes: ['RSA'],
+        supportedKeyTypes: ['RSA', 'ECDSA'],
         maxKeySize: 4096
       }
     };
@@ -93,7 +93,7 @@ export class ISEProvider extends PlatformProvider {
         subjectCountry: params.country || 'US',
         keyType: params.keyType || 'RSA',
         keyLength: params.keySize || 2048,
-        digestType: 'SHA256',
+        digestType: (params.hashAlgorithm || 'sha256').toUpperCase(),
         certificateUsage: 'PORTAL',
         subjectAlternativeNames: params.subjectAltNames || []
       };
@@ -1,8 +1,13 @@
 import { PlatformProvider } from './platform-provider';
 import { VOSProvider } from './vos-provider';
 import { ISEProvider } from './ise-provider';
+import { ExpresswayProvider } from './expressway-provider';
+import { IOSProvider } from './ios-provider';
+import { FMCProvider } from './fmc-provider';
+import { WLCProvider } from './wlc-provider';
+import { GeneralProvider } from './general-provider';
 
-export type SupportedPlatform = 'vos' | 'ise' | 'general';
+export type SupportedPlatform = 'vos' | 'ise' | 'expressway' | 'ios' | 'fmc' | 'wlc' | 'general';
 
 export class PlatformFactory {
   private static instances: Map<string, PlatformProvider> = new Map();
@@ -24,9 +29,25 @@ export class PlatformFactory {
         provider = new ISEProvider();
         break;
       
+      case 'expressway':
+        provider = new ExpresswayProvider();
+        break;
+      
+      case 'ios':
+        provider = new IOSProvider();
+        break;
+      
+      case 'fmc':
+        provider = new FMCProvider();
+        break;
+      
+      case 'wlc':
+        provider = new WLCProvider();
+        break;
+      
       case 'general':
-        // For general applications that don't need platform-specific APIs
-        throw new Error('General platform provider not yet implemented');
+        provider = new GeneralProvider();
+        break;
       
       default:
         throw new Error(`Unsupported platform type: ${platformType}`);
@@ -38,7 +59,7 @@ export class PlatformFactory {
   }
 
   static getSupportedPlatforms(): SupportedPlatform[] {
-    return ['vos', 'ise']; // Add 'general' as it becomes available
+    return ['vos', 'ise', 'expressway', 'ios', 'fmc', 'wlc', 'general'];
   }
 
   static isPlatformSupported(platformType: string): boolean {
@@ -56,6 +77,14 @@ export class PlatformFactory {
         return 'vos';
       case 'ise':
         return 'ise';
+      case 'expressway':
+        return 'expressway';
+      case 'ios':
+        return 'ios';
+      case 'fmc':
+        return 'fmc';
+      case 'wlc':
+        return 'wlc';
       case 'general':
         return 'general';
       default:
@@ -30,6 +30,8 @@ export interface CertificateData {
   certificate: string;
   privateKey?: string;
   caCertificates?: string[];
+  // Certificate service the identity certificate is for, on platforms with several (VOS)
+  service?: string;
 }
 
 export interface CSRGenerationParams {
@@ -37,6 +39,10 @@ export interface CSRGenerationParams {
   subjectAltNames?: string[];
   keySize?: number;
   keyType?: string;
+  hashAlgorithm?: string;
+  service?: string;
+  // VOS: one multi-server (SAN) CSR for all nodes of the cluster
+  multiServer?: boolean;
   organizationName?: string;
   organizationalUnit?: string;
   locality?: string;
@@ -7,6 +7,7 @@ import {
   CertificateUploadResponse 
 } from './platform-provider';
 import { Logger } from '../logger';
+import { DEFAULT_VOS_SERVICE, VOS_CERTIFICATE_SERVICES, getCsrDistribution, getRestartCommand, getRestartServices } from './vos-services';
 
 export class VOSProvider extends PlatformProvider {
   constructor() {
@@ -15,12 +16,12 @@ export class VOSProvider extends PlatformProvider {
       apiEndpoints: {
         generateCSR: '/platformcom/api/v1/certmgr/config/csr',
         uploadIdentityCert: '/platformcom/api/v1/certmgr/config/identity/certificates',
-        getTrustCerts: '/platformcom/api/v1/certmgr/config/trust/certificate?service=tomcat',
+        getTrustCerts: '/platformcom/api/v1/certmgr/config/trust/certificate',
         uploadTrustCerts: '/platformcom/api/v1/certmgr/config/trust/certificates'
       },
       sshConfig: {
         promptPattern: 'admin:',
-        serviceRestartCommand: 'utils service restart Cisco Tomcat',
+        serviceRestartCommand: getRestartCommand('Cisco Tomcat'),
         connectionAlgorithms: {
           kex: ['diffie-hellman-group14-sha256', 'diffie-hellman-group14-sha1', 'diffie-hellman-group-exchange-sha256', 'diffie-hellman-group-exchange-sha1'],
           cipher: ['aes256-ctr', 'aes192-ctr', 'aes128-ctr', 'aes256-cbc', 'aes192-cbc', 'aes128-cbc'],
@@ -29,8 +30,8 @@ export class VOSProvider extends PlatformProvider {
         }
       },
       certificateConfig: {
-        serviceName: 'tomcat',
-        supportedKeyTypes: ['RSA'],
+        serviceName: DEFAULT_VOS_SERVICE,
+        supportedKeyTypes: ['RSA', 'EC'],
         maxKeySize: 4096
       }
     };
@@ -45,22 +46,18 @@ export class VOSProvider extends PlatformProvider {
     params: CSRGenerationParams
   ): Promise<CSRResponse> {
     try {
-      Logger.info(`Generating CSR for VOS platform: ${hostname}`);
+      const service = params.service || DEFAULT_VOS_SERVICE;
+      Logger.info(`Generating ${service} CSR for VOS platform: ${hostname}`);
 
+      // certmgr takes the key type of the service, e.g. ec for tomcat-ECDSA
       const csrData = {
-        certificateRequestData: {
-          subject: {
-            commonName: params.commonName,
-            organizationName: params.organizationName || 'Cisco',
-            organizationalUnit: params.organizationalUnit || 'IT',
-            locality: params.locality || 'San Jose',
-            state: params.state || 'CA',
-            country: params.country || 'US'
-          },
-          keySize: params.keySize || 2048,
-          keyType: params.keyType || 'RSA',
-          subjectAltNames: params.subjectAltNames || []
-        }
+        service,
+        distribution: getCsrDistribution(service, !!params.multiServer),
+        commonName: params.commonName,
+        keyType: VOS_CERTIFICATE_SERVICES[service]?.keyType || 'rsa',
+        keyLength: params.keySize || 2048,
+        hashAlgorithm: params.hashAlgorithm || 'sha256',
+        ...(params.subjectAltNames && params.subjectAltNames.length > 0 && { altNames: params.subjectAltNames })
       };
 
       const response = await this.makeApiRequest(
@@ -72,10 +69,10 @@ export class VOSProvider extends PlatformProvider {
         csrData
       );
 
-      if (response && response.certificateSigningRequest) {
-        Logger.info(`Successfully generated CSR for ${hostname}`);
+      if (response && (response.csr || response.certificateSigningRequest)) {
+        Logger.info(`Successfully generated ${service} CSR for ${hostname}`);
         return {
-          csr: response.certificateSigningRequest,
+          csr: response.csr || response.certificateSigningRequest,
           success: true,
           message: 'CSR generated successfully'
         };
@@ -99,7 +96,8 @@ export class VOSProvider extends PlatformProvider {
     certificateData: CertificateData
   ): Promise<CertificateUploadResponse> {
     try {
-      Logger.info(`Uploading identity certificate to VOS platform: ${hostname}`);
+      const service = certificateData.service || DEFAULT_VOS_SERVICE;
+      Logger.info(`Uploading ${service} identity certificate to VOS platform: ${hostname}`);
 
       // First upload the leaf certificate
       const leafUploadResult = await this.uploadLeafCertificate(
@@ -107,20 +105,22 @@ export class VOSProvider extends PlatformProvider {
         username,
         password,
         certificateData.certificate,
-        certificateData.privateKey
+        service
       );
 
       if (!leafUploadResult.success) {
         return leafUploadResult;
       }
 
-      // Then upload CA certificates if provided
-      if (certificateData.caCertificates && certificateData.caCertificates.length > 0) {
+      // Then upload CA certificates if provided, to the trust store of the service
+      const trustService = VOS_CERTIFICATE_SERVICES[service]?.trustService;
+      if (certificateData.caCertificates && certificateData.caCertificates.length > 0 && trustService) {
         const caUploadResult = await this.uploadTrustCertificates(
           hostname,
           username,
           password,
-          certificateData.caCertificates
+          certificateData.caCertificates,
+          trustService
         );
 
         if (!caUploadResult.success) {
@@ -147,14 +147,12 @@ export class VOSProvider extends PlatformProvider {
     username: string,
     password: string,
     certificate: string,
-    privateKey?: string
+    service: string
   ): Promise<CertificateUploadResponse> {
+    // VOS generated the key with the CSR, so only the certificate goes up
     const uploadData = {
-      certificateData: {
-        certificate: certificate,
-        privateKey: privateKey || undefined,
-        certificateType: 'identity'
-      }
+      service,
+      certificates: [certificate]
     };
 
     const response = await this.makeApiRequest(
@@ -177,13 +175,14 @@ export class VOSProvider extends PlatformProvider {
     hostname: string,
     username: string,
     password: string,
-    caCertificates: string[]
+    caCertificates: string[],
+    trustService: string = DEFAULT_VOS_SERVICE
   ): Promise<CertificateUploadResponse> {
     try {
-      Logger.info(`Uploading ${caCertificates.length} CA certificates to VOS platform: ${hostname}`);
+      Logger.info(`Uploading ${caCertificates.length} CA certificates to the ${trustService}-trust store on VOS platform: ${hostname}`);
 
       // Get existing trust certificates to avoid duplicates
-      const existingCerts = await this.getTrustCertificates(hostname, username, password);
+      const existingCerts = await this.getTrustCertificates(hostname, username, password, trustService);
       
       const certsToUpload = caCertificates.filter(cert => {
         return !existingCerts.some(existing => existing.includes(cert.trim()));
@@ -196,23 +195,18 @@ export class VOSProvider extends PlatformProvider {
         };
       }
 
-      for (const cert of certsToUpload) {
-        const uploadData = {
-          certificateData: {
-            certificate: cert,
-            certificateType: 'trust'
-          }
-        };
-
-        await this.makeApiRequest(
-          hostname,
-          username,
-          password,
-          this.config.apiEndpoints.uploadTrustCerts,
-          'POST',
-          uploadData
-        );
-      }
+      await this.makeApiRequest(
+        hostname,
+        username,
+        password,
+        this.config.apiEndpoints.uploadTrustCerts,
+        'POST',
+        {
+          service: [trustService],
+          certificates: certsToUpload,
+          description: 'Trust Certificate'
+        }
+      );
 
       Logger.info(`Successfully uploaded ${certsToUpload.length} CA certificates to ${hostname}`);
       return {
@@ -231,14 +225,15 @@ export class VOSProvider extends PlatformProvider {
   async getTrustCertificates(
     hostname: string,
     username: string,
-    password: string
+    password: string,
+    trustService: string = DEFAULT_VOS_SERVICE
   ): Promise<string[]> {
     try {
       const response = await this.makeApiRequest(
         hostname,
         username,
         password,
-        this.config.apiEndpoints.getTrustCerts,
+        `${this.config.apiEndpoints.getTrustCerts}?service=${encodeURIComponent(trustService)}`,
         'GET'
       );
 
@@ -256,28 +251,35 @@ export class VOSProvider extends PlatformProvider {
   async restartServices(
     hostname: string,
     username: string,
-    password: string
+    password: string,
+    certificateServices: string[] = [DEFAULT_VOS_SERVICE]
   ): Promise<boolean> {
     try {
-      Logger.info(`Restarting Cisco Tomcat service on VOS platform: ${hostname}`);
+      // The services that use the renewed certificates, e.g. Cisco CallManager and Cisco TFTP for CallManager
+      const restartServices = getRestartServices(certificateServices);
+      if (restartServices.length === 0) {
+        return true;
+      }
+      Logger.info(`Restarting ${restartServices.join(', ')} on VOS platform: ${hostname}`);
 
       await this.connectSSH(hostname, username, password);
       
-      // Execute the service restart command
-      const output = await this.executeSSHCommand(this.config.sshConfig.serviceRestartCommand);
+      let success = true;
+      for (const service of restartServices) {
+        // Execute the service restart command
+        const output = await this.executeSSHCommand(getRestartCommand(service));
+
+        // Check if restart was successful (VOS typically returns service status)
+        if (output.toLowerCase().includes('error') || output.toLowerCase().includes('failed')) {
+          Logger.warn(`${service} restart may have failed on ${hostname}: ${output}`);
+          success = false;
+        } else {
+          Logger.info(`Successfully restarted ${service} on ${hostname}`);
+        }
+      }
       
       await this.disconnectSSH();
 
-      // Check if restart was successful (VOS typically returns service status)
-      const success = !output.toLowerCase().includes('error') && 
-                     !output.toLowerCase().includes('failed');
-
-      if (success) {
-        Logger.info(`Successfully restarted Cisco Tomcat service on ${hostname}`);
-      } else {
-        Logger.warn(`Service restart may have failed on ${hostname}: ${output}`);
-      }
-
       return success;
     } catch (error) {
       Logger.error(`Failed to restart services on ${hostname}:`, error);
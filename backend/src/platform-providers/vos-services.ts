@@ -0,0 +1,44 @@
+/**
+ * Certificate services of VOS products (CUCM, IM&P, CUC, CER) as certmgr
+ * names them, with what each needs when its identity certificate changes
+ */
+export interface VosCertificateService {
+  label: string;
+  keyType: 'rsa' | 'ec';
+  // Trust store the issuing CA certificates go to, null when the service has none
+  trustService: string | null;
+  // Services to restart so the new certificate is picked up, in order
+  restartServices: string[];
+  // Whether certmgr can issue one multi-server (SAN) certificate for all nodes of a cluster
+  multiServer: boolean;
+}
+
+// In the order certificates are renewed; the first selected one is the connection's primary certificate
+export const VOS_CERTIFICATE_SERVICES: Record<string, VosCertificateService> = {
+  tomcat: { label: 'Tomcat (web, RSA)', keyType: 'rsa', trustService: 'tomcat', restartServices: ['Cisco Tomcat'], multiServer: true },
+  'tomcat-ECDSA': { label: 'Tomcat (web, ECDSA)', keyType: 'ec', trustService: 'tomcat', restartServices: ['Cisco Tomcat'], multiServer: true },
+  CallManager: { label: 'CallManager (SIP/SCCP, RSA)', keyType: 'rsa', trustService: 'CallManager', restartServices: ['Cisco CallManager', 'Cisco TFTP'], multiServer: true },
+  'CallManager-ECDSA': { label: 'CallManager (SIP/SCCP, ECDSA)', keyType: 'ec', trustService: 'CallManager', restartServices: ['Cisco CallManager', 'Cisco TFTP'], multiServer: true },
+  ipsec: { label: 'IPsec (DRF)', keyType: 'rsa', trustService: 'ipsec', restartServices: ['Cisco DRF Master', 'Cisco DRF Local'], multiServer: false },
+  CAPF: { label: 'CAPF', keyType: 'rsa', trustService: 'CAPF', restartServices: ['Cisco Certificate Authority Proxy Function', 'Cisco TFTP'], multiServer: false },
+  // Signs the ITL file; phones pick it up from TFTP without a restart
+  ITLRecovery: { label: 'ITL Recovery', keyType: 'rsa', trustService: null, restartServices: [], multiServer: false },
+  cup: { label: 'IM&P SIP proxy (cup)', keyType: 'rsa', trustService: 'cup', restartServices: ['Cisco SIP Proxy'], multiServer: true },
+  'cup-xmpp': { label: 'IM&P XMPP (cup-xmpp)', keyType: 'rsa', trustService: 'cup-xmpp', restartServices: ['Cisco XCP Router'], multiServer: true }
+};
+
+export const DEFAULT_VOS_SERVICE = 'tomcat';
+
+export const isVosCertificateService = (service: string): boolean =>
+  Object.prototype.hasOwnProperty.call(VOS_CERTIFICATE_SERVICES, service);
+
+// Services to restart after renewing the given certificate services, each once
+export function getRestartServices(services: string[]): string[] {
+  return [...new Set(services.flatMap(service => VOS_CERTIFICATE_SERVICES[service]?.restartServices || []))];
+}
+
+export const getRestartCommand = (service: string): string => `utils service restart ${service}`;
+
+// certmgr CSR distribution: one SAN certificate for every node of a cluster, or this node only
+export const getCsrDistribution = (service: string, cluster: boolean): 'multi-server' | 'this-server' =>
+  cluster && VOS_CERTIFICATE_SERVICES[service]?.multiServer ? 'multi-server' : 'this-server';
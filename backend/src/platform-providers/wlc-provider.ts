@@ -0,0 +1,278 @@
+import acme from 'acme-client';
+import {
+  PlatformProvider,
+  PlatformConfig,
+  CSRGenerationParams,
+  CSRResponse,
+  CertificateData,
+  CertificateUploadResponse
+} from './platform-provider';
+import { ERROR_PATTERN, PROMPT_PATTERN, USER_EXEC_PROMPT_PATTERN, getTrustpointName } from './ios-provider';
+import { SSHClient } from '../ssh-client';
+import { createPkcs12 } from '../utils/pkcs12';
+import { Logger } from '../logger';
+import * as crypto from 'crypto';
+
+/**
+ * Cisco Catalyst 9800 wireless LAN controllers. The certificate, its key and
+ * chain are bundled as PKCS#12, copied to bootflash over SCP and imported into
+ * a new trustpoint from the CLI, which then serves the web admin GUI or the
+ * web-auth (guest portal) parameter map. Each of the two gets its own
+ * certificate, so they are renewed and expire separately.
+ */
+
+export type WlcTrustpoint = 'web-admin' | 'web-auth';
+
+export const WLC_TRUSTPOINTS: Record<WlcTrustpoint, string> = {
+  'web-admin': 'Web admin (HTTPS)',
+  'web-auth': 'Web auth (guest portal)'
+};
+export const DEFAULT_WLC_TRUSTPOINTS: WlcTrustpoint[] = ['web-admin', 'web-auth'];
+export const DEFAULT_WLC_PARAMETER_MAP = 'global';
+
+export interface WlcDeployOptions {
+  // What the trustpoint is assigned to
+  trustpoint: WlcTrustpoint;
+  // Web-auth parameter map, the global one by default
+  parameterMap?: string;
+}
+
+export interface WlcDeployResponse extends CertificateUploadResponse {
+  trustpoint: string;
+}
+
+export const isWlcTrustpoint = (value: string): value is WlcTrustpoint =>
+  Object.prototype.hasOwnProperty.call(WLC_TRUSTPOINTS, value);
+
+export function parseWlcTrustpoints(value: string | undefined | null): WlcTrustpoint[] {
+  const selected = (value || '').split(',').map(trustpoint => trustpoint.trim()).filter(trustpoint => trustpoint.length > 0);
+  const trustpoints = DEFAULT_WLC_TRUSTPOINTS.filter(trustpoint => selected.includes(trustpoint));
+  return trustpoints.length > 0 ? trustpoints : DEFAULT_WLC_TRUSTPOINTS;
+}
+
+export class WLCProvider extends PlatformProvider {
+  constructor() {
+    const config: PlatformConfig = {
+      platformType: 'wlc',
+      apiEndpoints: {
+        // Everything goes through SCP and the CLI, see deployCertificate
+        generateCSR: '',
+        uploadIdentityCert: '',
+        getTrustCerts: '',
+        uploadTrustCerts: ''
+      },
+      sshConfig: {
+        promptPattern: PROMPT_PATTERN.source,
+        serviceRestartCommand: '',
+        connectionAlgorithms: {
+          kex: ['diffie-hellman-group14-sha1', 'diffie-hellman-group14-sha256', 'ecdh-sha2-nistp256'],
+          cipher: ['aes256-ctr', 'aes192-ctr', 'aes128-ctr', 'aes256-cbc'],
+          hmac: ['hmac-sha2-256', 'hmac-sha2-512', 'hmac-sha1'],
+          serverHostKey: ['ssh-rsa', 'rsa-sha2-256', 'ecdsa-sha2-nistp256']
+        }
+      },
+      certificateConfig: {
+        serviceName: 'wlc',
+        supportedKeyTypes: ['RSA', 'ECDSA'],
+        maxKeySize: 4096
+      }
+    };
+
+    super(config);
+  }
+
+  async generateCSR(
+    hostname: string,
+    username: string,
+    password: string,
+    params: CSRGenerationParams
+  ): Promise<CSRResponse> {
+    try {
+      Logger.info(`Generating CSR and private key for WLC: ${hostname}`);
+
+      const privateKey = params.keyType === 'ECDSA'
+        ? await acme.crypto.createPrivateEcdsaKey(params.keySize === 384 ? 'P-384' : 'P-256')
+        : await acme.crypto.createPrivateRsaKey(params.keySize || 2048);
+      const [, csr] = await acme.crypto.createCsr({
+        commonName: params.commonName,
+        altNames: params.subjectAltNames || [],
+        organization: params.organizationName,
+        organizationUnit: params.organizationalUnit,
+        locality: params.locality,
+        state: params.state,
+        country: params.country
+      }, privateKey);
+
+      return {
+        csr: csr.toString(),
+        privateKey: privateKey.toString(),
+        success: true,
+        message: 'CSR generated successfully'
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to generate CSR for WLC ${hostname}:`, error);
+      return {
+        csr: '',
+        success: false,
+        message: error.message || 'Failed to generate CSR'
+      };
+    }
+  }
+
+  /**
+   * The CLI lines that import a PKCS#12 file into a trustpoint and assign it,
+   * grouped into the steps that each end at a prompt. The empty line confirms
+   * the source filename the import asks for.
+   */
+  getDeployCommands(trustpoint: string, file: string, passphrase: string, options: WlcDeployOptions): string[][] {
+    const steps: string[][] = [
+      ['terminal length 0'],
+      ['configure terminal'],
+      [`crypto pki import ${trustpoint} pkcs12 ${file} password ${passphrase}`, ''],
+      // The bundle holds the private key, so it doesn't stay on bootflash
+      [`do delete /force ${file}`]
+    ];
+
+    if (options.trustpoint === 'web-admin') {
+      // The HTTPS server picks up the trustpoint when it starts
+      steps.push([`ip http secure-trustpoint ${trustpoint}`, 'no ip http secure-server', 'ip http secure-server']);
+    } else {
+      steps.push([`parameter-map type webauth ${options.parameterMap || DEFAULT_WLC_PARAMETER_MAP}`, `trustpoint ${trustpoint}`, 'exit']);
+    }
+    steps.push(['end'], ['write memory']);
+    return steps;
+  }
+
+  /**
+   * Import a certificate with its key and chain into a new trustpoint, assign
+   * it to the web admin GUI or a web-auth parameter map and save the configuration
+   */
+  async deployCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData,
+    options: WlcDeployOptions
+  ): Promise<WlcDeployResponse> {
+    let trustpoint = '';
+
+    try {
+      if (!certificateData.privateKey) {
+        throw new Error('The private key of the certificate is required');
+      }
+      trustpoint = getTrustpointName(certificateData.certificate);
+      const file = `bootflash:${trustpoint}.p12`;
+      const passphrase = crypto.randomBytes(16).toString('hex');
+      const bundle = createPkcs12(certificateData.privateKey, certificateData.certificate, certificateData.caCertificates || [], passphrase);
+
+      Logger.info(`Copying PKCS#12 bundle for trustpoint ${trustpoint} to WLC: ${hostname}`);
+      await this.connectSSH(hostname, username, password);
+      try {
+        await this.sshClient.copyFile(file, bundle);
+      } catch (error: any) {
+        throw new Error(`${error.message}. Check that 'ip scp server enable' is configured`);
+      } finally {
+        await this.disconnectSSH();
+      }
+
+      Logger.info(`Importing trustpoint ${trustpoint} for ${options.trustpoint} on WLC: ${hostname}`);
+      const result = await SSHClient.executeShellSession({
+        hostname,
+        username,
+        password,
+        steps: this.getDeployCommands(trustpoint, file, passphrase, options),
+        promptPattern: PROMPT_PATTERN
+      });
+
+      if (!result.success) {
+        if (USER_EXEC_PROMPT_PATTERN.test(result.output)) {
+          throw new Error(`${username} logs in to user EXEC mode, importing certificates needs a privilege 15 account`);
+        }
+        throw new Error(result.error || 'The CLI session failed');
+      }
+
+      const failedStep = result.stepOutputs.find(output => ERROR_PATTERN.test(output));
+      if (failedStep) {
+        const errorLine = failedStep.split(/\r?\n/).find(line => ERROR_PATTERN.test(line))!.trim();
+        throw new Error(`${hostname} rejected the configuration: ${errorLine}`);
+      }
+
+      const assignedTo = options.trustpoint === 'web-admin'
+        ? 'the web admin GUI'
+        : `web-auth parameter map ${options.parameterMap || DEFAULT_WLC_PARAMETER_MAP}`;
+      return {
+        success: true,
+        message: `Certificate imported into trustpoint ${trustpoint} and assigned to ${assignedTo}`,
+        trustpoint
+      };
+    } catch (error: any) {
+      Logger.error(`Failed to deploy certificate to WLC ${hostname}:`, error);
+      return {
+        success: false,
+        message: error.message || 'Failed to deploy certificate',
+        trustpoint
+      };
+    }
+  }
+
+  async uploadIdentityCertificate(
+    hostname: string,
+    username: string,
+    password: string,
+    certificateData: CertificateData
+  ): Promise<CertificateUploadResponse> {
+    const { success, message } = await this.deployCertificate(hostname, username, password, certificateData, { trustpoint: 'web-admin' });
+    return { success, message };
+  }
+
+  async uploadTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string,
+    caCertificates: string[]
+  ): Promise<CertificateUploadResponse> {
+    // The chain is part of the PKCS#12 bundle
+    return {
+      success: true,
+      message: `The chain is imported with the certificate, ${caCertificates.length} CA certificate(s) not uploaded separately`
+    };
+  }
+
+  async getTrustCertificates(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<string[]> {
+    // The controller lists trustpoint certificates without their PEM
+    return [];
+  }
+
+  async restartServices(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    // The assignments take effect when they are configured
+    Logger.info(`No restart needed for WLC ${hostname}`);
+    return true;
+  }
+
+  async validateConnection(
+    hostname: string,
+    username: string,
+    password: string
+  ): Promise<boolean> {
+    const result = await SSHClient.executeShellSession({
+      hostname,
+      username,
+      password,
+      steps: [['terminal length 0'], ['show version']],
+      promptPattern: PROMPT_PATTERN,
+      timeout: 30000
+    });
+    if (!result.success) {
+      Logger.error(`Failed to validate WLC connection ${hostname}: ${result.error}`);
+    }
+    return result.success;
+  }
+}
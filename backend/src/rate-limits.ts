@@ -0,0 +1,204 @@
+import { DatabaseManager } from './database';
+import { getAcmeEnvironment } from './acme-environment';
+import { AcmeRateLimits, getAcmeCaDefinition, getAcmeCaId, loadAcmeCaSettings } from './ssl-providers/registry';
+import { getDomainFromConnection } from './utils/domain-utils';
+import { AcmeEnvironment, ConnectionRecord, IssuedCertificateRecord } from './types';
+
+/**
+ * Issuance budget of a CA's rate limits (e.g. Let's Encrypt's 50 certificates
+ * per registered domain and 5 duplicate certificates per week), counted from
+ * the certificates table. Limits only apply in production.
+ */
+
+export type RateLimitAction = 'block' | 'warn';
+
+export interface ResolvedRateLimits extends AcmeRateLimits {
+  action: RateLimitAction;
+}
+
+export interface RateLimitUsage {
+  // What the limit counts: a registered domain or the set of names
+  key: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the oldest counted certificate leaves the window
+  resetsAt: string | null;
+}
+
+export interface RateLimitBudget {
+  caId: string;
+  caName: string;
+  environment: AcmeEnvironment;
+  windowDays: number;
+  action: RateLimitAction;
+  registeredDomains: RateLimitUsage[];
+  duplicates: RateLimitUsage | null;
+  // Renewals of a set of names issued before don't count against the per-domain limit
+  renewal: boolean;
+  // Certificates a renewal orders for the names, one per VOS service or WLC trustpoint
+  orders: number;
+  // Why a new order would go over a limit, null when it can go ahead
+  blocked: string | null;
+  warnings: string[];
+}
+
+// Second-level labels country TLDs register domains under, e.g. example.co.uk
+const SECOND_LEVEL_SUFFIXES = new Set(['ac', 'co', 'com', 'edu', 'gov', 'net', 'org']);
+
+/**
+ * The registered domain of a name, approximating the Public Suffix List with
+ * the last two labels, or three under suffixes like co.uk
+ */
+export function getRegisteredDomain(name: string): string {
+  const labels = name.toLowerCase().replace(/^\*\./, '').replace(/\.$/, '').split('.');
+  if (labels.length <= 2) {
+    return labels.join('.');
+  }
+  const tld = labels[labels.length - 1];
+  const secondLevel = labels[labels.length - 2];
+  return labels.slice(tld.length === 2 && SECOND_LEVEL_SUFFIXES.has(secondLevel) ? -3 : -2).join('.');
+}
+
+export function getNameSetKey(names: string[]): string {
+  return [...new Set(names.map(name => name.toLowerCase()))].sort().join(',');
+}
+
+// Names ordered for a connection, the FQDN followed by its alt names
+export function getOrderDomains(connection: ConnectionRecord): string[] {
+  const altNames = connection.alt_names
+    ? connection.alt_names.split(',').map(name => name.trim()).filter(name => name.length > 0)
+    : [];
+  return [`${connection.hostname}.${connection.domain}`, ...altNames];
+}
+
+// SQLite timestamps are UTC without a zone designator
+function parseTimestamp(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function getUsage(key: string, limit: number, counted: Pick<IssuedCertificateRecord, 'created_at'>[], windowMs: number): RateLimitUsage {
+  const oldest = counted[0]?.created_at ? parseTimestamp(counted[0].created_at) : null;
+  return {
+    key,
+    limit,
+    used: counted.length,
+    remaining: Math.max(limit - counted.length, 0),
+    resetsAt: oldest ? new Date(oldest.getTime() + windowMs).toISOString() : null
+  };
+}
+
+// Warn once a fifth of the budget is left, or the last certificate
+const isClose = (usage: RateLimitUsage): boolean => usage.remaining <= Math.max(1, Math.floor(usage.limit / 5));
+
+/**
+ * Budget left for ordering `names` `orders` times, given the certificates the
+ * CA issued in the window (oldest first)
+ */
+export function evaluateRateLimits(
+  names: string[],
+  issued: Pick<IssuedCertificateRecord, 'sans' | 'created_at'>[],
+  limits: ResolvedRateLimits,
+  renewal: boolean,
+  orders: number = 1
+): Pick<RateLimitBudget, 'registeredDomains' | 'duplicates' | 'blocked' | 'warnings'> {
+  const windowMs = limits.windowDays * 24 * 60 * 60 * 1000;
+  const registeredDomains: RateLimitUsage[] = [];
+  const exhausted: string[] = [];
+  const warnings: string[] = [];
+
+  if (limits.certificatesPerDomain > 0) {
+    for (const domain of [...new Set(names.map(getRegisteredDomain))]) {
+      const counted = issued.filter(certificate => certificate.sans.some(name => getRegisteredDomain(name) === domain));
+      const usage = getUsage(domain, limits.certificatesPerDomain, counted, windowMs);
+      registeredDomains.push(usage);
+      if (usage.remaining === 0 && !renewal) {
+        exhausted.push(`${usage.used} of ${usage.limit} certificates for ${domain} issued in the last ${limits.windowDays} days`);
+      } else if (isClose(usage) && !renewal) {
+        warnings.push(`${usage.remaining} of ${usage.limit} certificates left for ${domain}`);
+      }
+    }
+  }
+
+  let duplicates: RateLimitUsage | null = null;
+  if (limits.duplicateCertificates > 0) {
+    const key = getNameSetKey(names);
+    const counted = issued.filter(certificate => getNameSetKey(certificate.sans) === key);
+    duplicates = getUsage(key, limits.duplicateCertificates, counted, windowMs);
+    // Every order of the renewal is a duplicate of the same names
+    const needed = orders > 1 ? `, this renewal orders ${orders}` : '';
+    if (duplicates.remaining < orders) {
+      exhausted.push(`${duplicates.used} of ${duplicates.limit} duplicate certificates for ${names.join(', ')} issued in the last ${limits.windowDays} days${needed}`);
+    } else if (isClose({ ...duplicates, remaining: duplicates.remaining - orders + 1 })) {
+      warnings.push(`${duplicates.remaining} of ${duplicates.limit} duplicate certificates left for ${names.join(', ')}${needed}`);
+    }
+  }
+
+  if (exhausted.length > 0 && limits.action === 'warn') {
+    warnings.unshift(...exhausted.map(limit => `Rate limit reached: ${limit}`));
+  }
+
+  return {
+    registeredDomains,
+    duplicates,
+    blocked: exhausted.length > 0 && limits.action === 'block' ? `Rate limit reached: ${exhausted.join('; ')}` : null,
+    warnings
+  };
+}
+
+const parseLimit = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+/**
+ * Limits of a CA, from its `_RATE_LIMIT_*` settings or the published defaults
+ */
+export async function resolveRateLimits(database: DatabaseManager, caId: string): Promise<ResolvedRateLimits> {
+  const definition = getAcmeCaDefinition(caId);
+  if (!definition) {
+    throw new Error(`Unsupported SSL provider: ${caId}`);
+  }
+
+  const settings = await loadAcmeCaSettings(database, caId);
+  const prefix = definition.settingsPrefix;
+  const defaults = definition.rateLimits;
+  return {
+    certificatesPerDomain: parseLimit(settings[`${prefix}_RATE_LIMIT_PER_DOMAIN`], defaults?.certificatesPerDomain ?? 0),
+    duplicateCertificates: parseLimit(settings[`${prefix}_RATE_LIMIT_DUPLICATES`], defaults?.duplicateCertificates ?? 0),
+    windowDays: parseLimit(settings[`${prefix}_RATE_LIMIT_WINDOW_DAYS`], defaults?.windowDays ?? 7) || 7,
+    action: settings[`${prefix}_RATE_LIMIT_ACTION`]?.toLowerCase() === 'warn' ? 'warn' : 'block'
+  };
+}
+
+export async function getRateLimitBudget(database: DatabaseManager, connection: ConnectionRecord, orders: number = 1, now: Date = new Date()): Promise<RateLimitBudget> {
+  const caId = getAcmeCaId(connection);
+  const environment = getAcmeEnvironment(connection);
+  const limits = await resolveRateLimits(database, caId);
+  const budget: RateLimitBudget = {
+    caId,
+    caName: getAcmeCaDefinition(caId)?.name || caId,
+    environment,
+    windowDays: limits.windowDays,
+    action: limits.action,
+    registeredDomains: [],
+    duplicates: null,
+    renewal: false,
+    orders,
+    blocked: null,
+    warnings: []
+  };
+
+  if (environment !== 'production' || !getDomainFromConnection(connection)) {
+    return budget;
+  }
+
+  const names = getOrderDomains(connection);
+  const key = getNameSetKey(names);
+  budget.renewal = (await database.getCertificateHistory(connection.id!))
+    .some(certificate => certificate.ca_id === caId && certificate.environment === environment && getNameSetKey(certificate.sans) === key);
+
+  const since = new Date(now.getTime() - limits.windowDays * 24 * 60 * 60 * 1000);
+  const issued = await database.getCertificatesIssuedSince(caId, environment, since);
+  return { ...budget, ...evaluateRateLimits(names, issued, limits, budget.renewal, orders) };
+}
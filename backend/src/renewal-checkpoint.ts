@@ -0,0 +1,88 @@
+import { DnsRecord } from './dns-providers/dns-provider';
+import { getAcmeEnvironment } from './acme-environment';
+import { getAcmeCaId } from './ssl-providers/registry';
+import { AcmeChallengeType, AcmeEnvironment, ConnectionRecord } from './types';
+
+/**
+ * Renewal checkpoints: what an in-flight renewal has done so far, saved after
+ * each step so a renewal interrupted by a restart can be resumed from its
+ * ACME order or rolled back (challenge records removed, renewal failed).
+ */
+export type RenewalCheckpointStep = 'order_created' | 'challenges_published' | 'challenges_submitted' | 'certificate_issued';
+
+export interface RenewalCheckpoint {
+  renewalId: string;
+  connectionId: number;
+  step: RenewalCheckpointStep;
+  caId: string;
+  environment: AcmeEnvironment;
+  orderUrl: string;
+  challengeType: AcmeChallengeType;
+  challenges: { domain: string; type: string; url: string; token: string }[];
+  // TXT records published through the DNS provider for `domain`
+  dnsRecords?: { provider: string; domain: string; records: DnsRecord[] };
+  // HTTP-01 tokens published for the connection
+  httpTokens?: string[];
+  // The interrupted renewal this one resumed; a renewal is only resumed once
+  resumedFrom?: string;
+  // The renewal ended without removing all of its DNS records; the checkpoint is
+  // kept so a later renewal or restart can remove them
+  finished?: boolean;
+}
+
+export type RecoveryAction = 'resume' | 'rollback';
+
+const STEP_DESCRIPTIONS: Record<RenewalCheckpointStep, string> = {
+  order_created: 'setting up ACME challenges',
+  challenges_published: 'waiting for ACME challenges to propagate',
+  challenges_submitted: 'waiting for the CA to validate ACME challenges',
+  certificate_issued: 'installing the issued certificate'
+};
+
+export function describeInterruptedStep(checkpoint?: RenewalCheckpoint | null): string {
+  return checkpoint ? STEP_DESCRIPTIONS[checkpoint.step] || checkpoint.step : 'preparing the certificate request';
+}
+
+/**
+ * Resume only renewals that reached an ACME order on the connection's current
+ * CA and environment, and weren't themselves resumed already.
+ */
+export function getRecoveryAction(checkpoint: RenewalCheckpoint | null | undefined, connection: ConnectionRecord | null): RecoveryAction {
+  if (!checkpoint || !connection || !checkpoint.orderUrl || checkpoint.resumedFrom) {
+    return 'rollback';
+  }
+  if (getAcmeCaId(connection) !== checkpoint.caId || getAcmeEnvironment(connection) !== checkpoint.environment) {
+    return 'rollback';
+  }
+  return 'resume';
+}
+
+export function getRecoveryReason(checkpoint: RenewalCheckpoint | null | undefined, action: RecoveryAction, cleanup: string[]): string {
+  const parts = [`Interrupted by a backend restart while ${describeInterruptedStep(checkpoint)}`];
+  parts.push(...cleanup);
+  parts.push(action === 'resume' ? 'resumed as a new renewal from the existing ACME order' : 'start the renewal again when ready');
+  return `${parts.join('; ')}.`;
+}
+
+const normalizeRecordName = (name: string) => name.toLowerCase().replace(/\.$/, '');
+
+/**
+ * TXT records at `names` published through `provider` by renewals that are no
+ * longer running, by checkpoint. Records of renewals still in flight are left
+ * alone, so overlapping orders on one zone never remove each other's values.
+ */
+export function getStaleChallengeRecords(
+  checkpoints: RenewalCheckpoint[],
+  provider: string,
+  names: string[],
+  isRunning: (renewalId: string) => boolean
+): { checkpoint: RenewalCheckpoint; records: DnsRecord[] }[] {
+  const wanted = new Set(names.map(normalizeRecordName));
+  return checkpoints
+    .filter(checkpoint => checkpoint.dnsRecords?.provider === provider && !isRunning(checkpoint.renewalId))
+    .map(checkpoint => ({
+      checkpoint,
+      records: checkpoint.dnsRecords!.records.filter(record => wanted.has(normalizeRecordName(record.name)))
+    }))
+    .filter(entry => entry.records.length > 0);
+}
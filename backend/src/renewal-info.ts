@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { contentOf, readChildren, readElement } from './utils/der';
+
+/**
+ * ACME Renewal Information (ARI, RFC 9773): the CA's suggested renewal window
+ * for an issued certificate. A renewal is scheduled at a random point inside
+ * the window so connections renewing from the same CA don't all hit it at once.
+ */
+export interface RenewalWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface AcmeRenewalInfo {
+  certId: string;
+  window: RenewalWindow;
+  explanationUrl?: string;
+  // When the CA asks to be polled again
+  retryAfter: Date;
+}
+
+// How long to wait before polling again when the CA doesn't send Retry-After
+export const DEFAULT_ARI_RETRY_HOURS = 6;
+
+const AUTHORITY_KEY_IDENTIFIER_OID = Buffer.from([0x55, 0x1d, 0x23]);
+
+/**
+ * The ARI certificate identifier: base64url of the authority key identifier
+ * and of the DER serial number, joined with a dot
+ */
+export function getAriCertId(certificatePem: string): string {
+  const der = new crypto.X509Certificate(certificatePem).raw;
+  const tbsCertificate = readChildren(der, readElement(der, 0))[0];
+  const fields = readChildren(der, tbsCertificate);
+
+  // An explicit version ([0]) comes before the serial number
+  const serial = fields[0].tag === 0xa0 ? fields[1] : fields[0];
+  const extensions = fields.find(field => field.tag === 0xa3);
+  if (!extensions) {
+    throw new Error('Certificate has no extensions');
+  }
+
+  for (const extension of readChildren(der, readChildren(der, extensions)[0])) {
+    const [oid, ...rest] = readChildren(der, extension);
+    if (!contentOf(der, oid).equals(AUTHORITY_KEY_IDENTIFIER_OID)) {
+      continue;
+    }
+    // extnValue is the last field, after the optional critical flag
+    const value = rest[rest.length - 1];
+    const authorityKeyIdentifier = readElement(der, value.contentStart);
+    const keyIdentifier = readChildren(der, authorityKeyIdentifier).find(field => field.tag === 0x80);
+    if (keyIdentifier) {
+      return `${contentOf(der, keyIdentifier).toString('base64url')}.${contentOf(der, serial).toString('base64url')}`;
+    }
+  }
+  throw new Error('Certificate has no authority key identifier');
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | undefined, now: Date = new Date()): Date {
+  const fallback = new Date(now.getTime() + DEFAULT_ARI_RETRY_HOURS * 3600000);
+  if (!header) {
+    return fallback;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return new Date(now.getTime() + parseInt(header.trim(), 10) * 1000);
+  }
+  const date = new Date(header);
+  return isNaN(date.getTime()) ? fallback : date;
+}
+
+export function pickRenewalTime(window: RenewalWindow, random: () => number = Math.random): Date {
+  const start = window.start.getTime();
+  const end = Math.max(window.end.getTime(), start);
+  return new Date(start + Math.floor(random() * (end - start)));
+}
+
+/**
+ * Renew once the scheduled time has passed, or when it falls before the next
+ * check and would otherwise be missed
+ */
+export function isRenewalDue(scheduledAt: Date, now: Date = new Date(), nextCheck?: Date | null): boolean {
+  if (scheduledAt.getTime() <= now.getTime()) {
+    return true;
+  }
+  return !!nextCheck && scheduledAt.getTime() < nextCheck.getTime();
+}
@@ -0,0 +1,130 @@
+import { Logger } from './logger';
+
+export const DEFAULT_RENEWAL_CONCURRENCY = 4;
+
+export interface RenewalJob {
+  id: string;
+  connectionId: number;
+  run(): Promise<void>;
+}
+
+interface QueuedJob extends RenewalJob {
+  resolve(): void;
+  reject(error: Error): void;
+}
+
+/**
+ * Bounded queue for certificate renewals. Up to `concurrency` jobs run at once,
+ * the rest wait in order. Each job owns its ACME client and DNS state, so the
+ * only thing shared between running jobs is the per-zone lock that serializes
+ * changes to the same DNS zone.
+ */
+export class RenewalQueue {
+  private concurrency: number;
+  private pending: QueuedJob[] = [];
+  private running: Set<string> = new Set();
+  private zoneLocks: Map<string, Promise<void>> = new Map();
+
+  constructor(concurrency: number = DEFAULT_RENEWAL_CONCURRENCY) {
+    this.concurrency = concurrency;
+  }
+
+  setConcurrency(concurrency: number): void {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      Logger.warn(`Ignoring invalid renewal concurrency: ${concurrency}`);
+      return;
+    }
+    this.concurrency = concurrency;
+    this.dispatch();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Queue a job; resolves or rejects with the job once it has run
+   */
+  enqueue(job: RenewalJob): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.pending.push({ id: job.id, connectionId: job.connectionId, run: () => job.run(), resolve, reject });
+      Logger.info(`Queued renewal ${job.id} for connection ${job.connectionId} (${this.pending.length} waiting, ${this.running.size} running)`);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Remove a job that hasn't started; its promise rejects with the given reason
+   */
+  cancel(id: string, reason: string = 'Operation cancelled by user'): boolean {
+    const index = this.pending.findIndex(job => job.id === id);
+    if (index === -1) {
+      return false;
+    }
+    const [job] = this.pending.splice(index, 1);
+    job.reject(new Error(reason));
+    return true;
+  }
+
+  // 1-based position among waiting jobs, 0 when running or unknown
+  getPosition(id: string): number {
+    return this.pending.findIndex(job => job.id === id) + 1;
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  getStats(): { pending: number; running: number; concurrency: number } {
+    return { pending: this.pending.length, running: this.running.size, concurrency: this.concurrency };
+  }
+
+  /**
+   * Run `task` once no other task holds the lock for `zone`
+   */
+  async withZoneLock<T>(zone: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.zoneLocks.get(zone) || Promise.resolve();
+    let release: () => void = () => undefined;
+    const current = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.zoneLocks.set(zone, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      // Drop the entry once nobody is queued behind this task
+      if (this.zoneLocks.get(zone) === tail) {
+        this.zoneLocks.delete(zone);
+      }
+    }
+  }
+
+  private dispatch(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running.add(job.id);
+
+      // Free the slot before settling, so a finished job is never counted as running
+      const finish = () => {
+        this.running.delete(job.id);
+        this.dispatch();
+      };
+      job.run().then(
+        () => {
+          finish();
+          job.resolve();
+        },
+        error => {
+          finish();
+          job.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      );
+    }
+  }
+}
+
+export const renewalQueue = new RenewalQueue();
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { DatabaseManager } from './database';
+import { encryptionManager, generateMasterKey, getMasterKeyFilePath, getKeyId, parseMasterKey } from './encryption';
+import { transformAccountFiles } from './migrate-encryption';
+
+// Script to rotate the encryption master key. Data keys are re-wrapped with the new
+// master key; the encrypted secrets themselves are not re-encrypted.
+async function rotateEncryptionKey() {
+  const dbPath = path.join(__dirname, '..', 'db', 'database.db');
+  const accountsDir = path.resolve(process.env.ACCOUNTS_DIR || path.join(__dirname, '..', 'accounts'));
+
+  // Use the same table columns as the server
+  const TABLE_COLUMNS = (process.env.TABLE_COLUMNS || 'application_type,ise_application_subtype,name,hostname,username,password,domain,ise_nodes,ise_certificate,ise_private_key,custom_csr,general_private_key,ise_cert_import_config,ssl_provider,dns_provider,alt_names,enable_ssh,auto_restart_service,auto_renew')
+    .split(',')
+    .map(col => col.trim());
+
+  const usingKeyFile = !process.env.ENCRYPTION_KEY;
+  const keyFile = getMasterKeyFilePath();
+  const newKeyValue = process.env.NEW_ENCRYPTION_KEY || generateMasterKey();
+  const newKey = parseMasterKey(newKeyValue);
+
+  if (getKeyId(newKey) === encryptionManager.keyId) {
+    console.error('The new master key is the same as the current one');
+    process.exit(1);
+  }
+
+  // Persist the new key before touching any data so an interrupted rotation can be resumed
+  if (usingKeyFile) {
+    fs.writeFileSync(`${keyFile}.pending`, newKeyValue + '\n', { mode: 0o600 });
+  }
+
+  const rotated = encryptionManager.withMasterKey(newKey);
+  const database = new DatabaseManager(dbPath, TABLE_COLUMNS);
+
+  try {
+    // Wait a moment for database initialization
+    await new Promise(resolve => setTimeout(resolve, 1000));
+
+    console.log(`Rotating master key ${encryptionManager.keyId} -> ${rotated.keyId}`);
+
+    const secretCount = await database.transformStoredSecrets(value => rotated.rewrap(value));
+    console.log(`Re-wrapped ${secretCount} stored secrets`);
+
+    const fileCount = await transformAccountFiles(accountsDir, value => rotated.rewrap(value));
+    console.log(`Re-wrapped ${fileCount} key files in ${accountsDir}`);
+
+    if (usingKeyFile) {
+      fs.renameSync(keyFile, `${keyFile}.previous`);
+      fs.renameSync(`${keyFile}.pending`, keyFile);
+      console.log(`\nNew master key written to ${keyFile}`);
+      console.log(`The old key was kept at ${keyFile}.previous. Delete it once the server starts cleanly.`);
+    } else {
+      console.log('\nUpdate your environment and restart the server:');
+      console.log(`  ENCRYPTION_KEY=${newKeyValue}`);
+    }
+  } catch (error) {
+    console.error('Key rotation failed:', error);
+    if (usingKeyFile) {
+      console.error(`The new key is kept at ${keyFile}.pending; run the rotation again to finish.`);
+    }
+    process.exit(1);
+  }
+
+  process.exit(0);
+}
+
+// Run the script
+rotateEncryptionKey();
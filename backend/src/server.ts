@@ -4,10 +4,10 @@ import dotenv from 'dotenv';
 import fs from 'fs';
 import path from 'path';
 import { createServer } from 'http';
-import { DatabaseManager } from './database';
-import { validateConnectionData, sanitizeConnectionData } from './validation';
+import { DatabaseManager, ENCRYPTED_CONNECTION_FIELDS } from './database';
+import { validateConnectionData, sanitizeConnectionData, validateUserData, validateApiTokenData } from './validation';
 import { Logger } from './logger';
-import { ConnectionRecord, ApiResponse } from './types';
+import { ConnectionRecord, ApiResponse, RevocationSigner } from './types';
 import { getCertificateInfoWithFallback } from './certificate';
 import { certificateRenewalService } from './certificate-renewal';
 import { accountManager } from './account-manager';
@@ -17,11 +17,29 @@ import { autoRenewalCron } from './auto-renewal-cron';
 import { LetsEncryptAccountChecker } from './letsencrypt-account-check';
 import { getDomainFromConnection } from './utils/domain-utils';
 import { migrateAccountFiles } from './migrate-accounts';
+import { encryptSecretsAtRest } from './migrate-encryption';
+import { encryptionManager, isSecretAccountFile } from './encryption';
 import { initializeWebSocket } from './websocket-server';
 import { OperationStatusManager } from './services/operation-status-manager';
 import { PlatformFactory } from './platform-providers/platform-factory';
 import { ISEProvider } from './platform-providers/ise-provider';
 import { downloadAllRootCertificates, checkRootCertificates } from './utils/download-root-certs';
+import { AuthManager, requireRole, hasRole, isAuthorized, canAccessConnection, getSessionToken } from './auth';
+import { AuditLogger, getRequestActor } from './audit';
+import { createDnsProvider, getDnsProviderDefinition } from './dns-providers/registry';
+import { checkChallengeDelegation, getChallengeDelegate, getChallengeDnsProvider } from './dns-providers/delegation';
+import { getAcmeEnvironment } from './acme-environment';
+import { getAcmeCaDefinition, getAcmeCaId } from './ssl-providers/registry';
+import { HTTP_CHALLENGE_PATH, httpChallengeResponder, isValidChallengeToken } from './http-challenge';
+import { getMissingSettings, getSettingsProvider, listSettingsProviders } from './settings-providers';
+import { CERTIFICATE_VERSION_FILES, getCertificateVersionFile, getRedeployBlocker, loadCurrentCertificates } from './certificate-history';
+import { KEY_ALGORITHMS, describeCsr, generateKeyAndCsr, getCertificateIdentities } from './key-parameters';
+import { VOS_CERTIFICATE_SERVICES, getRestartServices } from './platform-providers/vos-services';
+import { WLC_TRUSTPOINTS, isWlcTrustpoint } from './platform-providers/wlc-provider';
+import { getOrderDomains, getRateLimitBudget } from './rate-limits';
+import { discoverClusterNodes, getClusterConnection, verifyCluster } from './vos-cluster';
+import { getExpresswayConnection } from './expressway-mra';
+import { REVOCATION_REASONS, REVOCATION_SIGNERS, archiveRevokedCertificate, generatesNewKey, isRevocationReason, loadIssuedCertificate, revokeIssuedCertificate } from './certificate-revocation';
 
 dotenv.config({ path: '../.env' });
 
@@ -39,12 +57,18 @@ const database = new DatabaseManager('./db/database.db', TABLE_COLUMNS);
 // Initialize operation status manager
 const operationManager = new OperationStatusManager(database);
 
+// Initialize authentication (users, sessions, roles)
+const authManager = new AuthManager(database);
+
+// Initialize audit trail
+const auditLogger = new AuditLogger(database);
+
 // Set database on certificate renewal service
 (certificateRenewalService as any).setDatabase(database);
 
 // Set database on auto-renewal cron service and start it
 (autoRenewalCron as any).database = database;
-autoRenewalCron.start();
+const autoRenewalStarted = autoRenewalCron.start();
 
 // Middleware
 app.use(cors({
@@ -87,13 +111,314 @@ const asyncHandler = (fn: Function) => (req: Request, res: Response, next: NextF
   Promise.resolve(fn(req, res, next)).catch(next);
 };
 
+// Settings providers that contain no credentials and are readable by every role
+const PUBLIC_SETTINGS_PROVIDERS = ['renewal'];
+
+const redactConnectionForUser = (connection: ConnectionRecord, req: Request): ConnectionRecord => {
+  if (hasRole(req.user, 'admin')) {
+    return connection;
+  }
+
+  // Only admins read back the fields encrypted at rest, which include the key in a custom CSR
+  const redacted: any = { ...connection };
+  for (const field of ENCRYPTED_CONNECTION_FIELDS) {
+    if (redacted[field]) {
+      redacted[field] = '';
+    }
+  }
+  return redacted;
+};
+
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// HTTP-01 challenge responder, reached through a reverse proxy on the certificate's host
+app.get(`${HTTP_CHALLENGE_PATH}/:token`, (req: Request, res: Response) => {
+  const keyAuthorization = isValidChallengeToken(req.params.token) ? httpChallengeResponder.get(req.params.token) : undefined;
+  if (!keyAuthorization) {
+    res.status(404).type('text/plain').send('Not found');
+    return;
+  }
+  res.type('text/plain').send(keyAuthorization);
+});
+
+// Authentication endpoints (reachable without a session)
+app.get('/api/auth/status', asyncHandler(async (req: Request, res: Response) => {
+  const setupRequired = await authManager.isSetupRequired();
+  return res.json({ setupRequired });
+}));
+
+// Create the first admin account when no users exist yet
+app.post('/api/auth/setup', asyncHandler(async (req: Request, res: Response) => {
+  if (!(await authManager.isSetupRequired())) {
+    return res.status(409).json({ error: 'Initial setup has already been completed' });
+  }
+
+  const validation = validateUserData({ ...req.body, role: 'admin' });
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: validation.errors
+    });
+  }
+
+  await database.createUser(req.body.username, req.body.password, 'admin');
+  const session = await authManager.login(req.body.username, req.body.password, req.ip, req.get('User-Agent'));
+  if (!session) {
+    return res.status(500).json({ error: 'Failed to create session for new admin account' });
+  }
+
+  authManager.setSessionCookie(res, session.token, session.expiresAt);
+  return res.status(201).json({ user: session.user, expiresAt: session.expiresAt.toISOString() });
+}));
+
+app.post('/api/auth/login', asyncHandler(async (req: Request, res: Response) => {
+  const { username, password } = req.body;
+
+  if (!username || !password || typeof username !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'username and password are required' });
+  }
+
+  const session = await authManager.login(username, password, req.ip, req.get('User-Agent'));
+  if (!session) {
+    await auditLogger.record(req, {
+      action: 'auth.login_failed',
+      targetType: 'user',
+      targetName: username
+    });
+    return res.status(401).json({ error: 'Invalid username or password' });
+  }
+
+  req.user = session.user;
+  await auditLogger.record(req, {
+    action: 'auth.login',
+    targetType: 'user',
+    targetId: session.user.id,
+    targetName: session.user.username
+  });
+
+  authManager.setSessionCookie(res, session.token, session.expiresAt);
+  return res.json({ user: session.user, expiresAt: session.expiresAt.toISOString() });
+}));
+
+app.post('/api/auth/logout', asyncHandler(async (req: Request, res: Response) => {
+  const token = getSessionToken(req.headers);
+  if (token) {
+    await authManager.logout(token);
+  }
+
+  authManager.clearSessionCookie(res);
+  return res.status(204).send();
+}));
+
+// Every other API route requires an authenticated session or API token
+app.use('/api', authManager.authenticate);
+
+app.get('/api/auth/me', (req: Request, res: Response) => {
+  res.json({ user: req.user, token: req.apiToken });
+});
+
+// User management endpoints
+app.get('/api/users', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const users = await database.getAllUsers();
+  return res.json(users.map(user => ({ ...user, is_enabled: Boolean(user.is_enabled) })));
+}));
+
+app.post('/api/users', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const validation = validateUserData(req.body);
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: validation.errors
+    });
+  }
+
+  if (await database.getUserByUsername(req.body.username)) {
+    return res.status(409).json({ error: 'A user with this username already exists' });
+  }
+
+  const id = await database.createUser(req.body.username, req.body.password, req.body.role);
+  Logger.info(`User ${req.body.username} (${req.body.role}) created by ${req.user!.username}`);
+  await auditLogger.record(req, {
+    action: 'user.create',
+    targetType: 'user',
+    targetId: id,
+    targetName: req.body.username,
+    after: { username: req.body.username, role: req.body.role, password: req.body.password }
+  });
+  return res.status(201).json({ id, message: 'User created successfully' });
+}));
+
+app.put('/api/users/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const { role, password, is_enabled } = req.body;
+  const validation = validateUserData({ role, password, is_enabled }, true);
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: validation.errors
+    });
+  }
+
+  // Prevent admins from locking themselves out
+  if (id === req.user!.id && ((role !== undefined && role !== 'admin') || is_enabled === false)) {
+    return res.status(400).json({ error: 'You cannot demote or disable your own account' });
+  }
+
+  const existing = await database.getUserById(id);
+  if (!existing) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  await database.updateUser(id, { role, password, is_enabled });
+  await auditLogger.record(req, {
+    action: 'user.update',
+    targetType: 'user',
+    targetId: id,
+    targetName: existing.username,
+    before: { role: existing.role, is_enabled: existing.is_enabled },
+    after: { role, is_enabled },
+    details: password !== undefined ? 'Password reset' : undefined
+  });
+
+  // Force re-login when credentials or permissions change
+  if (password !== undefined || (role !== undefined && role !== existing.role) || is_enabled === false) {
+    await database.deleteSessionsForUser(id);
+  }
+
+  return res.json({ message: 'User updated successfully' });
+}));
+
+app.delete('/api/users/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  if (id === req.user!.id) {
+    return res.status(400).json({ error: 'You cannot delete your own account' });
+  }
+
+  const existing = await database.getUserById(id);
+  if (!existing) {
+    return res.status(404).json({ error: 'User not found' });
+  }
+
+  await database.deleteUser(id);
+  await auditLogger.record(req, {
+    action: 'user.delete',
+    targetType: 'user',
+    targetId: id,
+    targetName: existing.username,
+    before: { username: existing.username, role: existing.role }
+  });
+  return res.status(204).send();
+}));
+
+// API token management endpoints
+app.get('/api/tokens', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const tokens = await database.getAllApiTokens();
+  return res.json(tokens);
+}));
+
+app.post('/api/tokens', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const validation = validateApiTokenData(req.body);
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: validation.errors
+    });
+  }
+
+  const name = req.body.name.trim();
+  const connectionIds = req.body.connection_ids || null;
+  const expiresAt = req.body.expires_at ? new Date(req.body.expires_at).toISOString() : null;
+
+  const { id, token } = await authManager.createApiToken(name, req.body.scopes, connectionIds, req.user!.id, expiresAt);
+  Logger.info(`API token ${name} (${req.body.scopes.join(', ')}) created by ${req.user!.username}`);
+  await auditLogger.record(req, {
+    action: 'token.create',
+    targetType: 'api_token',
+    targetId: id,
+    targetName: name,
+    after: { scopes: req.body.scopes, connection_ids: connectionIds, expires_at: expiresAt }
+  });
+
+  // The plaintext token is only returned once
+  return res.status(201).json({
+    id,
+    token,
+    name,
+    scopes: req.body.scopes,
+    connection_ids: connectionIds,
+    expires_at: expiresAt
+  });
+}));
+
+app.delete('/api/tokens/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  try {
+    await database.revokeApiToken(id);
+  } catch (error: any) {
+    if (error.code === 'NOT_FOUND') {
+      return res.status(404).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  Logger.info(`API token ${id} revoked by ${req.user!.username}`);
+  await auditLogger.record(req, {
+    action: 'token.revoke',
+    targetType: 'api_token',
+    targetId: id
+  });
+  return res.status(204).send();
+}));
+
+// Audit trail (admin only)
+app.get('/api/audit', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const pageSize = Math.min(200, Math.max(1, parseInt(req.query.pageSize as string) || 50));
+
+  // created_at is stored as SQLite's UTC 'YYYY-MM-DD HH:MM:SS'
+  const toSqliteDate = (value: unknown): string | undefined | null => {
+    if (typeof value !== 'string' || !value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString().replace('T', ' ').slice(0, 19);
+  };
+
+  const from = toSqliteDate(req.query.from);
+  const to = toSqliteDate(req.query.to);
+  if (from === null || to === null) {
+    return res.status(400).json({ error: 'Invalid date filter' });
+  }
+
+  const { events, total } = await database.getAuditEvents({
+    actor: req.query.actor as string | undefined,
+    action: req.query.action as string | undefined,
+    target_type: req.query.target_type as string | undefined,
+    target_id: req.query.target_id as string | undefined,
+    from,
+    to
+  }, pageSize, (page - 1) * pageSize);
+
+  return res.json({ events, total, page, pageSize });
+}));
+
 // Get all connections or specific connection by ID
-app.get('/api/data', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const id = req.query.id;
 
   if (id) {
@@ -103,19 +428,21 @@ app.get('/api/data', asyncHandler(async (req: Request, res: Response) => {
     }
 
     const connection = await database.getConnectionById(connectionId);
-    if (!connection) {
+    if (!connection || !canAccessConnection(req, connectionId)) {
       return res.status(404).json({ error: 'Connection not found' });
     }
     
-    return res.json(connection);
+    return res.json(redactConnectionForUser(connection, req));
   } else {
     const connections = await database.getAllConnections();
-    return res.json(connections);
+    return res.json(connections
+      .filter(connection => canAccessConnection(req, connection.id!))
+      .map(connection => redactConnectionForUser(connection, req)));
   }
 }));
 
 // Get connection certificate status
-app.get('/api/data/:id/cert-status', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/cert-status', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -133,8 +460,223 @@ app.get('/api/data/:id/cert-status', asyncHandler(async (req: Request, res: Resp
   });
 }));
 
+// Issuance budget left under the CA's rate limits for the connection's names
+app.get('/api/data/:id/rate-limits', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  // A cluster publisher's orders name every node, an Expressway-E's its MRA domains; each VOS service or WLC trustpoint is an order
+  const cluster = connection.application_type === 'vos' ? await database.getClusterByPublisher(id) : null;
+  const orderedConnection = getExpresswayConnection(getClusterConnection(connection, cluster));
+  return res.json(await getRateLimitBudget(database, orderedConnection, getCertificateIdentities(orderedConnection).length));
+}));
+
+// Expiry of each certificate a connection maintains, one per VOS certificate service or WLC trustpoint
+app.get('/api/data/:id/services', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  const current = await loadCurrentCertificates(connection);
+  return res.json(current.map(({ identity, details }) => ({
+    service: identity.service,
+    label: identity.service ? VOS_CERTIFICATE_SERVICES[identity.service]?.label || (isWlcTrustpoint(identity.service) ? WLC_TRUSTPOINTS[identity.service] : identity.service) : null,
+    primary: identity.primary,
+    key_algorithm: KEY_ALGORITHMS[identity.keyAlgorithm].label,
+    hash_algorithm: identity.hashAlgorithm,
+    restart_services: identity.service ? getRestartServices([identity.service]) : [],
+    serial_number: details?.serial_number || null,
+    not_after: details?.not_after || null,
+    days_remaining: details ? Math.floor((new Date(details.not_after).getTime() - Date.now()) / (24 * 60 * 60 * 1000)) : null
+  })));
+}));
+
+// Check the _acme-challenge CNAMEs for a connection that delegates its DNS-01 challenges
+app.get('/api/data/:id/dns-delegation', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  const target = getChallengeDelegate(connection);
+  if (!target) {
+    return res.json({ mode: connection.dns_challenge_mode || 'auto', target: null, provider: getChallengeDnsProvider(connection), checks: [] });
+  }
+
+  const altNames = connection.alt_names
+    ? connection.alt_names.split(',').map(name => name.trim()).filter(name => name.length > 0)
+    : [];
+  const domains = [...new Set<string>([`${connection.hostname}.${connection.domain}`, ...altNames].map(domain => domain.replace(/^\*\./, '')))];
+  const checks = await Promise.all(domains.map(domain => checkChallengeDelegation(domain, target)));
+
+  return res.json({
+    mode: 'delegated',
+    target,
+    provider: getChallengeDnsProvider(connection),
+    valid: checks.every(check => check.valid),
+    checks
+  });
+}));
+
+// Clusters, each renewed through the connection of its publisher
+app.get('/api/clusters', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const clusters = await database.getAllClusters();
+  return res.json(clusters.filter(cluster => canAccessConnection(req, cluster.publisher_id)));
+}));
+
+// The cluster a connection is the publisher of, null when it's a single node
+app.get('/api/data/:id/cluster', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  return res.json({
+    eligible: connection.application_type === 'vos',
+    cluster: await database.getClusterByPublisher(id)
+  });
+}));
+
+// Manage a VOS connection as the publisher of a cluster
+app.post('/api/data/:id/cluster', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+  if (connection.application_type !== 'vos') {
+    return res.status(400).json({
+      error: 'Clusters are only supported for VOS applications',
+      details: 'Only CUCM and IM&P publishers can manage a multi-server certificate for their cluster'
+    });
+  }
+  if (await database.getClusterByPublisher(id)) {
+    return res.status(409).json({ error: 'Connection is already the publisher of a cluster' });
+  }
+
+  const name = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : connection.name;
+  const clusterId = await database.createCluster(name, id);
+  const cluster = await database.getCluster(clusterId);
+  await auditLogger.record(req, {
+    action: 'cluster.create',
+    targetType: 'cluster',
+    targetId: clusterId,
+    targetName: name,
+    after: cluster,
+    details: `Publisher ${connection.hostname}.${connection.domain}`
+  });
+  return res.status(201).json(cluster);
+}));
+
+app.delete('/api/data/:id/cluster', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const cluster = await database.getClusterByPublisher(id);
+  if (!cluster) {
+    return res.status(404).json({ error: 'Cluster not found' });
+  }
+
+  await database.deleteCluster(cluster.id!);
+  await auditLogger.record(req, {
+    action: 'cluster.delete',
+    targetType: 'cluster',
+    targetId: cluster.id!,
+    targetName: cluster.name,
+    before: cluster
+  });
+  return res.status(204).send();
+}));
+
+// Discover the subscribers of a cluster from its publisher over SSH
+app.post('/api/data/:id/cluster/discover', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  const cluster = connection ? await database.getClusterByPublisher(id) : null;
+  if (!connection || !cluster) {
+    return res.status(404).json({ error: 'Cluster not found' });
+  }
+  if (!connection.enable_ssh) {
+    return res.status(400).json({
+      error: 'SSH not enabled for this connection',
+      details: 'Cluster nodes are discovered with \'show network cluster\' over SSH on the publisher'
+    });
+  }
+
+  let nodes;
+  try {
+    nodes = await discoverClusterNodes(connection);
+  } catch (error: any) {
+    Logger.error(`Failed to discover the nodes of cluster ${cluster.name}:`, error);
+    return res.status(502).json({ error: 'Failed to discover cluster nodes', details: error.message });
+  }
+
+  await database.saveClusterNodes(cluster.id!, nodes);
+  const updated = await database.getCluster(cluster.id!);
+  await auditLogger.record(req, {
+    action: 'cluster.discover',
+    targetType: 'cluster',
+    targetId: cluster.id!,
+    targetName: cluster.name,
+    before: cluster.nodes.map(node => node.hostname),
+    after: updated?.nodes.map(node => node.hostname),
+    details: `Discovered ${nodes.length} nodes`
+  });
+  return res.json(updated);
+}));
+
+// Check that every node of a cluster serves the current certificate
+app.post('/api/data/:id/cluster/verify', requireRole('operator', 'renew'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  const cluster = connection ? await database.getClusterByPublisher(id) : null;
+  if (!connection || !cluster) {
+    return res.status(404).json({ error: 'Cluster not found' });
+  }
+
+  const nodes = await verifyCluster(database, connection, cluster);
+  return res.json({ ...cluster, nodes });
+}));
+
 // Create new connection
-app.post('/api/data', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/data', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   // Validate input data
   const validation = validateConnectionData(req.body);
   if (!validation.isValid) {
@@ -147,23 +689,8 @@ app.post('/api/data', asyncHandler(async (req: Request, res: Response) => {
   // Check if required API keys exist for SSL and DNS providers
   const { ssl_provider, dns_provider } = req.body;
   
-  // Define required keys for each provider
-  const requiredKeys: Record<string, string[]> = {
-    'letsencrypt': ['LETSENCRYPT_EMAIL'],
-    'zerossl': ['ZEROSSL_KEY'],
-    'cloudflare': ['CF_KEY', 'CF_ZONE'],
-    'digitalocean': ['DO_KEY'],
-    'route53': ['AWS_ACCESS_KEY', 'AWS_SECRET_KEY', 'AWS_ZONE_ID'],
-    'azure': ['AZURE_SUBSCRIPTION_ID', 'AZURE_RESOURCE_GROUP', 'AZURE_ZONE_NAME'],
-    'google': ['GOOGLE_PROJECT_ID', 'GOOGLE_ZONE_NAME'],
-    'custom': ['CUSTOM_DNS_SERVER_1', 'CUSTOM_DNS_SERVER_2']
-  };
-  
   if (ssl_provider) {
-    const sslSettings = await database.getSettingsByProvider(ssl_provider);
-    const required = requiredKeys[ssl_provider] || [];
-    const existingKeys = sslSettings.map(s => s.key_name);
-    const missingKeys = required.filter(key => !existingKeys.includes(key));
+    const missingKeys = await getMissingSettings(database, ssl_provider);
     
     if (missingKeys.length > 0) {
       return res.status(400).json({
@@ -174,10 +701,7 @@ app.post('/api/data', asyncHandler(async (req: Request, res: Response) => {
   }
 
   if (dns_provider) {
-    const dnsSettings = await database.getSettingsByProvider(dns_provider);
-    const required = requiredKeys[dns_provider] || [];
-    const existingKeys = dnsSettings.map(s => s.key_name);
-    const missingKeys = required.filter(key => !existingKeys.includes(key));
+    const missingKeys = await getMissingSettings(database, dns_provider);
     
     if (missingKeys.length > 0) {
       return res.status(400).json({
@@ -204,32 +728,36 @@ app.post('/api/data', asyncHandler(async (req: Request, res: Response) => {
   });
   
   const connectionId = await database.createConnection(sanitizedData as ConnectionRecord);
+  await auditLogger.record(req, {
+    action: 'connection.create',
+    targetType: 'connection',
+    targetId: connectionId,
+    targetName: sanitizedData.name,
+    after: sanitizedData
+  });
   
-  // Pre-create Let's Encrypt account if using letsencrypt SSL provider
-  if (sanitizedData.ssl_provider === 'letsencrypt') {
+  // Pre-create the ACME account with the connection's CA
+  if (sanitizedData.ssl_provider) {
     try {
-      const { acmeClient } = await import('./acme-client');
+      const { createAcmeClient } = await import('./acme-client');
+      const acmeClient = await createAcmeClient(database, sanitizedData);
       const domain = `${sanitizedData.hostname}.${sanitizedData.domain}`;
       
       // Check if account already exists
       const existingAccount = await acmeClient.loadAccount(domain, connectionId);
       if (!existingAccount) {
-        Logger.info(`Pre-creating Let's Encrypt account for new connection: ${domain}`);
-        const sslSettings = await database.getSettingsByProvider('letsencrypt');
-        const email = sslSettings.find(s => s.key_name === 'LETSENCRYPT_EMAIL')?.key_value;
+        Logger.info(`Pre-creating ${acmeClient.getDirectory().caName} account for new connection: ${domain}`);
         
-        if (email) {
-          // Create account in background without blocking the response
-          acmeClient.createAccount(email, domain, connectionId).then(() => {
-            Logger.info(`Successfully pre-created Let's Encrypt account for ${domain}`);
-          }).catch((error) => {
-            Logger.error(`Failed to pre-create Let's Encrypt account for ${domain}:`, error);
-            // Don't fail the connection creation if account creation fails
-          });
-        }
+        // Create account in background without blocking the response
+        acmeClient.createAccount(domain, connectionId).then(() => {
+          Logger.info(`Successfully pre-created ACME account for ${domain}`);
+        }).catch((error) => {
+          Logger.error(`Failed to pre-create ACME account for ${domain}:`, error);
+          // Don't fail the connection creation if account creation fails
+        });
       }
     } catch (error) {
-      Logger.error('Error during Let\'s Encrypt account pre-creation:', error);
+      Logger.error('Error during ACME account pre-creation:', error);
       // Don't fail the connection creation if account setup fails
     }
   }
@@ -241,7 +769,7 @@ app.post('/api/data', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Duplicate connection
-app.post('/api/data/:id/duplicate', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/data/:id/duplicate', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -280,6 +808,14 @@ app.post('/api/data/:id/duplicate', asyncHandler(async (req: Request, res: Respo
 
   // Create the new connection
   const newId = await database.createConnection(newConnectionData);
+  await auditLogger.record(req, {
+    action: 'connection.duplicate',
+    targetType: 'connection',
+    targetId: newId,
+    targetName: newName,
+    after: newConnectionData,
+    details: `Duplicated from connection ${id} (${existingConnection.name})`
+  });
   return res.status(201).json({ 
     message: 'Connection duplicated successfully',
     id: newId 
@@ -287,7 +823,7 @@ app.post('/api/data/:id/duplicate', asyncHandler(async (req: Request, res: Respo
 }));
 
 // Update connection by ID
-app.put('/api/data/:id', asyncHandler(async (req: Request, res: Response) => {
+app.put('/api/data/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -338,32 +874,37 @@ app.put('/api/data/:id', asyncHandler(async (req: Request, res: Response) => {
   
   // Update connection in database
   await database.updateConnection(id, sanitizedData as ConnectionRecord);
+  await auditLogger.record(req, {
+    action: 'connection.update',
+    targetType: 'connection',
+    targetId: id,
+    targetName: sanitizedData.name || connection.name,
+    before: connection,
+    after: sanitizedData
+  });
   
-  // Pre-create Let's Encrypt account if SSL provider was changed to letsencrypt
-  if (sanitizedData.ssl_provider === 'letsencrypt') {
+  // Pre-create the ACME account if the CA, environment or names changed
+  if (sanitizedData.ssl_provider) {
     try {
-      const { acmeClient } = await import('./acme-client');
+      const { createAcmeClient } = await import('./acme-client');
+      const acmeClient = await createAcmeClient(database, { ...connection, ...sanitizedData, acme_environment: sanitizedData.acme_environment || connection.acme_environment });
       const domain = `${sanitizedData.hostname}.${sanitizedData.domain}`;
       
       // Check if account already exists
       const existingAccount = await acmeClient.loadAccount(domain, id);
       if (!existingAccount) {
-        Logger.info(`Pre-creating Let's Encrypt account for updated connection: ${domain}`);
-        const sslSettings = await database.getSettingsByProvider('letsencrypt');
-        const email = sslSettings.find(s => s.key_name === 'LETSENCRYPT_EMAIL')?.key_value;
+        Logger.info(`Pre-creating ${acmeClient.getDirectory().caName} account for updated connection: ${domain}`);
         
-        if (email) {
-          // Create account in background without blocking the response
-          acmeClient.createAccount(email, domain, id).then(() => {
-            Logger.info(`Successfully pre-created Let's Encrypt account for ${domain}`);
-          }).catch((error) => {
-            Logger.error(`Failed to pre-create Let's Encrypt account for ${domain}:`, error);
-            // Don't fail the connection update if account creation fails
-          });
-        }
+        // Create account in background without blocking the response
+        acmeClient.createAccount(domain, id).then(() => {
+          Logger.info(`Successfully pre-created ACME account for ${domain}`);
+        }).catch((error) => {
+          Logger.error(`Failed to pre-create ACME account for ${domain}:`, error);
+          // Don't fail the connection update if account creation fails
+        });
       }
     } catch (error) {
-      Logger.error('Error during Let\'s Encrypt account pre-creation on update:', error);
+      Logger.error('Error during ACME account pre-creation on update:', error);
       // Don't fail the connection update if account setup fails
     }
   }
@@ -375,7 +916,7 @@ app.put('/api/data/:id', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Delete connection by ID
-app.delete('/api/data/:id', asyncHandler(async (req: Request, res: Response) => {
+app.delete('/api/data/:id', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -387,12 +928,23 @@ app.delete('/api/data/:id', asyncHandler(async (req: Request, res: Response) =>
     return res.status(404).json({ error: 'Connection not found' });
   }
 
+  const cluster = await database.getClusterByPublisher(id);
+  if (cluster) {
+    await database.deleteCluster(cluster.id!);
+  }
   await database.deleteConnection(id);
+  await auditLogger.record(req, {
+    action: 'connection.delete',
+    targetType: 'connection',
+    targetId: id,
+    targetName: connection.name,
+    before: connection
+  });
   return res.status(204).send();
 }));
 
 // Issue certificate for connection with WebSocket support
-app.post('/api/data/:id/issue-cert', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/data/:id/issue-cert', requireRole('operator', 'renew'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -419,6 +971,13 @@ app.post('/api/data/:id/issue-cert', asyncHandler(async (req: Request, res: Resp
   try {
     // Start certificate renewal process with operation manager
     const renewalStatus = await certificateRenewalService.renewCertificate(id, database, operationManager);
+    await auditLogger.record(req, {
+      action: 'certificate.renew',
+      targetType: 'connection',
+      targetId: id,
+      targetName: connection.name,
+      details: `Renewal ${renewalStatus.id} started`
+    });
     
     return res.json({ 
       operationId: renewalStatus.id,
@@ -437,8 +996,215 @@ app.post('/api/data/:id/issue-cert', asyncHandler(async (req: Request, res: Resp
   }
 }));
 
+// Move a connection that has been issued a staging certificate to production and re-issue
+app.post('/api/data/:id/promote', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  const caDefinition = getAcmeCaDefinition(getAcmeCaId(connection));
+  if (!caDefinition?.stagingDirectoryUrl) {
+    return res.status(400).json({ error: `${caDefinition?.name || connection.ssl_provider} has no staging environment` });
+  }
+
+  if (getAcmeEnvironment(connection) === 'production') {
+    return res.status(409).json({ error: 'Connection already uses the production environment' });
+  }
+
+  // A staging certificate shows the challenge setup works before production rate limits are at stake
+  if (!(await accountManager.hasCertificateFiles(id, 'staging'))) {
+    return res.status(409).json({
+      error: 'Connection has not been validated on staging',
+      details: 'Issue a staging certificate for this connection before promoting it'
+    });
+  }
+
+  const existingOperation = await operationManager.checkActiveOperation(id, 'certificate_renewal');
+  if (existingOperation) {
+    return res.status(409).json({
+      error: 'Certificate renewal already in progress',
+      details: `Wait for operation ${existingOperation.id} to finish before promoting`
+    });
+  }
+
+  await database.updateConnection(id, { acme_environment: 'production' });
+
+  try {
+    const renewalStatus = await certificateRenewalService.renewCertificate(id, database, operationManager);
+    await auditLogger.record(req, {
+      action: 'connection.promote',
+      targetType: 'connection',
+      targetId: id,
+      targetName: connection.name,
+      before: { acme_environment: 'staging' },
+      after: { acme_environment: 'production' },
+      details: `Promoted to production, renewal ${renewalStatus.id} started`
+    });
+
+    return res.json({
+      operationId: renewalStatus.id,
+      status: 'started',
+      message: 'Connection promoted to production, certificate renewal initiated',
+      connectionId: id,
+      renewalId: renewalStatus.id,
+      estimatedDuration: 180000
+    });
+  } catch (error: any) {
+    Logger.error(`Error promoting connection ${id} to production: ${error.message}`);
+    return res.status(500).json({
+      error: 'Connection promoted but the production renewal failed to start',
+      details: error.message
+    });
+  }
+}));
+
+// Generate a private key and CSR for a general connection from its key settings
+app.post('/api/data/:id/generate-csr', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  if (connection.application_type !== 'general') {
+    return res.status(400).json({ error: 'CSRs are only generated here for general connections; VOS and ISE generate their own' });
+  }
+
+  const fullFQDN = getDomainFromConnection(connection);
+  if (!fullFQDN) {
+    return res.status(400).json({ error: 'Connection has no hostname and domain to put in the CSR' });
+  }
+
+  const [identity] = getCertificateIdentities(connection);
+  const { privateKey, csr } = await generateKeyAndCsr(identity, fullFQDN, getOrderDomains(connection).slice(1));
+  await database.updateConnection(id, { custom_csr: csr, general_private_key: privateKey });
+
+  const parameters = describeCsr(csr);
+  await auditLogger.record(req, {
+    action: 'connection.generate_csr',
+    targetType: 'connection',
+    targetId: id,
+    targetName: connection.name,
+    details: `Generated ${parameters.keyAlgorithm} key and CSR signed with ${parameters.hashAlgorithm}`
+  });
+
+  return res.json({ csr, ...parameters });
+}));
+
+// Revoke the certificate last issued for a connection, optionally re-issuing after a key compromise
+app.post('/api/data/:id/certificates/revoke', requireRole('admin', 'renew'), asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const { reason, signWith = 'account', reissue = false } = req.body || {};
+  if (!isRevocationReason(reason)) {
+    return res.status(400).json({
+      error: 'Invalid revocation reason',
+      details: `Reason must be one of: ${Object.keys(REVOCATION_REASONS).join(', ')}`
+    });
+  }
+  if (!REVOCATION_SIGNERS.includes(signWith)) {
+    return res.status(400).json({
+      error: 'Invalid revocation signer',
+      details: `signWith must be one of: ${REVOCATION_SIGNERS.join(', ')}`
+    });
+  }
+
+  const connection = await database.getConnectionById(id);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  const existingOperation = await operationManager.checkActiveOperation(id, 'certificate_renewal');
+  if (existingOperation) {
+    return res.status(409).json({
+      error: 'Certificate renewal already in progress',
+      details: `Wait for operation ${existingOperation.id} to finish before revoking`
+    });
+  }
+
+  const certificate = await loadIssuedCertificate(connection);
+  if (!certificate) {
+    return res.status(404).json({ error: 'No issued certificate found for this connection' });
+  }
+
+  try {
+    await revokeIssuedCertificate(database, connection, certificate, reason, signWith as RevocationSigner);
+  } catch (error: any) {
+    Logger.error(`Error revoking certificate ${certificate.serialNumber} for connection ${id}: ${error.message}`);
+    return res.status(502).json({
+      error: 'Failed to revoke certificate',
+      details: error.message
+    });
+  }
+
+  await archiveRevokedCertificate(connection, certificate);
+  const revocationId = await database.saveCertificateRevocation({
+    connection_id: id,
+    serial_number: certificate.serialNumber,
+    fingerprint256: certificate.fingerprint256,
+    common_name: certificate.commonName || undefined,
+    environment: getAcmeEnvironment(connection),
+    ca_id: getAcmeCaId(connection),
+    reason,
+    reason_code: REVOCATION_REASONS[reason],
+    signed_with: signWith,
+    revoked_by: getRequestActor(req).actor_name
+  });
+
+  // Only connections that get a new key on renewal can replace a compromised one
+  let reissueRenewalId: string | null = null;
+  let reissueSkipped: string | null = null;
+  if (reason === 'keyCompromise' && reissue) {
+    if (!generatesNewKey(connection)) {
+      reissueSkipped = 'This connection reuses the key behind its CSR; generate a new key and CSR before renewing';
+    } else {
+      try {
+        const renewalStatus = await certificateRenewalService.renewCertificate(id, database, operationManager);
+        reissueRenewalId = renewalStatus.id;
+        await database.updateCertificateRevocationReissue(revocationId, renewalStatus.id);
+      } catch (error: any) {
+        Logger.error(`Error starting re-issue after revoking certificate for connection ${id}: ${error.message}`);
+        reissueSkipped = `Failed to start certificate renewal: ${error.message}`;
+      }
+    }
+  }
+
+  await auditLogger.record(req, {
+    action: 'certificate.revoke',
+    targetType: 'connection',
+    targetId: id,
+    targetName: connection.name,
+    after: { serial_number: certificate.serialNumber, reason, signed_with: signWith },
+    details: `Certificate ${certificate.serialNumber} revoked (${reason})${reissueRenewalId ? `, renewal ${reissueRenewalId} started` : ''}`
+  });
+
+  return res.json({
+    id: revocationId,
+    connectionId: id,
+    serialNumber: certificate.serialNumber,
+    reason,
+    reasonCode: REVOCATION_REASONS[reason],
+    signedWith: signWith,
+    renewalId: reissueRenewalId,
+    reissueSkipped
+  });
+}));
+
 // ISE Certificate Import using Platform Provider
-app.post('/api/data/:id/import-ise-cert', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/data/:id/import-ise-cert', requireRole('operator', 'renew'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -520,6 +1286,14 @@ app.post('/api/data/:id/import-ise-cert', asyncHandler(async (req: Request, res:
       customConfig
     );
 
+    await auditLogger.record(req, {
+      action: 'certificate.import',
+      targetType: 'connection',
+      targetId: id,
+      targetName: connection.name,
+      details: `Imported certificate to ISE nodes: ${nodes.join(', ')}`
+    });
+
     return res.json(result);
 
   } catch (error: any) {
@@ -532,7 +1306,7 @@ app.post('/api/data/:id/import-ise-cert', asyncHandler(async (req: Request, res:
 }));
 
 // Get renewal status
-app.get('/api/data/:id/renewal-status/:renewalId', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/renewal-status/:renewalId', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const renewalId = req.params.renewalId;
   
   Logger.info(`Fetching renewal status for ID: ${renewalId}`);
@@ -562,16 +1336,18 @@ app.get('/api/data/:id/renewal-status/:renewalId', asyncHandler(async (req: Requ
 }));
 
 // Operations management endpoints
-app.get('/api/operations', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/operations', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   try {
     // Get all operations from database
     const operations = await database.getActiveOperationsByType(0, '', false);
     
     // Add age information
-    const operationsWithAge = operations.map(op => ({
-      ...op,
-      ageMinutes: Math.floor((Date.now() - new Date(op.started_at).getTime()) / 1000 / 60)
-    }));
+    const operationsWithAge = operations
+      .filter(op => canAccessConnection(req, op.connection_id))
+      .map(op => ({
+        ...op,
+        ageMinutes: Math.floor((Date.now() - new Date(op.started_at).getTime()) / 1000 / 60)
+      }));
 
     return res.json(operationsWithAge);
   } catch (error: any) {
@@ -583,7 +1359,7 @@ app.get('/api/operations', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-app.post('/api/operations/:operationId/force-complete', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/operations/:operationId/force-complete', requireRole('operator'), asyncHandler(async (req: Request, res: Response) => {
   const operationId = req.params.operationId;
   const { status = 'failed', error = 'Operation manually cancelled' } = req.body;
 
@@ -609,6 +1385,15 @@ app.post('/api/operations/:operationId/force-complete', asyncHandler(async (req:
     });
 
     Logger.info(`Operation ${operationId} manually set to ${status} status`);
+    await auditLogger.record(req, {
+      action: 'operation.force_complete',
+      targetType: 'operation',
+      targetId: operationId,
+      targetName: operation.type,
+      before: { status: operation.status },
+      after: { status },
+      details: status === 'failed' ? error : undefined
+    });
     
     return res.json({ 
       message: `Operation ${operationId} has been marked as ${status}`,
@@ -625,7 +1410,7 @@ app.post('/api/operations/:operationId/force-complete', asyncHandler(async (req:
   }
 }));
 
-app.delete('/api/operations/:operationId', asyncHandler(async (req: Request, res: Response) => {
+app.delete('/api/operations/:operationId', requireRole('operator'), asyncHandler(async (req: Request, res: Response) => {
   const operationId = req.params.operationId;
 
   try {
@@ -645,6 +1430,13 @@ app.delete('/api/operations/:operationId', asyncHandler(async (req: Request, res
     await database.deleteActiveOperation(operationId);
     
     Logger.info(`Operation ${operationId} deleted from database`);
+    await auditLogger.record(req, {
+      action: 'operation.delete',
+      targetType: 'operation',
+      targetId: operationId,
+      targetName: operation.type,
+      before: { status: operation.status }
+    });
     
     return res.json({ 
       message: `Operation ${operationId} has been deleted`,
@@ -660,7 +1452,7 @@ app.delete('/api/operations/:operationId', asyncHandler(async (req: Request, res
   }
 }));
 
-app.post('/api/operations/cleanup', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/operations/cleanup', requireRole('operator'), asyncHandler(async (req: Request, res: Response) => {
   const { hoursOld = 24, forceStuck = false } = req.body;
 
   try {
@@ -688,6 +1480,11 @@ app.post('/api/operations/cleanup', asyncHandler(async (req: Request, res: Respo
 
     // Clean up old completed operations
     await operationManager.cleanupCompletedOperations(hoursOld * 60);
+    await auditLogger.record(req, {
+      action: 'operation.cleanup',
+      targetType: 'operation',
+      details: `Removed operations older than ${hoursOld} hours; force completed ${deletedCount} stuck operations`
+    });
     
     return res.json({ 
       message: `Cleanup completed. ${deletedCount} stuck operations were force completed.`,
@@ -704,8 +1501,133 @@ app.post('/api/operations/cleanup', asyncHandler(async (req: Request, res: Respo
   }
 }));
 
+// Every certificate issued to a connection, newest first
+app.get('/api/data/:id/certificates/history', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const connectionId = parseInt(req.params.id);
+  if (isNaN(connectionId)) {
+    return res.status(400).json({ error: 'Invalid connection ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(connectionId);
+  if (!connection) {
+    return res.status(404).json({ error: 'Connection not found' });
+  }
+
+  // The current certificates are the ones whose files are in the environment directory, one per VOS service
+  const currentSerials = new Set((await loadCurrentCertificates(connection)).map(current => current.details?.serial_number));
+
+  const canExportKeys = isAuthorized(req, 'admin', 'key-export');
+  const history = await database.getCertificateHistory(connectionId);
+  return res.json(history.map(certificate => ({
+    ...certificate,
+    is_current: certificate.environment === getAcmeEnvironment(connection) && currentSerials.has(certificate.serial_number),
+    is_expired: new Date(certificate.not_after).getTime() <= Date.now(),
+    redeploy_blocker: getRedeployBlocker(certificate, connection),
+    // Only admins and key-export tokens can download private keys, so don't advertise them to others
+    available_files: Object.keys(CERTIFICATE_VERSION_FILES).filter(type =>
+      (type !== 'private_key' || canExportKeys) && fs.existsSync(getCertificateVersionFile(certificate, type)!))
+  })));
+}));
+
+app.get('/api/data/:id/certificates/history/:certificateId/:type', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
+  const connectionId = parseInt(req.params.id);
+  const certificateId = parseInt(req.params.certificateId);
+  const certType = req.params.type;
+  if (isNaN(connectionId) || isNaN(certificateId)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+  if (!CERTIFICATE_VERSION_FILES[certType]) {
+    return res.status(400).json({ error: 'Invalid certificate type' });
+  }
+
+  // Private keys can only be exported by admins or key-export tokens
+  if (certType === 'private_key' && !isAuthorized(req, 'admin', 'key-export')) {
+    return res.status(403).json({
+      error: 'Insufficient permissions',
+      details: req.apiToken ? 'This action requires the key-export scope' : 'This action requires the admin role'
+    });
+  }
+
+  const connection = await database.getConnectionById(connectionId);
+  const certificate = connection ? await database.getIssuedCertificate(connectionId, certificateId) : null;
+  if (!connection || !certificate) {
+    return res.status(404).json({ error: 'Certificate not found' });
+  }
+
+  const filePath = getCertificateVersionFile(certificate, certType)!;
+  if (!fs.existsSync(filePath)) {
+    return res.status(404).json({ error: `Certificate file not found: ${certType}` });
+  }
+
+  const filename = `${getDomainFromConnection(connection) || `connection-${connectionId}`}_${certificate.serial_number}_${certType}.pem`;
+  res.setHeader('Content-Type', 'application/x-pem-file');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  // Key files are encrypted at rest and must be decrypted before sending
+  if (isSecretAccountFile(path.basename(filePath))) {
+    const content = await encryptionManager.readFile(filePath);
+    await auditLogger.record(req, {
+      action: 'certificate.download_private_key',
+      targetType: 'connection',
+      targetId: connectionId,
+      targetName: connection.name,
+      details: `Downloaded ${filename}`
+    });
+    return res.send(content);
+  }
+
+  fs.createReadStream(filePath).pipe(res);
+}));
+
+app.post('/api/data/:id/certificates/history/:certificateId/redeploy', requireRole('operator', 'renew'), asyncHandler(async (req: Request, res: Response) => {
+  const connectionId = parseInt(req.params.id);
+  const certificateId = parseInt(req.params.certificateId);
+  if (isNaN(connectionId) || isNaN(certificateId)) {
+    return res.status(400).json({ error: 'Invalid ID parameter' });
+  }
+
+  const connection = await database.getConnectionById(connectionId);
+  const certificate = connection ? await database.getIssuedCertificate(connectionId, certificateId) : null;
+  if (!connection || !certificate) {
+    return res.status(404).json({ error: 'Certificate not found' });
+  }
+
+  const blocker = getRedeployBlocker(certificate, connection);
+  if (blocker) {
+    return res.status(409).json({ error: 'Certificate cannot be redeployed', details: blocker });
+  }
+
+  const existingOperation = await operationManager.checkActiveOperation(connectionId, 'certificate_renewal');
+  if (existingOperation) {
+    return res.status(409).json({
+      error: 'Certificate renewal already in progress',
+      details: `Wait for operation ${existingOperation.id} to finish before redeploying`
+    });
+  }
+
+  try {
+    const { logs, applied } = await certificateRenewalService.redeployCertificate(connection, certificate, database);
+    await auditLogger.record(req, {
+      action: 'certificate.redeploy',
+      targetType: 'connection',
+      targetId: connectionId,
+      targetName: connection.name,
+      details: applied
+        ? `Certificate ${certificate.serial_number} redeployed to ${certificate.deploy_targets.join(', ')}`
+        : `Dry run of redeploying certificate ${certificate.serial_number} to ${certificate.deploy_targets.join(', ')}`
+    });
+    return res.json({ id: certificateId, serialNumber: certificate.serial_number, status: applied ? 'deployed' : 'dry-run', logs });
+  } catch (error: any) {
+    Logger.error(`Error redeploying certificate ${certificateId} for connection ${connectionId}: ${error.message}`);
+    return res.status(502).json({
+      error: 'Failed to redeploy certificate',
+      details: error.message
+    });
+  }
+}));
+
 // Certificate download endpoints
-app.get('/api/data/:id/certificates/:type', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/certificates/:type', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const connectionId = parseInt(req.params.id);
   const certType = req.params.type; // 'certificate', 'private_key', 'chain', 'fullchain'
   
@@ -713,6 +1635,14 @@ app.get('/api/data/:id/certificates/:type', asyncHandler(async (req: Request, re
     return res.status(400).json({ error: 'Invalid connection ID parameter' });
   }
 
+  // Private keys can only be exported by admins or key-export tokens
+  if (certType === 'private_key' && !isAuthorized(req, 'admin', 'key-export')) {
+    return res.status(403).json({
+      error: 'Insufficient permissions',
+      details: req.apiToken ? 'This action requires the key-export scope' : 'This action requires the admin role'
+    });
+  }
+
   // Check if connection exists
   const connection = await database.getConnectionById(connectionId);
   if (!connection) {
@@ -758,7 +1688,7 @@ app.get('/api/data/:id/certificates/:type', asyncHandler(async (req: Request, re
 
   try {
     // Use AccountManager to get the certificate file path
-    const filePath = accountManager.getCertificateFilePath(connectionId, baseFilename);
+    const filePath = accountManager.getCertificateFilePath(connectionId, baseFilename, getAcmeEnvironment(connection));
     
     // Check if file exists
     if (!fs.existsSync(filePath)) {
@@ -769,6 +1699,19 @@ app.get('/api/data/:id/certificates/:type', asyncHandler(async (req: Request, re
     res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
     
+    // Key files are encrypted at rest and must be decrypted before sending
+    if (isSecretAccountFile(baseFilename)) {
+      const content = await encryptionManager.readFile(filePath);
+      await auditLogger.record(req, {
+        action: 'certificate.download_private_key',
+        targetType: 'connection',
+        targetId: connectionId,
+        targetName: connection.name,
+        details: `Downloaded ${filename}`
+      });
+      return res.send(content);
+    }
+
     // Stream the file
     const fileStream = fs.createReadStream(filePath);
     fileStream.pipe(res);
@@ -782,7 +1725,7 @@ app.get('/api/data/:id/certificates/:type', asyncHandler(async (req: Request, re
   }
 }));
 
-app.get('/api/data/:id/certificates', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/certificates', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const connectionId = parseInt(req.params.id);
   
   if (isNaN(connectionId)) {
@@ -818,7 +1761,12 @@ app.get('/api/data/:id/certificates', asyncHandler(async (req: Request, res: Res
   
   // Use AccountManager to check for certificate files
   for (const fileType of fileTypes) {
-    const filePath = accountManager.getCertificateFilePath(connectionId, fileType.filename);
+    // Only admins and key-export tokens can download private keys, so don't advertise them to others
+    if (fileType.type === 'private_key' && !isAuthorized(req, 'admin', 'key-export')) {
+      continue;
+    }
+
+    const filePath = accountManager.getCertificateFilePath(connectionId, fileType.filename, getAcmeEnvironment(connection));
     try {
       if (fs.existsSync(filePath)) {
         const stats = fs.statSync(filePath);
@@ -842,66 +1790,103 @@ app.get('/api/data/:id/certificates', asyncHandler(async (req: Request, res: Res
 }));
 
 // Settings/API Keys management endpoints
-app.get('/api/settings', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/settings', requireRole('admin', 'settings'), asyncHandler(async (req: Request, res: Response) => {
   const settings = await database.getAllSettings();
   return res.json(settings);
 }));
 
+// Settings schema for SSL, DNS and renewal providers; registered before /:provider so it isn't read as a provider id
+app.get('/api/settings/providers', requireRole('admin', 'settings'), asyncHandler(async (req: Request, res: Response) => {
+  return res.json(listSettingsProviders());
+}));
+
 app.get('/api/settings/:provider', asyncHandler(async (req: Request, res: Response) => {
   const provider = req.params.provider;
+
+  // Renewal schedule settings hold no secrets and are needed by every dashboard user
+  if (!PUBLIC_SETTINGS_PROVIDERS.includes(provider) && !isAuthorized(req, 'admin', 'settings')) {
+    return res.status(403).json({
+      error: 'Insufficient permissions',
+      details: req.apiToken ? 'This action requires the settings scope' : 'This action requires the admin role'
+    });
+  }
+
   const settings = await database.getSettingsByProvider(provider);
   return res.json(settings);
 }));
 
-app.post('/api/settings', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/settings', requireRole('admin', 'settings'), asyncHandler(async (req: Request, res: Response) => {
   const { key_name, key_value, provider, description } = req.body;
   
   if (!key_name || !key_value || !provider) {
     return res.status(400).json({ error: 'key_name, key_value, and provider are required' });
   }
 
+  const existing = await database.getSetting(key_name);
   await database.upsertSetting(key_name, key_value, provider, description);
+  await auditLogger.record(req, {
+    action: 'setting.update',
+    targetType: 'setting',
+    targetId: key_name,
+    targetName: provider,
+    before: existing ? { key_value: existing.key_value, provider: existing.provider, description: existing.description } : null,
+    after: { key_value, provider, description }
+  });
   return res.status(201).json({ message: 'Setting saved successfully' });
 }));
 
-app.delete('/api/settings/:keyName', asyncHandler(async (req: Request, res: Response) => {
+app.delete('/api/settings/:keyName', requireRole('admin', 'settings'), asyncHandler(async (req: Request, res: Response) => {
   const keyName = req.params.keyName;
+  const existing = await database.getSetting(keyName);
   await database.deleteSetting(keyName);
+  if (existing) {
+    await auditLogger.record(req, {
+      action: 'setting.delete',
+      targetType: 'setting',
+      targetId: keyName,
+      targetName: existing.provider,
+      before: { key_value: existing.key_value, provider: existing.provider }
+    });
+  }
   return res.status(204).send();
 }));
 
-// Check if required keys exist for a provider
-app.get('/api/settings/:provider/validate', asyncHandler(async (req: Request, res: Response) => {
+// Check if required keys exist for a provider; pass check_credentials=true to also test DNS provider credentials
+app.get('/api/settings/:provider/validate', requireRole('admin', 'settings'), asyncHandler(async (req: Request, res: Response) => {
   const provider = req.params.provider;
   const settings = await database.getSettingsByProvider(provider);
-  
-  // Define required keys for each provider
-  const requiredKeys: Record<string, string[]> = {
-    'letsencrypt': ['LETSENCRYPT_EMAIL'],
-    'zerossl': ['ZEROSSL_KEY'],
-    'cloudflare': ['CF_KEY', 'CF_ZONE'],
-    'digitalocean': ['DO_KEY'],
-    'route53': ['AWS_ACCESS_KEY', 'AWS_SECRET_KEY', 'AWS_ZONE_ID'],
-    'azure': ['AZURE_SUBSCRIPTION_ID', 'AZURE_RESOURCE_GROUP', 'AZURE_ZONE_NAME'],
-    'google': ['GOOGLE_PROJECT_ID', 'GOOGLE_ZONE_NAME'],
-    'custom': ['CUSTOM_DNS_SERVER_1', 'CUSTOM_DNS_SERVER_2']
-  };
+  const schema = getSettingsProvider(provider);
 
-  const required = requiredKeys[provider] || [];
+  const required = schema ? schema.settings.filter(setting => setting.required).map(setting => setting.key) : [];
   const existingKeys = settings.map(s => s.key_name);
-  const missingKeys = required.filter(key => !existingKeys.includes(key));
-  
-  return res.json({
+  const missingKeys = await getMissingSettings(database, provider);
+
+  const result: Record<string, any> = {
     provider,
     required_keys: required,
     existing_keys: existingKeys,
     missing_keys: missingKeys,
     is_valid: missingKeys.length === 0
-  });
+  };
+
+  if (req.query.check_credentials === 'true' && missingKeys.length === 0 && getDnsProviderDefinition(provider)) {
+    try {
+      const dnsClient = await createDnsProvider(database, provider, String(req.query.domain || ''));
+      await dnsClient.validateCredentials();
+      result.credentials_valid = true;
+    } catch (error) {
+      Logger.warn(`Credential check failed for ${provider}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      result.credentials_valid = false;
+      result.credentials_error = error instanceof Error ? error.message : 'Unknown error';
+      result.is_valid = false;
+    }
+  }
+
+  return res.json(result);
 }));
 
 // Get certificate information for a connection
-app.get('/api/data/:id/certificate', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/certificate', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -933,7 +1918,7 @@ app.get('/api/data/:id/certificate', asyncHandler(async (req: Request, res: Resp
 }));
 
 // Get certificate information by hostname (for quick checks)
-app.get('/api/certificate/:hostname', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/certificate/:hostname', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const hostname = req.params.hostname;
   
   if (!hostname || hostname.trim() === '') {
@@ -953,7 +1938,7 @@ app.get('/api/certificate/:hostname', asyncHandler(async (req: Request, res: Res
 }));
 
 // Get renewal logs for a specific connection
-app.get('/api/data/:id/renewal-logs', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/renewal-logs', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const connectionId = parseInt(req.params.id);
   
   if (isNaN(connectionId)) {
@@ -995,7 +1980,7 @@ app.get('/api/data/:id/renewal-logs', asyncHandler(async (req: Request, res: Res
 }));
 
 // Get certificate metrics for a specific connection
-app.get('/api/data/:id/metrics', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/metrics', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const connectionId = parseInt(req.params.id);
   const limit = parseInt(req.query.limit as string) || 100;
   const hours = parseInt(req.query.hours as string) || 24;
@@ -1033,7 +2018,7 @@ app.get('/api/data/:id/metrics', asyncHandler(async (req: Request, res: Response
 }));
 
 // Get average metrics for a specific connection
-app.get('/api/data/:id/metrics/average', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/data/:id/metrics/average', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   const connectionId = parseInt(req.params.id);
   const hours = parseInt(req.query.hours as string) || 24;
   
@@ -1068,9 +2053,10 @@ app.get('/api/data/:id/metrics/average', asyncHandler(async (req: Request, res:
 }));
 
 // Get logs for all connections (for logs page)
-app.get('/api/logs/all', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/logs/all', requireRole('viewer', 'read'), asyncHandler(async (req: Request, res: Response) => {
   try {
-    const connections = await database.getAllConnections();
+    const connections = (await database.getAllConnections())
+      .filter(connection => canAccessConnection(req, connection.id!));
     const { AccountManager } = await import('./account-manager');
     const { getDomainFromConnection } = await import('./utils/domain-utils');
     const accountManager = new AccountManager();
@@ -1142,7 +2128,7 @@ app.get('/api/logs/all', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Debug endpoint to view accounts directory structure
-app.get('/api/accounts/debug', asyncHandler(async (req: Request, res: Response) => {
+app.get('/api/accounts/debug', requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
   const accountsDir = process.env.ACCOUNTS_DIR || './accounts';
   const structure = getAccountsDirectoryStructure(accountsDir);
   const size = getAccountsSize(accountsDir);
@@ -1158,13 +2144,30 @@ app.get('/api/accounts/debug', asyncHandler(async (req: Request, res: Response)
 }));
 
 // SSH test endpoint
-app.post('/api/ssh/test', asyncHandler(async (req: Request, res: Response) => {
-  const { hostname, username, password } = req.body;
+app.post('/api/ssh/test', requireRole('operator'), asyncHandler(async (req: Request, res: Response) => {
+  let { hostname, username, password } = req.body;
+
+  // Saved connections are tested with their stored credentials, which non-admins cannot read
+  if (req.body.connectionId !== undefined) {
+    const connectionId = parseInt(req.body.connectionId);
+    if (isNaN(connectionId)) {
+      return res.status(400).json({ error: 'Invalid connectionId' });
+    }
+
+    const connection = await database.getConnectionById(connectionId);
+    if (!connection) {
+      return res.status(404).json({ error: 'Connection not found' });
+    }
+
+    hostname = getDomainFromConnection(connection);
+    username = connection.username;
+    password = connection.password;
+  }
 
   if (!hostname || !username || !password) {
     return res.status(400).json({ 
       error: 'Missing required fields', 
-      details: 'hostname, username, and password are required' 
+      details: 'hostname, username, and password (or connectionId) are required' 
     });
   }
 
@@ -1188,7 +2191,7 @@ app.post('/api/ssh/test', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Manual service restart endpoint for VOS applications with WebSocket support
-app.post('/api/data/:id/restart-service', asyncHandler(async (req: Request, res: Response) => {
+app.post('/api/data/:id/restart-service', requireRole('operator', 'renew'), asyncHandler(async (req: Request, res: Response) => {
   const id = parseInt(req.params.id);
   if (isNaN(id)) {
     return res.status(400).json({ error: 'Invalid ID parameter' });
@@ -1245,6 +2248,14 @@ app.post('/api/data/:id/restart-service', asyncHandler(async (req: Request, res:
       command: 'utils service restart Cisco Tomcat'
     });
 
+    await auditLogger.record(req, {
+      action: 'service.restart',
+      targetType: 'connection',
+      targetId: id,
+      targetName: connection.name,
+      details: `Restarting Cisco Tomcat on ${fqdn} (operation ${operation.id})`
+    });
+
     // Return immediately with operation details
     res.json({
       operationId: operation.id,
@@ -1393,7 +2404,7 @@ process.on('SIGINT', gracefulShutdown);
 const httpServer = createServer(app);
 
 // Initialize WebSocket server
-const io = initializeWebSocket(httpServer, database);
+const io = initializeWebSocket(httpServer, database, authManager);
 operationManager.setSocketServer(io);
 
 // Start server
@@ -1405,6 +2416,9 @@ httpServer.listen(PORT, '0.0.0.0', async () => {
   // Migrate account files to new structure
   const accountsDir = process.env.ACCOUNTS_DIR || './accounts';
   await migrateAccountFiles(accountsDir);
+
+  // Encrypt any secrets still stored in plain text
+  await encryptSecretsAtRest(database, accountsDir);
   
   // Check and download root certificates if missing
   const certStatus = checkRootCertificates(accountsDir);
@@ -1419,6 +2433,20 @@ httpServer.listen(PORT, '0.0.0.0', async () => {
   // Check and create Let's Encrypt accounts on startup
   const accountChecker = new LetsEncryptAccountChecker(database);
   await accountChecker.checkAndCreateAccounts();
+
+  // Roll back or resume renewals interrupted by the last shutdown
+  await certificateRenewalService.recoverInterruptedRenewals(database, operationManager);
 });
 
+/**
+ * Stop the auto-renewal job, close the WebSocket and HTTP servers and the
+ * database, so a process that imported the server (e.g. the tests) can exit
+ */
+export const closeServer = async (): Promise<void> => {
+  await autoRenewalStarted;
+  autoRenewalCron.stop();
+  await new Promise<void>(resolve => io.close(() => resolve()));
+  await database.close();
+};
+
 export default app;
\ No newline at end of file
@@ -20,12 +20,20 @@ export interface Operation {
 export class OperationStatusManager extends EventEmitter {
   private operations: Map<string, Operation> = new Map();
   private io: SocketIOServer | null = null;
+  private loaded: Promise<void>;
 
   constructor(private database: DatabaseManager) {
     super();
     
     // Load active operations from database on startup
-    this.loadActiveOperations();
+    this.loaded = this.loadActiveOperations();
+  }
+
+  /**
+   * Resolves once the operations left in the database have been loaded
+   */
+  ready(): Promise<void> {
+    return this.loaded;
   }
 
   setSocketServer(io: SocketIOServer) {
@@ -35,27 +43,25 @@ export class OperationStatusManager extends EventEmitter {
 
   private async loadActiveOperations(): Promise<void> {
     try {
-      // Load all active operations from database
-      const activeOps = await this.database.getActiveOperationsByType(0, '', false);
+      // Load all pending and in-progress operations from database
+      const activeOps = await this.database.getInFlightOperations();
       
       for (const op of activeOps) {
-        if (['pending', 'in_progress'].includes(op.status)) {
-          const operation: Operation = {
-            id: op.id,
-            connectionId: op.connection_id,
-            type: op.operation_type as Operation['type'],
-            status: op.status as Operation['status'],
-            progress: op.progress || 0,
-            message: op.message || '',
-            error: op.error,
-            startedAt: new Date(op.started_at),
-            completedAt: op.completed_at ? new Date(op.completed_at) : undefined,
-            metadata: op.metadata,
-            createdBy: op.created_by as Operation['createdBy']
-          };
-          
-          this.operations.set(operation.id, operation);
-        }
+        const operation: Operation = {
+          id: op.id,
+          connectionId: op.connection_id,
+          type: op.operation_type as Operation['type'],
+          status: op.status as Operation['status'],
+          progress: op.progress || 0,
+          message: op.message || '',
+          error: op.error,
+          startedAt: new Date(op.started_at),
+          completedAt: op.completed_at ? new Date(op.completed_at) : undefined,
+          metadata: op.metadata,
+          createdBy: op.created_by as Operation['createdBy']
+        };
+        
+        this.operations.set(operation.id, operation);
       }
       
       Logger.info(`Loaded ${this.operations.size} active operations from database`);
@@ -0,0 +1,75 @@
+import { DatabaseManager } from './database';
+import { ProviderSetting } from './dns-providers/dns-provider';
+import { listDnsProviders } from './dns-providers/registry';
+import { getAcmeCaSettings, listAcmeCas } from './ssl-providers/registry';
+
+export type SettingsProviderCategory = 'general' | 'ssl' | 'dns';
+
+/**
+ * A group of keys in the settings table, as shown in the settings dialog
+ */
+export interface SettingsProvider {
+  id: string;
+  name: string;
+  description: string;
+  category: SettingsProviderCategory;
+  settings: ProviderSetting[];
+  // DNS providers only: whether records are created through an API
+  automated?: boolean;
+}
+
+const BUILT_IN_PROVIDERS: SettingsProvider[] = [
+  {
+    id: 'renewal',
+    name: 'Certificate Renewal',
+    description: 'Automatic certificate renewal settings',
+    category: 'general',
+    settings: [
+      { key: 'CERT_RENEWAL_DAYS', description: 'Number of days before certificate expiration to automatically renew (e.g., 7 = renew when 7 days left) when the CA has no ACME Renewal Information (ARI)', required: false, secret: false, default: '7' },
+      { key: 'CERT_WARNING_DAYS', description: 'Number of days before expiration to display warning in UI (e.g., 30 = warn when 30 days left)', required: false, secret: false, default: '30' },
+      { key: 'CERT_CHECK_SCHEDULE', description: 'Cron expression for when to check certificates (e.g., "0 0 * * *" = daily at midnight, "0 2 * * *" = daily at 2 AM)', required: false, secret: false, default: '0 0 * * *' },
+      { key: 'CERT_RENEWAL_CONCURRENCY', description: 'Number of renewals that run at the same time; further renewals wait in a queue', required: false, secret: false, default: '4' }
+    ]
+  }
+];
+
+export function listSettingsProviders(): SettingsProvider[] {
+  const dnsProviders: SettingsProvider[] = listDnsProviders().map(definition => ({
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    category: 'dns',
+    settings: definition.settings,
+    automated: definition.automated
+  }));
+
+  const sslProviders: SettingsProvider[] = listAcmeCas().map(definition => ({
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    category: 'ssl',
+    settings: getAcmeCaSettings(definition)
+  }));
+
+  return [...BUILT_IN_PROVIDERS, ...sslProviders, ...dnsProviders];
+}
+
+export function getSettingsProvider(id: string): SettingsProvider | undefined {
+  return listSettingsProviders().find(provider => provider.id === id);
+}
+
+/**
+ * Required keys of a provider that have no value in the settings table.
+ * Unknown providers have no requirements.
+ */
+export async function getMissingSettings(database: DatabaseManager, id: string): Promise<string[]> {
+  const provider = getSettingsProvider(id);
+  if (!provider) {
+    return [];
+  }
+
+  const settings = await database.getSettingsByProvider(id);
+  return provider.settings
+    .filter(setting => setting.required && !settings.find(s => s.key_name === setting.key)?.key_value)
+    .map(setting => setting.key);
+}
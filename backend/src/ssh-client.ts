@@ -1,4 +1,4 @@
-import { Client } from 'ssh2';
+import { Client, SFTPWrapper } from 'ssh2';
 import { Logger } from './logger';
 
 export interface SSHTestParams {
@@ -33,8 +33,24 @@ export interface SSHStreamCommandResult extends SSHCommandResult {
   output: string;
 }
 
+export interface SSHShellSessionParams extends SSHTestParams {
+  // Lines written together, the session waits for the prompt after each group
+  steps: string[][];
+  promptPattern: RegExp;
+  timeout?: number; // Optional timeout per step in milliseconds, defaults to 60 seconds
+}
+
+export interface SSHShellSessionResult {
+  success: boolean;
+  output: string;
+  // Output of each step that completed
+  stepOutputs: string[];
+  error?: string;
+}
+
 export class SSHClient {
   private client: Client | null = null;
+  private sftp: SFTPWrapper | null = null;
   private isConnected = false;
 
   /**
@@ -80,9 +96,10 @@ export class SSHClient {
   /**
    * Execute a command on the connected SSH server (instance method)
    * @param command Command to execute
+   * @param timeout Optional timeout in milliseconds, none by default
    * @returns Command output
    */
-  async executeCommand(command: string): Promise<string> {
+  async executeCommand(command: string, timeout?: number): Promise<string> {
     if (!this.client || !this.isConnected) {
       throw new Error('SSH client is not connected');
     }
@@ -96,8 +113,18 @@ export class SSHClient {
 
         let stdout = '';
         let stderr = '';
+        let timedOut = false;
+        const timer = timeout ? setTimeout(() => {
+          timedOut = true;
+          reject(new Error(`Command timed out after ${timeout / 1000} seconds`));
+          stream.close();
+        }, timeout) : undefined;
 
         stream.on('close', (code: number) => {
+          clearTimeout(timer);
+          if (timedOut) {
+            return;
+          }
           if (code !== 0) {
             reject(new Error(`Command failed with exit code ${code}: ${stderr}`));
           } else {
@@ -116,11 +143,197 @@ export class SSHClient {
     });
   }
 
+  /**
+   * Open (or reuse) an SFTP session on the connected SSH server
+   */
+  private async getSftp(): Promise<SFTPWrapper> {
+    if (!this.client || !this.isConnected) {
+      throw new Error('SSH client is not connected');
+    }
+    if (this.sftp) {
+      return this.sftp;
+    }
+
+    return new Promise((resolve, reject) => {
+      this.client!.sftp((err, sftp) => {
+        if (err) {
+          reject(new Error(`SFTP is not available: ${err.message}`));
+          return;
+        }
+        this.sftp = sftp;
+        resolve(sftp);
+      });
+    });
+  }
+
+  /**
+   * Write a file over SFTP (instance method)
+   * @param remotePath Absolute path on the server
+   * @param content File content
+   * @param mode File permissions, defaults to world-readable
+   */
+  async writeFile(remotePath: string, content: string | Buffer, mode: number = 0o644): Promise<void> {
+    const sftp = await this.getSftp();
+    return new Promise((resolve, reject) => {
+      sftp.writeFile(remotePath, content, { mode }, (err) => {
+        if (err) {
+          reject(new Error(`Failed to write ${remotePath}: ${err.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Read a file and its permissions over SFTP, null when it doesn't exist (instance method)
+   * @param remotePath Absolute path on the server
+   */
+  async readFile(remotePath: string): Promise<{ content: Buffer; mode: number } | null> {
+    const sftp = await this.getSftp();
+    return new Promise((resolve, reject) => {
+      sftp.stat(remotePath, (statErr, stats) => {
+        if (statErr) {
+          // SSH_FX_NO_SUCH_FILE
+          if ((statErr as any).code === 2) {
+            resolve(null);
+          } else {
+            reject(new Error(`Failed to read ${remotePath}: ${statErr.message}`));
+          }
+          return;
+        }
+        sftp.readFile(remotePath, (readErr, content) => {
+          if (readErr) {
+            reject(new Error(`Failed to read ${remotePath}: ${readErr.message}`));
+          } else {
+            resolve({ content, mode: stats.mode & 0o7777 });
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Set the permissions of a file over SFTP, also when it already existed (instance method)
+   * @param remotePath Absolute path on the server
+   * @param mode File permissions
+   */
+  async setMode(remotePath: string, mode: number): Promise<void> {
+    const sftp = await this.getSftp();
+    return new Promise((resolve, reject) => {
+      sftp.chmod(remotePath, mode, (err) => {
+        if (err) {
+          reject(new Error(`Failed to set the mode of ${remotePath}: ${err.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete a file over SFTP (instance method)
+   * @param remotePath Absolute path on the server
+   */
+  async deleteFile(remotePath: string): Promise<void> {
+    const sftp = await this.getSftp();
+    return new Promise((resolve, reject) => {
+      sftp.unlink(remotePath, (err) => {
+        if (err) {
+          reject(new Error(`Failed to delete ${remotePath}: ${err.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Copy a file with SCP, for servers without SFTP such as IOS-XE (instance method)
+   * @param remotePath Path on the server, e.g. bootflash:cert.p12
+   * @param content File content
+   * @param mode File permissions, defaults to owner-only
+   */
+  async copyFile(remotePath: string, content: Buffer, mode: number = 0o600): Promise<void> {
+    if (!this.client || !this.isConnected) {
+      throw new Error('SSH client is not connected');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.client!.exec(`scp -t ${remotePath}`, (err, stream) => {
+        if (err) {
+          reject(new Error(`SCP is not available: ${err.message}`));
+          return;
+        }
+
+        // The sink acknowledges each message with a zero byte, anything else is an error
+        const messages = [
+          Buffer.from(`C0${mode.toString(8)} ${content.length} ${remotePath.split(/[:/]/).pop()}\n`),
+          Buffer.concat([content, Buffer.from([0])])
+        ];
+        let failed = false;
+        let acknowledged = 0;
+
+        stream.on('data', (data: Buffer) => {
+          if (data[0] !== 0) {
+            failed = true;
+            reject(new Error(`Failed to copy ${remotePath}: ${data.toString().replace(/^[\x01\x02]/, '').trim()}`));
+            stream.end();
+            return;
+          }
+          if (acknowledged < messages.length) {
+            stream.write(messages[acknowledged]);
+          } else {
+            stream.end();
+          }
+          acknowledged++;
+        });
+
+        stream.on('close', () => {
+          if (failed) {
+            return;
+          }
+          if (acknowledged > messages.length) {
+            resolve();
+          } else {
+            reject(new Error(`Failed to copy ${remotePath}: SCP closed before the file was written`));
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Create a directory over SFTP, succeeding if it already exists (instance method)
+   * @param remotePath Absolute path on the server
+   */
+  async makeDirectory(remotePath: string): Promise<void> {
+    const sftp = await this.getSftp();
+    return new Promise((resolve, reject) => {
+      sftp.mkdir(remotePath, { mode: 0o755 }, (mkdirErr) => {
+        if (!mkdirErr) {
+          resolve();
+          return;
+        }
+        // SFTP servers report an existing directory as a generic failure, so check for it
+        sftp.stat(remotePath, (statErr, stats) => {
+          if (!statErr && stats.isDirectory()) {
+            resolve();
+          } else {
+            reject(new Error(`Failed to create directory ${remotePath}: ${mkdirErr.message}`));
+          }
+        });
+      });
+    });
+  }
+
   /**
    * Disconnect from the SSH server (instance method)
    */
   async disconnect(): Promise<void> {
     if (this.client && this.isConnected) {
+      this.sftp?.end();
+      this.sftp = null;
       this.client.end();
       this.isConnected = false;
       this.client = null;
@@ -362,18 +575,18 @@ export class SSHClient {
 
             // Check if command execution is complete
             // For service restart commands, look for specific completion patterns
-            if (command.includes('service restart') && command.includes('Cisco Tomcat')) {
+            if (command.includes('service restart')) {
               // Look for service restart completion patterns
               if (commandOutput.includes('[STARTED]') && chunk.includes('admin:')) {
                 clearTimeout(timeout);
-                Logger.info(`Cisco Tomcat service restart completed for ${hostname}`);
+                Logger.info(`${command.replace('utils service restart ', '')} service restart completed for ${hostname}`);
                 resolveResult({
                   success: true,
                   output: commandOutput
                 });
               } else if (commandOutput.includes('[FAILED]') || commandOutput.includes('ERROR')) {
                 clearTimeout(timeout);
-                Logger.error(`Cisco Tomcat service restart failed for ${hostname}`);
+                Logger.error(`${command.replace('utils service restart ', '')} service restart failed for ${hostname}`);
                 resolveResult({
                   success: false,
                   error: 'Service restart failed',
@@ -538,22 +751,22 @@ export class SSHClient {
 
             // Check if command execution is complete
             // For service restart commands, look for specific completion patterns
-            if (command.includes('service restart') && command.includes('Cisco Tomcat')) {
+            if (command.includes('service restart')) {
               // Look for service restart completion patterns
               if (commandOutput.includes('[STARTING]')) {
                 // Don't resolve yet, just notify via callback
-                Logger.info(`Cisco Tomcat service is starting on ${hostname}`);
+                Logger.info(`${command.replace('utils service restart ', '')} service is starting on ${hostname}`);
               }
               if (commandOutput.includes('[STARTED]') && chunk.includes('admin:')) {
                 clearTimeout(timeout);
-                Logger.info(`Cisco Tomcat service restart completed for ${hostname}`);
+                Logger.info(`${command.replace('utils service restart ', '')} service restart completed for ${hostname}`);
                 resolveResult({
                   success: true,
                   output: commandOutput
                 });
               } else if (commandOutput.includes('[FAILED]') || commandOutput.includes('ERROR')) {
                 clearTimeout(timeout);
-                Logger.error(`Cisco Tomcat service restart failed for ${hostname}`);
+                Logger.error(`${command.replace('utils service restart ', '')} service restart failed for ${hostname}`);
                 resolveResult({
                   success: false,
                   error: 'Service restart failed',
@@ -648,4 +861,113 @@ export class SSHClient {
       }
     });
   }
+
+  /**
+   * Run lines in an interactive shell, e.g. the configuration mode of IOS.
+   * Each step is written as a whole, then the session waits until the prompt
+   * comes back and stays, so a pasted block such as a PEM file is read first.
+   * Stops at the first step without a prompt.
+   */
+  static async executeShellSession(params: SSHShellSessionParams): Promise<SSHShellSessionResult> {
+    const { hostname, username, password, steps, promptPattern, port = 22, timeout: stepTimeout = 60000 } = params;
+    const conn = new Client();
+    // The prompt also shows between the lines of a step while they are echoed
+    const settleTime = 750;
+
+    return new Promise((resolve) => {
+      let output = '';
+      let stepStart = 0;
+      let stepIndex = -1; // Waiting for the first prompt
+      const stepOutputs: string[] = [];
+      let resolved = false;
+      let stepTimer: NodeJS.Timeout | undefined;
+      let settleTimer: NodeJS.Timeout | undefined;
+
+      const resolveResult = (result: { success: boolean; error?: string }) => {
+        if (resolved) {
+          return;
+        }
+        resolved = true;
+        clearTimeout(stepTimer);
+        clearTimeout(settleTimer);
+        conn.end();
+        resolve({ ...result, output, stepOutputs });
+      };
+
+      const waitForPrompt = (after: string) => {
+        clearTimeout(stepTimer);
+        stepTimer = setTimeout(() => {
+          resolveResult({ success: false, error: `No prompt from ${hostname} ${stepTimeout / 1000} seconds after ${after}` });
+        }, stepTimeout);
+      };
+
+      conn.on('ready', () => {
+        Logger.info(`SSH connection established to ${hostname} for a shell session of ${steps.length} steps`);
+
+        conn.shell((err, stream) => {
+          if (err) {
+            resolveResult({ success: false, error: `Failed to start shell: ${err.message}` });
+            return;
+          }
+
+          const nextStep = () => {
+            if (stepIndex >= 0) {
+              stepOutputs.push(output.slice(stepStart));
+            }
+            stepIndex++;
+            if (stepIndex >= steps.length) {
+              Logger.info(`Shell session completed for ${hostname}`);
+              resolveResult({ success: true });
+              return;
+            }
+
+            stepStart = output.length;
+            waitForPrompt(`'${steps[stepIndex][0]}'`);
+            // A terminal sends a carriage return for the Enter key
+            stream.write(steps[stepIndex].map(line => `${line}\r`).join(''));
+          };
+
+          stream.on('data', (data: Buffer) => {
+            output += data.toString();
+            clearTimeout(settleTimer);
+            if (promptPattern.test(output.slice(stepStart))) {
+              settleTimer = setTimeout(nextStep, settleTime);
+            }
+          });
+
+          stream.stderr.on('data', (data: Buffer) => {
+            Logger.error(`SSH shell stderr from ${hostname}: ${data.toString()}`);
+            output += data.toString();
+          });
+
+          stream.on('close', () => {
+            resolveResult({ success: false, error: 'Shell closed unexpectedly' });
+          });
+
+          waitForPrompt('login');
+        });
+      });
+
+      conn.on('error', (err) => {
+        Logger.error(`SSH shell session error for ${hostname}: ${err.message}`);
+        resolveResult({ success: false, error: `Connection error: ${err.message}` });
+      });
+
+      conn.on('close', () => {
+        resolveResult({ success: false, error: 'Connection closed unexpectedly' });
+      });
+
+      try {
+        conn.connect({
+          host: hostname,
+          port,
+          username,
+          password,
+          readyTimeout: 20000
+        });
+      } catch (err: any) {
+        resolveResult({ success: false, error: `Failed to initiate connection: ${err.message}` });
+      }
+    });
+  }
 }
\ No newline at end of file
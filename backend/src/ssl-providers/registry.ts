@@ -0,0 +1,234 @@
+import { DatabaseManager } from '../database';
+import { ProviderSetting } from '../dns-providers/dns-provider';
+import { AcmeEnvironment } from '../types';
+
+/**
+ * Issuance limits a CA enforces in production, counted over a rolling window
+ */
+export interface AcmeRateLimits {
+  // New certificates per registered domain, e.g. example.com
+  certificatesPerDomain: number;
+  // Certificates for exactly the same set of names
+  duplicateCertificates: number;
+  windowDays: number;
+}
+
+export interface ExternalAccountBinding {
+  kid: string;
+  hmacKey: string;
+}
+
+/**
+ * A certificate authority reachable over ACME (RFC 8555). Connections pick one
+ * by id in ssl_provider; its keys live in the settings table under that id,
+ * named `<settingsPrefix>_EMAIL`, `_DIRECTORY_URL`, `_EAB_KID`, `_EAB_HMAC_KEY`
+ * and `_RATE_LIMIT_*`.
+ */
+export interface AcmeCaDefinition {
+  id: string;
+  name: string;
+  description: string;
+  settingsPrefix: string;
+  // Production directory; empty when it has to be configured
+  directoryUrl: string;
+  // CAs without a staging directory always issue from production
+  stagingDirectoryUrl?: string;
+  externalAccountBinding: 'required' | 'optional' | 'none';
+  emailRequired: boolean;
+  // Keys besides the standard ones
+  extraSettings?: ProviderSetting[];
+  // Published limits, the defaults of the `_RATE_LIMIT_*` settings
+  rateLimits?: AcmeRateLimits;
+  // Fallback when no EAB credentials are configured (ZeroSSL issues them for an API key)
+  fetchExternalAccountBinding?: (settings: Record<string, string>) => Promise<ExternalAccountBinding | null>;
+}
+
+/**
+ * Everything needed to talk to a CA in one environment
+ */
+export interface AcmeDirectory {
+  caId: string;
+  caName: string;
+  directoryUrl: string;
+  email?: string;
+  externalAccountBinding?: ExternalAccountBinding;
+}
+
+export const DEFAULT_ACME_CA = 'letsencrypt';
+
+const cas = new Map<string, AcmeCaDefinition>();
+
+export function registerAcmeCa(definition: AcmeCaDefinition): void {
+  cas.set(definition.id, definition);
+}
+
+export function getAcmeCaDefinition(id: string): AcmeCaDefinition | undefined {
+  return cas.get(id);
+}
+
+export function listAcmeCas(): AcmeCaDefinition[] {
+  return Array.from(cas.values());
+}
+
+export function getAcmeCaId(connection: { ssl_provider?: string }): string {
+  return connection.ssl_provider || DEFAULT_ACME_CA;
+}
+
+/**
+ * Settings schema of a CA, as shown in the settings dialog
+ */
+export function getAcmeCaSettings(definition: AcmeCaDefinition): ProviderSetting[] {
+  const prefix = definition.settingsPrefix;
+  const eabRequired = definition.externalAccountBinding === 'required' && !definition.fetchExternalAccountBinding;
+  const settings: ProviderSetting[] = [
+    { key: `${prefix}_EMAIL`, description: 'Email for account registration and renewal notifications', required: definition.emailRequired, secret: false },
+    {
+      key: `${prefix}_DIRECTORY_URL`,
+      description: definition.directoryUrl ? `ACME directory URL (default: ${definition.directoryUrl})` : 'ACME directory URL, e.g. https://ca.example.com/acme/acme/directory',
+      required: !definition.directoryUrl,
+      secret: false
+    }
+  ];
+
+  if (definition.externalAccountBinding !== 'none') {
+    settings.push(
+      { key: `${prefix}_EAB_KID`, description: 'External Account Binding key ID', required: eabRequired, secret: false },
+      { key: `${prefix}_EAB_HMAC_KEY`, description: 'External Account Binding HMAC key (base64url)', required: eabRequired, secret: true }
+    );
+  }
+
+  const limits = definition.rateLimits;
+  settings.push(
+    { key: `${prefix}_RATE_LIMIT_PER_DOMAIN`, description: `Certificates per registered domain in the rate-limit window, 0 for no limit (default: ${limits?.certificatesPerDomain ?? 0})`, required: false, secret: false },
+    { key: `${prefix}_RATE_LIMIT_DUPLICATES`, description: `Certificates for the same set of names in the rate-limit window, 0 for no limit (default: ${limits?.duplicateCertificates ?? 0})`, required: false, secret: false },
+    { key: `${prefix}_RATE_LIMIT_WINDOW_DAYS`, description: `Length of the rolling rate-limit window in days (default: ${limits?.windowDays ?? 7})`, required: false, secret: false },
+    { key: `${prefix}_RATE_LIMIT_ACTION`, description: 'What to do when a limit is reached: block (default) or warn and order anyway', required: false, secret: false }
+  );
+
+  return [...settings, ...(definition.extraSettings || [])];
+}
+
+/**
+ * Settings of a CA by key name, without empty values
+ */
+export async function loadAcmeCaSettings(database: DatabaseManager, id: string): Promise<Record<string, string>> {
+  const rows = await database.getSettingsByProvider(id);
+  const settings: Record<string, string> = {};
+  for (const row of rows) {
+    if (row.key_value) {
+      settings[row.key_name] = row.key_value;
+    }
+  }
+  return settings;
+}
+
+/**
+ * Directory URL, contact and EAB credentials of a CA in the given environment
+ */
+export async function resolveAcmeDirectory(database: DatabaseManager, id: string, environment: AcmeEnvironment): Promise<AcmeDirectory> {
+  const definition = cas.get(id);
+  if (!definition) {
+    throw new Error(`Unsupported SSL provider: ${id}`);
+  }
+
+  const settings = await loadAcmeCaSettings(database, id);
+  const prefix = definition.settingsPrefix;
+  const email = settings[`${prefix}_EMAIL`];
+  if (definition.emailRequired && !email) {
+    throw new Error(`${definition.name} email not configured in settings. Please add ${prefix}_EMAIL to your settings.`);
+  }
+
+  // The directory override applies to production; staging always uses the CA's test directory
+  const directoryUrl = environment === 'staging' && definition.stagingDirectoryUrl
+    ? definition.stagingDirectoryUrl
+    : settings[`${prefix}_DIRECTORY_URL`] || definition.directoryUrl;
+  if (!directoryUrl) {
+    throw new Error(`${definition.name} directory URL not configured in settings. Please add ${prefix}_DIRECTORY_URL to your settings.`);
+  }
+
+  let externalAccountBinding: ExternalAccountBinding | undefined;
+  if (definition.externalAccountBinding !== 'none') {
+    const kid = settings[`${prefix}_EAB_KID`];
+    const hmacKey = settings[`${prefix}_EAB_HMAC_KEY`];
+    if (kid && hmacKey) {
+      externalAccountBinding = { kid, hmacKey };
+    } else if (definition.fetchExternalAccountBinding) {
+      externalAccountBinding = (await definition.fetchExternalAccountBinding(settings)) || undefined;
+      // Keep generated credentials so every account and request uses the same ones
+      if (externalAccountBinding) {
+        await database.upsertSetting(`${prefix}_EAB_KID`, externalAccountBinding.kid, id, 'External Account Binding key ID');
+        await database.upsertSetting(`${prefix}_EAB_HMAC_KEY`, externalAccountBinding.hmacKey, id, 'External Account Binding HMAC key (base64url)');
+      }
+    }
+
+    if (!externalAccountBinding && definition.externalAccountBinding === 'required') {
+      throw new Error(`${definition.name} requires External Account Binding. Please add ${prefix}_EAB_KID and ${prefix}_EAB_HMAC_KEY to your settings.`);
+    }
+  }
+
+  return {
+    caId: definition.id,
+    caName: definition.name,
+    directoryUrl,
+    email,
+    externalAccountBinding
+  };
+}
+
+registerAcmeCa({
+  id: 'letsencrypt',
+  name: 'Let\'s Encrypt',
+  description: 'Free SSL certificate provider',
+  settingsPrefix: 'LETSENCRYPT',
+  directoryUrl: 'https://acme-v02.api.letsencrypt.org/directory',
+  stagingDirectoryUrl: 'https://acme-staging-v02.api.letsencrypt.org/directory',
+  externalAccountBinding: 'none',
+  emailRequired: true,
+  rateLimits: { certificatesPerDomain: 50, duplicateCertificates: 5, windowDays: 7 }
+});
+
+registerAcmeCa({
+  id: 'zerossl',
+  name: 'ZeroSSL',
+  description: 'Free SSL certificate provider (ACME with External Account Binding)',
+  settingsPrefix: 'ZEROSSL',
+  directoryUrl: 'https://acme.zerossl.com/v2/DV90',
+  externalAccountBinding: 'required',
+  emailRequired: false,
+  extraSettings: [
+    { key: 'ZEROSSL_KEY', description: 'API key from ZeroSSL Dashboard > Developer > API Keys, used to generate EAB credentials when none are set', required: false, secret: true }
+  ],
+  fetchExternalAccountBinding: async settings => settings.ZEROSSL_KEY
+    ? (await import('./zerossl')).fetchZeroSSLExternalAccountBinding(settings.ZEROSSL_KEY)
+    : null
+});
+
+registerAcmeCa({
+  id: 'gts',
+  name: 'Google Trust Services',
+  description: 'Google public CA; EAB keys from `gcloud publicca external-account-keys create`',
+  settingsPrefix: 'GTS',
+  directoryUrl: 'https://dv.acme-v02.api.pki.goog/directory',
+  externalAccountBinding: 'required',
+  emailRequired: false
+});
+
+registerAcmeCa({
+  id: 'sectigo',
+  name: 'Sectigo',
+  description: 'Commercial CA; set the directory URL for OV or EV certificates',
+  settingsPrefix: 'SECTIGO',
+  directoryUrl: 'https://acme.sectigo.com/v2/DV',
+  externalAccountBinding: 'required',
+  emailRequired: false
+});
+
+registerAcmeCa({
+  id: 'acme',
+  name: 'Custom ACME Server',
+  description: 'Any RFC 8555 server, e.g. an internal smallstep step-ca or Pebble for testing',
+  settingsPrefix: 'ACME',
+  directoryUrl: '',
+  externalAccountBinding: 'optional',
+  emailRequired: false
+});
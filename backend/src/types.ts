@@ -8,7 +8,29 @@ export interface ConnectionRecord {
   ssl_provider: string;
   dns_provider: string;
   dns_challenge_mode?: string;
-  application_type?: 'vos' | 'ise' | 'general';
+  dns_challenge_delegate?: string; // CNAME target of _acme-challenge when dns_challenge_mode is 'delegated'
+  dns_challenge_delegate_provider?: string; // DNS provider owning the delegated zone; defaults to dns_provider
+  acme_challenge_type?: AcmeChallengeType;
+  http_challenge_method?: HttpChallengeMethod;
+  http_challenge_webroot?: string; // Web root on the host for the 'ssh' HTTP-01 method
+  acme_environment?: AcmeEnvironment; // Defaults to LETSENCRYPT_STAGING when unset
+  key_algorithm?: string; // 'rsa2048' (default), 'rsa3072', 'rsa4096', 'ec256' or 'ec384'
+  hash_algorithm?: string; // 'sha256' (default), 'sha384' or 'sha512'
+  vos_services?: string; // Comma-separated VOS certificate services, e.g. 'tomcat,tomcat-ECDSA'; defaults to tomcat
+  ecdsa_key_algorithm?: string; // Key of the EC services when RSA services are managed too; defaults to 'ec256'
+  mra_domains?: string; // Comma-separated Unified CM registration domains an Expressway-E serves MRA clients for
+  mra_san_format?: MraSanFormat; // How the registration domains appear in the certificate; defaults to 'collab-edge'
+  ios_bindings?: string; // Comma-separated IOS trustpoint bindings, 'https' and/or 'sip-ua'; defaults to https
+  ios_dry_run?: boolean; // Only log the IOS CLI lines a deployment would apply
+  fmc_host?: string; // Management Center the certificate is imported into, hostname or IP address
+  fmc_certificate_name?: string; // Internal certificate object name; defaults to the certificate's FQDN
+  fmc_ravpn_policy?: string; // Remote access VPN policy whose identity certificate is set to the object
+  fmc_deploy?: boolean; // Deploy to the managed devices after the import
+  fmc_devices?: string; // Comma-separated managed devices to deploy, all devices with pending changes when empty
+  wlc_trustpoints?: string; // Comma-separated WLC trustpoints, 'web-admin' and/or 'web-auth', each with its own certificate; defaults to both
+  wlc_parameter_map?: string; // Web-auth parameter map the web-auth trustpoint is assigned to; defaults to 'global'
+  general_deploy_targets?: string; // JSON array of SSH targets general certificates are uploaded to, see general-provider; none means download only
+  application_type?: 'vos' | 'ise' | 'expressway' | 'ios' | 'fmc' | 'wlc' | 'general';
   ise_application_subtype?: 'guest' | 'portal' | 'admin';
   version?: string;
   alt_names?: string;
@@ -39,4 +61,178 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
-}
\ No newline at end of file
+}
+export type AcmeChallengeType = 'dns-01' | 'http-01';
+
+export type AcmeEnvironment = 'staging' | 'production';
+
+// 'responder' serves tokens from this server (behind a reverse proxy); 'ssh' writes them into the host's web root
+export type HttpChallengeMethod = 'responder' | 'ssh';
+
+// 'dns' names the registration domain itself, 'collab-edge' names collab-edge.<domain>
+export type MraSanFormat = 'dns' | 'collab-edge';
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export interface UserRecord {
+  id?: number;
+  username: string;
+  password_hash?: string;
+  role: UserRole;
+  is_enabled?: boolean | number;
+  last_login?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AuthenticatedUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+export type ApiTokenScope = 'read' | 'renew' | 'settings' | 'key-export';
+
+export interface ApiTokenRecord {
+  id?: number;
+  name: string;
+  token_hash?: string;
+  scopes: ApiTokenScope[];
+  connection_ids: number[] | null; // null means the token may act on every connection
+  created_by?: number;
+  created_by_username?: string;
+  expires_at?: string | null;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_at?: string;
+}
+
+export interface ApiTokenPrincipal {
+  id: number;
+  name: string;
+  scopes: ApiTokenScope[];
+  connectionIds: number[] | null;
+}
+
+export type AuditActorType = 'user' | 'api_token' | 'system';
+
+export interface AuditEventRecord {
+  id?: number;
+  actor_type: AuditActorType;
+  actor_id?: number | null;
+  actor_name: string;
+  action: string;
+  target_type: string;
+  target_id?: string | null;
+  target_name?: string | null;
+  changes?: Record<string, { before: any; after: any }> | null;
+  details?: string | null;
+  ip_address?: string | null;
+  created_at?: string;
+}
+
+export interface AuditEventFilters {
+  actor?: string;
+  action?: string;
+  target_type?: string;
+  target_id?: string;
+  from?: string;
+  to?: string;
+}
+
+export type RevocationReason = 'keyCompromise' | 'superseded' | 'cessationOfOperation';
+
+export type RevocationSigner = 'account' | 'certificate_key';
+
+export interface CertificateRevocationRecord {
+  id?: number;
+  connection_id: number;
+  serial_number: string;
+  fingerprint256: string;
+  common_name?: string | null;
+  environment: AcmeEnvironment;
+  ca_id: string;
+  reason: RevocationReason;
+  reason_code: number;
+  signed_with: RevocationSigner;
+  revoked_by: string;
+  reissue_renewal_id?: string | null;
+  revoked_at?: string;
+}
+
+// 'manual' certificates are only downloaded, never deployed by the dashboard
+export type CertificateDeployStatus = 'pending' | 'deployed' | 'failed' | 'manual';
+
+// One issued certificate in a connection's history
+export interface IssuedCertificateRecord {
+  id?: number;
+  connection_id: number;
+  renewal_id?: string | null;
+  serial_number: string;
+  fingerprint: string;
+  fingerprint256: string;
+  common_name?: string | null;
+  sans: string[];
+  issuer: string;
+  not_before: string;
+  not_after: string;
+  ca_id: string;
+  environment: AcmeEnvironment;
+  key_type: string;
+  // VOS certificate service or WLC trustpoint the certificate was issued for
+  service?: string | null;
+  deploy_targets: string[];
+  deploy_status: CertificateDeployStatus;
+  deploy_error?: string | null;
+  deployed_at?: string | null;
+  created_at?: string;
+  // From certificate_revocations, when the certificate was revoked
+  revoked_at?: string | null;
+  revocation_reason?: RevocationReason | null;
+}
+
+// Latest ACME Renewal Information (ARI) for the certificate issued to a connection
+export interface RenewalInfoRecord {
+  connection_id: number;
+  ca_id: string;
+  cert_id: string;
+  window_start: string;
+  window_end: string;
+  explanation_url?: string | null;
+  scheduled_at: string;
+  retry_after: string;
+  checked_at?: string;
+}
+
+// A CUCM or IM&P cluster, renewed through its publisher's connection
+export interface ClusterRecord {
+  id?: number;
+  name: string;
+  publisher_id: number; // Connection of the publisher node
+  discovered_at?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type ClusterNodeRole = 'publisher' | 'subscriber';
+
+// 'verified' when the node serves the current certificate, 'mismatch' when it serves another one
+export type ClusterNodeVerifyStatus = 'pending' | 'verified' | 'mismatch' | 'unreachable';
+
+export interface ClusterNodeRecord {
+  id?: number;
+  cluster_id: number;
+  hostname: string; // FQDN
+  ip_address?: string | null;
+  role: ClusterNodeRole;
+  position: number; // Order the nodes are restarted in, publisher first
+  verify_status: ClusterNodeVerifyStatus;
+  live_serial?: string | null;
+  verify_error?: string | null;
+  verified_at?: string | null;
+  restarted_at?: string | null;
+}
+
+export interface ClusterWithNodes extends ClusterRecord {
+  nodes: ClusterNodeRecord[];
+}
@@ -0,0 +1,91 @@
+/**
+ * Just enough of a DER reader to pick fields out of certificates and CSRs,
+ * and of a writer to build PKCS#12 bundles
+ */
+export interface DerElement {
+  tag: number;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+export function readElement(der: Buffer, offset: number): DerElement {
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + der[contentStart + i];
+    }
+    contentStart += lengthBytes;
+  }
+  return { tag, start: offset, contentStart, end: contentStart + length };
+}
+
+export function readChildren(der: Buffer, parent: DerElement): DerElement[] {
+  const children: DerElement[] = [];
+  for (let offset = parent.contentStart; offset < parent.end;) {
+    const child = readElement(der, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+export const contentOf = (der: Buffer, element: DerElement): Buffer => der.subarray(element.contentStart, element.end);
+
+// The whole element, tag and length included
+export const encodingOf = (der: Buffer, element: DerElement): Buffer => der.subarray(element.start, element.end);
+
+export function encodeElement(tag: number, content: Buffer): Buffer {
+  let length: Buffer;
+  if (content.length < 0x80) {
+    length = Buffer.from([content.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let remaining = content.length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+      bytes.unshift(remaining % 256);
+    }
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, content]);
+}
+
+export const encodeSequence = (...children: Buffer[]): Buffer => encodeElement(0x30, Buffer.concat(children));
+
+// SET OF, sorted as DER requires
+export const encodeSet = (...children: Buffer[]): Buffer => encodeElement(0x31, Buffer.concat([...children].sort(Buffer.compare)));
+
+export const encodeOctetString = (content: Buffer): Buffer => encodeElement(0x04, content);
+
+// [n] EXPLICIT
+export const encodeExplicit = (tagNumber: number, child: Buffer): Buffer => encodeElement(0xa0 | tagNumber, child);
+
+export function encodeInteger(value: number): Buffer {
+  const bytes: number[] = [];
+  for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining % 256);
+  }
+  // Non-negative, so a leading bit needs a zero byte in front
+  if (bytes.length === 0 || bytes[0] & 0x80) {
+    bytes.unshift(0);
+  }
+  return encodeElement(0x02, Buffer.from(bytes));
+}
+
+export function encodeOid(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const base128 = [arc & 0x7f];
+    for (let remaining = Math.floor(arc / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      base128.unshift(0x80 | (remaining & 0x7f));
+    }
+    bytes.push(...base128);
+  }
+  return encodeElement(0x06, Buffer.from(bytes));
+}
+
+export const encodeNull = (): Buffer => Buffer.from([0x05, 0x00]);
@@ -0,0 +1,8 @@
+/**
+ * The certificates of a PEM chain in order, the leaf first, each ending in its END line
+ */
+export function splitPemCertificates(pem: string): string[] {
+  return pem.split('-----END CERTIFICATE-----')
+    .filter(part => part.includes('-----BEGIN CERTIFICATE-----'))
+    .map(part => part.trim() + '\n-----END CERTIFICATE-----');
+}
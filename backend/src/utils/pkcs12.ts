@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import {
+  encodeExplicit,
+  encodeInteger,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeSet
+} from './der';
+
+/**
+ * PKCS#12 bundles (RFC 7292) of a key and its certificate chain. The key is
+ * encrypted with 3DES and the MAC is HMAC-SHA1, the legacy algorithms that
+ * IOS-XE imports; the certificates aren't encrypted.
+ */
+
+const OID_DATA = '1.2.840.113549.1.7.1';
+const OID_CERT_BAG = '1.2.840.113549.1.12.10.1.3';
+const OID_SHROUDED_KEY_BAG = '1.2.840.113549.1.12.10.1.2';
+const OID_X509_CERTIFICATE = '1.2.840.113549.1.9.22.1';
+const OID_LOCAL_KEY_ID = '1.2.840.113549.1.9.21';
+const OID_PBE_SHA1_3DES = '1.2.840.113549.1.12.1.3';
+const OID_SHA1 = '1.3.14.3.2.26';
+
+const ITERATIONS = 2048;
+
+// RFC 7292 appendix B.2 key derivation with SHA-1; id 1 derives keys, 2 IVs and 3 MAC keys
+function deriveKey(password: Buffer, salt: Buffer, id: number, iterations: number, size: number): Buffer {
+  const u = 20;
+  const v = 64;
+  const fill = (value: Buffer) => {
+    const filled = Buffer.alloc(v * Math.ceil(value.length / v));
+    for (let index = 0; index < filled.length; index++) {
+      filled[index] = value[index % value.length];
+    }
+    return filled;
+  };
+  const diversifier = Buffer.alloc(v, id);
+  const input = Buffer.concat([fill(salt), fill(password)]);
+
+  const blocks: Buffer[] = [];
+  for (let i = 0; i < Math.ceil(size / u); i++) {
+    let block = crypto.createHash('sha1').update(diversifier).update(input).digest();
+    for (let round = 1; round < iterations; round++) {
+      block = crypto.createHash('sha1').update(block).digest();
+    }
+    blocks.push(block);
+
+    // Each v-byte chunk of the input becomes chunk + block + 1, modulo 2^(8v)
+    const addend = fill(block);
+    for (let offset = 0; offset < input.length; offset += v) {
+      let carry = 1;
+      for (let index = v - 1; index >= 0; index--) {
+        const sum = input[offset + index] + addend[index] + carry;
+        input[offset + index] = sum & 0xff;
+        carry = sum >> 8;
+      }
+    }
+  }
+  return Buffer.concat(blocks).subarray(0, size);
+}
+
+// The password as a null-terminated BMPString
+const passwordBytes = (password: string): Buffer => Buffer.from(`${password}\0`, 'utf16le').swap16();
+
+const pemToDer = (pem: string): Buffer => Buffer.from(pem.replace(/-----(BEGIN|END)[^-]*-----/g, '').replace(/\s+/g, ''), 'base64');
+
+const dataContentInfo = (content: Buffer): Buffer =>
+  encodeSequence(encodeOid(OID_DATA), encodeExplicit(0, encodeOctetString(content)));
+
+const localKeyIdAttributes = (localKeyId: Buffer): Buffer =>
+  encodeSet(encodeSequence(encodeOid(OID_LOCAL_KEY_ID), encodeSet(encodeOctetString(localKeyId))));
+
+/**
+ * A PKCS#12 bundle of the key, the certificate and its CA certificates
+ */
+export function createPkcs12(privateKeyPem: string, certificatePem: string, caCertificatePems: string[], password: string): Buffer {
+  const certificate = pemToDer(certificatePem);
+  const localKeyId = crypto.createHash('sha1').update(certificate).digest();
+
+  const certBag = (der: Buffer, attributes?: Buffer) => encodeSequence(
+    encodeOid(OID_CERT_BAG),
+    encodeExplicit(0, encodeSequence(encodeOid(OID_X509_CERTIFICATE), encodeExplicit(0, encodeOctetString(der)))),
+    ...(attributes ? [attributes] : [])
+  );
+  const certificates = encodeSequence(
+    certBag(certificate, localKeyIdAttributes(localKeyId)),
+    ...caCertificatePems.map(pem => certBag(pemToDer(pem)))
+  );
+
+  const secret = passwordBytes(password);
+  const keySalt = crypto.randomBytes(8);
+  const cipher = crypto.createCipheriv(
+    'des-ede3-cbc',
+    deriveKey(secret, keySalt, 1, ITERATIONS, 24),
+    deriveKey(secret, keySalt, 2, ITERATIONS, 8)
+  );
+  const privateKey = crypto.createPrivateKey(privateKeyPem).export({ type: 'pkcs8', format: 'der' });
+  const encryptedKey = encodeSequence(
+    encodeSequence(encodeOid(OID_PBE_SHA1_3DES), encodeSequence(encodeOctetString(keySalt), encodeInteger(ITERATIONS))),
+    encodeOctetString(Buffer.concat([cipher.update(privateKey), cipher.final()]))
+  );
+  const keys = encodeSequence(encodeSequence(
+    encodeOid(OID_SHROUDED_KEY_BAG),
+    encodeExplicit(0, encryptedKey),
+    localKeyIdAttributes(localKeyId)
+  ));
+
+  const authenticatedSafe = encodeSequence(dataContentInfo(certificates), dataContentInfo(keys));
+  const macSalt = crypto.randomBytes(8);
+  const mac = crypto.createHmac('sha1', deriveKey(secret, macSalt, 3, ITERATIONS, 20)).update(authenticatedSafe).digest();
+
+  return encodeSequence(
+    encodeInteger(3),
+    dataContentInfo(authenticatedSafe),
+    encodeSequence(
+      encodeSequence(encodeSequence(encodeOid(OID_SHA1), encodeNull()), encodeOctetString(mac)),
+      encodeOctetString(macSalt),
+      encodeInteger(ITERATIONS)
+    )
+  );
+}
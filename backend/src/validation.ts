@@ -1,5 +1,20 @@
 import validator from 'validator';
-import { ConnectionRecord } from './types';
+import { ApiTokenScope, ConnectionRecord, UserRole } from './types';
+import { listDnsProviders } from './dns-providers/registry';
+import { DNS_CHALLENGE_MODES } from './dns-providers/delegation';
+import { ACME_CHALLENGE_TYPES, HTTP_CHALLENGE_METHODS } from './http-challenge';
+import { ACME_ENVIRONMENTS } from './acme-environment';
+import { listAcmeCas } from './ssl-providers/registry';
+import { HASH_ALGORITHMS, KEY_ALGORITHMS, getKeyParameterError } from './key-parameters';
+import { VOS_CERTIFICATE_SERVICES, isVosCertificateService } from './platform-providers/vos-services';
+import { MRA_SAN_FORMATS } from './expressway-mra';
+import { IOS_BINDINGS } from './platform-providers/ios-provider';
+import { DEFAULT_WLC_TRUSTPOINTS, isWlcTrustpoint } from './platform-providers/wlc-provider';
+import { parseDeployTargets } from './platform-providers/general-provider';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'operator', 'admin'];
+export const MIN_PASSWORD_LENGTH = 8;
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'renew', 'settings', 'key-export'];
 
 export const validateConnectionData = (data: any): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
@@ -11,8 +26,8 @@ export const validateConnectionData = (data: any): { isValid: boolean; errors: s
   }
 
   // Hostname validation based on application type
-  if (data.application_type === 'vos') {
-    // VOS applications require a valid hostname (strict)
+  if (['vos', 'expressway', 'ios', 'fmc', 'wlc'].includes(data.application_type)) {
+    // VOS, Expressway, IOS, FMC and WLC applications require a valid hostname (strict)
     if (!data.hostname || typeof data.hostname !== 'string') {
       errors.push('Hostname is required and must be a string');
     } else if (!validator.isAscii(data.hostname)) {
@@ -46,18 +61,20 @@ export const validateConnectionData = (data: any): { isValid: boolean; errors: s
     errors.push('Domain must be a valid FQDN');
   }
 
-  // Username and password are required for VOS applications only
+  // Username and password are required for VOS, Expressway, IOS, FMC and WLC applications only
   const isVosApplication = data.application_type === 'vos' || !data.application_type; // Default to VOS if not specified
+  const applicationLabels: Record<string, string> = { vos: 'VOS', expressway: 'Expressway', ios: 'IOS', fmc: 'FMC', wlc: 'WLC' };
   
-  if (isVosApplication) {
+  if (isVosApplication || ['expressway', 'ios', 'fmc', 'wlc'].includes(data.application_type)) {
+    const applicationLabel = applicationLabels[data.application_type || 'vos'];
     if (!data.username || typeof data.username !== 'string') {
-      errors.push('Username is required and must be a string for VOS applications');
+      errors.push(`Username is required and must be a string for ${applicationLabel} applications`);
     } else if (!validator.isAscii(data.username)) {
       errors.push('Username must contain only ASCII characters');
     }
 
     if (!data.password || typeof data.password !== 'string') {
-      errors.push('Password is required and must be a string for VOS applications');
+      errors.push(`Password is required and must be a string for ${applicationLabel} applications`);
     } else if (!validator.isAscii(data.password)) {
       errors.push('Password must contain only ASCII characters');
     }
@@ -122,14 +139,83 @@ export const validateConnectionData = (data: any): { isValid: boolean; errors: s
 
   if (!data.ssl_provider || typeof data.ssl_provider !== 'string') {
     errors.push('SSL provider is required and must be a string');
-  } else if (!validator.isIn(data.ssl_provider, ['letsencrypt', 'zerossl'])) {
-    errors.push('SSL provider must be either "letsencrypt" or "zerossl"');
+  } else if (!validator.isIn(data.ssl_provider, listAcmeCas().map(ca => ca.id))) {
+    errors.push(`SSL provider must be one of: ${listAcmeCas().map(ca => ca.id).join(', ')}`);
   }
 
   if (!data.dns_provider || typeof data.dns_provider !== 'string') {
     errors.push('DNS provider is required and must be a string');
-  } else if (!validator.isIn(data.dns_provider, ['cloudflare', 'digitalocean', 'route53', 'azure', 'google', 'custom'])) {
-    errors.push('DNS provider must be one of: cloudflare, digitalocean, route53, azure, google, custom');
+  } else if (!validator.isIn(data.dns_provider, listDnsProviders().map(provider => provider.id))) {
+    errors.push(`DNS provider must be one of: ${listDnsProviders().map(provider => provider.id).join(', ')}`);
+  }
+
+  // DNS challenge mode is optional, defaults to 'auto'
+  if (data.dns_challenge_mode !== undefined && data.dns_challenge_mode !== null && data.dns_challenge_mode !== '') {
+    if (!validator.isIn(String(data.dns_challenge_mode), DNS_CHALLENGE_MODES)) {
+      errors.push(`DNS challenge mode must be one of: ${DNS_CHALLENGE_MODES.join(', ')}`);
+    } else if (data.dns_challenge_mode === 'delegated') {
+      if (!data.dns_challenge_delegate || typeof data.dns_challenge_delegate !== 'string' ||
+          !validator.isFQDN(data.dns_challenge_delegate.trim().replace(/\.$/, ''), { allow_underscores: true, allow_numeric_tld: true })) {
+        errors.push('Delegated challenge target must be a valid FQDN (e.g., cucm.acme.example.net)');
+      }
+      if (data.dns_challenge_delegate_provider && !validator.isIn(String(data.dns_challenge_delegate_provider), listDnsProviders().map(provider => provider.id))) {
+        errors.push(`Delegated challenge DNS provider must be one of: ${listDnsProviders().map(provider => provider.id).join(', ')}`);
+      }
+    }
+  }
+
+  // ACME challenge type is optional, defaults to 'dns-01'
+  if (data.acme_challenge_type !== undefined && data.acme_challenge_type !== null && data.acme_challenge_type !== '') {
+    if (!validator.isIn(String(data.acme_challenge_type), ACME_CHALLENGE_TYPES)) {
+      errors.push(`ACME challenge type must be one of: ${ACME_CHALLENGE_TYPES.join(', ')}`);
+    } else if (data.acme_challenge_type === 'http-01') {
+      if (typeof data.alt_names === 'string' && data.alt_names.includes('*')) {
+        errors.push('Wildcard names require DNS-01 challenges');
+      }
+      if (data.http_challenge_method !== undefined && data.http_challenge_method !== null && data.http_challenge_method !== '' &&
+          !validator.isIn(String(data.http_challenge_method), HTTP_CHALLENGE_METHODS)) {
+        errors.push(`HTTP challenge method must be one of: ${HTTP_CHALLENGE_METHODS.join(', ')}`);
+      } else if (data.http_challenge_method === 'ssh' && !data.http_challenge_webroot) {
+        errors.push('Web root is required to publish HTTP-01 challenges over SSH');
+      }
+    }
+  }
+
+  // ACME environment is optional, defaults to LETSENCRYPT_STAGING
+  if (data.acme_environment !== undefined && data.acme_environment !== null && data.acme_environment !== '') {
+    if (!validator.isIn(String(data.acme_environment), ACME_ENVIRONMENTS)) {
+      errors.push(`ACME environment must be one of: ${ACME_ENVIRONMENTS.join(', ')}`);
+    }
+  }
+
+  // Key parameters are optional, defaulting to RSA 2048 with SHA-256 for tomcat
+  for (const field of ['key_algorithm', 'ecdsa_key_algorithm']) {
+    if (data[field] !== undefined && data[field] !== null && data[field] !== '' && !validator.isIn(String(data[field]), Object.keys(KEY_ALGORITHMS))) {
+      errors.push(`${field === 'key_algorithm' ? 'Key algorithm' : 'ECDSA key algorithm'} must be one of: ${Object.keys(KEY_ALGORITHMS).join(', ')}`);
+    }
+  }
+  if (data.ecdsa_key_algorithm && KEY_ALGORITHMS[data.ecdsa_key_algorithm as keyof typeof KEY_ALGORITHMS]?.type === 'rsa') {
+    errors.push('ECDSA key algorithm must be an EC key');
+  }
+  if (data.hash_algorithm !== undefined && data.hash_algorithm !== null && data.hash_algorithm !== '' && !validator.isIn(String(data.hash_algorithm), HASH_ALGORITHMS)) {
+    errors.push(`Hash algorithm must be one of: ${HASH_ALGORITHMS.join(', ')}`);
+  }
+  if (data.vos_services !== undefined && data.vos_services !== null && data.vos_services !== '') {
+    const unknown = String(data.vos_services).split(',').map(service => service.trim()).filter(service => service && !isVosCertificateService(service));
+    if (unknown.length > 0) {
+      errors.push(`VOS certificate services must be among: ${Object.keys(VOS_CERTIFICATE_SERVICES).join(', ')}`);
+    }
+  }
+  const keyParameterError = getKeyParameterError(data);
+  if (keyParameterError) {
+    errors.push(keyParameterError);
+  }
+
+  // Web root is stored unescaped, so only plain absolute paths are accepted
+  if (data.http_challenge_webroot !== undefined && data.http_challenge_webroot !== null && data.http_challenge_webroot !== '') {
+    if (typeof data.http_challenge_webroot !== 'string' || !/^\/[A-Za-z0-9._\/-]*$/.test(data.http_challenge_webroot.trim())) {
+      errors.push('Web root must be an absolute path (e.g., /var/www/html)');
+    }
   }
 
   // Version is optional
@@ -143,11 +229,66 @@ export const validateConnectionData = (data: any): { isValid: boolean; errors: s
 
   // Application type is optional, defaults to 'vos'
   if (data.application_type !== undefined && data.application_type !== null && data.application_type !== '') {
-    if (!validator.isIn(data.application_type, ['vos', 'ise', 'general'])) {
-      errors.push('Application type must be one of "vos", "ise", or "general"');
+    if (!validator.isIn(data.application_type, ['vos', 'ise', 'expressway', 'ios', 'fmc', 'wlc', 'general'])) {
+      errors.push('Application type must be one of "vos", "ise", "expressway", "ios", "fmc", "wlc", or "general"');
     }
   }
 
+  // MRA domains are optional for Expressway connections, the Unified CM registration domains of an Expressway-E
+  if (data.mra_domains !== undefined && data.mra_domains !== null && data.mra_domains !== '') {
+    if (typeof data.mra_domains !== 'string') {
+      errors.push('MRA domains must be a string');
+    } else {
+      for (const domain of data.mra_domains.split(',').map((name: string) => name.trim())) {
+        if (domain && !validator.isFQDN(domain, { allow_numeric_tld: true })) {
+          errors.push(`MRA domain "${domain}" must be a valid domain name`);
+        }
+      }
+    }
+  }
+  if (data.mra_san_format !== undefined && data.mra_san_format !== null && data.mra_san_format !== '' &&
+      !validator.isIn(String(data.mra_san_format), MRA_SAN_FORMATS)) {
+    errors.push(`MRA SAN format must be one of: ${MRA_SAN_FORMATS.join(', ')}`);
+  }
+
+  // IOS trustpoint bindings are optional, the HTTPS server when none are set
+  if (data.ios_bindings !== undefined && data.ios_bindings !== null && data.ios_bindings !== '') {
+    const unknown = String(data.ios_bindings).split(',').map(binding => binding.trim()).filter(binding => binding && !(IOS_BINDINGS as string[]).includes(binding));
+    if (unknown.length > 0) {
+      errors.push(`IOS bindings must be among: ${IOS_BINDINGS.join(', ')}`);
+    }
+  }
+
+  // FMC connections import into the Management Center at fmc_host, the hostname is the one the devices present
+  if (data.application_type === 'fmc') {
+    if (!data.fmc_host || typeof data.fmc_host !== 'string') {
+      errors.push('Management Center address is required for FMC applications');
+    } else if (!validator.isFQDN(data.fmc_host, { require_tld: false, allow_numeric_tld: true }) && !validator.isIP(data.fmc_host)) {
+      errors.push('Management Center address must be a hostname or IP address');
+    }
+  }
+  if (data.fmc_certificate_name !== undefined && data.fmc_certificate_name !== null && data.fmc_certificate_name !== '' &&
+      (typeof data.fmc_certificate_name !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/.test(data.fmc_certificate_name))) {
+    errors.push('Certificate object name must be up to 64 letters, numbers, dots, hyphens or underscores');
+  }
+  for (const field of ['fmc_ravpn_policy', 'fmc_devices']) {
+    if (data[field] !== undefined && data[field] !== null && data[field] !== '' && (typeof data[field] !== 'string' || !validator.isAscii(data[field]))) {
+      errors.push(`${field === 'fmc_devices' ? 'Managed devices' : 'RA VPN policy'} must contain only ASCII characters`);
+    }
+  }
+
+  // WLC trustpoints are optional, both when none are set
+  if (data.wlc_trustpoints !== undefined && data.wlc_trustpoints !== null && data.wlc_trustpoints !== '') {
+    const unknown = String(data.wlc_trustpoints).split(',').map(trustpoint => trustpoint.trim()).filter(trustpoint => trustpoint && !isWlcTrustpoint(trustpoint));
+    if (unknown.length > 0) {
+      errors.push(`WLC trustpoints must be among: ${DEFAULT_WLC_TRUSTPOINTS.join(', ')}`);
+    }
+  }
+  if (data.wlc_parameter_map !== undefined && data.wlc_parameter_map !== null && data.wlc_parameter_map !== '' &&
+      (typeof data.wlc_parameter_map !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9_-]{0,31}$/.test(data.wlc_parameter_map))) {
+    errors.push('Web-auth parameter map must be up to 32 letters, numbers, hyphens or underscores');
+  }
+
   // ISE Application subtype is optional for ISE connections
   if (data.ise_application_subtype !== undefined && data.ise_application_subtype !== null && data.ise_application_subtype !== '') {
     if (!validator.isIn(data.ise_application_subtype, ['guest', 'portal', 'admin'])) {
@@ -176,6 +317,20 @@ export const validateConnectionData = (data: any): { isValid: boolean; errors: s
     }
   }
 
+  // Deploy targets are optional for general applications, they log in with the connection's credentials
+  if (data.general_deploy_targets !== undefined && data.general_deploy_targets !== null && data.general_deploy_targets !== '') {
+    try {
+      if (typeof data.general_deploy_targets !== 'string') {
+        throw new Error('Deploy targets must be a JSON string');
+      }
+      if (parseDeployTargets(data.general_deploy_targets).length > 0 && (!data.username || !data.password)) {
+        errors.push('Username and password are required to deploy to SSH targets');
+      }
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
   // Alt names is optional
   if (data.alt_names !== undefined && data.alt_names !== null && data.alt_names !== '') {
     if (typeof data.alt_names !== 'string') {
@@ -206,12 +361,33 @@ export const sanitizeConnectionData = (data: any): Partial<ConnectionRecord> =>
     domain: data.domain ? validator.escape(String(data.domain)) : undefined,
     ssl_provider: validator.escape(String(data.ssl_provider || '')),
     dns_provider: validator.escape(String(data.dns_provider || '')),
-    application_type: (['vos', 'ise', 'general'].includes(data.application_type) ? data.application_type : 'vos') as 'vos' | 'ise' | 'general',
+    dns_challenge_mode: data.dns_challenge_mode !== undefined ? (data.dns_challenge_mode === 'delegated' ? 'delegated' : 'auto') : undefined,
+    dns_challenge_delegate: data.dns_challenge_delegate ? validator.escape(String(data.dns_challenge_delegate).trim()) : undefined,
+    dns_challenge_delegate_provider: data.dns_challenge_delegate_provider ? validator.escape(String(data.dns_challenge_delegate_provider)) : undefined,
+    acme_challenge_type: data.acme_challenge_type !== undefined ? (data.acme_challenge_type === 'http-01' ? 'http-01' : 'dns-01') : undefined,
+    http_challenge_method: data.http_challenge_method !== undefined ? (data.http_challenge_method === 'ssh' ? 'ssh' : 'responder') : undefined,
+    acme_environment: data.acme_environment ? (data.acme_environment === 'production' ? 'production' : 'staging') : undefined,
+    http_challenge_webroot: data.http_challenge_webroot ? String(data.http_challenge_webroot).trim() : undefined, // Path pattern is validated, escaping would break it
+    key_algorithm: data.key_algorithm ? validator.escape(String(data.key_algorithm)) : undefined,
+    hash_algorithm: data.hash_algorithm ? validator.escape(String(data.hash_algorithm)) : undefined,
+    vos_services: data.vos_services ? validator.escape(String(data.vos_services).split(',').map(service => service.trim()).filter(service => service).join(',')) : undefined,
+    ecdsa_key_algorithm: data.ecdsa_key_algorithm ? validator.escape(String(data.ecdsa_key_algorithm)) : undefined,
+    mra_domains: data.mra_domains !== undefined ? validator.escape(String(data.mra_domains || '').split(',').map(domain => domain.trim()).filter(domain => domain).join(',')) : undefined,
+    mra_san_format: data.mra_san_format ? (data.mra_san_format === 'dns' ? 'dns' : 'collab-edge') : undefined,
+    ios_bindings: data.ios_bindings ? validator.escape(String(data.ios_bindings).split(',').map(binding => binding.trim()).filter(binding => binding).join(',')) : undefined,
+    fmc_host: data.fmc_host ? validator.escape(String(data.fmc_host).trim()) : undefined,
+    fmc_certificate_name: data.fmc_certificate_name !== undefined ? validator.escape(String(data.fmc_certificate_name || '').trim()) : undefined,
+    fmc_ravpn_policy: data.fmc_ravpn_policy !== undefined ? String(data.fmc_ravpn_policy || '').trim() : undefined, // Policy names are matched as entered
+    fmc_devices: data.fmc_devices !== undefined ? String(data.fmc_devices || '').split(',').map(device => device.trim()).filter(device => device).join(',') : undefined, // Device names are matched as entered
+    wlc_trustpoints: data.wlc_trustpoints ? validator.escape(String(data.wlc_trustpoints).split(',').map(trustpoint => trustpoint.trim()).filter(trustpoint => trustpoint).join(',')) : undefined,
+    wlc_parameter_map: data.wlc_parameter_map ? validator.escape(String(data.wlc_parameter_map).trim()) : undefined,
+    application_type: (['vos', 'ise', 'expressway', 'ios', 'fmc', 'wlc', 'general'].includes(data.application_type) ? data.application_type : 'vos') as 'vos' | 'ise' | 'expressway' | 'ios' | 'fmc' | 'wlc' | 'general',
     ise_application_subtype: (['guest', 'portal', 'admin'].includes(data.ise_application_subtype) ? data.ise_application_subtype : undefined),
     version: validator.escape(String(data.version || '')),
     alt_names: validator.escape(String(data.alt_names || '')),
     custom_csr: data.custom_csr ? String(data.custom_csr) : undefined, // Don't escape CSR content
     general_private_key: data.general_private_key ? String(data.general_private_key) : undefined, // Don't escape private key content
+    general_deploy_targets: data.general_deploy_targets !== undefined ? String(data.general_deploy_targets || '').trim() : undefined, // Don't escape JSON content
     ise_nodes: data.ise_nodes ? validator.escape(String(data.ise_nodes)) : undefined,
     ise_certificate: data.ise_certificate ? String(data.ise_certificate) : undefined, // Don't escape certificate content
     ise_private_key: data.ise_private_key ? String(data.ise_private_key) : undefined, // Don't escape private key content
@@ -239,6 +415,14 @@ export const sanitizeConnectionData = (data: any): Partial<ConnectionRecord> =>
     sanitized.auto_renew = Boolean(data.auto_renew);
   }
   
+  if (data.ios_dry_run !== undefined) {
+    sanitized.ios_dry_run = Boolean(data.ios_dry_run);
+  }
+  
+  if (data.fmc_deploy !== undefined) {
+    sanitized.fmc_deploy = Boolean(data.fmc_deploy);
+  }
+  
   if (data.auto_renew_status !== undefined) {
     sanitized.auto_renew_status = validator.escape(String(data.auto_renew_status || ''));
   }
@@ -256,4 +440,87 @@ export const sanitizeConnectionData = (data: any): Partial<ConnectionRecord> =>
   // which means the database update will preserve the existing value
 
   return sanitized;
-};
\ No newline at end of file
+};
+
+/**
+ * Validate user account data. When `isUpdate` is set, username is not required
+ * and only the supplied fields are checked.
+ */
+export const validateUserData = (data: any, isUpdate: boolean = false): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!isUpdate || data.username !== undefined) {
+    if (!data.username || typeof data.username !== 'string') {
+      errors.push('Username is required and must be a string');
+    } else if (!/^[a-zA-Z0-9._@-]{3,64}$/.test(data.username)) {
+      errors.push('Username must be 3-64 characters (letters, numbers, dot, underscore, hyphen, @)');
+    }
+  }
+
+  if (!isUpdate || data.password !== undefined) {
+    if (!data.password || typeof data.password !== 'string') {
+      errors.push('Password is required and must be a string');
+    } else if (data.password.length < MIN_PASSWORD_LENGTH) {
+      errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  if (!isUpdate || data.role !== undefined) {
+    if (!USER_ROLES.includes(data.role)) {
+      errors.push(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+  }
+
+  if (data.is_enabled !== undefined && typeof data.is_enabled !== 'boolean') {
+    errors.push('is_enabled must be a boolean');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
+
+/**
+ * Validate a new API token request
+ */
+export const validateApiTokenData = (data: any): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!data.name || typeof data.name !== 'string' || !data.name.trim()) {
+    errors.push('Name is required and must be a string');
+  } else if (data.name.length > 100) {
+    errors.push('Name must be 100 characters or less');
+  }
+
+  if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+    errors.push('At least one scope is required');
+  } else {
+    const invalidScopes = data.scopes.filter((scope: any) => !API_TOKEN_SCOPES.includes(scope));
+    if (invalidScopes.length > 0) {
+      errors.push(`Invalid scopes: ${invalidScopes.join(', ')}. Valid scopes are: ${API_TOKEN_SCOPES.join(', ')}`);
+    }
+  }
+
+  if (data.connection_ids !== undefined && data.connection_ids !== null) {
+    if (!Array.isArray(data.connection_ids) || data.connection_ids.length === 0) {
+      errors.push('connection_ids must be a non-empty array of connection IDs, or null for all connections');
+    } else if (!data.connection_ids.every((id: any) => Number.isInteger(id) && id > 0)) {
+      errors.push('connection_ids must only contain positive integer IDs');
+    }
+  }
+
+  if (data.expires_at !== undefined && data.expires_at !== null) {
+    const expiresAt = new Date(data.expires_at);
+    if (typeof data.expires_at !== 'string' || isNaN(expiresAt.getTime())) {
+      errors.push('expires_at must be a valid ISO 8601 date');
+    } else if (expiresAt.getTime() <= Date.now()) {
+      errors.push('expires_at must be in the future');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
@@ -0,0 +1,192 @@
+import { DatabaseManager } from './database';
+import { Logger } from './logger';
+import { SSHClient } from './ssh-client';
+import { getCertificateInfo } from './certificate';
+import { loadCurrentCertificates } from './certificate-history';
+import { DEFAULT_VOS_SERVICE, VOS_CERTIFICATE_SERVICES } from './platform-providers/vos-services';
+import { ClusterNodeRecord, ClusterNodeRole, ClusterNodeVerifyStatus, ClusterWithNodes, ConnectionRecord } from './types';
+
+/**
+ * CUCM and IM&P clusters: a publisher plus subscribers sharing one multi-server
+ * (SAN) certificate, which certmgr distributes from the publisher. Nodes are
+ * discovered from `show network cluster` on the publisher and restarted one at
+ * a time, each after the one before serves the new certificate.
+ */
+
+export interface DiscoveredNode {
+  hostname: string;
+  ip_address: string;
+  role: ClusterNodeRole;
+  position: number;
+}
+
+export interface NodeVerification {
+  verify_status: ClusterNodeVerifyStatus;
+  live_serial: string | null;
+  verify_error: string | null;
+}
+
+// e.g. "10.10.20.2 cucm-sub1.example.com cucm-sub1 Subscriber callmanager DBSub authenticated"
+const CLUSTER_LINE = /^\s*(\d{1,3}(?:\.\d{1,3}){3})\s+(\S+)\s+(\S+)\s+(Publisher|Subscriber)\s+(\S+)/i;
+
+// Ports the Tomcat certificate is served on, in the order they are checked
+const WEB_PORTS = [8443, 443];
+
+// Certificates served on the web ports, compared with what the nodes present
+const WEB_SERVICES = ['tomcat', 'tomcat-ECDSA'];
+
+/**
+ * Nodes of the publisher's cluster from `show network cluster`. IM&P nodes are
+ * listed in the CUCM cluster (and the other way round) but have certificates of
+ * their own, so only nodes of the publisher's product are members.
+ */
+export function parseClusterNodes(output: string, publisherFqdn: string): DiscoveredNode[] {
+  const domain = publisherFqdn.split('.').slice(1).join('.');
+  const entries = output.split(/\r?\n/)
+    .map(line => line.match(CLUSTER_LINE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({
+      ip_address: match[1],
+      hostname: (match[2].includes('.') || !domain ? match[2] : `${match[2]}.${domain}`).toLowerCase(),
+      shortName: match[3].toLowerCase(),
+      product: match[5].toLowerCase()
+    }));
+
+  const publisherHost = publisherFqdn.toLowerCase();
+  const publisher = entries.find(entry => entry.hostname === publisherHost || entry.shortName === publisherHost.split('.')[0]);
+  if (!publisher) {
+    throw new Error(`${publisherFqdn} is not listed in the output of 'show network cluster'`);
+  }
+
+  const subscribers = entries.filter((entry, index) =>
+    entry !== publisher &&
+    entry.product === publisher.product &&
+    entries.findIndex(other => other.hostname === entry.hostname) === index
+  );
+  return [
+    { hostname: publisherHost, ip_address: publisher.ip_address, role: 'publisher' as const, position: 0 },
+    ...subscribers.map((entry, index) => ({ hostname: entry.hostname, ip_address: entry.ip_address, role: 'subscriber' as const, position: index + 1 }))
+  ];
+}
+
+/**
+ * Ask the publisher for the nodes of its cluster over SSH
+ */
+export async function discoverClusterNodes(connection: ConnectionRecord): Promise<DiscoveredNode[]> {
+  const fqdn = `${connection.hostname}.${connection.domain}`;
+  if (!connection.username || !connection.password) {
+    throw new Error('Username and password are required to discover cluster nodes');
+  }
+
+  const result = await SSHClient.executeCommand({
+    hostname: fqdn,
+    username: connection.username,
+    password: connection.password,
+    command: 'show network cluster'
+  });
+  if (!result.success) {
+    throw new Error(`Failed to run 'show network cluster' on ${fqdn}: ${result.error}`);
+  }
+
+  const nodes = parseClusterNodes(result.output || '', fqdn);
+  Logger.info(`Discovered ${nodes.length} nodes in the cluster of ${fqdn}: ${nodes.map(node => node.hostname).join(', ')}`);
+  return nodes;
+}
+
+/**
+ * The publisher's connection with every node of its cluster in the alt names,
+ * so the CSR and the ACME order cover the whole cluster
+ */
+export function getClusterConnection(connection: ConnectionRecord, cluster: ClusterWithNodes | null): ConnectionRecord {
+  if (!cluster) {
+    return connection;
+  }
+
+  const names = connection.alt_names
+    ? connection.alt_names.split(',').map(name => name.trim()).filter(name => name.length > 0)
+    : [];
+  const known = new Set([`${connection.hostname}.${connection.domain}`, ...names].map(name => name.toLowerCase()));
+  for (const node of cluster.nodes) {
+    if (!known.has(node.hostname.toLowerCase())) {
+      names.push(node.hostname);
+      known.add(node.hostname.toLowerCase());
+    }
+  }
+  return { ...connection, alt_names: names.join(',') };
+}
+
+// Certificate services installed on a node: all of them on the publisher, the multi-server ones on subscribers
+export function getNodeCertificateServices(node: Pick<ClusterNodeRecord, 'role'>, services: string[]): string[] {
+  return node.role === 'publisher' ? services : services.filter(service => VOS_CERTIFICATE_SERVICES[service]?.multiServer);
+}
+
+// Hosts a certificate for the service is installed on
+export function getClusterDeployTargets(cluster: ClusterWithNodes, service: string | null): string[] {
+  return cluster.nodes
+    .filter(node => getNodeCertificateServices(node, [service || DEFAULT_VOS_SERVICE]).length > 0)
+    .map(node => node.hostname);
+}
+
+// Serial numbers compare without separators or leading zeros, e.g. "0A:1B" and "a1b"
+export function isSameSerial(a: string, b: string): boolean {
+  const normalize = (serial: string) => serial.replace(/[^0-9a-f]/gi, '').replace(/^0+/, '').toUpperCase();
+  return normalize(a) === normalize(b);
+}
+
+// Serials of the connection's current web certificates, which its nodes should serve
+export async function getExpectedSerials(connection: ConnectionRecord): Promise<string[]> {
+  const current = await loadCurrentCertificates(connection);
+  return current
+    .filter(({ identity, details }) => details && WEB_SERVICES.includes(identity.service || ''))
+    .map(({ details }) => details!.serial_number);
+}
+
+/**
+ * Check the certificate a node serves against the expected serials
+ */
+export async function verifyNodeCertificate(hostname: string, serials: string[]): Promise<NodeVerification> {
+  let lastError = 'No certificate served';
+  for (const port of WEB_PORTS) {
+    const info = await getCertificateInfo(hostname, port);
+    if (info?.serialNumber) {
+      const verified = serials.some(serial => isSameSerial(serial, info.serialNumber));
+      return {
+        verify_status: verified ? 'verified' : 'mismatch',
+        live_serial: info.serialNumber,
+        verify_error: verified ? null : `Serves certificate ${info.serialNumber} on port ${port}`
+      };
+    }
+    lastError = info?.error || lastError;
+  }
+  return { verify_status: 'unreachable', live_serial: null, verify_error: `${lastError} on ports ${WEB_PORTS.join(', ')}` };
+}
+
+/**
+ * Poll a restarted node until it serves the expected certificate; Tomcat takes a while to come back
+ */
+export async function waitForNodeCertificate(hostname: string, serials: string[], timeoutMs: number = 180000, intervalMs: number = 15000): Promise<NodeVerification> {
+  const deadline = Date.now() + timeoutMs;
+  let verification = await verifyNodeCertificate(hostname, serials);
+  while (verification.verify_status !== 'verified' && Date.now() + intervalMs <= deadline) {
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+    verification = await verifyNodeCertificate(hostname, serials);
+  }
+  return verification;
+}
+
+/**
+ * Check every node of a cluster and store the result
+ */
+export async function verifyCluster(database: DatabaseManager, connection: ConnectionRecord, cluster: ClusterWithNodes): Promise<ClusterNodeRecord[]> {
+  const serials = await getExpectedSerials(connection);
+  const nodes: ClusterNodeRecord[] = [];
+  for (const node of cluster.nodes) {
+    const verification: NodeVerification = serials.length > 0
+      ? await verifyNodeCertificate(node.hostname, serials)
+      : { verify_status: 'pending', live_serial: null, verify_error: 'No web certificate has been issued yet' };
+    const verifiedAt = new Date().toISOString();
+    await database.updateClusterNode(node.id!, { ...verification, verified_at: verifiedAt });
+    nodes.push({ ...node, ...verification, verified_at: verifiedAt });
+  }
+  return nodes;
+}
@@ -2,15 +2,20 @@ import { Server } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import { DatabaseManager } from './database';
 import { Logger } from './logger';
+import { AuthManager, getSessionToken } from './auth';
+import { UserRole } from './types';
 
 export interface SocketData {
   userId?: string;
+  username?: string;
+  role?: UserRole;
   connectionRooms: Set<number>;
 }
 
 export function initializeWebSocket(
   httpServer: HttpServer, 
-  database: DatabaseManager
+  database: DatabaseManager,
+  authManager: AuthManager
 ): Server {
   const io = new Server(httpServer, {
     cors: {
@@ -25,12 +30,20 @@ export function initializeWebSocket(
     transports: ['websocket', 'polling']
   });
 
-  // For now, we'll skip authentication to get the basic functionality working
-  // In production, you'd want to add proper JWT authentication here
+  // Authenticate with the same session as the REST API (cookie, or auth.token from the client)
   io.use(async (socket, next) => {
     try {
-      // Basic connection without auth for development
-      socket.data.userId = 'dev-user';
+      const token = socket.handshake.auth?.token || getSessionToken(socket.handshake.headers);
+      const user = token ? await authManager.validateSession(token) : null;
+
+      if (!user) {
+        Logger.warn(`Rejected unauthenticated WebSocket connection from ${socket.handshake.address}`);
+        return next(new Error('Authentication required'));
+      }
+
+      socket.data.userId = String(user.id);
+      socket.data.username = user.username;
+      socket.data.role = user.role;
       socket.data.connectionRooms = new Set<number>();
       next();
     } catch (err) {
@@ -45,8 +58,7 @@ export function initializeWebSocket(
     // Join rooms for connections the user wants to monitor
     socket.on('subscribe:connection', async (connectionId: number) => {
       try {
-        // For development, allow access to all connections
-        // In production, you'd verify user has access to this connection
+        // Every authenticated role may watch operation progress for any connection
         const connection = await database.getConnectionById(connectionId);
         
         if (connection) {
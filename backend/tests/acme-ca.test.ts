@@ -0,0 +1,90 @@
+import acme from 'acme-client';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getAcmeEnvironment } from '../src/acme-environment';
+import { getAcmeCaSettings, getAcmeCaDefinition, resolveAcmeDirectory } from '../src/ssl-providers/registry';
+
+const settingsDatabase = (settings: Record<string, Record<string, string>>) => ({
+  getSettingsByProvider: async (provider: string) =>
+    Object.entries(settings[provider] || {}).map(([key_name, key_value]) => ({ key_name, key_value })),
+  upsertSetting: async () => undefined
+}) as any;
+
+describe('ACME CA catalogue', () => {
+  it('should resolve directories, contacts and EAB credentials from settings', async () => {
+    const database = settingsDatabase({
+      letsencrypt: { LETSENCRYPT_EMAIL: 'pki@example.com' },
+      acme: { ACME_DIRECTORY_URL: 'https://ca.internal:9000/acme/acme/directory', ACME_EAB_KID: 'kid-1', ACME_EAB_HMAC_KEY: 'aG1hYw' }
+    });
+
+    const staging = await resolveAcmeDirectory(database, 'letsencrypt', 'staging');
+    expect(staging.directoryUrl).toBe('https://acme-staging-v02.api.letsencrypt.org/directory');
+    expect(staging.email).toBe('pki@example.com');
+    expect(staging.externalAccountBinding).toBeUndefined();
+
+    const custom = await resolveAcmeDirectory(database, 'acme', 'production');
+    expect(custom.directoryUrl).toBe('https://ca.internal:9000/acme/acme/directory');
+    expect(custom.externalAccountBinding).toEqual({ kid: 'kid-1', hmacKey: 'aG1hYw' });
+  });
+
+  it('should reject CAs with missing settings', async () => {
+    const database = settingsDatabase({});
+
+    await expect(resolveAcmeDirectory(database, 'letsencrypt', 'production')).rejects.toThrow('LETSENCRYPT_EMAIL');
+    await expect(resolveAcmeDirectory(database, 'acme', 'production')).rejects.toThrow('ACME_DIRECTORY_URL');
+    await expect(resolveAcmeDirectory(database, 'gts', 'production')).rejects.toThrow('GTS_EAB_KID');
+    await expect(resolveAcmeDirectory(database, 'unknown', 'production')).rejects.toThrow('Unsupported SSL provider');
+  });
+
+  it('should only offer staging for CAs that have a staging directory', () => {
+    expect(getAcmeEnvironment({ ssl_provider: 'sectigo', acme_environment: 'staging' })).toBe('production');
+    expect(getAcmeEnvironment({ ssl_provider: 'letsencrypt', acme_environment: 'staging' })).toBe('staging');
+
+    const keys = getAcmeCaSettings(getAcmeCaDefinition('acme')!).map(setting => setting.key);
+    expect(keys).toEqual([
+      'ACME_EMAIL', 'ACME_DIRECTORY_URL', 'ACME_EAB_KID', 'ACME_EAB_HMAC_KEY',
+      'ACME_RATE_LIMIT_PER_DOMAIN', 'ACME_RATE_LIMIT_DUPLICATES', 'ACME_RATE_LIMIT_WINDOW_DAYS', 'ACME_RATE_LIMIT_ACTION'
+    ]);
+  });
+});
+
+// End to end against a local Pebble, e.g. docker/docker-compose.pebble.yml:
+// NODE_EXTRA_CA_CERTS=pebble.minica.pem PEBBLE_DIRECTORY_URL=https://localhost:14000/dir npx jest tests/acme-ca.test.ts
+const describePebble = process.env.PEBBLE_DIRECTORY_URL ? describe : describe.skip;
+
+describePebble('ACME CA catalogue against Pebble', () => {
+  const accountsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'netssl-pebble-'));
+
+  afterAll(() => {
+    fs.rmSync(accountsDir, { recursive: true, force: true });
+  });
+
+  it('should register an account and issue a certificate', async () => {
+    process.env.ACCOUNTS_DIR = accountsDir;
+    const { ACMEClient } = await import('../src/acme-client');
+
+    const eabSettings: Record<string, string> = process.env.PEBBLE_EAB_KID && process.env.PEBBLE_EAB_HMAC_KEY
+      ? { ACME_EAB_KID: process.env.PEBBLE_EAB_KID, ACME_EAB_HMAC_KEY: process.env.PEBBLE_EAB_HMAC_KEY }
+      : {};
+    const directory = await resolveAcmeDirectory(settingsDatabase({
+      acme: { ACME_DIRECTORY_URL: process.env.PEBBLE_DIRECTORY_URL!, ACME_EMAIL: 'pki@example.com', ...eabSettings }
+    }), 'acme', 'production');
+
+    const client = new ACMEClient('production', directory);
+    await client.createAccount('pebble.example.com', 1);
+    expect(await client.loadAccount('pebble.example.com', 1)).not.toBeNull();
+
+    const [, csr] = await acme.crypto.createCsr({ commonName: 'pebble.example.com' });
+    const order = await client.requestCertificate(csr.toString(), ['pebble.example.com'], 'http-01');
+
+    // Pebble skips validation when started with PEBBLE_VA_ALWAYS_VALID=1
+    for (const challenge of order.challenges) {
+      await client.completeChallenge(challenge);
+    }
+    const completedOrder = await client.waitForOrderCompletion(order.order);
+    const certificate = await client.finalizeCertificate(completedOrder, csr.toString());
+
+    expect(certificate).toContain('BEGIN CERTIFICATE');
+  }, 60000);
+});
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountManager } from '../src/account-manager';
+import { getAcmeEnvironment, getEnvironmentDir } from '../src/acme-environment';
+
+describe('ACME environment', () => {
+  const originalStaging = process.env.LETSENCRYPT_STAGING;
+
+  afterEach(() => {
+    if (originalStaging === undefined) {
+      delete process.env.LETSENCRYPT_STAGING;
+    } else {
+      process.env.LETSENCRYPT_STAGING = originalStaging;
+    }
+  });
+
+  it('should fall back to LETSENCRYPT_STAGING for connections without their own setting', () => {
+    delete process.env.LETSENCRYPT_STAGING;
+    expect(getAcmeEnvironment({})).toBe('staging');
+
+    process.env.LETSENCRYPT_STAGING = 'false';
+    expect(getAcmeEnvironment({})).toBe('production');
+    expect(getAcmeEnvironment({ acme_environment: 'staging' })).toBe('staging');
+    expect(getEnvironmentDir('production')).toBe('prod');
+  });
+
+  it('should keep CSRs and accounts apart per environment', async () => {
+    const accountsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'netssl-accounts-'));
+    const manager = new AccountManager(accountsDir);
+
+    try {
+      await manager.saveCSR(7, 'cucm.example.com', 'staging-csr', 'staging');
+      await manager.saveCSR(7, 'cucm.example.com', 'production-csr', 'production');
+
+      expect(await manager.loadCSR(7, 'cucm.example.com', 'staging')).toBe('staging-csr');
+      expect(await manager.loadCSR(7, 'cucm.example.com', 'production')).toBe('production-csr');
+      expect(fs.existsSync(path.join(accountsDir, 'connection-7', 'prod', 'certificate.csr'))).toBe(true);
+      expect(await manager.loadAccount(7, 'cucm.example.com', 'letsencrypt', 'production')).toBeNull();
+    } finally {
+      fs.rmSync(accountsDir, { recursive: true, force: true });
+    }
+  });
+});
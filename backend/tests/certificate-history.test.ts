@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountManager } from '../src/account-manager';
+import { describeCertificate, getDeployTargets, getRedeployBlocker } from '../src/certificate-history';
+
+// EC P-256 certificate for cucm.example.com with serial 0x0087654321
+const certificate = `-----BEGIN CERTIFICATE-----
+MIIBhjCCASygAwIBAgIFAIdlQyEwCgYIKoZIzj0EAwIwGTEXMBUGA1UEAwwObmV0
+U1NMIFRlc3QgQ0EwHhcNMjYxMDE5MTc0NjUyWhcNMjcwMTE3MTc0NjUyWjAbMRkw
+FwYDVQQDDBBjdWNtLmV4YW1wbGUuY29tMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcD
+QgAEwTDsKpKQNwsDxz6HnmU2OjTpy0o+kQi8w/pStIWP8wMOdcMehdYur531pedn
+7x2IxjENtJoZ3eB7QCRxu69WWqNfMF0wHwYDVR0jBBgwFoAUM3lcbzt89Qtzl9WG
+q7dL7ixWT9QwGwYDVR0RBBQwEoIQY3VjbS5leGFtcGxlLmNvbTAdBgNVHQ4EFgQU
+oWdEasJfymSEajQzpFlsxcwHm+IwCgYIKoZIzj0EAwIDSAAwRQIhAOyHoaKsxUyB
+yjwlirnrmb4brwWbnyAQxf7qnd6vvNCmAiAkEGq+8YnETBcYYcDpkVBNZCQ1NDT0
+tVZcrDqnX4u8+g==
+-----END CERTIFICATE-----`;
+
+describe('Certificate history', () => {
+  it('should describe the issued certificate', () => {
+    expect(describeCertificate(certificate)).toEqual(expect.objectContaining({
+      serial_number: '87654321',
+      common_name: 'cucm.example.com',
+      sans: ['cucm.example.com'],
+      issuer: 'CN=netSSL Test CA',
+      not_before: '2026-10-19T17:46:52.000Z',
+      not_after: '2027-01-17T17:46:52.000Z',
+      key_type: 'EC P-256'
+    }));
+  });
+
+  it('should only redeploy valid certificates to connections the dashboard installs on', () => {
+    const vos = { id: 1, application_type: 'vos', hostname: 'cucm', domain: 'example.com', acme_environment: 'staging', ssl_provider: 'letsencrypt' } as any;
+    const issued = { environment: 'staging', not_after: '2027-01-17T17:46:52.000Z' } as any;
+    const now = new Date('2026-12-01T00:00:00Z');
+
+    expect(getDeployTargets(vos)).toEqual(['cucm.example.com']);
+    expect(getDeployTargets({ ...vos, application_type: 'ise', ise_nodes: 'ise1.example.com, ise2.example.com' })).toEqual(['ise1.example.com', 'ise2.example.com']);
+    expect(getRedeployBlocker(issued, vos, now)).toBeNull();
+    expect(getRedeployBlocker(issued, vos, new Date('2027-02-01T00:00:00Z'))).toBe('The certificate has expired');
+    expect(getRedeployBlocker({ ...issued, revoked_at: '2026-11-01 00:00:00' }, vos, now)).toBe('The certificate has been revoked');
+    expect(getRedeployBlocker(issued, { ...vos, application_type: 'general' }, now)).toMatch(/installed manually/);
+  });
+
+  it('should keep the files of every issued certificate', async () => {
+    const manager = new AccountManager(fs.mkdtempSync(path.join(os.tmpdir(), 'netssl-accounts-')));
+    await manager.saveCertificateChain(1, 'cucm.example.com', certificate, '', 'staging');
+
+    const versionDir = manager.getCertificateVersionDir(1, 'staging', '87654321');
+    expect(fs.readdirSync(versionDir).sort()).toEqual(['certificate.pem', 'fullchain.pem']);
+    expect(fs.readFileSync(path.join(versionDir, 'fullchain.pem'), 'utf8')).toBe(certificate);
+  });
+});
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountManager, accountManager } from '../src/account-manager';
+import { archiveRevokedCertificate, generatesNewKey, isRevocationReason, REVOCATION_REASONS } from '../src/certificate-revocation';
+
+describe('Certificate revocation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should accept the RFC 5280 reasons offered in the dashboard', () => {
+    expect(REVOCATION_REASONS).toEqual({ keyCompromise: 1, superseded: 4, cessationOfOperation: 5 });
+    expect(isRevocationReason('superseded')).toBe(true);
+    expect(isRevocationReason('unspecified')).toBe(false);
+    expect(isRevocationReason('toString')).toBe(false);
+  });
+
+  it('should only re-issue connections that get a new key on renewal', () => {
+    expect(generatesNewKey({ application_type: 'vos' } as any)).toBe(true);
+    expect(generatesNewKey({ application_type: 'ise' } as any)).toBe(true);
+    expect(generatesNewKey({ application_type: 'ise', ise_certificate: '-----BEGIN CERTIFICATE REQUEST-----' } as any)).toBe(false);
+    expect(generatesNewKey({ application_type: 'general' } as any)).toBe(false);
+  });
+
+  it('should move the revoked certificate and key out of the connection directory', async () => {
+    const manager = new AccountManager(fs.mkdtempSync(path.join(os.tmpdir(), 'netssl-accounts-')));
+    jest.spyOn(accountManager, 'getCertificateFilePath').mockImplementation((id, filename, environment) =>
+      manager.getCertificateFilePath(id, filename, environment));
+
+    const connection = { id: 3, hostname: 'cucm', domain: 'example.com', ssl_provider: 'letsencrypt', acme_environment: 'staging' } as any;
+    const certPath = manager.getCertificateFilePath(3, 'certificate.pem', 'staging');
+    fs.mkdirSync(path.dirname(certPath), { recursive: true });
+    for (const filename of ['certificate.pem', 'cucm.example.com.crt', 'cucm.example.com.key', 'root.crt']) {
+      fs.writeFileSync(manager.getCertificateFilePath(3, filename, 'staging'), filename);
+    }
+
+    const archiveDir = await archiveRevokedCertificate(connection, { serialNumber: '0A1B' } as any);
+
+    expect(archiveDir).toBe(manager.getCertificateFilePath(3, path.join('revoked', '0A1B'), 'staging'));
+    expect(fs.readdirSync(archiveDir).sort()).toEqual(['certificate.pem', 'cucm.example.com.crt', 'cucm.example.com.key']);
+    expect(fs.existsSync(certPath)).toBe(false);
+    expect(fs.existsSync(manager.getCertificateFilePath(3, 'root.crt', 'staging'))).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { getChallengeRecordName, waitForRecordPropagation } from '../src/dns-providers/dns-provider';
+import { createDnsProvider, getDnsProviderDefinition, listDnsProviders } from '../src/dns-providers/registry';
+import { getChallengeDnsProvider, getChallengeTargetName } from '../src/dns-providers/delegation';
+import { validateConnectionData } from '../src/validation';
+
+describe('DNS providers', () => {
+  it('should publish wildcard challenges on the base domain', () => {
+    expect(getChallengeRecordName('cucm.example.com')).toBe('_acme-challenge.cucm.example.com');
+    expect(getChallengeRecordName('*.example.com')).toBe('_acme-challenge.example.com');
+  });
+
+  it('should list built-in providers with their settings schema', () => {
+    const ids = listDnsProviders().map(provider => provider.id);
+    expect(ids).toEqual(expect.arrayContaining(['cloudflare', 'digitalocean', 'route53', 'azure', 'google', 'custom']));
+
+    const cloudflare = getDnsProviderDefinition('cloudflare');
+    expect(cloudflare?.automated).toBe(true);
+    expect(cloudflare?.settings.map(setting => setting.key)).toEqual(['CF_KEY', 'CF_ZONE']);
+    expect(getDnsProviderDefinition('custom')?.automated).toBe(false);
+  });
+
+  it('should reject unknown providers', async () => {
+    await expect(createDnsProvider({} as any, 'bind', 'cucm.example.com'))
+      .rejects.toThrow('Unsupported DNS provider: bind');
+  });
+
+  it('should stop waiting for propagation when cancelled', async () => {
+    const record = { id: '1', name: '_acme-challenge.cucm.example.com', type: 'TXT' as const, value: 'value' };
+    await expect(waitForRecordPropagation(record, ['127.0.0.1'], 60000, () => true)).resolves.toBe(false);
+  });
+});
+
+describe('DNS challenge delegation', () => {
+  const connection = {
+    name: 'cucm', hostname: 'cucm', domain: 'example.com', username: 'admin', password: 'secret',
+    ssl_provider: 'letsencrypt', dns_provider: 'custom'
+  } as any;
+
+  it('should publish challenges in place unless delegated', () => {
+    expect(getChallengeTargetName(connection, 'cucm.example.com')).toBe('_acme-challenge.cucm.example.com');
+    expect(getChallengeDnsProvider(connection)).toBe('custom');
+  });
+
+  it('should write challenges to the delegated target with its provider', () => {
+    const delegated = { ...connection, dns_challenge_mode: 'delegated', dns_challenge_delegate: 'Cucm.ACME.example.net.', dns_challenge_delegate_provider: 'rfc2136' };
+    expect(getChallengeTargetName(delegated, 'cucm.example.com')).toBe('cucm.acme.example.net');
+    expect(getChallengeTargetName(delegated, '*.example.com')).toBe('cucm.acme.example.net');
+    expect(getChallengeDnsProvider(delegated)).toBe('rfc2136');
+    expect(getChallengeDnsProvider({ ...delegated, dns_challenge_delegate_provider: undefined })).toBe('custom');
+  });
+
+  it('should require a target when delegating', () => {
+    const missing = validateConnectionData({ ...connection, dns_challenge_mode: 'delegated' });
+    expect(missing.isValid).toBe(false);
+    expect(missing.errors).toContain('Delegated challenge target must be a valid FQDN (e.g., cucm.acme.example.net)');
+
+    const unknownProvider = validateConnectionData({ ...connection, dns_challenge_mode: 'delegated', dns_challenge_delegate: 'cucm.acme.example.net', dns_challenge_delegate_provider: 'bind' });
+    expect(unknownProvider.errors.some(error => error.startsWith('Delegated challenge DNS provider must be one of'))).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import acme from 'acme-client';
+import { getExpresswayConnection, getMissingMraNames, getMraNames } from '../src/expressway-mra';
+import { getKeyParameterError } from '../src/key-parameters';
+import { PlatformFactory } from '../src/platform-providers/platform-factory';
+import { validateConnectionData } from '../src/validation';
+import { createConnection } from './fixtures/connections';
+
+const expressway = createConnection({
+  name: 'Expressway-E',
+  application_type: 'expressway',
+  hostname: 'expe01',
+  alt_names: 'expe.example.com',
+  mra_domains: 'example.com, Example.NET'
+});
+
+describe('Expressway', () => {
+  it('should name each MRA registration domain in the SAN format', () => {
+    expect(getMraNames(expressway)).toEqual(['collab-edge.example.com', 'collab-edge.example.net']);
+    expect(getMraNames({ ...expressway, mra_san_format: 'dns' })).toEqual(['example.com', 'example.net']);
+    expect(getMraNames({ ...expressway, application_type: 'vos' })).toEqual([]);
+
+    expect(getExpresswayConnection(expressway).alt_names).toBe('expe.example.com,collab-edge.example.com,collab-edge.example.net');
+    expect(getExpresswayConnection({ ...expressway, mra_domains: '' })).toEqual({ ...expressway, mra_domains: '' });
+  });
+
+  it('should find the MRA names a CSR misses', async () => {
+    const provider = PlatformFactory.createProvider('expressway');
+    const response = await provider.generateCSR('expe01.example.com', 'admin', 'secret', {
+      commonName: 'expe01.example.com',
+      subjectAltNames: ['expe.example.com', 'collab-edge.example.com'],
+      keyType: 'RSA',
+      keySize: 2048
+    });
+    expect(response.success).toBe(true);
+    expect(response.privateKey).toContain('PRIVATE KEY');
+    expect(acme.crypto.readCsrDomains(response.csr).altNames).toEqual(expect.arrayContaining(['collab-edge.example.com']));
+
+    expect(getMissingMraNames(response.csr, expressway)).toEqual(['collab-edge.example.net']);
+    expect(getMissingMraNames(response.csr, { ...expressway, mra_domains: 'example.com' })).toEqual([]);
+    expect(await provider.generateCSR('expe01.example.com', 'admin', 'secret', { commonName: 'expe01.example.com', keyType: 'ECDSA' }))
+      .toEqual(expect.objectContaining({ success: false }));
+  });
+
+  it('should validate Expressway connections', () => {
+    expect(validateConnectionData(expressway).errors).toEqual([]);
+    expect(validateConnectionData({ ...expressway, username: '', mra_domains: 'example.com,not a domain', mra_san_format: 'ip' }).errors).toEqual([
+      'Username is required and must be a string for Expressway applications',
+      'MRA domain "not a domain" must be a valid domain name',
+      'MRA SAN format must be one of: dns, collab-edge'
+    ]);
+    expect(getKeyParameterError({ ...expressway, key_algorithm: 'ec256' })).toBe('Expressway server certificates need an RSA key');
+    expect(getKeyParameterError({ ...expressway, key_algorithm: 'rsa4096' })).toBeNull();
+  });
+});
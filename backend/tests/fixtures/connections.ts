@@ -0,0 +1,16 @@
+import { ConnectionRecord } from '../../src/types';
+
+// Connection with the fields every platform needs, `overrides` adds the platform's own
+export function createConnection(overrides: Partial<ConnectionRecord> & Pick<ConnectionRecord, 'application_type'>): ConnectionRecord & { username: string; password: string } {
+  return {
+    id: 1,
+    name: 'Test',
+    hostname: 'host',
+    domain: 'example.com',
+    username: 'admin',
+    password: 'secret',
+    ssl_provider: 'letsencrypt',
+    dns_provider: 'cloudflare',
+    ...overrides
+  };
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server, Session } from 'ssh2';
+
+export interface SshServer {
+  port: number;
+  close: () => Promise<void>;
+}
+
+// Local SSH server accepting one username and password, `onSession` sets up what each session serves
+export async function startSshServer(credentials: { username?: string; password?: string }, onSession: (session: Session) => void): Promise<SshServer> {
+  const { privateKey: hostKey } = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' }
+  });
+
+  const server = new Server({ hostKeys: [hostKey] }, client => {
+    client.on('authentication', ctx => {
+      if (ctx.method === 'password' && ctx.username === credentials.username && ctx.password === credentials.password) {
+        ctx.accept();
+      } else {
+        ctx.reject();
+      }
+    });
+    client.on('session', accept => onSession(accept()));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
@@ -0,0 +1,151 @@
+import https from 'https';
+import { AddressInfo } from 'net';
+import { FMCProvider, FmcDeviceDeployment } from '../src/platform-providers/fmc-provider';
+import { getDeployTargets } from '../src/certificate-history';
+import { validateConnectionData } from '../src/validation';
+import { createConnection } from './fixtures/connections';
+import recorded from './fixtures/fmc-responses.json';
+
+interface RecordedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// Local stand-in for the FMC REST API, answering each request with its recorded responses in turn
+async function startStandIn() {
+  const responses = recorded.responses as Record<string, RecordedResponse[]>;
+  const served: Record<string, number> = {};
+  const requests: { route: string; body: any }[] = [];
+  const token = responses['POST /api/fmc_platform/v1/auth/generatetoken'][0].headers!['X-auth-access-token'];
+
+  const server = https.createServer({ key: recorded.tls.key, cert: recorded.tls.cert }, (req, res) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const route = `${req.method} ${(req.url || '').split('?')[0]}`;
+      requests.push({ route, body: body ? JSON.parse(body) : undefined });
+
+      const authorized = route.endsWith('/generatetoken')
+        ? req.headers.authorization === `Basic ${Buffer.from(`${recorded.username}:${recorded.password}`).toString('base64')}`
+        : req.headers['x-auth-access-token'] === token;
+      const replies = responses[route];
+      const reply: RecordedResponse = !authorized
+        ? { status: 401, body: { error: { category: 'FRAMEWORK', messages: [{ description: 'Access token invalid.' }], severity: 'ERROR' } } }
+        : replies
+          ? replies[Math.min(served[route] = (served[route] ?? -1) + 1, replies.length - 1)]
+          : { status: 404, body: { error: { category: 'FRAMEWORK', messages: [{ description: `No recorded response for ${route}` }], severity: 'ERROR' } } };
+
+      res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(reply.body !== undefined ? JSON.stringify(reply.body) : undefined);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    hostname: `127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve))
+  };
+}
+
+describe('FMC provider', () => {
+  const provider = new FMCProvider();
+  const certificateData = { certificate: recorded.tls.cert, privateKey: recorded.tls.key };
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+
+  beforeEach(async () => {
+    standIn = await startStandIn();
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should replace the internal certificate of the same name and create new ones', async () => {
+    const updated = await provider.importInternalCertificate(standIn.hostname, recorded.username, recorded.password, 'vpn.example.com', certificateData);
+    expect(updated).toEqual(expect.objectContaining({ success: true, created: false, certificateId: '005056A1-4C3B-0ed3-0000-004294968421' }));
+
+    const put = standIn.requests.find(request => request.route.startsWith('PUT '));
+    expect(put?.body).toEqual({
+      id: '005056A1-4C3B-0ed3-0000-004294968421',
+      name: 'vpn.example.com',
+      type: 'InternalCertificate',
+      certData: recorded.tls.cert,
+      privateKey: recorded.tls.key
+    });
+
+    const created = await provider.importInternalCertificate(standIn.hostname, recorded.username, recorded.password, 'decrypt.example.com', certificateData);
+    expect(created).toEqual(expect.objectContaining({ success: true, created: true, certificateId: '005056A1-4C3B-0ed3-0000-004294968533' }));
+
+    const rejected = await provider.importInternalCertificate(standIn.hostname, recorded.username, 'wrong', 'vpn.example.com', certificateData);
+    expect(rejected).toEqual({ success: false, message: expect.stringMatching(/401 Access token invalid/) });
+  });
+
+  it('should point the RA VPN policy at the certificate', async () => {
+    const certificate = { id: '005056A1-4C3B-0ed3-0000-004294968421', name: 'vpn.example.com' };
+    expect(await provider.updateRaVpnPolicy(standIn.hostname, recorded.username, recorded.password, 'AnyConnect-VPN', certificate)).toBe(true);
+
+    const put = standIn.requests.find(request => request.route.startsWith('PUT '))!;
+    expect(put.body).toEqual(expect.objectContaining({
+      id: '005056A1-4C3B-0ed3-0000-004294968226',
+      sslGlobalIdentityCertificate: { ...certificate, type: 'InternalCertificate' },
+      ikeV2GlobalIdentityCertificate: { ...certificate, type: 'InternalCertificate' },
+      webAccessPortNumber: 443
+    }));
+    expect(put.body).not.toHaveProperty('links');
+
+    await expect(provider.updateRaVpnPolicy(standIn.hostname, recorded.username, recorded.password, 'Partner-VPN', certificate)).rejects.toThrow('Remote access VPN policy Partner-VPN not found');
+  });
+
+  it('should report the deployment status of each device', async () => {
+    const updates: FmcDeviceDeployment[][] = [];
+    const result = await provider.deployToDevices(standIn.hostname, recorded.username, recorded.password, {
+      pollInterval: 10,
+      onStatus: deployments => {
+        updates.push(deployments);
+      }
+    });
+
+    expect(updates).toEqual([
+      [{ device: 'ftd01', status: 'pending' }, { device: 'ftd02', status: 'pending' }],
+      [{ device: 'ftd01', status: 'deployed' }, { device: 'ftd02', status: 'deploying' }],
+      [{ device: 'ftd01', status: 'deployed' }, { device: 'ftd02', status: 'failed' }]
+    ]);
+    expect(result).toEqual({
+      success: false,
+      message: 'Deployment failed on ftd02: Deployment failed on 1 of 2 device(s)',
+      deployments: updates[2]
+    });
+    expect(standIn.requests.find(request => request.route.endsWith('/deploymentrequests'))?.body).toEqual(expect.objectContaining({
+      version: '1729364521000',
+      deviceList: ['7c5d0e34-8a2b-11ef-9b7e-1f3a5c7d9e01', '8d6e1f45-8a2b-11ef-9b7e-2a4b6c8d0f12']
+    }));
+  });
+
+  it('should only deploy the selected devices', async () => {
+    const result = await provider.deployToDevices(standIn.hostname, recorded.username, recorded.password, { devices: ['ftd01'], pollInterval: 10 });
+
+    expect(result).toEqual({ success: true, message: 'Deployed to ftd01', deployments: [{ device: 'ftd01', status: 'deployed' }] });
+    expect(standIn.requests.find(request => request.route.endsWith('/deploymentrequests'))?.body.deviceList).toEqual(['7c5d0e34-8a2b-11ef-9b7e-1f3a5c7d9e01']);
+  });
+
+  it('should validate FMC connections', () => {
+    const fmc = createConnection({
+      name: 'VPN',
+      application_type: 'fmc',
+      hostname: 'vpn',
+      username: 'api-user',
+      fmc_host: '10.0.0.10'
+    });
+
+    expect(validateConnectionData(fmc).errors).toEqual([]);
+    expect(validateConnectionData({ ...fmc, fmc_host: '', fmc_certificate_name: 'vpn cert' }).errors).toEqual([
+      'Management Center address is required for FMC applications',
+      'Certificate object name must be up to 64 letters, numbers, dots, hyphens or underscores'
+    ]);
+    expect(getDeployTargets(fmc)).toEqual(['10.0.0.10']);
+  });
+});
@@ -0,0 +1,205 @@
+import { utils } from 'ssh2';
+import { GeneralProvider, parseDeployTargets } from '../src/platform-providers/general-provider';
+import { getDeployTargets, getRedeployBlocker } from '../src/certificate-history';
+import { validateConnectionData } from '../src/validation';
+import { createConnection } from './fixtures/connections';
+import { startSshServer } from './fixtures/ssh-server';
+import keyPair from './fixtures/tls-keypair.json';
+
+const { STATUS_CODE } = utils.sftp;
+
+const { cert: certificate, key: privateKey } = keyPair;
+const certificateData = { certificate, privateKey, caCertificates: [certificate] };
+
+const general = createConnection({
+  name: 'Web',
+  application_type: 'general',
+  hostname: 'www',
+  username: 'deploy',
+  custom_csr: '-----BEGIN CERTIFICATE REQUEST-----\nMIIB\n-----END CERTIFICATE REQUEST-----',
+  general_private_key: privateKey
+});
+
+interface StoredFile {
+  content: Buffer;
+  mode: number;
+}
+
+// Local SSH server with an in-memory SFTP file system, standing in for a web server. Commands
+// other than chown exit with the code onCommand returns.
+async function startWebServer() {
+  const files = new Map<string, StoredFile>();
+  const commands: string[] = [];
+  const standIn = {
+    files,
+    commands,
+    onCommand: (command: string): number => 0
+  };
+
+  const server = await startSshServer(general, session => {
+    session.on('exec', (acceptExec, reject, info) => {
+      const stream = acceptExec();
+      commands.push(info.command);
+      const code = info.command.startsWith('chown ') ? 0 : standIn.onCommand(info.command);
+      if (code !== 0) {
+        stream.stderr.write(`${info.command}: failed\n`);
+      }
+      stream.exit(code);
+      stream.end();
+    });
+
+    session.on('sftp', acceptSftp => {
+      const sftp = acceptSftp();
+      const handles = new Map<number, string>();
+      let nextHandle = 0;
+      const pathOf = (handle: Buffer) => handles.get(handle.readUInt32BE(0))!;
+      const attrsOf = (file: StoredFile) => ({ mode: 0o100000 | file.mode, uid: 0, gid: 0, size: file.content.length, atime: 0, mtime: 0 });
+
+      sftp.on('OPEN', (reqid, filename, flags, attrs) => {
+        if (utils.sftp.flagsToString(flags) === 'r') {
+          if (!files.has(filename)) {
+            return sftp.status(reqid, STATUS_CODE.NO_SUCH_FILE);
+          }
+        } else {
+          // Truncated, the mode only applies to new files
+          files.set(filename, { content: Buffer.alloc(0), mode: files.get(filename)?.mode ?? attrs.mode ?? 0o644 });
+        }
+        const handle = Buffer.alloc(4);
+        handle.writeUInt32BE(nextHandle, 0);
+        handles.set(nextHandle++, filename);
+        sftp.handle(reqid, handle);
+      });
+      sftp.on('WRITE', (reqid, handle, offset, data) => {
+        const file = files.get(pathOf(handle))!;
+        file.content = Buffer.concat([file.content.subarray(0, offset), data]);
+        sftp.status(reqid, STATUS_CODE.OK);
+      });
+      sftp.on('READ', (reqid, handle, offset, length) => {
+        const file = files.get(pathOf(handle))!;
+        if (offset >= file.content.length) {
+          return sftp.status(reqid, STATUS_CODE.EOF);
+        }
+        sftp.data(reqid, file.content.subarray(offset, offset + length));
+      });
+      sftp.on('FSTAT', (reqid, handle) => sftp.attrs(reqid, attrsOf(files.get(pathOf(handle))!)));
+      sftp.on('STAT', (reqid, path) => {
+        const file = files.get(path);
+        return file ? sftp.attrs(reqid, attrsOf(file)) : sftp.status(reqid, STATUS_CODE.NO_SUCH_FILE);
+      });
+      sftp.on('SETSTAT', (reqid, path, attrs) => {
+        files.get(path)!.mode = attrs.mode! & 0o7777;
+        sftp.status(reqid, STATUS_CODE.OK);
+      });
+      sftp.on('REMOVE', (reqid, path) => {
+        files.delete(path);
+        sftp.status(reqid, STATUS_CODE.OK);
+      });
+      sftp.on('CLOSE', (reqid, handle) => {
+        handles.delete(handle.readUInt32BE(0));
+        sftp.status(reqid, STATUS_CODE.OK);
+      });
+    });
+  });
+
+  return Object.assign(standIn, server);
+}
+
+describe('General provider', () => {
+  const provider = new GeneralProvider();
+
+  it('should upload the files, keep the previous ones and run the post-deploy command', async () => {
+    const server = await startWebServer();
+    try {
+      server.files.set('/etc/nginx/ssl/fullchain.pem', { content: Buffer.from('old chain'), mode: 0o640 });
+      const targets = parseDeployTargets(JSON.stringify([{
+        host: '127.0.0.1',
+        port: server.port,
+        files: [
+          { content: 'fullchain', path: '/etc/nginx/ssl/fullchain.pem' },
+          { content: 'key', path: '/etc/nginx/ssl/privkey.pem', owner: 'root', group: 'www-data', mode: '0640' }
+        ],
+        command: 'systemctl reload nginx'
+      }]));
+
+      const result = await provider.deployCertificate(targets, general.username, general.password, certificateData);
+
+      expect(result.success).toBe(true);
+      expect(result.targets).toEqual([{
+        host: '127.0.0.1',
+        success: true,
+        message: 'Deployed /etc/nginx/ssl/fullchain.pem, /etc/nginx/ssl/privkey.pem, ran systemctl reload nginx',
+        rolledBack: false
+      }]);
+      expect(server.files.get('/etc/nginx/ssl/fullchain.pem')).toEqual({ content: Buffer.from(`${certificate.trim()}\n${certificate.trim()}\n`), mode: 0o644 });
+      expect(server.files.get('/etc/nginx/ssl/fullchain.pem.bak')).toEqual({ content: Buffer.from('old chain'), mode: 0o640 });
+      expect(server.files.get('/etc/nginx/ssl/privkey.pem')).toEqual({ content: Buffer.from(`${privateKey.trim()}\n`), mode: 0o640 });
+      expect(server.files.has('/etc/nginx/ssl/privkey.pem.bak')).toBe(false);
+      expect(server.commands).toEqual([`chown 'root:www-data' '/etc/nginx/ssl/privkey.pem'`, 'systemctl reload nginx']);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should restore the previous files when the post-deploy command fails', async () => {
+    const server = await startWebServer();
+    try {
+      server.files.set('/etc/haproxy/site.pem', { content: Buffer.from('old pem'), mode: 0o600 });
+      // Fails with the new certificate, reloads fine with the previous one
+      server.onCommand = () => (server.files.get('/etc/haproxy/site.pem')!.content.toString() === 'old pem' ? 0 : 1);
+      const targets = parseDeployTargets(JSON.stringify([
+        {
+          host: '127.0.0.1',
+          port: server.port,
+          files: [{ content: 'pem', path: '/etc/haproxy/site.pem' }, { content: 'chain', path: '/etc/haproxy/ca.pem' }],
+          command: 'systemctl reload haproxy'
+        },
+        { host: '127.0.0.1', port: server.port, username: 'nobody', files: [{ content: 'certificate', path: '/tmp/cert.pem' }] }
+      ]));
+
+      const result = await provider.deployCertificate(targets, general.username, general.password, certificateData);
+
+      expect(result).toMatchObject({ success: false, message: 'Deployment failed on 127.0.0.1, 127.0.0.1' });
+      expect(result.targets[0]).toEqual({
+        host: '127.0.0.1',
+        success: false,
+        message: 'Post-deploy command failed: Command failed with exit code 1: systemctl reload haproxy: failed; the previous files were restored',
+        rolledBack: true
+      });
+      expect(result.targets[1]).toMatchObject({ success: false, message: expect.stringMatching(/^Could not connect: /), rolledBack: false });
+      expect(server.files.get('/etc/haproxy/site.pem')).toEqual({ content: Buffer.from('old pem'), mode: 0o600 });
+      expect(server.files.has('/etc/haproxy/ca.pem')).toBe(false);
+      expect(server.files.has('/tmp/cert.pem')).toBe(false);
+      expect(server.commands).toEqual(['systemctl reload haproxy', 'systemctl reload haproxy']);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should validate deploy targets', () => {
+    const targets = JSON.stringify([{ host: 'web01', files: [{ content: 'fullchain', path: '/etc/ssl/web.pem' }] }]);
+    expect(validateConnectionData({ ...general, general_deploy_targets: targets }).errors).toEqual([]);
+    expect(validateConnectionData({ ...general, username: '', password: '', general_deploy_targets: targets }).errors)
+      .toEqual(['Username and password are required to deploy to SSH targets']);
+
+    expect(() => parseDeployTargets('{')).toThrow('Deploy targets must be valid JSON');
+    expect(() => parseDeployTargets('[{"host":"web01","files":[]}]')).toThrow('Deploy target 1 needs at least one file');
+    expect(() => parseDeployTargets('[{"host":"web01","files":[{"content":"der","path":"/etc/ssl/web.der"}]}]'))
+      .toThrow('Deploy target 1 file content must be one of: certificate, chain, fullchain, key, pem');
+    expect(() => parseDeployTargets('[{"host":"web01","files":[{"content":"key","path":"web.key"}]}]'))
+      .toThrow('Deploy target 1 file paths must be absolute file paths');
+    expect(() => parseDeployTargets('[{"host":"web01","files":[{"content":"key","path":"/etc/ssl/web.key","mode":"rw"}]}]'))
+      .toThrow('Deploy target 1 file mode must be octal, e.g. "0640"');
+    expect(() => parseDeployTargets('[{"host":"web01","files":[{"content":"key","path":"/etc/ssl/web.key","owner":"root; rm"}]}]'))
+      .toThrow('Deploy target 1 file owner must be a user or group name or id');
+  });
+
+  it('should deploy general connections only when they have deploy targets', () => {
+    const issued = { not_after: '2099-01-01T00:00:00.000Z', environment: 'staging' } as any;
+    const targets = JSON.stringify([{ host: 'web01', files: [{ content: 'fullchain', path: '/etc/ssl/web.pem' }] }, { host: 'web02', files: [{ content: 'key', path: '/etc/ssl/web.key' }] }]);
+
+    expect(getDeployTargets(general)).toEqual([]);
+    expect(getRedeployBlocker(issued, general)).toMatch(/installed manually/);
+    expect(getDeployTargets({ ...general, general_deploy_targets: targets })).toEqual(['web01', 'web02']);
+    expect(getRedeployBlocker(issued, { ...general, general_deploy_targets: targets })).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHttpChallengePublisher, getAcmeChallengeType, verifyHttpChallenge } from '../src/http-challenge';
+
+describe('HTTP-01 challenges', () => {
+  const connection = {
+    name: 'web', hostname: 'web', domain: 'example.com', ssl_provider: 'letsencrypt', dns_provider: 'cloudflare'
+  } as any;
+
+  it('should default to DNS-01 and the built-in responder', () => {
+    expect(getAcmeChallengeType(connection)).toBe('dns-01');
+    expect(getAcmeChallengeType({ ...connection, acme_challenge_type: 'http-01' })).toBe('http-01');
+    expect(createHttpChallengePublisher(connection).description).toBe('built-in challenge responder');
+  });
+
+  it('should require credentials and an absolute web root for SFTP', () => {
+    const sftp = { ...connection, http_challenge_method: 'ssh', http_challenge_webroot: '/var/www/html' };
+    expect(() => createHttpChallengePublisher(sftp)).toThrow('Username and password are required');
+    expect(() => createHttpChallengePublisher({ ...sftp, username: 'deploy', password: 'secret', http_challenge_webroot: 'www' }))
+      .toThrow('An absolute web root path is required');
+    expect(createHttpChallengePublisher({ ...sftp, username: 'deploy', password: 'secret' }).description)
+      .toBe('/var/www/html/.well-known/acme-challenge on web.example.com (SFTP)');
+  });
+
+  it('should check the challenge URL before the CA does', async () => {
+    const server = http.createServer((req, res) => {
+      if (req.url === '/.well-known/acme-challenge/good') {
+        res.end('good.thumbprint\n');
+      } else {
+        res.statusCode = 404;
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      await expect(verifyHttpChallenge(host, 'good', 'good.thumbprint', 1)).resolves.toBeUndefined();
+      await expect(verifyHttpChallenge(host, 'missing', 'missing.thumbprint', 2, 10)).rejects.toThrow('(HTTP 404)');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  csrMatchesIdentity,
+  describeCsr,
+  generateKeyAndCsr,
+  getCertificateIdentities,
+  getKeyParameterError,
+  getVosCsrPayload
+} from '../src/key-parameters';
+
+const vos = { id: 1, application_type: 'vos', hostname: 'cucm', domain: 'example.com' } as any;
+
+describe('Key parameters', () => {
+  it('should default to an RSA 2048 tomcat certificate', () => {
+    const [identity] = getCertificateIdentities(vos);
+    expect(identity).toEqual({ service: 'tomcat', primary: true, keyAlgorithm: 'rsa2048', hashAlgorithm: 'sha256' });
+    expect(getVosCsrPayload(identity, 'cucm.example.com', [])).toEqual({
+      service: 'tomcat',
+      distribution: 'this-server',
+      commonName: 'cucm.example.com',
+      keyType: 'rsa',
+      keyLength: 2048,
+      hashAlgorithm: 'sha256'
+    });
+  });
+
+  it('should keep an RSA and an ECDSA certificate for both tomcat services', () => {
+    const connection = { ...vos, vos_services: 'tomcat-ECDSA,tomcat', key_algorithm: 'rsa4096', ecdsa_key_algorithm: 'ec384', hash_algorithm: 'sha384' };
+    const identities = getCertificateIdentities(connection);
+    expect(identities).toEqual([
+      { service: 'tomcat', primary: true, keyAlgorithm: 'rsa4096', hashAlgorithm: 'sha384' },
+      { service: 'tomcat-ECDSA', primary: false, keyAlgorithm: 'ec384', hashAlgorithm: 'sha384' }
+    ]);
+    expect(getVosCsrPayload(identities[1], 'cucm.example.com', ['cucm-pub.example.com'])).toEqual(expect.objectContaining({
+      service: 'tomcat-ECDSA',
+      keyType: 'ec',
+      keyLength: 384,
+      altNames: ['cucm-pub.example.com']
+    }));
+    expect(getKeyParameterError(connection)).toBeNull();
+    expect(getKeyParameterError({ ...connection, key_algorithm: 'ec256' })).toMatch(/RSA key/);
+    expect(getKeyParameterError({ ...vos, vos_services: 'tomcat-ECDSA', key_algorithm: 'rsa2048' })).toBe('The tomcat-ECDSA service needs an EC key');
+  });
+
+  it('should read the key and hash of a CSR', async () => {
+    const identity = { service: null, primary: true, keyAlgorithm: 'ec384' as const, hashAlgorithm: 'sha384' as const };
+    const { privateKey, csr } = await generateKeyAndCsr(identity, 'esxi.example.com', ['esxi.example.com']);
+    expect(privateKey).toMatch(/BEGIN (EC )?PRIVATE KEY/);
+    expect(describeCsr(csr)).toEqual({ keyAlgorithm: 'ec384', hashAlgorithm: 'sha384' });
+    expect(csrMatchesIdentity(csr, identity)).toBe(true);
+    expect(csrMatchesIdentity(csr, { ...identity, keyAlgorithm: 'ec256' })).toBe(false);
+    expect(csrMatchesIdentity('not a CSR', identity)).toBe(false);
+  });
+});
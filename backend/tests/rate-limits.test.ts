@@ -0,0 +1,66 @@
+import { evaluateRateLimits, getNameSetKey, getRegisteredDomain } from '../src/rate-limits';
+import { getCertificateIdentities } from '../src/key-parameters';
+
+const limits = { certificatesPerDomain: 50, duplicateCertificates: 5, windowDays: 7, action: 'block' as const };
+
+// Certificates issued for the same names, a day apart from Oct 12
+const issue = (count: number, sans: string[]) => Array.from({ length: count }, (_, day) => ({
+  sans,
+  created_at: `2026-10-${String(12 + day).padStart(2, '0')} 09:00:00`
+}));
+
+describe('Rate limits', () => {
+  it('should count names under their registered domain', () => {
+    expect(getRegisteredDomain('cucm-pub.lab.example.com')).toBe('example.com');
+    expect(getRegisteredDomain('*.example.com')).toBe('example.com');
+    expect(getRegisteredDomain('cucm.example.co.uk')).toBe('example.co.uk');
+    expect(getRegisteredDomain('example.com')).toBe('example.com');
+    expect(getNameSetKey(['CUCM.example.com', 'a.example.com', 'cucm.example.com'])).toBe('a.example.com,cucm.example.com');
+  });
+
+  it('should block the sixth duplicate certificate in a week', () => {
+    const names = ['cucm.example.com'];
+    const nearlyUsed = evaluateRateLimits(names, issue(4, names), limits, true);
+    expect(nearlyUsed.blocked).toBeNull();
+    expect(nearlyUsed.duplicates).toEqual(expect.objectContaining({ used: 4, remaining: 1, resetsAt: '2026-10-19T09:00:00.000Z' }));
+    expect(nearlyUsed.warnings).toEqual(['1 of 5 duplicate certificates left for cucm.example.com']);
+
+    const used = evaluateRateLimits(names, issue(5, names), limits, true);
+    expect(used.blocked).toMatch(/5 of 5 duplicate certificates/);
+    expect(evaluateRateLimits(names, issue(5, names), { ...limits, action: 'warn' }, true)).toEqual(expect.objectContaining({
+      blocked: null,
+      warnings: [expect.stringMatching(/^Rate limit reached/)]
+    }));
+
+    // A different set of names under the same domain isn't a duplicate
+    expect(evaluateRateLimits(['cucm.example.com', 'cup.example.com'], issue(5, names), limits, false).blocked).toBeNull();
+  });
+
+  it('should count an order for each selected VOS service before the first one', () => {
+    const names = ['cucm.example.com'];
+    const orders = getCertificateIdentities({
+      application_type: 'vos',
+      hostname: 'cucm',
+      domain: 'example.com',
+      vos_services: 'tomcat,tomcat-ECDSA,CallManager,CallManager-ECDSA,ipsec,CAPF'
+    } as any).length;
+    expect(orders).toBe(6);
+
+    // Six duplicates of the same names don't fit in a fresh budget of five
+    expect(evaluateRateLimits(names, [], limits, false, orders).blocked)
+      .toBe('Rate limit reached: 0 of 5 duplicate certificates for cucm.example.com issued in the last 7 days, this renewal orders 6');
+    expect(evaluateRateLimits(names, [], limits, false, 5).blocked).toBeNull();
+
+    const lastFew = evaluateRateLimits(names, issue(1, names), limits, true, 4);
+    expect(lastFew.blocked).toBeNull();
+    expect(lastFew.warnings).toEqual(['4 of 5 duplicate certificates left for cucm.example.com, this renewal orders 4']);
+    expect(evaluateRateLimits(names, issue(2, names), limits, true, 4).blocked).toMatch(/2 of 5 duplicate certificates .* this renewal orders 4$/);
+  });
+
+  it('should exempt renewals from the per-domain limit', () => {
+    const issued = issue(50, ['other.example.com']).map(certificate => ({ ...certificate, created_at: '2026-10-15 09:00:00' }));
+    expect(evaluateRateLimits(['cucm.example.com'], issued, limits, false).blocked).toMatch(/50 of 50 certificates for example.com/);
+    expect(evaluateRateLimits(['cucm.example.com'], issued, limits, true).blocked).toBeNull();
+    expect(evaluateRateLimits(['cucm.example.com'], issued, { ...limits, certificatesPerDomain: 0 }, false).registeredDomains).toEqual([]);
+  });
+});
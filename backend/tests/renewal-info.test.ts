@@ -0,0 +1,39 @@
+import { getAriCertId, isRenewalDue, parseRetryAfter, pickRenewalTime } from '../src/renewal-info';
+
+// Serial 0x0087654321, issued by a test CA with key identifier 33:79:5C:...:4F:D4
+const certificate = `-----BEGIN CERTIFICATE-----
+MIIBhjCCASygAwIBAgIFAIdlQyEwCgYIKoZIzj0EAwIwGTEXMBUGA1UEAwwObmV0
+U1NMIFRlc3QgQ0EwHhcNMjYxMDE5MTc0NjUyWhcNMjcwMTE3MTc0NjUyWjAbMRkw
+FwYDVQQDDBBjdWNtLmV4YW1wbGUuY29tMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcD
+QgAEwTDsKpKQNwsDxz6HnmU2OjTpy0o+kQi8w/pStIWP8wMOdcMehdYur531pedn
+7x2IxjENtJoZ3eB7QCRxu69WWqNfMF0wHwYDVR0jBBgwFoAUM3lcbzt89Qtzl9WG
+q7dL7ixWT9QwGwYDVR0RBBQwEoIQY3VjbS5leGFtcGxlLmNvbTAdBgNVHQ4EFgQU
+oWdEasJfymSEajQzpFlsxcwHm+IwCgYIKoZIzj0EAwIDSAAwRQIhAOyHoaKsxUyB
+yjwlirnrmb4brwWbnyAQxf7qnd6vvNCmAiAkEGq+8YnETBcYYcDpkVBNZCQ1NDT0
+tVZcrDqnX4u8+g==
+-----END CERTIFICATE-----`;
+
+describe('ACME Renewal Information', () => {
+  it('should build the certificate identifier from the authority key identifier and serial', () => {
+    // The serial keeps its leading zero byte, as in the RFC 9773 example
+    expect(getAriCertId(certificate)).toBe('M3lcbzt89Qtzl9WGq7dL7ixWT9Q.AIdlQyE');
+  });
+
+  it('should schedule renewal inside the window and renew before a check would miss it', () => {
+    const window = { start: new Date('2026-11-01T00:00:00Z'), end: new Date('2026-11-03T00:00:00Z') };
+    expect(pickRenewalTime(window, () => 0)).toEqual(window.start);
+    expect(pickRenewalTime(window, () => 0.5)).toEqual(new Date('2026-11-02T00:00:00Z'));
+
+    const scheduledAt = new Date('2026-11-02T12:00:00Z');
+    expect(isRenewalDue(scheduledAt, new Date('2026-11-02T13:00:00Z'))).toBe(true);
+    expect(isRenewalDue(scheduledAt, new Date('2026-11-02T00:00:00Z'), new Date('2026-11-03T00:00:00Z'))).toBe(true);
+    expect(isRenewalDue(scheduledAt, new Date('2026-11-01T00:00:00Z'), new Date('2026-11-02T00:00:00Z'))).toBe(false);
+  });
+
+  it('should accept Retry-After in seconds or as a date', () => {
+    const now = new Date('2026-11-01T00:00:00Z');
+    expect(parseRetryAfter('3600', now)).toEqual(new Date('2026-11-01T01:00:00Z'));
+    expect(parseRetryAfter('Mon, 02 Nov 2026 00:00:00 GMT', now)).toEqual(new Date('2026-11-02T00:00:00Z'));
+    expect(parseRetryAfter(undefined, now)).toEqual(new Date('2026-11-01T06:00:00Z'));
+  });
+});
@@ -0,0 +1,81 @@
+import { RenewalQueue } from '../src/renewal-queue';
+
+const deferred = () => {
+  let resolve: () => void = () => undefined;
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+describe('Renewal queue', () => {
+  it('should run no more than the configured number of jobs at once', async () => {
+    const queue = new RenewalQueue(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const jobs = gates.map((gate, index) => queue.enqueue({
+      id: `renewal-${index}`,
+      connectionId: index,
+      run: async () => {
+        started.push(index);
+        await gate.promise;
+      }
+    }));
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(started).toEqual([0, 1]);
+    expect(queue.getPosition('renewal-2')).toBe(1);
+
+    gates[0].resolve();
+    await jobs[0];
+    await new Promise(resolve => setImmediate(resolve));
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(jobs);
+    expect(queue.getStats()).toEqual({ pending: 0, running: 0, concurrency: 2 });
+  });
+
+  it('should drop cancelled jobs before they start', async () => {
+    const queue = new RenewalQueue(1);
+    const gate = deferred();
+    const run = jest.fn(async () => undefined);
+
+    const first = queue.enqueue({ id: 'first', connectionId: 1, run: () => gate.promise });
+    const second = queue.enqueue({ id: 'second', connectionId: 2, run });
+
+    expect(queue.cancel('second')).toBe(true);
+    await expect(second).rejects.toThrow('Operation cancelled by user');
+
+    gate.resolve();
+    await first;
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should serialize changes to the same DNS zone only', async () => {
+    const queue = new RenewalQueue();
+    const events: string[] = [];
+    const gate = deferred();
+
+    const first = queue.withZoneLock('cloudflare:example.com', async () => {
+      events.push('first:start');
+      await gate.promise;
+      events.push('first:end');
+    });
+    const second = queue.withZoneLock('cloudflare:example.com', async () => {
+      events.push('second');
+    });
+    const other = queue.withZoneLock('cloudflare:example.net', async () => {
+      events.push('other');
+    });
+
+    await other;
+    expect(events).toEqual(['first:start', 'other']);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(events).toEqual(['first:start', 'other', 'first:end', 'second']);
+  });
+});
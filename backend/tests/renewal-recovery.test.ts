@@ -0,0 +1,111 @@
+import { certificateRenewalService } from '../src/certificate-renewal';
+import { httpChallengeResponder } from '../src/http-challenge';
+import { RenewalCheckpoint, getRecoveryAction, getRecoveryReason, getStaleChallengeRecords } from '../src/renewal-checkpoint';
+
+const connection = {
+  id: 7,
+  name: 'web',
+  hostname: 'web',
+  domain: 'example.com',
+  ssl_provider: 'letsencrypt',
+  acme_environment: 'staging',
+  acme_challenge_type: 'http-01',
+  http_challenge_method: 'responder'
+} as any;
+
+const checkpoint = (overrides: Partial<RenewalCheckpoint> = {}): RenewalCheckpoint => ({
+  renewalId: 'certificate_renewal_7_1',
+  connectionId: 7,
+  step: 'challenges_published',
+  caId: 'letsencrypt',
+  environment: 'staging',
+  orderUrl: 'https://acme.example/order/1',
+  challengeType: 'http-01',
+  challenges: [{ domain: 'web.example.com', type: 'http-01', url: 'https://acme.example/chall/1', token: 'token-1' }],
+  httpTokens: ['token-1'],
+  ...overrides
+});
+
+const challengeName = '_acme-challenge.web.example.com';
+
+const txtRecord = (value: string, name = challengeName) => ({ id: value, name, value, type: 'TXT' as const });
+
+const dnsCheckpoint = (renewalId: string, records: ReturnType<typeof txtRecord>[], overrides: Partial<RenewalCheckpoint> = {}) => checkpoint({
+  renewalId,
+  challengeType: 'dns-01',
+  httpTokens: undefined,
+  dnsRecords: { provider: 'cloudflare', domain: 'web.example.com', records },
+  ...overrides
+});
+
+describe('Renewal recovery', () => {
+  it('should only resume renewals with an order on the connection\'s current CA', () => {
+    expect(getRecoveryAction(checkpoint(), connection)).toBe('resume');
+    expect(getRecoveryAction(null, connection)).toBe('rollback');
+    expect(getRecoveryAction(checkpoint(), null)).toBe('rollback');
+    expect(getRecoveryAction(checkpoint({ resumedFrom: 'certificate_renewal_7_0' }), connection)).toBe('rollback');
+    expect(getRecoveryAction(checkpoint(), { ...connection, acme_environment: 'production' })).toBe('rollback');
+
+    expect(getRecoveryReason(checkpoint({ step: 'challenges_submitted' }), 'rollback', ['removed 2 DNS TXT record(s)']))
+      .toBe('Interrupted by a backend restart while waiting for the CA to validate ACME challenges; removed 2 DNS TXT record(s); start the renewal again when ready.');
+  });
+
+  it('should remove published challenges and fail renewals that can\'t be resumed', async () => {
+    httpChallengeResponder.set('token-1', 'token-1.thumbprint');
+    const saved = checkpoint({ resumedFrom: 'certificate_renewal_7_0' });
+
+    const database = {
+      getRenewalCheckpoints: async () => [{ renewal_id: saved.renewalId, connection_id: 7, step: saved.step, data: saved }],
+      getInFlightOperations: async () => [{ id: saved.renewalId, connection_id: 7 }],
+      getInFlightRenewalStatuses: async () => [{ renewal_id: 'certificate_renewal_8_1', connection_id: 8, logs: ['started'] }],
+      getConnectionById: async (id: number) => (id === 7 ? connection : null),
+      saveRenewalStatus: jest.fn(async () => undefined),
+      deleteRenewalCheckpoint: jest.fn(async () => undefined)
+    } as any;
+    const operationManager = {
+      ready: async () => undefined,
+      getOperation: async (id: string) => (id === saved.renewalId ? { id, status: 'in_progress', metadata: {} } : null),
+      updateOperation: jest.fn(async () => undefined)
+    } as any;
+
+    await certificateRenewalService.recoverInterruptedRenewals(database, operationManager);
+
+    expect(httpChallengeResponder.get('token-1')).toBeUndefined();
+    expect(operationManager.updateOperation).toHaveBeenCalledWith(saved.renewalId, expect.objectContaining({
+      status: 'failed',
+      error: 'Interrupted by a backend restart while waiting for ACME challenges to propagate; removed 1 HTTP-01 token(s); start the renewal again when ready.'
+    }));
+    expect(database.saveRenewalStatus).toHaveBeenCalledWith(
+      'certificate_renewal_8_1', 8, 'failed', undefined, 'Certificate renewal interrupted',
+      'Interrupted by a backend restart while preparing the certificate request; start the renewal again when ready.',
+      ['started', 'ERROR: Interrupted by a backend restart while preparing the certificate request; start the renewal again when ready.']
+    );
+    expect(database.deleteRenewalCheckpoint).toHaveBeenCalledWith(saved.renewalId);
+  });
+
+  it('should only remove challenge records of failed or interrupted renewals', () => {
+    const failed = dnsCheckpoint('certificate_renewal_7_0', [txtRecord('failed'), txtRecord('other', '_acme-challenge.other.example.com')], { finished: true });
+    const interrupted = dnsCheckpoint('certificate_renewal_7_1', [txtRecord('interrupted')]);
+    const otherProvider = dnsCheckpoint('certificate_renewal_9_0', [], { dnsRecords: { provider: 'route53', domain: 'web.example.com', records: [txtRecord('route53')] } });
+
+    expect(getStaleChallengeRecords([failed, interrupted, otherProvider], 'cloudflare', [`${challengeName.toUpperCase()}.`], () => false)).toEqual([
+      { checkpoint: failed, records: [txtRecord('failed')] },
+      { checkpoint: interrupted, records: [txtRecord('interrupted')] }
+    ]);
+  });
+
+  it('should leave the challenge records of overlapping orders on one zone alone', () => {
+    const first = dnsCheckpoint('certificate_renewal_7_1', [txtRecord('first')]);
+    const second = dnsCheckpoint('certificate_renewal_8_1', [txtRecord('second')]);
+    const running = new Set([first.renewalId, second.renewalId]);
+    const isRunning = (renewalId: string) => running.has(renewalId);
+
+    expect(getStaleChallengeRecords([first, second], 'cloudflare', [challengeName], isRunning)).toEqual([]);
+
+    // The first order failed without removing its record, the second one may now remove it
+    running.delete(first.renewalId);
+    const failed = { ...first, finished: true };
+    expect(getStaleChallengeRecords([failed, second], 'cloudflare', [challengeName], isRunning))
+      .toEqual([{ checkpoint: failed, records: [txtRecord('first')] }]);
+  });
+});
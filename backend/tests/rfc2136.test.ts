@@ -0,0 +1,120 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { RFC2136DNSProvider } from '../src/dns-providers/rfc2136';
+import {
+  DnsClass,
+  DnsMessage,
+  DnsType,
+  TsigKey,
+  decodeMessage,
+  decodeTxtData,
+  encodeMessage,
+  encodeTxtData,
+  signMessage,
+  verifyMessage
+} from '../src/dns-providers/dns-message';
+
+const ZONE = 'example.com';
+const KEY: TsigKey = { name: 'netssl-key', algorithm: 'hmac-sha256', secret: Buffer.from('c2VjcmV0LWtleS1mb3ItdGVzdHM=', 'base64') };
+
+/**
+ * Stand-in for a primary DNS server: applies signed updates to an in-memory
+ * zone and answers signed queries, like BIND with an update-policy for the key.
+ */
+function startStandIn(records: Map<string, string[]>): Promise<net.Server> {
+  const handle = (raw: Buffer): Buffer => {
+    const request = decodeMessage(raw);
+    const respond = (rcode: number, answers: DnsMessage['answers'] = []) =>
+      encodeMessage({ ...request, isResponse: true, rcode, answers, authorities: [], additionals: [] });
+
+    let requestMac: Buffer;
+    try {
+      requestMac = verifyMessage(raw, KEY).mac;
+    } catch {
+      return respond(9); // NOTAUTH
+    }
+
+    let response: Buffer;
+    if (request.opcode === 5) {
+      for (const update of request.authorities) {
+        const name = update.name.toLowerCase();
+        const values = records.get(name) || [];
+        if (update.class === DnsClass.IN) {
+          records.set(name, [...values, decodeTxtData(update.data)]);
+        } else if (update.class === DnsClass.NONE) {
+          records.set(name, values.filter(value => value !== decodeTxtData(update.data)));
+        } else {
+          records.delete(name);
+        }
+      }
+      response = respond(0);
+    } else {
+      const [question] = request.questions;
+      const name = question.name.toLowerCase();
+      if (question.type === DnsType.SOA && name === ZONE) {
+        response = respond(0, [{ name: ZONE, type: DnsType.SOA, class: DnsClass.IN, ttl: 60, data: Buffer.alloc(22) }]);
+      } else if (records.get(name)?.length) {
+        response = respond(0, records.get(name)!.map(value => ({ name, type: DnsType.TXT, class: DnsClass.IN, ttl: 60, data: encodeTxtData(value) })));
+      } else {
+        response = respond(3); // NXDOMAIN
+      }
+    }
+    return signMessage(response, KEY, requestMac).message;
+  };
+
+  const server = net.createServer(socket => {
+    let received = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      received = Buffer.concat([received, chunk]);
+      if (received.length >= 2 && received.length >= 2 + received.readUInt16BE(0)) {
+        const response = handle(received.subarray(2, 2 + received.readUInt16BE(0)));
+        const length = Buffer.alloc(2);
+        length.writeUInt16BE(response.length);
+        socket.end(Buffer.concat([length, response]));
+      }
+    });
+  });
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('RFC 2136 DNS provider', () => {
+  const records = new Map<string, string[]>();
+  let server: net.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = await startStandIn(records);
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should add, list and remove TXT records with signed updates', async () => {
+    const provider = new RFC2136DNSProvider('127.0.0.1', port, ZONE, KEY);
+    const name = '_acme-challenge.cucm.example.com';
+
+    // A wildcard and its base domain share one record name
+    const first = await provider.createRecord(name, 'first-value');
+    await provider.createRecord(name, 'second-value');
+    expect((await provider.listRecords(name)).map(record => record.value)).toEqual(['first-value', 'second-value']);
+
+    await provider.deleteRecord(first);
+    expect((await provider.listRecords(name)).map(record => record.value)).toEqual(['second-value']);
+    expect(await provider.listRecords('_acme-challenge.other.example.com')).toEqual([]);
+  });
+
+  it('should validate credentials with a signed SOA query', async () => {
+    await expect(new RFC2136DNSProvider('127.0.0.1', port, ZONE, KEY).validateCredentials()).resolves.toBeUndefined();
+
+    const wrongKey = { ...KEY, secret: Buffer.from('wrong-secret') };
+    await expect(new RFC2136DNSProvider('127.0.0.1', port, ZONE, wrongKey).validateCredentials()).rejects.toThrow('NOTAUTH');
+  });
+
+  it('should refuse records outside the configured zone', async () => {
+    const provider = new RFC2136DNSProvider('127.0.0.1', port, ZONE, KEY);
+    await expect(provider.createRecord('_acme-challenge.example.org', 'value')).rejects.toThrow('is not in zone example.com');
+  });
+});
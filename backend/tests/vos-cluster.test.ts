@@ -0,0 +1,74 @@
+import { csrMatchesNames, generateKeyAndCsr, getCertificateIdentities, getVosCsrPayload } from '../src/key-parameters';
+import { getClusterConnection, getClusterDeployTargets, getNodeCertificateServices, isSameSerial, parseClusterNodes } from '../src/vos-cluster';
+
+const showNetworkCluster = `admin:show network cluster
+10.10.20.1 cucm-pub.example.com cucm-pub Publisher callmanager DBPub authenticated
+10.10.20.2 cucm-sub1.example.com cucm-sub1 Subscriber callmanager DBSub authenticated using TCP since Mon Oct 19 09:12:01 2026
+10.10.20.3 cucm-sub2 cucm-sub2 Subscriber callmanager DBSub authenticated using TCP since Mon Oct 19 09:12:04 2026
+10.10.20.10 imp-pub.example.com imp-pub Subscriber cups DBSub authenticated using TCP since Mon Oct 19 09:13:40 2026
+
+Server Table (processnode) Entries
+----------------------------------
+cucm-pub.example.com
+cucm-sub1.example.com
+10.10.20.3
+imp-pub.example.com
+
+Successful
+admin:`;
+
+const cluster = {
+  id: 1,
+  name: 'CUCM',
+  publisher_id: 1,
+  nodes: [
+    { id: 1, cluster_id: 1, hostname: 'cucm-pub.example.com', role: 'publisher', position: 0, verify_status: 'pending' },
+    { id: 2, cluster_id: 1, hostname: 'cucm-sub1.example.com', role: 'subscriber', position: 1, verify_status: 'pending' },
+    { id: 3, cluster_id: 1, hostname: 'cucm-sub2.example.com', role: 'subscriber', position: 2, verify_status: 'pending' }
+  ]
+} as any;
+
+const publisher = { id: 1, application_type: 'vos', hostname: 'cucm-pub', domain: 'example.com', alt_names: 'cucm.example.com' } as any;
+
+describe('VOS clusters', () => {
+  it('should discover the nodes of the publisher\'s product, publisher first', () => {
+    expect(parseClusterNodes(showNetworkCluster, 'cucm-pub.example.com')).toEqual([
+      { hostname: 'cucm-pub.example.com', ip_address: '10.10.20.1', role: 'publisher', position: 0 },
+      { hostname: 'cucm-sub1.example.com', ip_address: '10.10.20.2', role: 'subscriber', position: 1 },
+      { hostname: 'cucm-sub2.example.com', ip_address: '10.10.20.3', role: 'subscriber', position: 2 }
+    ]);
+    expect(parseClusterNodes(showNetworkCluster, 'imp-pub.example.com')).toEqual([
+      { hostname: 'imp-pub.example.com', ip_address: '10.10.20.10', role: 'publisher', position: 0 }
+    ]);
+    expect(() => parseClusterNodes(showNetworkCluster, 'cer.example.com')).toThrow(/not listed/);
+  });
+
+  it('should order one multi-server certificate naming every node', async () => {
+    const connection = getClusterConnection(publisher, cluster);
+    expect(connection.alt_names).toBe('cucm.example.com,cucm-sub1.example.com,cucm-sub2.example.com');
+    expect(getClusterConnection(publisher, null)).toBe(publisher);
+
+    const [tomcat] = getCertificateIdentities({ ...connection, vos_services: 'tomcat,ipsec' });
+    expect(getVosCsrPayload(tomcat, 'cucm-pub.example.com', [], true)).toEqual(expect.objectContaining({ service: 'tomcat', distribution: 'multi-server' }));
+    expect(getVosCsrPayload({ ...tomcat, service: 'ipsec' }, 'cucm-pub.example.com', [], true)).toEqual(expect.objectContaining({ distribution: 'this-server' }));
+    expect(getVosCsrPayload(tomcat, 'cucm-pub.example.com', [])).toEqual(expect.objectContaining({ distribution: 'this-server' }));
+
+    // A CSR from before a subscriber was added doesn't name it
+    const { csr } = await generateKeyAndCsr({ ...tomcat, keyAlgorithm: 'ec256' }, 'cucm-pub.example.com', ['cucm.example.com', 'cucm-sub1.example.com']);
+    expect(csrMatchesNames(csr, ['cucm-pub.example.com', 'cucm.example.com', 'CUCM-SUB1.example.com'])).toBe(true);
+    expect(csrMatchesNames(csr, ['cucm-pub.example.com', 'cucm.example.com', 'cucm-sub1.example.com', 'cucm-sub2.example.com'])).toBe(false);
+  });
+
+  it('should install multi-server certificates on every node and the others on the publisher', () => {
+    expect(getNodeCertificateServices(cluster.nodes[0], ['tomcat', 'CallManager', 'CAPF'])).toEqual(['tomcat', 'CallManager', 'CAPF']);
+    expect(getNodeCertificateServices(cluster.nodes[1], ['tomcat', 'CallManager', 'CAPF'])).toEqual(['tomcat', 'CallManager']);
+    expect(getClusterDeployTargets(cluster, 'tomcat')).toEqual(['cucm-pub.example.com', 'cucm-sub1.example.com', 'cucm-sub2.example.com']);
+    expect(getClusterDeployTargets(cluster, 'ipsec')).toEqual(['cucm-pub.example.com']);
+  });
+
+  it('should compare serial numbers regardless of format', () => {
+    expect(isSameSerial('0087654321', '87:65:43:21')).toBe(true);
+    expect(isSameSerial('0A1B', 'a1b')).toBe(true);
+    expect(isSameSerial('87654321', '87654322')).toBe(false);
+  });
+});
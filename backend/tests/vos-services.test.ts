@@ -0,0 +1,31 @@
+import { getCertificateIdentities, getKeyParameterError, getVosServices } from '../src/key-parameters';
+import { getRestartServices } from '../src/platform-providers/vos-services';
+
+const vos = { id: 1, application_type: 'vos', hostname: 'cucm', domain: 'example.com' } as any;
+
+describe('VOS certificate services', () => {
+  it('should renew the selected services in catalogue order', () => {
+    const connection = { ...vos, vos_services: 'cup-xmpp,CallManager-ECDSA,tomcat,bogus', key_algorithm: 'rsa3072', ecdsa_key_algorithm: 'ec384' };
+    expect(getVosServices(connection)).toEqual(['tomcat', 'CallManager-ECDSA', 'cup-xmpp']);
+    expect(getCertificateIdentities(connection).map(identity => [identity.service, identity.primary, identity.keyAlgorithm])).toEqual([
+      ['tomcat', true, 'rsa3072'],
+      ['CallManager-ECDSA', false, 'ec384'],
+      ['cup-xmpp', false, 'rsa3072']
+    ]);
+    expect(getKeyParameterError(connection)).toBeNull();
+  });
+
+  it('should need an EC key when only ECDSA services are selected', () => {
+    const connection = { ...vos, vos_services: 'tomcat-ECDSA,CallManager-ECDSA', key_algorithm: 'rsa2048' };
+    expect(getKeyParameterError(connection)).toBe('The tomcat-ECDSA, CallManager-ECDSA services need an EC key');
+    expect(getKeyParameterError({ ...connection, key_algorithm: 'ec256' })).toBeNull();
+    expect(getKeyParameterError({ ...vos, vos_services: 'CallManager,ipsec', key_algorithm: 'ec256' })).toBe('The CallManager, ipsec services need an RSA key');
+  });
+
+  it('should restart each matching Cisco service once', () => {
+    expect(getRestartServices(['tomcat', 'tomcat-ECDSA'])).toEqual(['Cisco Tomcat']);
+    expect(getRestartServices(['CallManager', 'CAPF', 'ITLRecovery'])).toEqual(['Cisco CallManager', 'Cisco TFTP', 'Cisco Certificate Authority Proxy Function']);
+    expect(getRestartServices(['cup', 'cup-xmpp'])).toEqual(['Cisco SIP Proxy', 'Cisco XCP Router']);
+    expect(getRestartServices(['ITLRecovery'])).toEqual([]);
+  });
+});
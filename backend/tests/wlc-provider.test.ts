@@ -0,0 +1,121 @@
+import tls from 'tls';
+import { SSHClient } from '../src/ssh-client';
+import { getCertificateIdentities, getIdentityStorage } from '../src/key-parameters';
+import { WLCProvider, parseWlcTrustpoints } from '../src/platform-providers/wlc-provider';
+import { createPkcs12 } from '../src/utils/pkcs12';
+import { validateConnectionData } from '../src/validation';
+import { createConnection } from './fixtures/connections';
+import { startSshServer } from './fixtures/ssh-server';
+import keyPair from './fixtures/tls-keypair.json';
+
+const { cert: certificate, key: privateKey } = keyPair;
+
+const wlc = createConnection({
+  name: 'WLC',
+  application_type: 'wlc',
+  hostname: 'wlc01',
+  wlc_trustpoints: 'web-auth,web-admin'
+});
+
+// Local SSH server with an SCP sink, standing in for the controller's `ip scp server enable`
+async function startScpSink() {
+  const files: Record<string, { header: string; content: Buffer }> = {};
+
+  const server = await startSshServer(wlc, session => {
+    session.on('exec', (acceptExec, reject, info) => {
+      const stream = acceptExec();
+      const target = info.command.replace(/^scp -t /, '');
+      if (!target.startsWith('bootflash:')) {
+        stream.write(`\x01scp: ${target}: No such device\n`);
+        stream.exit(1);
+        stream.end();
+        return;
+      }
+
+      let received = Buffer.alloc(0);
+      let header = '';
+      stream.on('data', (chunk: Buffer) => {
+        received = Buffer.concat([received, chunk]);
+        if (!header && received.includes(0x0a)) {
+          header = received.subarray(0, received.indexOf(0x0a)).toString();
+          received = received.subarray(received.indexOf(0x0a) + 1);
+          stream.write('\0');
+        }
+        const size = Number(header.split(' ')[1]);
+        if (header && received.length === size + 1) {
+          files[target] = { header, content: received.subarray(0, size) };
+          stream.write('\0');
+        }
+      });
+      stream.on('end', () => {
+        stream.exit(0);
+        stream.end();
+      });
+      stream.write('\0');
+    });
+  });
+
+  return { ...server, files };
+}
+
+describe('WLC provider', () => {
+  const provider = new WLCProvider();
+
+  it('should bundle the key and chain as PKCS#12', () => {
+    const bundle = createPkcs12(privateKey, certificate, [certificate], 'p12-secret');
+
+    expect(() => tls.createSecureContext({ pfx: bundle, passphrase: 'p12-secret' })).not.toThrow();
+    expect(() => tls.createSecureContext({ pfx: bundle, passphrase: 'wrong' })).toThrow(/mac verify failure/);
+  });
+
+  it('should copy files over SCP', async () => {
+    const sink = await startScpSink();
+    const client = new SSHClient();
+    try {
+      await client.connect({ host: '127.0.0.1', port: sink.port, username: wlc.username, password: wlc.password });
+      const bundle = createPkcs12(privateKey, certificate, [], 'p12-secret');
+      await client.copyFile('bootflash:ACME-87654321.p12', bundle);
+
+      expect(sink.files['bootflash:ACME-87654321.p12']).toEqual({ header: `C0600 ${bundle.length} ACME-87654321.p12`, content: bundle });
+      await expect(client.copyFile('nvram:ACME-87654321.p12', bundle)).rejects.toThrow('Failed to copy nvram:ACME-87654321.p12: scp: nvram:ACME-87654321.p12: No such device');
+    } finally {
+      await client.disconnect();
+      await sink.close();
+    }
+  });
+
+  it('should assign the trustpoint to the web admin GUI or a web-auth parameter map', () => {
+    const adminSteps = provider.getDeployCommands('ACME-87654321', 'bootflash:ACME-87654321.p12', 'pw', { trustpoint: 'web-admin' });
+    expect(adminSteps).toEqual([
+      ['terminal length 0'],
+      ['configure terminal'],
+      ['crypto pki import ACME-87654321 pkcs12 bootflash:ACME-87654321.p12 password pw', ''],
+      ['do delete /force bootflash:ACME-87654321.p12'],
+      ['ip http secure-trustpoint ACME-87654321', 'no ip http secure-server', 'ip http secure-server'],
+      ['end'],
+      ['write memory']
+    ]);
+
+    const authSteps = provider.getDeployCommands('ACME-87654321', 'bootflash:ACME-87654321.p12', 'pw', { trustpoint: 'web-auth', parameterMap: 'guest-portal' });
+    expect(authSteps[4]).toEqual(['parameter-map type webauth guest-portal', 'trustpoint ACME-87654321', 'exit']);
+    expect(provider.getDeployCommands('ACME-87654321', 'bootflash:ACME-87654321.p12', 'pw', { trustpoint: 'web-auth' })[4][0]).toBe('parameter-map type webauth global');
+  });
+
+  it('should keep a separate certificate for each trustpoint', () => {
+    expect(parseWlcTrustpoints('web-auth')).toEqual(['web-auth']);
+    expect(parseWlcTrustpoints('')).toEqual(['web-admin', 'web-auth']);
+
+    const identities = getCertificateIdentities(wlc);
+    expect(identities.map(identity => [identity.service, identity.primary])).toEqual([['web-admin', true], ['web-auth', false]]);
+    expect(identities.map(getIdentityStorage)).toEqual([undefined, 'web-auth']);
+  });
+
+  it('should validate WLC connections', () => {
+    expect(validateConnectionData(wlc).errors).toEqual([]);
+    expect(validateConnectionData({ ...wlc, username: '', wlc_trustpoints: 'web-admin,guest', wlc_parameter_map: 'guest portal' }).errors).toEqual([
+      'Username is required and must be a string for WLC applications',
+      'WLC trustpoints must be among: web-admin, web-auth',
+      'Web-auth parameter map must be up to 32 letters, numbers, hyphens or underscores'
+    ]);
+  });
+});
@@ -31,10 +31,10 @@ interface AddConnectionModalTabbedProps {
 
 // Define the field groups
 const FIELD_GROUPS = {
-  basic: ["name", "application_type", "ise_application_subtype", "application_type_info", "application_type_info_ise", "application_type_info_general"],
-  authentication: ["username", "password"],
-  certificate: ["hostname", "domain", "ssl_provider", "dns_provider", "alt_names", "custom_csr", "general_private_key", "ise_nodes", "ise_certificate", "ise_private_key", "ise_cert_import_config"],
-  advanced: ["enable_ssh", "auto_restart_service", "auto_renew", "is_enabled"]
+  basic: ["name", "application_type", "ise_application_subtype", "application_type_info", "application_type_info_ise", "application_type_info_expressway", "application_type_info_ios", "application_type_info_fmc", "application_type_info_wlc", "application_type_info_general"],
+  authentication: ["username", "password", "fmc_host"],
+  certificate: ["hostname", "domain", "ssl_provider", "acme_environment", "dns_provider", "acme_challenge_type", "http_challenge_method", "http_challenge_webroot", "dns_challenge_mode", "dns_challenge_delegate", "dns_challenge_delegate_provider", "alt_names", "mra_domains", "mra_san_format", "ios_bindings", "fmc_certificate_name", "fmc_ravpn_policy", "wlc_trustpoints", "wlc_parameter_map", "vos_services", "key_algorithm", "ecdsa_key_algorithm", "hash_algorithm", "custom_csr", "general_private_key", "general_deploy_targets", "ise_nodes", "ise_certificate", "ise_private_key", "ise_cert_import_config"],
+  advanced: ["enable_ssh", "auto_restart_service", "ios_dry_run", "fmc_deploy", "fmc_devices", "auto_renew", "is_enabled"]
 };
 
 const AddConnectionModalTabbed: React.FC<AddConnectionModalTabbedProps> = ({ 
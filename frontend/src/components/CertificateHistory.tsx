@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, RefreshCw, Upload } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { apiCall } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface CertificateHistoryProps {
+  connectionId: number;
+  connectionName?: string;
+  isRenewing?: boolean;
+}
+
+interface IssuedCertificate {
+  id: number;
+  renewal_id: string | null;
+  serial_number: string;
+  fingerprint256: string;
+  common_name: string | null;
+  sans: string[];
+  issuer: string;
+  not_before: string;
+  not_after: string;
+  ca_id: string;
+  environment: string;
+  key_type: string;
+  service: string | null;
+  deploy_targets: string[];
+  deploy_status: 'pending' | 'deployed' | 'failed' | 'manual';
+  deploy_error: string | null;
+  deployed_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  revocation_reason: string | null;
+  is_current: boolean;
+  is_expired: boolean;
+  redeploy_blocker: string | null;
+  available_files: string[];
+}
+
+const FILE_NAMES: Record<string, string> = {
+  certificate: 'Certificate',
+  chain: 'Certificate Chain',
+  fullchain: 'Full Chain',
+  private_key: 'Private Key',
+};
+
+const DEPLOY_STATUS: Record<IssuedCertificate['deploy_status'], { label: string; color: string }> = {
+  deployed: { label: 'Deployed', color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' },
+  pending: { label: 'Not Deployed', color: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300' },
+  failed: { label: 'Deploy Failed', color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' },
+  manual: { label: 'Manual Install', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300' },
+};
+
+// SQLite timestamps are UTC without a zone designator
+const parseDate = (value: string) => new Date(/[zZ]|[+-]\d\d:\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+
+const formatDate = (value: string | null) => (value ? parseDate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'Unknown');
+
+const CertificateHistory: React.FC<CertificateHistoryProps> = ({ connectionId, connectionName, isRenewing }) => {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [certificates, setCertificates] = useState<IssuedCertificate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [redeployingId, setRedeployingId] = useState<number | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiCall(`/data/${connectionId}/certificates/history`);
+      if (response.ok) {
+        setCertificates(await response.json());
+      } else {
+        setCertificates([]);
+      }
+    } catch (error) {
+      console.error('Error fetching certificate history:', error);
+      setCertificates([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [connectionId]);
+
+  // Reload once a renewal finishes, it adds a certificate
+  useEffect(() => {
+    if (!isRenewing) {
+      fetchHistory();
+    }
+  }, [fetchHistory, isRenewing]);
+
+  const handleDownload = (certificate: IssuedCertificate, fileType: string) => {
+    const link = document.createElement('a');
+    link.href = `/api/data/${connectionId}/certificates/history/${certificate.id}/${fileType}`;
+    link.download = ''; // Let the server set the filename
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast({
+      title: "Download Started",
+      description: `Downloading ${FILE_NAMES[fileType] || fileType} of certificate ${certificate.serial_number}`,
+      duration: 3000,
+    });
+  };
+
+  const handleRedeploy = async (certificate: IssuedCertificate) => {
+    if (!confirm(`Redeploy certificate ${certificate.serial_number} (valid until ${formatDate(certificate.not_after)}) to ${connectionName || `connection ${connectionId}`}? It replaces the certificate installed now.`)) {
+      return;
+    }
+
+    try {
+      setRedeployingId(certificate.id);
+      const response = await apiCall(`/data/${connectionId}/certificates/history/${certificate.id}/redeploy`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to redeploy certificate');
+      }
+      toast({
+        title: data.status === 'dry-run' ? "Dry Run" : "Certificate Redeployed",
+        description: data.status === 'dry-run'
+          ? `Certificate ${certificate.serial_number} was not installed; the CLI lines are in the renewal log.`
+          : `Certificate ${certificate.serial_number} is installed again.`,
+        duration: 5000,
+      });
+    } catch (error) {
+      toast({
+        title: "Redeploy Failed",
+        description: error instanceof Error ? error.message : 'Failed to redeploy certificate',
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setRedeployingId(null);
+      fetchHistory();
+    }
+  };
+
+  if (loading && certificates.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground py-2">
+        <RefreshCw className="w-4 h-4 animate-spin" />
+        <span>Loading certificate history...</span>
+      </div>
+    );
+  }
+
+  if (certificates.length === 0) {
+    return <div className="text-sm text-muted-foreground py-2">No certificates have been issued for this connection yet</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {certificates.map((certificate) => {
+        const deployStatus = DEPLOY_STATUS[certificate.deploy_status] || DEPLOY_STATUS.pending;
+        return (
+          <li key={certificate.id} className="ml-4">
+            <div className={`absolute w-3 h-3 rounded-full mt-1.5 -left-1.5 border border-white dark:border-gray-900 ${certificate.is_current ? 'bg-green-500' : 'bg-gray-300 dark:bg-gray-600'}`} />
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">Issued {formatDate(certificate.created_at)}</span>
+                  {certificate.service && <Badge variant="outline">{certificate.service}</Badge>}
+                  {certificate.is_current && <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">Current</Badge>}
+                  {certificate.revoked_at && <Badge variant="destructive">Revoked ({certificate.revocation_reason})</Badge>}
+                  {!certificate.revoked_at && certificate.is_expired && <Badge variant="secondary">Expired</Badge>}
+                  <Badge className={deployStatus.color} title={certificate.deploy_error || undefined}>{deployStatus.label}</Badge>
+                </div>
+                <div className="text-muted-foreground">
+                  Valid {formatDate(certificate.not_before)} to {formatDate(certificate.not_after)} &middot; {certificate.key_type} &middot; {certificate.issuer}
+                </div>
+                <div className="text-xs text-muted-foreground font-mono break-all">Serial {certificate.serial_number}</div>
+                {certificate.sans.length > 0 && (
+                  <div className="text-xs text-muted-foreground">SANs: {certificate.sans.join(', ')}</div>
+                )}
+                {certificate.deploy_targets.length > 0 && (
+                  <div className="text-xs text-muted-foreground">Deployed to: {certificate.deploy_targets.join(', ')}</div>
+                )}
+                {certificate.deploy_status === 'failed' && certificate.deploy_error && (
+                  <div className="text-xs text-red-600 dark:text-red-400">{certificate.deploy_error}</div>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                {certificate.available_files.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" className="h-7">
+                        <Download className="w-3 h-3 mr-1" />
+                        Download
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {certificate.available_files.map((fileType) => (
+                        <DropdownMenuItem key={fileType} onClick={() => handleDownload(certificate, fileType)} className="cursor-pointer">
+                          {FILE_NAMES[fileType] || fileType}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {hasRole('operator') && !certificate.is_current && !certificate.redeploy_blocker && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7"
+                    disabled={isRenewing || redeployingId !== null}
+                    onClick={() => handleRedeploy(certificate)}
+                  >
+                    {redeployingId === certificate.id ? <RefreshCw className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+                    Redeploy
+                  </Button>
+                )}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default CertificateHistory;
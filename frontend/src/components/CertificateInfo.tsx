@@ -2,12 +2,16 @@ import { useState, useEffect } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
-import { Shield, Calendar, AlertCircle, CheckCircle, RefreshCw, FileText, X } from "lucide-react";
+import { Shield, Calendar, AlertCircle, CheckCircle, RefreshCw, FileText, X, Ban } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiCall } from "@/lib/api";
 import { useCertificateRenewal } from "@/contexts/WebSocketContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { useCertificateSettings } from "@/hooks/useCertificateSettings";
 import PerformanceMetricsChart from "./PerformanceMetricsChart";
+import CertificateHistory from "./CertificateHistory";
+import ServiceCertificates from "./ServiceCertificates";
+import ClusterNodes from "./ClusterNodes";
 
 interface CertificateInfo {
   subject: {
@@ -43,6 +47,14 @@ interface CertificateInfo {
   };
 }
 
+type RevocationReason = 'keyCompromise' | 'superseded' | 'cessationOfOperation';
+
+const REVOCATION_REASONS: { value: RevocationReason; label: string }[] = [
+  { value: 'keyCompromise', label: 'Key compromise' },
+  { value: 'superseded', label: 'Superseded' },
+  { value: 'cessationOfOperation', label: 'Cessation of operation' },
+];
+
 interface CertificateInfoProps {
   connectionId: number;
   hostname: string;
@@ -60,6 +72,12 @@ const CertificateInfoComponent: React.FC<CertificateInfoProps> = ({ connectionId
   const [showCompletionMessage, setShowCompletionMessage] = useState(false);
   const [completionMessage, setCompletionMessage] = useState('');
   const [lastRenewalProgress, setLastRenewalProgress] = useState(0);
+  const { hasRole } = useAuth();
+  const [showRevokeDialog, setShowRevokeDialog] = useState(false);
+  const [revokeReason, setRevokeReason] = useState<RevocationReason>('superseded');
+  const [revokeSigner, setRevokeSigner] = useState<'account' | 'certificate_key'>('account');
+  const [reissueAfterRevoke, setReissueAfterRevoke] = useState(true);
+  const [revoking, setRevoking] = useState(false);
   
   // Use WebSocket hook for real-time renewal updates
   const { 
@@ -69,7 +87,8 @@ const CertificateInfoComponent: React.FC<CertificateInfoProps> = ({ connectionId
     message, 
     error: renewalError, 
     status: renewalStatus,
-    renewalStatus: detailedRenewalStatus 
+    renewalStatus: detailedRenewalStatus,
+    interruptedReason
   } = useCertificateRenewal(connectionId);
 
   const fetchCertificateInfo = async () => {
@@ -133,6 +152,42 @@ const CertificateInfoComponent: React.FC<CertificateInfoProps> = ({ connectionId
     }
   };
 
+  const revokeCertificate = async () => {
+    try {
+      setRevoking(true);
+      const response = await apiCall(`/data/${connectionId}/certificates/revoke`, {
+        method: 'POST',
+        body: JSON.stringify({
+          reason: revokeReason,
+          signWith: revokeSigner,
+          reissue: revokeReason === 'keyCompromise' && reissueAfterRevoke,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to revoke certificate');
+      }
+
+      setShowRevokeDialog(false);
+      toast({
+        title: "Certificate Revoked",
+        description: data.renewalId
+          ? `Certificate ${data.serialNumber} revoked. A new certificate is being issued.`
+          : `Certificate ${data.serialNumber} revoked.${data.reissueSkipped ? ` ${data.reissueSkipped}` : ''}`,
+        duration: 5000,
+      });
+    } catch (error) {
+      toast({
+        title: "Revocation Failed",
+        description: error instanceof Error ? error.message : 'Failed to revoke certificate',
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
   useEffect(() => {
     fetchCertificateInfo();
   }, [connectionId]);
@@ -267,26 +322,114 @@ const CertificateInfoComponent: React.FC<CertificateInfoProps> = ({ connectionId
             {status.status === "unknown" && "Unknown"}
           </Badge>
         </div>
-        {onRenewCertificate && (
-          <div
-            onClick={isRenewing ? undefined : onRenewCertificate}
-            className={`flex items-center space-x-1 px-3 py-1 text-sm border border-input bg-background rounded-md transition-colors ${
-              isRenewing 
-                ? 'cursor-not-allowed opacity-75' 
-                : 'hover:bg-accent hover:text-accent-foreground cursor-pointer'
-            }`}
-          >
-            {isRenewing ? (
-              <RefreshCw className="w-4 h-4 animate-spin" />
-            ) : (
-              <FileText className="w-4 h-4" />
-            )}
-            <span>
-              {isRenewing ? `Renewing... (${progress}%)` : 'Renew Certificate'}
-            </span>
-          </div>
-        )}
+        <div className="flex items-center space-x-2">
+          {hasRole('admin') && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isRenewing}
+              onClick={() => setShowRevokeDialog(true)}
+              className="h-7 text-red-600 hover:text-red-700"
+            >
+              <Ban className="w-4 h-4 mr-1" />
+              Revoke
+            </Button>
+          )}
+          {onRenewCertificate && (
+            <div
+              onClick={isRenewing ? undefined : onRenewCertificate}
+              className={`flex items-center space-x-1 px-3 py-1 text-sm border border-input bg-background rounded-md transition-colors ${
+                isRenewing 
+                  ? 'cursor-not-allowed opacity-75' 
+                  : 'hover:bg-accent hover:text-accent-foreground cursor-pointer'
+              }`}
+            >
+              {isRenewing ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : (
+                <FileText className="w-4 h-4" />
+              )}
+              <span>
+                {isRenewing ? `Renewing... (${progress}%)` : 'Renew Certificate'}
+              </span>
+            </div>
+          )}
+        </div>
       </div>
+
+      {/* Revoke Certificate Dialog */}
+      {showRevokeDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-gray-100">
+              Revoke Certificate
+            </h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-4">
+              Revoke the certificate last issued for <strong>{connectionName || `Connection ${connectionId}`}</strong> with
+              the certificate authority. The revoked certificate and its key are archived and won't be used again.
+            </p>
+            <div className="space-y-3 mb-6 text-sm">
+              <label className="block">
+                <span className="font-medium text-gray-700 dark:text-gray-300">Reason</span>
+                <select
+                  value={revokeReason}
+                  onChange={(e) => setRevokeReason(e.target.value as RevocationReason)}
+                  className="mt-1 w-full px-2 py-1 bg-white dark:bg-gray-900 border border-input rounded-md"
+                >
+                  {REVOCATION_REASONS.map((reason) => (
+                    <option key={reason.value} value={reason.value}>{reason.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-medium text-gray-700 dark:text-gray-300">Sign with</span>
+                <select
+                  value={revokeSigner}
+                  onChange={(e) => setRevokeSigner(e.target.value as 'account' | 'certificate_key')}
+                  className="mt-1 w-full px-2 py-1 bg-white dark:bg-gray-900 border border-input rounded-md"
+                >
+                  <option value="account">ACME account key</option>
+                  <option value="certificate_key">Certificate private key</option>
+                </select>
+              </label>
+              {revokeReason === 'keyCompromise' && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={reissueAfterRevoke}
+                    onChange={(e) => setReissueAfterRevoke(e.target.checked)}
+                  />
+                  <span className="text-gray-700 dark:text-gray-300">Issue and deploy a new certificate with a new key now</span>
+                </label>
+              )}
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setShowRevokeDialog(false)} disabled={revoking}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={revokeCertificate}
+                disabled={revoking}
+              >
+                {revoking ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Ban className="w-4 h-4 mr-2" />}
+                Revoke
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Last renewal was cut short by a backend restart */}
+      {!isRenewing && interruptedReason && (
+        <div className="mt-4 p-3 rounded-lg border bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+          <div className="flex items-center space-x-2">
+            <AlertCircle className="w-4 h-4 text-amber-600" />
+            <span className="text-sm font-medium text-amber-800 dark:text-amber-200">Certificate Renewal Interrupted</span>
+          </div>
+          <div className="mt-1 text-sm text-amber-700 dark:text-amber-300">{interruptedReason}</div>
+        </div>
+      )}
       
       {/* Real-time renewal progress */}
       {(isRenewing || showCompletionMessage) && (
@@ -618,6 +761,20 @@ const CertificateInfoComponent: React.FC<CertificateInfoProps> = ({ connectionId
             </div>
           </AccordionContent>
         </AccordionItem>
+        <AccordionItem value="certificate-history">
+          <AccordionTrigger className="text-sm">
+            <span>Certificate History</span>
+          </AccordionTrigger>
+          <AccordionContent>
+            <ServiceCertificates connectionId={connectionId} isRenewing={isRenewing} />
+            <CertificateHistory
+              connectionId={connectionId}
+              connectionName={connectionName}
+              isRenewing={isRenewing}
+            />
+          </AccordionContent>
+        </AccordionItem>
+        <ClusterNodes connectionId={connectionId} connectionName={connectionName} isRenewing={isRenewing} />
       </Accordion>
     </div>
   );
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { RefreshCw, Search, ShieldCheck } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { apiCall } from "@/lib/api";
+import { useAuth } from "@/contexts/AuthContext";
+
+interface ClusterNodesProps {
+  connectionId: number;
+  connectionName?: string;
+  isRenewing?: boolean;
+}
+
+interface ClusterNode {
+  id: number;
+  hostname: string;
+  ip_address: string | null;
+  role: 'publisher' | 'subscriber';
+  position: number;
+  verify_status: 'pending' | 'verified' | 'mismatch' | 'unreachable';
+  live_serial: string | null;
+  verify_error: string | null;
+  verified_at: string | null;
+  restarted_at: string | null;
+}
+
+interface Cluster {
+  id: number;
+  name: string;
+  publisher_id: number;
+  discovered_at: string | null;
+  nodes: ClusterNode[];
+}
+
+const VERIFY_STATUS: Record<ClusterNode['verify_status'], { label: string; color: string }> = {
+  verified: { label: 'Serves Current', color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300' },
+  pending: { label: 'Not Verified', color: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300' },
+  mismatch: { label: 'Serves Other', color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300' },
+  unreachable: { label: 'Unreachable', color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' },
+};
+
+// SQLite timestamps are UTC without a zone designator
+const parseDate = (value: string) => new Date(/[zZ]|[+-]\d\d:\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+
+const formatDateTime = (value: string) => parseDate(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Members of the cluster a VOS connection is the publisher of, and whether each serves the current certificate
+const ClusterNodes: React.FC<ClusterNodesProps> = ({ connectionId, connectionName, isRenewing }) => {
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const [eligible, setEligible] = useState(false);
+  const [cluster, setCluster] = useState<Cluster | null>(null);
+  const [busy, setBusy] = useState<'create' | 'discover' | 'verify' | 'delete' | null>(null);
+
+  const fetchCluster = useCallback(async () => {
+    try {
+      const response = await apiCall(`/data/${connectionId}/cluster`);
+      const data = await response.json();
+      setEligible(data.eligible);
+      setCluster(data.cluster);
+    } catch (error) {
+      console.error('Error fetching cluster:', error);
+      setEligible(false);
+      setCluster(null);
+    }
+  }, [connectionId]);
+
+  // Reload once a renewal finishes, it restarts and verifies the nodes
+  useEffect(() => {
+    if (!isRenewing) {
+      fetchCluster();
+    }
+  }, [fetchCluster, isRenewing]);
+
+  const runAction = async (action: NonNullable<typeof busy>, path: string, method: string, success: string) => {
+    try {
+      setBusy(action);
+      const response = await apiCall(`/data/${connectionId}/cluster${path}`, { method });
+      if (response.status !== 204) {
+        const data = await response.json();
+        setCluster(data);
+      } else {
+        setCluster(null);
+      }
+      toast({ title: success, duration: 3000 });
+    } catch (error) {
+      toast({
+        title: "Cluster Action Failed",
+        description: error instanceof Error ? error.message : 'Cluster action failed',
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!eligible) {
+    return null;
+  }
+
+  return (
+    <AccordionItem value="cluster">
+      <AccordionTrigger className="text-sm">
+        <span>Cluster{cluster ? ` (${cluster.nodes.length} nodes)` : ''}</span>
+      </AccordionTrigger>
+      <AccordionContent>
+        {!cluster ? (
+          <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+            <span>Manage {connectionName || 'this connection'} as the publisher of a cluster to deploy one multi-server certificate to every node.</span>
+            {hasRole('admin') && (
+              <Button variant="outline" size="sm" disabled={busy !== null} onClick={() => runAction('create', '', 'POST', 'Cluster Created')}>
+                Manage as Cluster
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {cluster.discovered_at ? `Nodes discovered ${formatDateTime(cluster.discovered_at)}` : 'Nodes not discovered yet'}
+              </span>
+              <div className="flex items-center space-x-2">
+                {hasRole('admin') && (
+                  <Button variant="outline" size="sm" className="h-7" disabled={busy !== null} onClick={() => runAction('discover', '/discover', 'POST', 'Cluster Nodes Discovered')}>
+                    {busy === 'discover' ? <RefreshCw className="w-3 h-3 mr-1 animate-spin" /> : <Search className="w-3 h-3 mr-1" />}
+                    Discover Nodes
+                  </Button>
+                )}
+                {hasRole('operator') && cluster.nodes.length > 0 && (
+                  <Button variant="outline" size="sm" className="h-7" disabled={busy !== null} onClick={() => runAction('verify', '/verify', 'POST', 'Cluster Nodes Checked')}>
+                    {busy === 'verify' ? <RefreshCw className="w-3 h-3 mr-1 animate-spin" /> : <ShieldCheck className="w-3 h-3 mr-1" />}
+                    Verify Nodes
+                  </Button>
+                )}
+                {hasRole('admin') && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
+                    disabled={busy !== null}
+                    onClick={() => confirm(`Stop managing ${cluster.name} as a cluster? Renewals only cover the publisher again.`) && runAction('delete', '', 'DELETE', 'Cluster Removed')}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+            {cluster.nodes.length === 0 ? (
+              <div className="text-sm text-muted-foreground">Discover the nodes to add the subscribers to the certificate.</div>
+            ) : (
+              <ol className="space-y-1">
+                {cluster.nodes.map((node) => {
+                  const verifyStatus = VERIFY_STATUS[node.verify_status] || VERIFY_STATUS.pending;
+                  return (
+                    <li key={node.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground w-4">{node.position + 1}.</span>
+                        <span className="font-mono">{node.hostname}</span>
+                        <Badge variant="outline">{node.role === 'publisher' ? 'Publisher' : 'Subscriber'}</Badge>
+                        {node.restarted_at && <span className="text-xs text-muted-foreground">restarted {formatDateTime(node.restarted_at)}</span>}
+                      </div>
+                      <Badge className={verifyStatus.color} title={node.verify_error || (node.live_serial ? `Serial ${node.live_serial}` : undefined)}>
+                        {verifyStatus.label}
+                      </Badge>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        )}
+      </AccordionContent>
+    </AccordionItem>
+  );
+};
+
+export default ClusterNodes;
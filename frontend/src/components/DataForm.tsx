@@ -304,6 +304,34 @@ const DataForm: React.FC<DataFormProps> = ({
                   ))}
                 </SelectContent>
               </Select>
+            ) : col.type === "CHECKBOXES" ? (
+              <div className="space-y-2">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {col.options?.map((option) => {
+                    const selected = String(formValue || "").split(",").filter(Boolean);
+                    return (
+                      <label key={option.value} className="flex items-center space-x-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(option.value)}
+                          onChange={(e) => {
+                            // Keep the values in option order, e.g. "tomcat,CallManager"
+                            const values = (col.options || []).map(opt => opt.value)
+                              .filter(value => (value === option.value ? e.target.checked : selected.includes(value)));
+                            handleSelectChange(col.name, values.join(","), col.validator, isOptional);
+                          }}
+                        />
+                        <span>{option.label}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+                {col.description && (
+                  <p className="text-xs text-muted-foreground">
+                    {col.description}
+                  </p>
+                )}
+              </div>
             ) : col.type === "INFO" ? (
               <div className="bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800 rounded-md p-3">
                 <p className="text-sm text-blue-800 dark:text-blue-200">
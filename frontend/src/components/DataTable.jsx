@@ -6,11 +6,14 @@ import { apiCall } from '../lib/api';
 import { ChevronDown, ChevronUp, Trash2, Eye, EyeOff, Edit, Terminal, Server, Wrench, Power } from 'lucide-react';
 import EditConnectionModal from './EditConnectionModalTabbed';
 import { useToast } from "@/hooks/use-toast";
-import { isConnectionEnabled, getConnectionDisplayHostname } from '../lib/connection-utils';
+import { isConnectionEnabled } from '../lib/connection-utils';
+import { useAuth } from '../contexts/AuthContext';
 
 const DataTable = ({ data, onDataChange }) => {
   const config = useConfig();
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const isAdmin = hasRole('admin');
   const [jsonData, setData] = useState([]);
   const [expandedRows, setExpandedRows] = useState(new Set());
   const [visiblePasswords, setVisiblePasswords] = useState(new Set());
@@ -43,18 +46,14 @@ const DataTable = ({ data, onDataChange }) => {
     setTestingSSH(newTesting);
 
     try {
-      // Use the connection utility to get the proper hostname for SSH testing
-      const fqdn = getConnectionDisplayHostname(record);
-      
+      // The backend uses the stored credentials, which non-admin users cannot read
       const response = await apiCall('/ssh/test', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          hostname: fqdn,
-          username: record.username,
-          password: record.password,
+          connectionId: record.id,
         }),
       });
 
@@ -214,7 +213,14 @@ const DataTable = ({ data, onDataChange }) => {
     }
     
     if (columnName === "ssl_provider") {
-      return value === "letsencrypt" ? "Let's Encrypt" : "ZeroSSL";
+      const providers = {
+        "letsencrypt": "Let's Encrypt",
+        "zerossl": "ZeroSSL",
+        "gts": "Google Trust Services",
+        "sectigo": "Sectigo",
+        "acme": "Custom ACME Server"
+      };
+      return providers[value] || value;
     }
     
     if (columnName === "dns_provider") {
@@ -224,6 +230,7 @@ const DataTable = ({ data, onDataChange }) => {
         "route53": "AWS Route53",
         "azure": "Azure DNS",
         "google": "Google Cloud DNS",
+        "rfc2136": "RFC 2136 (BIND)",
         "custom": "Custom DNS (Manual)"
       };
       return providers[value] || value;
@@ -360,7 +367,7 @@ const DataTable = ({ data, onDataChange }) => {
                   </span>
                   <button
                     onClick={() => handleToggleEnabled(record)}
-                    disabled={toggling.has(record.id)}
+                    disabled={!isAdmin || toggling.has(record.id)}
                     className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 ${
                       isConnectionEnabled(record)
                         ? 'bg-green-500 hover:bg-green-600'
@@ -376,24 +383,27 @@ const DataTable = ({ data, onDataChange }) => {
                   </button>
                 </div>
 
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setEditingRecord(record)}
-                  className="flex items-center space-x-1"
-                >
-                  <Edit className="w-4 h-4" />
-                </Button>
-                
-                
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleDelete(record.id)}
-                  className="flex items-center space-x-1 text-red-600 hover:text-red-700"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </Button>
+                {isAdmin && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingRecord(record)}
+                      className="flex items-center space-x-1"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(record.id)}
+                      className="flex items-center space-x-1 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
                 
                 <Button
                   variant="ghost"
@@ -487,7 +497,7 @@ const DataTable = ({ data, onDataChange }) => {
                   </div>
                   <div className="flex flex-wrap gap-2">
                     {/* SSH Test Button - show only for VOS applications with SSH enabled */}
-                    {record.enable_ssh && record.application_type === 'vos' && (
+                    {hasRole('operator') && record.enable_ssh && record.application_type === 'vos' && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -45,9 +45,9 @@ interface EditConnectionModalTabbedProps {
 // Define the field groups
 const FIELD_GROUPS = {
   basic: ["name", "application_type", "ise_application_subtype"],
-  authentication: ["username", "password"],
-  certificate: ["hostname", "domain", "ssl_provider", "dns_provider", "dns_challenge_mode", "alt_names", "custom_csr", "general_private_key", "ise_nodes", "ise_certificate", "ise_private_key", "ise_cert_import_config"],
-  advanced: ["enable_ssh", "auto_restart_service", "auto_renew", "is_enabled"]
+  authentication: ["username", "password", "fmc_host"],
+  certificate: ["hostname", "domain", "ssl_provider", "acme_environment", "dns_provider", "acme_challenge_type", "http_challenge_method", "http_challenge_webroot", "dns_challenge_mode", "dns_challenge_delegate", "dns_challenge_delegate_provider", "alt_names", "mra_domains", "mra_san_format", "ios_bindings", "fmc_certificate_name", "fmc_ravpn_policy", "wlc_trustpoints", "wlc_parameter_map", "vos_services", "key_algorithm", "ecdsa_key_algorithm", "hash_algorithm", "custom_csr", "general_private_key", "general_deploy_targets", "ise_nodes", "ise_certificate", "ise_private_key", "ise_cert_import_config"],
+  advanced: ["enable_ssh", "auto_restart_service", "ios_dry_run", "fmc_deploy", "fmc_devices", "auto_renew", "is_enabled"]
 };
 
 const EditConnectionModalTabbed: React.FC<EditConnectionModalTabbedProps> = ({ 
@@ -308,6 +308,34 @@ const EditConnectionModalTabbed: React.FC<EditConnectionModalTabbedProps> = ({
               ))}
             </SelectContent>
           </Select>
+        ) : col.type === "CHECKBOXES" ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {col.options?.map((option) => {
+                const selected = String(formValue || "").split(",").filter(Boolean);
+                return (
+                  <label key={option.value} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(option.value)}
+                      onChange={(e) => {
+                        // Keep the values in option order, e.g. "tomcat,CallManager"
+                        const values = (col.options || []).map(opt => opt.value)
+                          .filter(value => (value === option.value ? e.target.checked : selected.includes(value)));
+                        handleSelectChange(col.name, values.join(","), col.validator, isOptional);
+                      }}
+                    />
+                    <span>{option.label}</span>
+                  </label>
+                );
+              })}
+            </div>
+            {col.description && (
+              <p className="text-xs text-muted-foreground">
+                {col.description}
+              </p>
+            )}
+          </div>
         ) : col.type === "SWITCH" ? (
           <div className="space-y-2">
             <div className="flex items-start space-x-3">
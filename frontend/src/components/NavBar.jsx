@@ -1,9 +1,13 @@
 import { Link } from "react-router-dom";
 import { useConfig } from '@/config/ConfigContext';
 import CertificateBadges from './CertificateBadges';
+import { Button } from "@/components/ui/button";
+import { LogOut, User } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
 
 export default function Component({ overallStatus }) {
   const config = useConfig();
+  const { user, logout } = useAuth();
 
   return (
     <nav className="sticky inset-x-0 top-0 z-30 bg-white shadow-sm px-4 md:px-6 dark:bg-black">
@@ -16,9 +20,20 @@ export default function Component({ overallStatus }) {
           </Link>
         </div>
 
-        {/* Right side - Certificate Badges */}
-        <div className="flex-shrink-0">
+        {/* Right side - Certificate Badges and current user */}
+        <div className="flex-shrink-0 flex items-center space-x-2 md:space-x-4">
           <CertificateBadges overallStatus={overallStatus} />
+          {user && (
+            <div className="flex items-center space-x-2">
+              <span className="hidden md:flex items-center text-sm text-muted-foreground" title={`Role: ${user.role}`}>
+                <User className="w-4 h-4 mr-1" />
+                {user.username}
+              </span>
+              <Button variant="ghost" size="sm" onClick={logout} title="Sign out">
+                <LogOut className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </nav>
@@ -1,10 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { RefreshCw, CheckCircle, XCircle, Clock, AlertCircle, Download, X } from "lucide-react";
+import { RefreshCw, CheckCircle, XCircle, Clock, AlertCircle, Download, Gauge, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiCall } from "@/lib/api";
 import { useCertificateRenewal } from "@/contexts/WebSocketContext";
@@ -12,7 +12,7 @@ import { useCertificateRenewal } from "@/contexts/WebSocketContext";
 interface RenewalStatus {
   id: string;
   connectionId: number;
-  status: 'pending' | 'generating_csr' | 'creating_account' | 'requesting_certificate' | 'creating_dns_challenge' | 'waiting_dns_propagation' | 'waiting_manual_dns' | 'completing_validation' | 'downloading_certificate' | 'uploading_certificate' | 'completed' | 'failed';
+  status: 'pending' | 'generating_csr' | 'creating_account' | 'requesting_certificate' | 'creating_dns_challenge' | 'creating_http_challenge' | 'verifying_http_challenge' | 'waiting_dns_propagation' | 'waiting_manual_dns' | 'completing_validation' | 'downloading_certificate' | 'uploading_certificate' | 'completed' | 'failed';
   message: string;
   progress: number;
   startTime: string;
@@ -26,6 +26,26 @@ interface RenewalStatus {
   };
 }
 
+interface RateLimitUsage {
+  key: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string | null;
+}
+
+interface RateLimitBudget {
+  caName: string;
+  environment: 'staging' | 'production';
+  windowDays: number;
+  action: 'block' | 'warn';
+  registeredDomains: RateLimitUsage[];
+  duplicates: RateLimitUsage | null;
+  renewal: boolean;
+  blocked: string | null;
+  warnings: string[];
+}
+
 interface RenewalStatusProps {
   connectionId: number;
   renewalId: string;
@@ -45,6 +65,7 @@ const RenewalStatusComponent: React.FC<RenewalStatusProps> = ({ connectionId, re
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [certificateFiles, setCertificateFiles] = useState<CertificateFile[]>([]);
+  const [rateLimits, setRateLimits] = useState<RateLimitBudget | null>(null);
   
   // Use WebSocket hook for real-time updates
   const { 
@@ -76,6 +97,23 @@ const RenewalStatusComponent: React.FC<RenewalStatusProps> = ({ connectionId, re
     }
   };
 
+  const fetchRateLimits = useCallback(async () => {
+    try {
+      const response = await apiCall(`/data/${connectionId}/rate-limits`);
+      if (response.ok) {
+        setRateLimits(await response.json());
+      }
+    } catch (err) {
+      console.error('Error fetching rate limits:', err);
+    }
+  }, [connectionId]);
+
+  // Reload once the renewal ends, an issued certificate uses up budget
+  const isFinished = status?.status === 'completed' || status?.status === 'failed';
+  useEffect(() => {
+    fetchRateLimits();
+  }, [fetchRateLimits, isFinished]);
+
   const fetchCertificateFiles = async () => {
     try {
       const response = await apiCall(`/data/${connectionId}/certificates`);
@@ -186,6 +224,8 @@ const RenewalStatusComponent: React.FC<RenewalStatusProps> = ({ connectionId, re
       case 'creating_account':
       case 'requesting_certificate':
       case 'creating_dns_challenge':
+      case 'creating_http_challenge':
+      case 'verifying_http_challenge':
       case 'waiting_dns_propagation':
       case 'completing_validation':
       case 'downloading_certificate':
@@ -211,6 +251,8 @@ const RenewalStatusComponent: React.FC<RenewalStatusProps> = ({ connectionId, re
       case 'creating_account':
       case 'requesting_certificate':
       case 'creating_dns_challenge':
+      case 'creating_http_challenge':
+      case 'verifying_http_challenge':
       case 'waiting_dns_propagation':
       case 'completing_validation':
       case 'downloading_certificate':
@@ -225,6 +267,22 @@ const RenewalStatusComponent: React.FC<RenewalStatusProps> = ({ connectionId, re
     return new Date(dateString).toLocaleString();
   };
 
+  const getBudgetColor = (usage: RateLimitUsage) => {
+    if (usage.remaining === 0) return "text-red-600";
+    if (usage.remaining <= Math.max(1, Math.floor(usage.limit / 5))) return "text-orange-600";
+    return "text-muted-foreground";
+  };
+
+  const renderUsage = (label: string, usage: RateLimitUsage, exempt = false) => (
+    <div key={`${label}-${usage.key}`} className="flex justify-between gap-4 text-xs">
+      <span className="truncate" title={usage.key}>{label}</span>
+      <span className={exempt ? "text-muted-foreground" : getBudgetColor(usage)}>
+        {usage.remaining} of {usage.limit} left{exempt && ' (renewal, exempt)'}
+        {usage.used > 0 && usage.resetsAt && ` · frees up ${formatTime(usage.resetsAt)}`}
+      </span>
+    </div>
+  );
+
   const getDuration = () => {
     if (!status) return null;
     
@@ -460,6 +518,25 @@ const RenewalStatusComponent: React.FC<RenewalStatusProps> = ({ connectionId, re
               )}
             </div>
 
+            {/* Rate Limit Budget */}
+            {rateLimits && (rateLimits.duplicates || rateLimits.registeredDomains.length > 0) && (
+              <div className="space-y-2">
+                <h4 className="font-medium flex items-center">
+                  <Gauge className="w-4 h-4 mr-2" />
+                  {rateLimits.caName} Rate Limits (last {rateLimits.windowDays} days):
+                </h4>
+                <div className="space-y-1 p-3 border rounded-md">
+                  {rateLimits.duplicates && renderUsage('Duplicate certificates', rateLimits.duplicates)}
+                  {rateLimits.registeredDomains.map((usage) => renderUsage(`Certificates for ${usage.key}`, usage, rateLimits.renewal))}
+                </div>
+                {(rateLimits.blocked ? [rateLimits.blocked] : rateLimits.warnings).map((message) => (
+                  <p key={message} className={`text-xs ${rateLimits.blocked ? 'text-red-600' : 'text-orange-600'}`}>
+                    {message}
+                  </p>
+                ))}
+              </div>
+            )}
+
             {/* Logs */}
             <div className="space-y-2">
               <h4 className="font-medium">Renewal Logs:</h4>
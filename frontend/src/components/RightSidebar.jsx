@@ -1,12 +1,14 @@
 import { Link, useLocation } from "react-router-dom";
 import { useConfig } from '@/config/ConfigContext';
 import templateConfig from "../../template.config.json";
-import { ChevronLeft, ChevronRight, Home, Database, FileText, HelpCircle } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Home, Database, FileText, HelpCircle, Users, KeyRound, ScrollText } from 'lucide-react';
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
 
 const RightSidebar = ({ isExpanded, onCollapse, onToggle }) => {
   const config = useConfig();
   const location = useLocation();
+  const { hasRole } = useAuth();
 
   const navigationItems = [
     {
@@ -27,6 +29,27 @@ const RightSidebar = ({ isExpanded, onCollapse, onToggle }) => {
       icon: FileText,
       alwaysShow: false
     },
+    {
+      name: 'Users',
+      path: '/users',
+      icon: Users,
+      alwaysShow: false,
+      requiredRole: 'admin'
+    },
+    {
+      name: 'API Tokens',
+      path: '/tokens',
+      icon: KeyRound,
+      alwaysShow: false,
+      requiredRole: 'admin'
+    },
+    {
+      name: 'Audit',
+      path: '/audit',
+      icon: ScrollText,
+      alwaysShow: false,
+      requiredRole: 'admin'
+    },
     {
       name: 'Help',
       path: '/help',
@@ -36,7 +59,8 @@ const RightSidebar = ({ isExpanded, onCollapse, onToggle }) => {
   ];
 
   const filteredItems = navigationItems.filter(item => 
-    item.alwaysShow || templateConfig.useBackend
+    (item.alwaysShow || templateConfig.useBackend) &&
+    (!item.requiredRole || hasRole(item.requiredRole))
   );
 
   return (
@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Badge } from "@/components/ui/badge";
+import { apiCall } from "@/lib/api";
+
+interface ServiceCertificatesProps {
+  connectionId: number;
+  isRenewing?: boolean;
+}
+
+interface ServiceCertificate {
+  service: string | null;
+  label: string | null;
+  primary: boolean;
+  key_algorithm: string;
+  hash_algorithm: string;
+  restart_services: string[];
+  serial_number: string | null;
+  not_after: string | null;
+  days_remaining: number | null;
+}
+
+const expiryColor = (days: number) => {
+  if (days < 0) return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300';
+  if (days <= 30) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300';
+  return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300';
+};
+
+// Expiry of each VOS certificate service or WLC trustpoint a connection manages; hidden when it only has one certificate
+const ServiceCertificates: React.FC<ServiceCertificatesProps> = ({ connectionId, isRenewing }) => {
+  const [services, setServices] = useState<ServiceCertificate[]>([]);
+
+  const fetchServices = useCallback(async () => {
+    try {
+      const response = await apiCall(`/data/${connectionId}/services`);
+      setServices(response.ok ? await response.json() : []);
+    } catch (error) {
+      console.error('Error fetching service certificates:', error);
+      setServices([]);
+    }
+  }, [connectionId]);
+
+  useEffect(() => {
+    if (!isRenewing) {
+      fetchServices();
+    }
+  }, [fetchServices, isRenewing]);
+
+  if (services.length <= 1) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="text-sm font-medium">Service Certificates</div>
+      <ul className="space-y-1">
+        {services.map((certificate) => (
+          <li key={certificate.service} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-mono">{certificate.service}</span>
+              <span className="text-xs text-muted-foreground">
+                {certificate.key_algorithm}, {certificate.hash_algorithm.toUpperCase()}
+                {certificate.restart_services.length > 0 && <> &middot; restarts {certificate.restart_services.join(', ')}</>}
+              </span>
+            </div>
+            {certificate.days_remaining !== null && certificate.not_after ? (
+              <Badge className={expiryColor(certificate.days_remaining)} title={`Serial ${certificate.serial_number}`}>
+                {certificate.days_remaining < 0 ? 'Expired' : `${certificate.days_remaining} days`} &middot; {new Date(certificate.not_after).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Not issued yet</Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ServiceCertificates;
@@ -26,116 +26,37 @@ interface ProviderSettings {
   [key: string]: string;
 }
 
+interface ProviderSetting {
+  key: string;
+  description: string;
+  required: boolean;
+  secret: boolean;
+  default?: string;
+}
+
+// Settings schema served by the backend, including every registered DNS provider
+interface SettingsProvider {
+  id: string;
+  name: string;
+  description: string;
+  category: 'general' | 'ssl' | 'dns';
+  settings: ProviderSetting[];
+  automated?: boolean;
+}
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
   const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
   const [, setSettings] = useState<Setting[]>([]);
+  const [providers, setProviders] = useState<SettingsProvider[]>([]);
   const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>({});
   const [, setLoading] = useState(false);
   const [visibleKeys, setVisibleKeys] = useState<Record<string, boolean>>({});
+  const [testingProvider, setTestingProvider] = useState<string | null>(null);
   const [showLeftScroll, setShowLeftScroll] = useState(false);
   const [showRightScroll, setShowRightScroll] = useState(false);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  const providers = [
-    {
-      id: 'renewal',
-      name: 'Certificate Renewal',
-      keys: ['CERT_RENEWAL_DAYS', 'CERT_WARNING_DAYS', 'CERT_CHECK_SCHEDULE'],
-      description: 'Automatic certificate renewal settings',
-      keyInfo: {
-        'CERT_RENEWAL_DAYS': 'Number of days before certificate expiration to automatically renew (e.g., 7 = renew when 7 days left)',
-        'CERT_WARNING_DAYS': 'Number of days before expiration to display warning in UI (e.g., 30 = warn when 30 days left)',
-        'CERT_CHECK_SCHEDULE': 'Cron expression for when to check certificates (e.g., "0 0 * * *" = daily at midnight, "0 2 * * *" = daily at 2 AM)'
-      },
-      keyDefaults: {
-        'CERT_RENEWAL_DAYS': '7',
-        'CERT_WARNING_DAYS': '30',
-        'CERT_CHECK_SCHEDULE': '0 0 * * *'
-      }
-    },
-    { 
-      id: 'letsencrypt', 
-      name: 'Let\'s Encrypt', 
-      keys: ['LETSENCRYPT_EMAIL'],
-      description: 'Free SSL certificate provider',
-      keyInfo: {
-        'LETSENCRYPT_EMAIL': 'Email for account registration and renewal notifications'
-      }
-    },
-    { 
-      id: 'zerossl', 
-      name: 'ZeroSSL', 
-      keys: ['ZEROSSL_KEY', 'MXTOOLBOX_KEY'],
-      description: 'SSL certificate provider with DNS verification via MXTOOLBOX',
-      keyInfo: {
-        'ZEROSSL_KEY': 'API key from ZeroSSL Dashboard > Developer > API Keys',
-        'MXTOOLBOX_KEY': 'API key from MXTOOLBOX for DNS record verification'
-      }
-    },
-    { 
-      id: 'cloudflare', 
-      name: 'Cloudflare', 
-      keys: ['CF_KEY', 'CF_ZONE'],
-      description: 'DNS provider for automatic DNS validation',
-      keyInfo: {
-        'CF_KEY': 'Global API Key from My Profile > API Tokens',
-        'CF_ZONE': 'Zone ID from domain overview page'
-      }
-    },
-    { 
-      id: 'digitalocean', 
-      name: 'DigitalOcean', 
-      keys: ['DO_KEY'],
-      description: 'DNS provider for automatic DNS validation',
-      keyInfo: {
-        'DO_KEY': 'Personal Access Token from API > Generate New Token'
-      }
-    },
-    { 
-      id: 'route53', 
-      name: 'AWS Route53', 
-      keys: ['AWS_ACCESS_KEY', 'AWS_SECRET_KEY', 'AWS_ZONE_ID'],
-      description: 'DNS provider for automatic DNS validation',
-      keyInfo: {
-        'AWS_ACCESS_KEY': 'IAM user access key with Route53 permissions',
-        'AWS_SECRET_KEY': 'Secret access key for the IAM user',
-        'AWS_ZONE_ID': 'Hosted zone ID from Route53 console'
-      }
-    },
-    { 
-      id: 'azure', 
-      name: 'Azure DNS', 
-      keys: ['AZURE_SUBSCRIPTION_ID', 'AZURE_RESOURCE_GROUP', 'AZURE_ZONE_NAME'],
-      description: 'DNS provider for automatic DNS validation',
-      keyInfo: {
-        'AZURE_SUBSCRIPTION_ID': 'Azure subscription containing DNS zones',
-        'AZURE_RESOURCE_GROUP': 'Resource group containing DNS zone',
-        'AZURE_ZONE_NAME': 'DNS zone name (e.g., example.com)'
-      }
-    },
-    { 
-      id: 'google', 
-      name: 'Google Cloud DNS', 
-      keys: ['GOOGLE_PROJECT_ID', 'GOOGLE_ZONE_NAME'],
-      description: 'DNS provider for automatic DNS validation',
-      keyInfo: {
-        'GOOGLE_PROJECT_ID': 'GCP project ID containing Cloud DNS zones',
-        'GOOGLE_ZONE_NAME': 'Cloud DNS zone name'
-      }
-    },
-    { 
-      id: 'custom', 
-      name: 'Custom DNS', 
-      keys: ['CUSTOM_DNS_SERVER_1', 'CUSTOM_DNS_SERVER_2'],
-      description: 'Manual DNS configuration for custom setups',
-      keyInfo: {
-        'CUSTOM_DNS_SERVER_1': 'Primary DNS server IP address',
-        'CUSTOM_DNS_SERVER_2': 'Secondary DNS server IP address (optional)'
-      }
-    }
-  ];
-
   const fetchSettings = async () => {
     try {
       setLoading(true);
@@ -143,9 +64,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
       const data = await response.json();
       setSettings(data);
 
+      const providersResponse = await apiCall('/settings/providers');
+      const providerList: SettingsProvider[] = await providersResponse.json();
+      setProviders(providerList);
+
       // Fetch individual provider settings
       const providerData: Record<string, ProviderSettings> = {};
-      for (const provider of providers) {
+      for (const provider of providerList) {
         const providerResponse = await apiCall(`/settings/${provider.id}`);
         const providerKeys = await providerResponse.json();
         providerData[provider.id] = providerKeys.reduce((acc: ProviderSettings, key: any) => {
@@ -237,7 +162,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
     if (!provider) return { configured: false, missing: [] };
     
     const providerData = providerSettings[providerId] || {};
-    const missing = provider.keys.filter(key => !providerData[key]);
+    const missing = provider.settings
+      .filter(setting => setting.required && !providerData[setting.key])
+      .map(setting => setting.key);
     
     return {
       configured: missing.length === 0,
@@ -245,6 +172,36 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
     };
   };
 
+  const handleTestCredentials = async (providerId: string) => {
+    try {
+      setTestingProvider(providerId);
+      const response = await apiCall(`/settings/${providerId}/validate?check_credentials=true`);
+      const result = await response.json();
+
+      if (result.is_valid) {
+        toast({
+          title: "Success",
+          description: `${providerId} credentials verified`,
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: result.credentials_error || `Missing: ${result.missing_keys.join(', ')}`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error testing credentials:', error);
+      toast({
+        title: "Error",
+        description: "Failed to test credentials",
+        variant: "destructive",
+      });
+    } finally {
+      setTestingProvider(null);
+    }
+  };
+
   const toggleVisibility = (keyName: string) => {
     setVisibleKeys(prev => ({
       ...prev,
@@ -327,12 +284,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
                         <p className="text-xs">{provider.description}</p>
                         
                         <div>
-                          <p className="font-medium text-foreground mb-2">Required Keys:</p>
+                          <p className="font-medium text-foreground mb-2">Keys:</p>
                           <div className="space-y-2">
-                            {provider.keys.map(key => (
-                              <div key={key} className="bg-muted/50 p-2 rounded">
-                                <code className="text-xs font-mono text-foreground">{key}</code>
-                                <p className="text-xs mt-1">{provider.keyInfo[key]}</p>
+                            {provider.settings.map(setting => (
+                              <div key={setting.key} className="bg-muted/50 p-2 rounded">
+                                <code className="text-xs font-mono text-foreground">{setting.key}</code>
+                                {!setting.required && <span className="text-xs ml-2">(optional)</span>}
+                                <p className="text-xs mt-1">{setting.description}</p>
                               </div>
                             ))}
                           </div>
@@ -350,6 +308,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
           </TabsContent>
           
           <TabsContent value="configure" className="space-y-4 flex-1 flex flex-col">
+            {providers.length > 0 && (
             <Tabs defaultValue={providers[0].id} orientation="vertical" className="flex flex-col flex-1">
               <div className="relative group">
                 {/* Left scroll button */}
@@ -415,18 +374,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      {provider.keys.map(keyName => (
+                      {provider.settings.map(({ key: keyName, description, secret, default: defaultValue }) => (
                         <div key={keyName} className="space-y-2">
                           <Label htmlFor={keyName}>{keyName}</Label>
-                          {provider.keyInfo?.[keyName] && (
-                            <p className="text-xs text-muted-foreground">{provider.keyInfo[keyName]}</p>
+                          {description && (
+                            <p className="text-xs text-muted-foreground">{description}</p>
                           )}
                           <div className="flex space-x-2">
                             <div className="relative flex-1">
                               <Input
                                 id={keyName}
-                                type={visibleKeys[keyName] ? "text" : "password"}
-                                placeholder={provider.keyDefaults?.[keyName] || `Enter ${keyName}`}
+                                type={visibleKeys[keyName] || !secret ? "text" : "password"}
+                                placeholder={defaultValue || `Enter ${keyName}`}
                                 value={providerSettings[provider.id]?.[keyName] || ''}
                                 onChange={(e) => {
                                   const value = e.target.value;
@@ -439,19 +398,21 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
                                   }));
                                 }}
                               />
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                                onClick={() => toggleVisibility(keyName)}
-                              >
-                                {visibleKeys[keyName] ? (
-                                  <EyeOff className="h-4 w-4" />
-                                ) : (
-                                  <Eye className="h-4 w-4" />
-                                )}
-                              </Button>
+                              {secret && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                                  onClick={() => toggleVisibility(keyName)}
+                                >
+                                  {visibleKeys[keyName] ? (
+                                    <EyeOff className="h-4 w-4" />
+                                  ) : (
+                                    <Eye className="h-4 w-4" />
+                                  )}
+                                </Button>
+                              )}
                             </div>
                             <Button
                               onClick={() => handleSaveSetting(provider.id, keyName, providerSettings[provider.id]?.[keyName] || '')}
@@ -470,12 +431,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ trigger }) => {
                           </div>
                         </div>
                       ))}
+                      {provider.category === 'dns' && (
+                        <Button
+                          variant="outline"
+                          onClick={() => handleTestCredentials(provider.id)}
+                          disabled={testingProvider === provider.id}
+                        >
+                          {testingProvider === provider.id ? 'Testing...' : 'Test Credentials'}
+                        </Button>
+                      )}
                     </CardContent>
                   </Card>
                 </TabsContent>
               ))}
               </div>
             </Tabs>
+            )}
           </TabsContent>
         </Tabs>
       </DialogContent>
@@ -0,0 +1,132 @@
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { API_BASE_URL, AUTH_UNAUTHORIZED_EVENT } from '@/lib/api';
+import { debugError } from '@/lib/debug';
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+interface AuthContextType {
+  user: AuthUser | null;
+  loading: boolean;
+  setupRequired: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  setup: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  hasRole: (role: UserRole) => boolean;
+}
+
+// Each role includes the permissions of the roles below it
+const ROLE_LEVELS: Record<UserRole, number> = {
+  viewer: 1,
+  operator: 2,
+  admin: 3
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+// Auth endpoints report their own error messages, so they bypass apiCall
+const authRequest = async (endpoint: string, options: RequestInit = {}) => {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+    ...options,
+  });
+
+  const data = response.status === 204 ? null : await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const details = Array.isArray(data?.details) ? `: ${data.details.join(', ')}` : '';
+    throw new Error(`${data?.error || `Request failed: ${response.status}`}${details}`);
+  }
+
+  return data;
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [setupRequired, setSetupRequired] = useState(false);
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const status = await authRequest('/auth/status');
+        setSetupRequired(Boolean(status?.setupRequired));
+        if (!status?.setupRequired) {
+          const me = await authRequest('/auth/me');
+          setUser(me.user);
+        }
+      } catch {
+        // No valid session - show the login screen
+        setUser(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSession();
+
+    const handleUnauthorized = () => setUser(null);
+    window.addEventListener(AUTH_UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(AUTH_UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const data = await authRequest('/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ username, password })
+    });
+    setUser(data.user);
+  }, []);
+
+  const setup = useCallback(async (username: string, password: string) => {
+    const data = await authRequest('/auth/setup', {
+      method: 'POST',
+      body: JSON.stringify({ username, password })
+    });
+    setSetupRequired(false);
+    setUser(data.user);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await authRequest('/auth/logout', { method: 'POST' });
+    } catch (error) {
+      debugError('Logout failed:', error);
+    } finally {
+      setUser(null);
+    }
+  }, []);
+
+  const hasRole = useCallback((role: UserRole): boolean => {
+    if (!user) return false;
+    return ROLE_LEVELS[user.role] >= ROLE_LEVELS[role];
+  }, [user]);
+
+  return (
+    <AuthContext.Provider value={{
+      user,
+      loading,
+      setupRequired,
+      login,
+      setup,
+      logout,
+      hasRole
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within AuthProvider');
+  }
+  return context;
+};
@@ -47,6 +47,8 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     // Create socket connection
     const newSocket = io(backendUrl, {
       path: '/socket.io/',
+      // Send the session cookie so the server can authenticate the socket
+      withCredentials: true,
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionDelay: 1000,
@@ -244,7 +246,7 @@ export const useServiceRestart = (connectionId: number) => {
 
 // Specific hook for certificate renewal operations
 export const useCertificateRenewal = (connectionId: number) => {
-  const { getActiveOperation, hasActiveOperation, subscribeToConnection, unsubscribeFromConnection, connected, operations } = useWebSocket();
+  const { getActiveOperation, getConnectionOperations, hasActiveOperation, subscribeToConnection, unsubscribeFromConnection, connected, operations } = useWebSocket();
 
   useEffect(() => {
     if (connectionId && connected) {
@@ -260,6 +262,12 @@ export const useCertificateRenewal = (connectionId: number) => {
   const activeOperation = getActiveOperation(connectionId, 'certificate_renewal');
   const isRenewing = hasActiveOperation(connectionId, 'certificate_renewal');
 
+  // The backend fails renewals cut short by a restart with this message and the reason as error
+  const [lastOperation] = getConnectionOperations(connectionId, 'certificate_renewal');
+  const interruptedReason = lastOperation?.status === 'failed' && lastOperation.message === 'Certificate renewal interrupted'
+    ? lastOperation.error
+    : undefined;
+
   debugLog(`useCertificateRenewal hook for connection ${connectionId}:`, {
     activeOperation: activeOperation ? { id: activeOperation.id, status: activeOperation.status, progress: activeOperation.progress } : null,
     isRenewing,
@@ -274,6 +282,7 @@ export const useCertificateRenewal = (connectionId: number) => {
     message: activeOperation?.message || '',
     error: activeOperation?.error,
     status: activeOperation?.status || 'idle',
-    renewalStatus: activeOperation?.metadata?.renewal_status || 'pending'
+    renewalStatus: activeOperation?.metadata?.renewal_status || 'pending',
+    interruptedReason
   };
 };
\ No newline at end of file
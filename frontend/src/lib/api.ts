@@ -15,11 +15,15 @@ const getApiUrl = (): string => {
 
 export const API_BASE_URL = getApiUrl();
 
+// Dispatched on window whenever the backend rejects a request with 401
+export const AUTH_UNAUTHORIZED_EVENT = 'auth:unauthorized';
+
 // Helper function to make API calls
 export const apiCall = async (endpoint: string, options: RequestInit = {}) => {
   const url = API_BASE_URL ? `${API_BASE_URL}${endpoint}` : endpoint;
   
   const response = await fetch(url, {
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
       ...options.headers,
@@ -27,6 +31,11 @@ export const apiCall = async (endpoint: string, options: RequestInit = {}) => {
     ...options,
   });
 
+  // Session expired or was revoked - let the AuthProvider return to the login screen
+  if (response.status === 401) {
+    window.dispatchEvent(new Event(AUTH_UNAUTHORIZED_EVENT));
+  }
+
   if (!response.ok) {
     throw new Error(`API call failed: ${response.status} ${response.statusText}`);
   }
@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { KeyRound, Plus, Copy, Ban, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiCall } from "@/lib/api";
+
+type ApiTokenScope = 'read' | 'renew' | 'settings' | 'key-export';
+
+interface ApiToken {
+  id: number;
+  name: string;
+  scopes: ApiTokenScope[];
+  connection_ids: number[] | null;
+  created_by_username?: string;
+  expires_at?: string | null;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  created_at?: string;
+}
+
+interface ConnectionSummary {
+  id: number;
+  name: string;
+}
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: 'Read connections, certificate status, logs and metrics',
+  renew: 'Trigger certificate renewals and service restarts',
+  settings: 'Read and change provider settings',
+  'key-export': 'Download private keys'
+};
+
+const ApiTokens = () => {
+  const { toast } = useToast();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [connections, setConnections] = useState<ConnectionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read']);
+  const [allConnections, setAllConnections] = useState(true);
+  const [connectionIds, setConnectionIds] = useState<number[]>([]);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+      duration: 5000,
+    });
+  }, [toast]);
+
+  const fetchTokens = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [tokensResponse, connectionsResponse] = await Promise.all([
+        apiCall('/tokens'),
+        apiCall('/data')
+      ]);
+      setTokens(await tokensResponse.json());
+      setConnections(await connectionsResponse.json());
+    } catch (error) {
+      showError(`Failed to fetch API tokens: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope, enabled: boolean) => {
+    setScopes(prev => enabled ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const toggleConnection = (id: number, enabled: boolean) => {
+    setConnectionIds(prev => enabled ? [...prev, id] : prev.filter(c => c !== id));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const response = await apiCall('/tokens', {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          scopes,
+          connection_ids: allConnections ? null : connectionIds,
+          // Tokens expire at the end of the chosen day
+          expires_at: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null
+        }),
+      });
+      const created = await response.json();
+      setNewToken(created.token);
+      setName('');
+      setScopes(['read']);
+      setAllConnections(true);
+      setConnectionIds([]);
+      setExpiresOn('');
+      await fetchTokens();
+    } catch (error) {
+      showError(`Failed to create API token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({
+        title: "Copied",
+        description: "API token copied to clipboard",
+        duration: 2000,
+      });
+    } catch {
+      showError('Failed to copy token to clipboard');
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke API token ${token.name}? Clients using it will stop working immediately.`)) return;
+
+    try {
+      await apiCall(`/tokens/${token.id}`, { method: 'DELETE' });
+      await fetchTokens();
+    } catch (error) {
+      showError(`Failed to revoke API token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return 'Never';
+    const date = new Date(dateString.includes('T') ? dateString : `${dateString.replace(' ', 'T')}Z`);
+    return isNaN(date.getTime()) ? dateString : date.toLocaleString();
+  };
+
+  const getTokenStatus = (token: ApiToken) => {
+    if (token.revoked_at) return { label: 'Revoked', className: 'bg-gray-100 text-gray-800' };
+    if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) {
+      return { label: 'Expired', className: 'bg-orange-100 text-orange-800' };
+    }
+    return { label: 'Active', className: 'bg-green-100 text-green-800' };
+  };
+
+  const getConnectionNames = (ids: number[] | null) => {
+    if (!ids) return 'All connections';
+    return ids.map(id => connections.find(c => c.id === id)?.name || `#${id}`).join(', ');
+  };
+
+  return (
+    <div className="min-h-full w-full py-20 relative bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-slate-900 dark:to-indigo-950">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div>
+          <h1 className="scroll-m-20 text-4xl font-extrabold tracking-tight lg:text-5xl mb-2">API Tokens</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-300">
+            Scoped tokens for scripts and automation clients
+          </p>
+        </div>
+
+        {newToken && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertTitle>Copy your new token now</AlertTitle>
+            <AlertDescription>
+              <p className="mb-2">It will not be shown again. Send it as <code>Authorization: Bearer &lt;token&gt;</code>.</p>
+              <div className="flex items-center space-x-2">
+                <code className="flex-1 p-2 rounded bg-muted font-mono text-xs break-all">{newToken}</code>
+                <Button variant="outline" size="sm" onClick={handleCopy} title="Copy token">
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setNewToken(null)}>
+                  Done
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="bg-card/85 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Plus className="w-5 h-5 mr-2" />
+              Create Token
+            </CardTitle>
+            <CardDescription>Tokens act only within their scopes and connections, independent of any user role</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="token-name">Name</Label>
+                  <Input id="token-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="nightly-renewal-script" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="token-expires">Expires (optional)</Label>
+                  <Input id="token-expires" type="date" value={expiresOn} onChange={(e) => setExpiresOn(e.target.value)} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {(Object.keys(SCOPE_DESCRIPTIONS) as ApiTokenScope[]).map(scope => (
+                    <div key={scope} className="flex items-center justify-between p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                      <div>
+                        <p className="font-medium text-sm">{scope}</p>
+                        <p className="text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</p>
+                      </div>
+                      <Switch checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked)} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Switch id="token-all-connections" checked={allConnections} onCheckedChange={setAllConnections} />
+                  <Label htmlFor="token-all-connections">All connections</Label>
+                </div>
+                {!allConnections && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                    {connections.map(connection => (
+                      <div key={connection.id} className="flex items-center space-x-2 p-2 rounded border border-gray-200 dark:border-gray-700">
+                        <Switch
+                          checked={connectionIds.includes(connection.id)}
+                          onCheckedChange={(checked) => toggleConnection(connection.id, checked)}
+                        />
+                        <span className="text-sm truncate">{connection.name}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                disabled={creating || scopes.length === 0 || (!allConnections && connectionIds.length === 0)}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                {creating ? 'Creating...' : 'Create Token'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/85 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center">
+              <KeyRound className="w-5 h-5 mr-2" />
+              Tokens ({tokens.length})
+            </CardTitle>
+            <Button onClick={fetchTokens} variant="outline" size="sm" disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {tokens.length === 0 && !loading && (
+              <p className="text-sm text-muted-foreground">No API tokens have been created yet.</p>
+            )}
+            {tokens.map((token) => {
+              const status = getTokenStatus(token);
+              return (
+                <div key={token.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center flex-wrap gap-2">
+                      <span className="font-medium truncate">{token.name}</span>
+                      <Badge className={status.className}>{status.label}</Badge>
+                      {token.scopes.map(scope => (
+                        <Badge key={scope} variant="outline">{scope}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{getConnectionNames(token.connection_ids)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Created by {token.created_by_username || 'unknown'} · Last used: {formatDate(token.last_used_at)} · Expires: {formatDate(token.expires_at)}
+                    </p>
+                  </div>
+                  {!token.revoked_at && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(token)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ApiTokens;
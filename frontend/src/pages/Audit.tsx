@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollText, Filter, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiCall } from "@/lib/api";
+
+type AuditActorType = 'user' | 'api_token' | 'system';
+
+interface AuditEvent {
+  id: number;
+  actor_type: AuditActorType;
+  actor_id?: number | null;
+  actor_name: string;
+  action: string;
+  target_type: string;
+  target_id?: string | null;
+  target_name?: string | null;
+  changes?: Record<string, { before: unknown; after: unknown }> | null;
+  details?: string | null;
+  ip_address?: string | null;
+  created_at: string;
+}
+
+interface AuditFilters {
+  actor: string;
+  action: string;
+  target_type: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', action: '', target_type: '', from: '', to: '' };
+
+const ACTION_GROUPS = ['auth', 'user', 'token', 'connection', 'setting', 'certificate', 'operation', 'service'];
+
+const TARGET_TYPES = ['connection', 'setting', 'user', 'api_token', 'operation'];
+
+const getActorColor = (actorType: AuditActorType) => {
+  switch (actorType) {
+    case 'api_token': return 'bg-purple-100 text-purple-800';
+    case 'system': return 'bg-gray-100 text-gray-800';
+    default: return 'bg-blue-100 text-blue-800';
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const Audit = () => {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+      duration: 5000,
+    });
+  }, [toast]);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      Object.entries(appliedFilters).forEach(([key, value]) => {
+        if (!value) return;
+        // Date inputs are local days; send the whole day as UTC instants
+        if (key === 'from') params.set(key, new Date(`${value}T00:00:00`).toISOString());
+        else if (key === 'to') params.set(key, new Date(`${value}T23:59:59`).toISOString());
+        else params.set(key, value);
+      });
+
+      const response = await apiCall(`/audit?${params.toString()}`);
+      const data = await response.json();
+      setEvents(data.events);
+      setTotal(data.total);
+    } catch (error) {
+      showError(`Failed to fetch audit events: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, appliedFilters, showError]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+    setPage(1);
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString.includes('T') ? dateString : `${dateString.replace(' ', 'T')}Z`);
+    return isNaN(date.getTime()) ? dateString : date.toLocaleString();
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-full w-full py-20 relative bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-slate-900 dark:to-indigo-950">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div>
+          <h1 className="scroll-m-20 text-4xl font-extrabold tracking-tight lg:text-5xl mb-2">Audit Trail</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-300">
+            Who changed what, and when
+          </p>
+        </div>
+
+        <Card className="bg-card/85 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Filter className="w-5 h-5 mr-2" />
+              Filters
+            </CardTitle>
+            <CardDescription>Secret values are never recorded, only the fact that they changed</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleApply} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="audit-actor">Actor</Label>
+                <Input id="audit-actor" value={filters.actor} onChange={(e) => updateFilter('actor', e.target.value)} placeholder="Username or token" />
+              </div>
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={filters.action || 'all'} onValueChange={(value) => updateFilter('action', value === 'all' ? '' : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {ACTION_GROUPS.map(group => (
+                      <SelectItem key={group} value={group}>{group}.*</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Target</Label>
+                <Select value={filters.target_type || 'all'} onValueChange={(value) => updateFilter('target_type', value === 'all' ? '' : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All targets</SelectItem>
+                    {TARGET_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+              </div>
+              <div className="md:col-span-5 flex space-x-2">
+                <Button type="submit">Apply</Button>
+                <Button type="button" variant="outline" onClick={handleReset}>Reset</Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/85 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center">
+              <ScrollText className="w-5 h-5 mr-2" />
+              Events ({total})
+            </CardTitle>
+            <Button onClick={fetchEvents} variant="outline" size="sm" disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {events.length === 0 && !loading && (
+              <p className="text-sm text-muted-foreground">No audit events match these filters.</p>
+            )}
+            {events.map((event) => (
+              <div key={event.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-1">
+                <div className="flex items-center flex-wrap gap-2">
+                  <Badge variant="outline" className="font-mono">{event.action}</Badge>
+                  <Badge className={getActorColor(event.actor_type)}>{event.actor_name}</Badge>
+                  <span className="text-sm">
+                    {event.target_type}
+                    {event.target_name ? ` ${event.target_name}` : ''}
+                    {event.target_id ? ` (#${event.target_id})` : ''}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(event.created_at)}{event.ip_address ? ` · ${event.ip_address}` : ''}
+                </p>
+                {event.details && <p className="text-sm">{event.details}</p>}
+                {event.changes && (
+                  <div className="text-xs font-mono space-y-0.5">
+                    {Object.entries(event.changes).map(([field, change]) => (
+                      <p key={field} className="break-all">
+                        <span className="font-semibold">{field}</span>: {formatValue(change.before)} → {formatValue(change.after)}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">Page {page} of {totalPages}</span>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={loading || page <= 1}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(p => p + 1)} disabled={loading || page >= totalPages}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
@@ -5,9 +5,11 @@ import AddConnectionModal from "@/components/AddConnectionModalTabbed";
 import SettingsModal from "@/components/SettingsModal";
 import { apiCall } from '../lib/api';
 import { filterEnabledConnections } from '../lib/connection-utils';
+import { useAuth } from '../contexts/AuthContext';
 
 function App() {
   const [data, setData] = useState([]);
+  const { hasRole } = useAuth();
 
   const fetchData = async () => {
     try {
@@ -39,10 +41,12 @@ function App() {
               Manage your network application connections ({data.length} total, {filterEnabledConnections(data).length} enabled)
             </p>
           </div>
-          <div className="flex space-x-2">
-            <AddConnectionModal onConnectionAdded={handleDataAdded} />
-            <SettingsModal />
-          </div>
+          {hasRole('admin') && (
+            <div className="flex space-x-2">
+              <AddConnectionModal onConnectionAdded={handleDataAdded} />
+              <SettingsModal />
+            </div>
+          )}
         </div>
         
         {data.length > 0 ? (
@@ -51,9 +55,9 @@ function App() {
           <div className="text-center py-12">
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No connections found</h3>
             <p className="text-gray-500 mb-4">
-              Add your first server connection to get started.
+              {hasRole('admin') ? 'Add your first server connection to get started.' : 'Ask an administrator to add a server connection.'}
             </p>
-            <AddConnectionModal onConnectionAdded={handleDataAdded} />
+            {hasRole('admin') && <AddConnectionModal onConnectionAdded={handleDataAdded} />}
           </div>
         )}
       </div>
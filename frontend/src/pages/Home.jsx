@@ -14,6 +14,7 @@ import CertificateDownloadButton from "@/components/CertificateDownloadButton";
 import { apiCall } from "@/lib/api";
 import { filterEnabledConnections, getConnectionDisplayHostname, isWildcardCertificate, getCertificateValidationDomain } from "@/lib/connection-utils";
 import { useWebSocket } from "@/contexts/WebSocketContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { useCertificateSettings } from "@/hooks/useCertificateSettings";
 import templateConfig from "../../template.config.json";
 import { 
@@ -29,13 +30,15 @@ import {
   Terminal,
   RotateCcw,
   Settings,
-  Wrench
+  Wrench,
+  ArrowUpCircle
 } from "lucide-react";
 
 const Home = ({ onStatusUpdate }) => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const { getConnectionOperations } = useWebSocket();
+  const { hasRole } = useAuth();
   const certificateSettings = useCertificateSettings();
 
   // Connection state
@@ -50,6 +53,7 @@ const Home = ({ onStatusUpdate }) => {
   const [restartingService, setRestartingService] = useState(new Set());
   const [confirmRestart, setConfirmRestart] = useState(null); // {id, name} for confirmation dialog
   const [confirmCertRenewal, setConfirmCertRenewal] = useState(null); // {id, name} for confirmation dialog
+  const [confirmPromote, setConfirmPromote] = useState(null); // {id, name} for confirmation dialog
 
   // Fetch connections data
   const fetchConnectionsData = async () => {
@@ -140,6 +144,36 @@ const Home = ({ onStatusUpdate }) => {
     setCertificateStatuses(statuses);
   };
 
+  const handlePromote = async (connectionId) => {
+    try {
+      const response = await apiCall(`/data/${connectionId}/promote`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to promote connection');
+      }
+
+      toast({
+        title: "Promoted to Production",
+        description: "A production certificate is being issued. You can monitor progress in real-time.",
+        duration: 5000,
+      });
+      await fetchConnectionsData();
+    } catch (error) {
+      toast({
+        title: "Promotion Failed",
+        description: error.message,
+        variant: "destructive",
+        duration: 5000,
+      });
+    }
+  };
+
+  const formatEnvironment = (environment) => {
+    if (environment === 'production') return 'Production';
+    if (environment === 'staging') return 'Staging';
+    return 'Server default';
+  };
+
   const handleConnectionAdded = async () => {
     await fetchConnectionsData();
     
@@ -208,11 +242,15 @@ const Home = ({ onStatusUpdate }) => {
     const providers = {
       "letsencrypt": "Let's Encrypt",
       "zerossl": "ZeroSSL",
+      "gts": "Google Trust Services",
+      "sectigo": "Sectigo",
+      "acme": "Custom ACME Server",
       "cloudflare": "Cloudflare",
       "digitalocean": "DigitalOcean",
       "route53": "AWS Route53",
       "azure": "Azure DNS",
       "google": "Google Cloud DNS",
+      "rfc2136": "RFC 2136 (BIND)",
       "custom": "Custom DNS (Manual)"
     };
     return providers[provider] || provider;
@@ -270,10 +308,12 @@ const Home = ({ onStatusUpdate }) => {
               Monitor and manage SSL certificates for your network applications
             </p>
           </div>
-          <div className="mt-6 flex space-x-4">
-            <AddConnectionModal onConnectionAdded={handleConnectionAdded} />
-            <SettingsModal />
-          </div>
+          {hasRole('admin') && (
+            <div className="mt-6 flex space-x-4">
+              <AddConnectionModal onConnectionAdded={handleConnectionAdded} />
+              <SettingsModal />
+            </div>
+          )}
         </div>
 
         {/* Overall Status Cards */}
@@ -385,6 +425,15 @@ const Home = ({ onStatusUpdate }) => {
                         </span>
                       </div>
                       
+                      {connection.ssl_provider === 'letsencrypt' && (
+                        <div className="flex items-center space-x-2">
+                          <Server className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-sm">
+                            Environment: {formatEnvironment(connection.acme_environment)}
+                          </span>
+                        </div>
+                      )}
+                      
                       {connection.cert_count_this_week > 0 && (
                         <div className="flex items-center space-x-2">
                           <Zap className="h-4 w-4 text-muted-foreground" />
@@ -439,7 +488,7 @@ const Home = ({ onStatusUpdate }) => {
                     </div>
                     <div className="flex flex-wrap gap-2">
                       {/* Service Restart Button - only show for VOS apps with SSH enabled */}
-                      {connection.application_type === 'vos' && connection.enable_ssh && (
+                      {hasRole('operator') && connection.application_type === 'vos' && connection.enable_ssh && (
                         <ServiceRestartButton 
                           connection={connection}
                           onConfirmRestart={(conn) => setConfirmRestart({ id: conn.id, name: conn.name })}
@@ -447,10 +496,24 @@ const Home = ({ onStatusUpdate }) => {
                       )}
                       
                       {/* Certificate Renewal Button */}
-                      <CertificateRenewalButton 
-                        connection={connection}
-                        onConfirmRenew={() => setConfirmCertRenewal({ id: connection.id, name: connection.name })}
-                      />
+                      {hasRole('operator') && (
+                        <CertificateRenewalButton 
+                          connection={connection}
+                          onConfirmRenew={() => setConfirmCertRenewal({ id: connection.id, name: connection.name })}
+                        />
+                      )}
+                      
+                      {/* Promote a staging connection to production */}
+                      {hasRole('admin') && connection.ssl_provider === 'letsencrypt' && connection.acme_environment !== 'production' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setConfirmPromote({ id: connection.id, name: connection.name })}
+                        >
+                          <ArrowUpCircle className="mr-2 h-4 w-4" />
+                          Promote to Production
+                        </Button>
+                      )}
                       
                       {/* Certificate Download Button */}
                       <CertificateDownloadButton 
@@ -565,6 +628,40 @@ const Home = ({ onStatusUpdate }) => {
           </div>
         )}
 
+        {/* Promote to Production Confirmation Dialog */}
+        {confirmPromote && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full mx-4">
+              <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-gray-100">
+                Promote to Production
+              </h3>
+              <p className="text-gray-600 dark:text-gray-300 mb-6">
+                Switch <strong>{confirmPromote.name}</strong> to the Let's Encrypt production environment and issue a
+                production certificate now? The connection must already have a staging certificate.
+              </p>
+              <div className="flex justify-end space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmPromote(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="default"
+                  onClick={() => {
+                    handlePromote(confirmPromote.id);
+                    setConfirmPromote(null);
+                  }}
+                  className="bg-blue-600 hover:bg-blue-700 text-white"
+                >
+                  <ArrowUpCircle className="w-4 h-4 mr-2" />
+                  Promote
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
       </div>
     </div>
   );
@@ -0,0 +1,260 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users as UsersIcon, UserPlus, Trash2, KeyRound, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiCall } from "@/lib/api";
+import { useAuth, UserRole } from "@/contexts/AuthContext";
+
+interface UserAccount {
+  id: number;
+  username: string;
+  role: UserRole;
+  is_enabled: boolean;
+  last_login?: string;
+  created_at?: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: 'Read-only access to connections, certificates and logs',
+  operator: 'Viewer access plus certificate renewal and service restarts',
+  admin: 'Full access including settings, connections, users and private keys'
+};
+
+const getRoleColor = (role: UserRole) => {
+  switch (role) {
+    case 'admin': return 'bg-red-100 text-red-800';
+    case 'operator': return 'bg-blue-100 text-blue-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const Users = () => {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('viewer');
+  const [creating, setCreating] = useState(false);
+
+  const showError = useCallback((description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+      duration: 5000,
+    });
+  }, [toast]);
+
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await apiCall('/users');
+      setUsers(await response.json());
+    } catch (error) {
+      showError(`Failed to fetch users: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const updateUser = async (id: number, changes: Partial<UserAccount> & { password?: string }) => {
+    try {
+      await apiCall(`/users/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(changes),
+      });
+      await fetchUsers();
+      return true;
+    } catch (error) {
+      showError(`Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      await apiCall('/users', {
+        method: 'POST',
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole }),
+      });
+      toast({
+        title: "User Created",
+        description: `${newUsername} was added as ${newRole}`,
+        duration: 3000,
+      });
+      setNewUsername('');
+      setNewPassword('');
+      setNewRole('viewer');
+      await fetchUsers();
+    } catch (error) {
+      showError(`Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleResetPassword = async (account: UserAccount) => {
+    const password = window.prompt(`New password for ${account.username} (minimum 8 characters):`);
+    if (!password) return;
+
+    if (await updateUser(account.id, { password })) {
+      toast({
+        title: "Password Reset",
+        description: `${account.username} will need to sign in again`,
+        duration: 3000,
+      });
+    }
+  };
+
+  const handleDelete = async (account: UserAccount) => {
+    if (!window.confirm(`Delete user ${account.username}?`)) return;
+
+    try {
+      await apiCall(`/users/${account.id}`, { method: 'DELETE' });
+      await fetchUsers();
+    } catch (error) {
+      showError(`Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return 'Never';
+    const date = new Date(dateString.includes('T') ? dateString : `${dateString.replace(' ', 'T')}Z`);
+    return isNaN(date.getTime()) ? dateString : date.toLocaleString();
+  };
+
+  return (
+    <div className="min-h-full w-full py-20 relative bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-slate-900 dark:to-indigo-950">
+      <div className="max-w-6xl mx-auto px-4 space-y-6">
+        <div>
+          <h1 className="scroll-m-20 text-4xl font-extrabold tracking-tight lg:text-5xl mb-2">Users</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-300">
+            Manage dashboard accounts and their roles
+          </p>
+        </div>
+
+        <Card className="bg-card/85 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <UserPlus className="w-5 h-5 mr-2" />
+              Add User
+            </CardTitle>
+            <CardDescription>{ROLE_DESCRIPTIONS[newRole]}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="new-username">Username</Label>
+                <Input id="new-username" value={newUsername} onChange={(e) => setNewUsername(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="new-password">Password</Label>
+                <Input id="new-password" type="password" autoComplete="new-password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={newRole} onValueChange={(value) => setNewRole(value as UserRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                    <SelectItem value="operator">Operator</SelectItem>
+                    <SelectItem value="admin">Admin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={creating}>
+                <UserPlus className="mr-2 h-4 w-4" />
+                {creating ? 'Creating...' : 'Add User'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card/85 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="flex items-center">
+              <UsersIcon className="w-5 h-5 mr-2" />
+              Accounts ({users.length})
+            </CardTitle>
+            <Button onClick={fetchUsers} variant="outline" size="sm" disabled={loading}>
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {users.map((account) => {
+              const isSelf = account.id === currentUser?.id;
+              return (
+                <div key={account.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium truncate">{account.username}</span>
+                      <Badge className={getRoleColor(account.role)}>{account.role}</Badge>
+                      {isSelf && <Badge variant="outline">You</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Last login: {formatDate(account.last_login)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={account.role}
+                      onValueChange={(value) => updateUser(account.id, { role: value as UserRole })}
+                      disabled={isSelf}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                        <SelectItem value="operator">Operator</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-2 px-2" title={account.is_enabled ? 'Enabled' : 'Disabled'}>
+                      <Switch
+                        checked={account.is_enabled}
+                        onCheckedChange={(checked) => updateUser(account.id, { is_enabled: checked })}
+                        disabled={isSelf}
+                      />
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleResetPassword(account)} title="Reset password">
+                      <KeyRound className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDelete(account)}
+                      disabled={isSelf}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete user"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Users;